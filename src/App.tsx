@@ -1,59 +1,151 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
+import { BrowserRouter, Routes, Route, Navigate, Outlet, useMatch, useNavigate, useParams } from 'react-router-dom';
 import { Header } from './components/Header';
 import { Navigation } from './components/Navigation';
 import { Login } from './components/Login';
 import { GuidesView } from './components/GuidesView';
+import { GuideDetailView } from './components/GuideDetailView';
 import { RaffleView } from './components/RaffleView';
 import { WinnersView } from './components/WinnersView';
+import { WinnerDetailView } from './components/WinnerDetailView';
+import { AuditView } from './components/AuditView';
+import { FairnessView } from './components/FairnessView';
+import { PrizesView } from './components/PrizesView';
+import { VerifyView } from './components/VerifyView';
+import { VerifyPage } from './components/VerifyPage';
+import { DisplayPage } from './components/DisplayPage';
+import { NotFound } from './components/NotFound';
 import { Footer } from './components/Footer';
-import { isAuthenticated } from './utils/auth';
+import { ContestProvider } from './context/ContestProvider';
+import { useContest } from './context/contestContext';
+import { AuthProvider } from './context/AuthProvider';
+import { useAuth } from './context/authContext';
 
-function App() {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [activeTab, setActiveTab] = useState('guides');
-
-  useEffect(() => {
-    setIsLoggedIn(isAuthenticated());
-  }, []);
-
-  const handleLogin = () => {
-    setIsLoggedIn(true);
-  };
+const Spinner = () => (
+  <div className="flex items-center justify-center h-64">
+    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+  </div>
+);
 
-  const handleLogout = () => {
-    setIsLoggedIn(false);
-    setActiveTab('guides');
-  };
+// Signed-out visitors get the login in place, so the address they came for opens once they sign in
+const RequireAuth = () => {
+  const { session, loading } = useAuth();
+  const navigate = useNavigate();
+  const isVerify = useMatch('/verify');
 
-  if (!isLoggedIn) {
-    return <Login onLogin={handleLogin} />;
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
   }
 
-  const renderActiveView = () => {
-    switch (activeTab) {
-      case 'guides':
-        return <GuidesView />;
-      case 'raffle':
-        return <RaffleView />;
-      case 'winners':
-        return <WinnersView />;
-      default:
-        return <GuidesView />;
-    }
-  };
+  if (!session) {
+    // The Verify page only reads published results, so it is open without signing in
+    return isVerify ? <VerifyPage /> : <Login />;
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
-      <Header onLogout={handleLogout} />
-      <Navigation activeTab={activeTab} setActiveTab={setActiveTab} />
-      
+      <Header onLogout={() => navigate('/guides')} />
+      <Navigation />
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        {renderActiveView()}
+        <Outlet />
       </main>
-      
+
       <Footer />
     </div>
   );
+};
+
+// Every view below works on the selected contest
+const RequireContest = () => {
+  const { selectedContest, loading } = useContest();
+  const { isAdmin } = useAuth();
+
+  if (loading) return <Spinner />;
+
+  if (!selectedContest) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-white/60 text-lg">
+          {isAdmin
+            ? '✨ No contest yet. Create one from the header to get started! ✨'
+            : '✨ No contest yet. Check back once an admin has created one! ✨'}
+        </p>
+      </div>
+    );
+  }
+
+  return <Outlet />;
+};
+
+interface RequireAdminProps {
+  children: React.ReactNode;
+  allowReadOnly?: boolean;
+}
+
+// Completed contests can be browsed but not drawn, and only admins draw or manage prizes
+const RequireAdmin = ({ children, allowReadOnly = false }: RequireAdminProps) => {
+  const { isReadOnly } = useContest();
+  const { isAdmin } = useAuth();
+
+  if (!isAdmin || (isReadOnly && !allowReadOnly)) {
+    return <Navigate to="/guides" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+// Shared links look like /contests/:contestId/winners/:id: select that contest, then open the view
+const ContestLink = () => {
+  const { contestId, '*': rest } = useParams();
+  const { contests, loading, selectContest } = useContest();
+  const navigate = useNavigate();
+  const contest = contests.find(candidate => candidate.id === contestId);
+
+  useEffect(() => {
+    if (!contest) return;
+    selectContest(contest.id);
+    navigate(`/${rest || 'guides'}`, { replace: true });
+  }, [contest, rest, selectContest, navigate]);
+
+  if (loading || contest) return <Spinner />;
+
+  return <NotFound message="This contest does not exist or has been removed." />;
+};
+
+function App() {
+  return (
+    <AuthProvider>
+      <BrowserRouter>
+        <ContestProvider>
+          <Routes>
+            <Route path="/display" element={<DisplayPage />} />
+            <Route element={<RequireAuth />}>
+              <Route element={<RequireContest />}>
+                <Route index element={<Navigate to="/guides" replace />} />
+                <Route path="guides" element={<GuidesView />} />
+                <Route path="guides/:guideId" element={<GuideDetailView />} />
+                <Route path="raffle" element={<RequireAdmin><RaffleView /></RequireAdmin>} />
+                <Route path="winners" element={<WinnersView />} />
+                <Route path="winners/:winnerId" element={<WinnerDetailView />} />
+                <Route path="prizes" element={<RequireAdmin allowReadOnly><PrizesView /></RequireAdmin>} />
+                <Route path="audit" element={<RequireAdmin allowReadOnly><AuditView /></RequireAdmin>} />
+                <Route path="fairness" element={<RequireAdmin allowReadOnly><FairnessView /></RequireAdmin>} />
+                {/* Open to viewers: it shows only what the public /verify page already shows */}
+                <Route path="verify" element={<VerifyView />} />
+              </Route>
+              <Route path="contests/:contestId/*" element={<ContestLink />} />
+              <Route path="*" element={<NotFound />} />
+            </Route>
+          </Routes>
+        </ContestProvider>
+      </BrowserRouter>
+    </AuthProvider>
+  );
 }
 
-export default App;
\ No newline at end of file
+export default App;
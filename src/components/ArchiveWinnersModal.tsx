@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { X, Archive, AlertTriangle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+
+interface ArchiveWinnersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contestName: string;
+  winnerCount: number;
+  onArchive: (snapshotName: string) => Promise<void>;
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200';
+
+export const ArchiveWinnersModal: React.FC<ArchiveWinnersModalProps> = ({
+  isOpen,
+  onClose,
+  contestName,
+  winnerCount,
+  onArchive
+}) => {
+  const [snapshotName, setSnapshotName] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isArchiving, setIsArchiving] = useState(false);
+
+  // Every opening starts with a fresh, dated snapshot name and an empty confirmation
+  useEffect(() => {
+    if (isOpen) {
+      setSnapshotName(`Archived ${new Date().toLocaleString()}`);
+      setConfirmation('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  const isConfirmed = confirmation.trim() === contestName.trim();
+
+  const handleArchive = async () => {
+    setIsArchiving(true);
+    setError('');
+    try {
+      await onArchive(snapshotName.trim());
+      onClose();
+    } catch (archiveError) {
+      console.error('Failed to archive winners:', archiveError);
+      setError(friendlyErrorMessage(archiveError, 'Failed to archive winners. Please try again.'));
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-lg border border-white/20"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/20">
+          <div className="flex items-center space-x-3">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r from-red-500 to-pink-600 rounded-xl shadow-lg">
+              <Archive className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Archive All Winners</h2>
+              <p className="text-blue-200">{winnerCount} winner(s) leave {contestName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-6 h-6 text-white" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-start gap-3 bg-orange-500/20 border border-orange-300/30 rounded-xl p-4">
+            <AlertTriangle className="w-5 h-5 text-orange-200 shrink-0 mt-0.5" />
+            <p className="text-sm text-orange-100">
+              The winners are moved into a snapshot and their prizes can be drawn again. The snapshot can be
+              restored later from the Snapshots list, as long as its guides and prizes still fit the contest.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-blue-200 mb-2">Snapshot name</label>
+            <input
+              type="text"
+              value={snapshotName}
+              onChange={(e) => setSnapshotName(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-blue-200 mb-2">
+              Type <span className="font-bold text-white">{contestName}</span> to confirm
+            </label>
+            <input
+              type="text"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder={contestName}
+              className={inputClassName}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-6 py-3 bg-white/20 border border-white/30 text-white rounded-full font-semibold hover:bg-white/30 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleArchive}
+              disabled={!isConfirmed || !snapshotName.trim() || isArchiving}
+              className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-full font-semibold hover:from-red-600 hover:to-pink-700 focus:ring-4 focus:ring-red-500/50 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Archive className="w-5 h-5 mr-2" />
+              {isArchiving ? 'Archiving...' : 'Archive Winners'}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
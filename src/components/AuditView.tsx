@@ -0,0 +1,243 @@
+import React, { useState, useMemo } from 'react';
+import { Search, ScrollText, FileSpreadsheet, FileText, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { useAuditEvents } from '../hooks/useAuditEvents';
+import { useContest } from '../context/contestContext';
+import { AuditEventType } from '../types';
+import { AUDIT_EVENT_LABELS, describeAuditEvent } from '../utils/audit';
+import { exportAuditEvents } from '../utils/exportUtils';
+
+const EVENT_BADGE_CLASSES: Record<AuditEventType, string> = {
+  draw_started: 'bg-blue-500/30 text-blue-100',
+  draw_aborted: 'bg-orange-500/30 text-orange-100',
+  draw_restarted: 'bg-orange-500/30 text-orange-100',
+  winners_saved: 'bg-green-500/30 text-green-100',
+  winners_purged: 'bg-red-500/30 text-red-100',
+  winners_archived: 'bg-red-500/30 text-red-100',
+  winners_restored: 'bg-green-500/30 text-green-100',
+  winner_voided: 'bg-red-500/30 text-red-100',
+  roster_imported: 'bg-purple-500/30 text-purple-100',
+  ticket_rules_saved: 'bg-purple-500/30 text-purple-100',
+  prize_edited: 'bg-yellow-500/30 text-yellow-100',
+  quota_rules_saved: 'bg-yellow-500/30 text-yellow-100',
+  seed_committed: 'bg-blue-500/30 text-blue-100',
+  contest_created: 'bg-white/20 text-blue-100',
+  contest_completed: 'bg-white/20 text-blue-100'
+};
+
+const selectClassName = 'px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200';
+
+export const AuditView: React.FC = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedType, setSelectedType] = useState('');
+  const [selectedActor, setSelectedActor] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { selectedContest } = useContest();
+  const contestId = selectedContest?.id ?? null;
+  const { events, loading, fetchEvents } = useAuditEvents(contestId);
+
+  const actors = useMemo(() => {
+    return Array.from(new Set(events.map(event => event.actor_email || event.actor_id || 'Unknown'))).sort();
+  }, [events]);
+
+  const filteredEvents = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    // Date inputs are local calendar days; the upper bound includes the whole day
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : null;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : null;
+
+    return events.filter(event => {
+      const actor = event.actor_email || event.actor_id || 'Unknown';
+      const time = new Date(event.created_at).getTime();
+      const matchesSearch = !term ||
+        describeAuditEvent(event).toLowerCase().includes(term) ||
+        JSON.stringify(event.payload).toLowerCase().includes(term) ||
+        actor.toLowerCase().includes(term);
+      const matchesType = !selectedType || event.event_type === selectedType;
+      const matchesActor = !selectedActor || actor === selectedActor;
+      const matchesDates = (from === null || time >= from) && (to === null || time <= to);
+
+      return matchesSearch && matchesType && matchesActor && matchesDates;
+    });
+  }, [events, searchTerm, selectedType, selectedActor, fromDate, toDate]);
+
+  const handleExport = (format: 'xlsx' | 'csv') => {
+    if (filteredEvents.length === 0) {
+      alert('No audit events to export!');
+      return;
+    }
+    exportAuditEvents(filteredEvents, selectedContest?.name ?? 'Contest', format);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 space-y-6 p-6">
+      {/* Header with Export Options */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-8 text-white border border-white/20 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-4xl font-bold mb-2 bg-gradient-to-r from-blue-300 to-cyan-300 bg-clip-text text-transparent">
+              📜 Audit Log 📜
+            </h2>
+            <p className="text-blue-100 text-lg">Every draw, archive and configuration change in {selectedContest?.name}, newest first</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={fetchEvents}
+              className="inline-flex items-center px-4 py-2 bg-white/20 border border-white/30 text-white rounded-full font-semibold hover:bg-white/30 focus:ring-4 focus:ring-white/30 transition-all duration-300 shadow-lg transform hover:scale-105"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </button>
+            <button
+              onClick={() => handleExport('xlsx')}
+              className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-full font-semibold hover:from-green-600 hover:to-emerald-700 focus:ring-4 focus:ring-green-500/50 transition-all duration-300 shadow-lg transform hover:scale-105"
+            >
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Excel
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-full font-semibold hover:from-blue-600 hover:to-indigo-700 focus:ring-4 focus:ring-blue-500/50 transition-all duration-300 shadow-lg transform hover:scale-105"
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              CSV
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/60" />
+              <input
+                type="text"
+                placeholder="🔍 Search events..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <select value={selectedType} onChange={(e) => setSelectedType(e.target.value)} className={selectClassName}>
+              <option value="">All Events</option>
+              {(Object.keys(AUDIT_EVENT_LABELS) as AuditEventType[]).map(type => (
+                <option key={type} value={type}>{AUDIT_EVENT_LABELS[type]}</option>
+              ))}
+            </select>
+
+            <select value={selectedActor} onChange={(e) => setSelectedActor(e.target.value)} className={selectClassName}>
+              <option value="">All Users</option>
+              {actors.map(actor => (
+                <option key={actor} value={actor}>{actor}</option>
+              ))}
+            </select>
+
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className={selectClassName}
+              aria-label="From date"
+            />
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className={selectClassName}
+              aria-label="To date"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Events Table */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-2xl shadow-xl overflow-hidden border border-white/20">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-white/20 backdrop-blur-sm">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider">
+                  Event
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider">
+                  Details
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {filteredEvents.map((event) => {
+                const isExpanded = expandedId === event.id;
+                return (
+                  <React.Fragment key={event.id}>
+                    <tr
+                      onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                      className="hover:bg-white/10 transition-colors duration-300 cursor-pointer"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
+                        <div>{new Date(event.created_at).toLocaleDateString()}</div>
+                        <div className="text-xs text-blue-200">{new Date(event.created_at).toLocaleTimeString()}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-3 py-1 text-xs font-bold rounded-full ${EVENT_BADGE_CLASSES[event.event_type] || 'bg-white/20 text-white'}`}>
+                          {AUDIT_EVENT_LABELS[event.event_type] || event.event_type}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
+                        {event.actor_email || event.actor_id || 'Unknown'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-white">
+                        <div className="flex items-center gap-2">
+                          {isExpanded ? <ChevronDown className="w-4 h-4 text-blue-200 shrink-0" /> : <ChevronRight className="w-4 h-4 text-blue-200 shrink-0" />}
+                          <span>{describeAuditEvent(event)}</span>
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-black/20">
+                        <td colSpan={4} className="px-6 py-4">
+                          <pre className="text-xs text-blue-100 font-mono whitespace-pre-wrap break-all">
+                            {JSON.stringify(event.payload, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filteredEvents.length === 0 && (
+          <div className="text-center py-12">
+            <ScrollText className="w-10 h-10 text-white/40 mx-auto mb-3" />
+            <p className="text-white/60 text-lg">
+              {events.length === 0 ? '✨ Nothing has been recorded for this contest yet ✨' : '✨ No events match these filters ✨'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
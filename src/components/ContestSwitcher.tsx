@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Plus, Flag } from 'lucide-react';
+import { useContest } from '../context/contestContext';
+import { useAuth } from '../context/authContext';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+
+export const ContestSwitcher: React.FC = () => {
+  const { contests, selectedContest, selectContest, createContest, completeContest } = useContest();
+  const { isAdmin } = useAuth();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleCreateContest = async () => {
+    const name = window.prompt(
+      `Name of the new contest? Its guide pool and prize categories will be copied from "${selectedContest?.name ?? 'the defaults'}".`
+    );
+    if (!name || !name.trim()) return;
+
+    setIsBusy(true);
+    try {
+      await createContest(name.trim());
+    } catch (error) {
+      console.error('Failed to create contest:', error);
+      alert(friendlyErrorMessage(error, 'Failed to create contest. Please try again.'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCompleteContest = async () => {
+    if (!selectedContest) return;
+
+    const confirmed = window.confirm(
+      `Mark "${selectedContest.name}" as completed? Its guides, tickets and winners will become read-only.`
+    );
+    if (!confirmed) return;
+
+    setIsBusy(true);
+    try {
+      await completeContest(selectedContest.id);
+    } catch (error) {
+      console.error('Failed to complete contest:', error);
+      alert(friendlyErrorMessage(error, 'Failed to complete contest. Please try again.'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={selectedContest?.id ?? ''}
+        onChange={(e) => selectContest(e.target.value)}
+        disabled={isBusy || contests.length === 0}
+        className="px-4 py-2 bg-white/20 backdrop-blur-sm border border-white/30 rounded-full text-white text-sm font-semibold focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+      >
+        {contests.length === 0 && <option value="">No contests</option>}
+        {contests.map(contest => (
+          <option key={contest.id} value={contest.id} className="text-black">
+            {contest.status === 'completed' ? `📚 ${contest.name}` : `🎪 ${contest.name}`}
+          </option>
+        ))}
+      </select>
+
+      {isAdmin && selectedContest?.status === 'active' && (
+        <button
+          onClick={handleCompleteContest}
+          disabled={isBusy}
+          title="Complete contest"
+          className="p-2 border border-white/30 rounded-full text-white bg-white/20 backdrop-blur-sm hover:bg-white/30 disabled:opacity-50 transition-all duration-300"
+        >
+          <Flag className="w-4 h-4" />
+        </button>
+      )}
+
+      {isAdmin && (
+        <button
+          onClick={handleCreateContest}
+          disabled={isBusy}
+          title="New contest"
+          className="p-2 border border-white/30 rounded-full text-white bg-white/20 backdrop-blur-sm hover:bg-white/30 disabled:opacity-50 transition-all duration-300"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
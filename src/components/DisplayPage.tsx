@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Ticket, Trophy } from 'lucide-react';
+import { useContest } from '../context/contestContext';
+import { useWinners } from '../hooks/useWinners';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { useContestGuides } from '../hooks/useContestGuides';
+import { useDisplayState } from '../hooks/useDrawDisplay';
+import { activeWinners } from '../utils/ticketSystem';
+
+const SCROLL_INTERVAL_MS = 80;
+
+const formatTicket = (ticket: number) => `#${ticket.toString().padStart(4, '0')}`;
+
+// Full-screen audience view for a projector: follows the presenter's draw over realtime
+// and shows the standings between draws. Read-only and open without signing in.
+export const DisplayPage: React.FC = () => {
+  const { contests, selectedContest, selectContest, loading } = useContest();
+  const contestId = selectedContest?.id ?? null;
+  const state = useDisplayState(contestId);
+  const { winners } = useWinners(contestId);
+  const { activeCategories } = usePrizeCategories(contestId);
+  const { guides } = useContestGuides(contestId);
+  const [scrollTicket, setScrollTicket] = useState<number | null>(null);
+
+  const ticketCount = useMemo(() => guides.reduce((sum, guide) => sum + guide.totalTickets, 0), [guides]);
+
+  // Purely cosmetic, like the presenter's own scroll: the result only arrives with the reveal
+  useEffect(() => {
+    if (state.phase !== 'drawing' || ticketCount === 0) return;
+
+    const interval = setInterval(() => {
+      setScrollTicket(Math.floor(Math.random() * ticketCount) + 1);
+    }, SCROLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [state.phase, ticketCount]);
+
+  const standings = useMemo(() => {
+    const current = activeWinners(winners);
+    return activeCategories.map(category => ({
+      category,
+      winners: current.filter(winner => winner.prize_category === category.id)
+    }));
+  }, [winners, activeCategories]);
+
+  const latest = state.revealed[state.revealed.length - 1];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex flex-col p-8 text-white">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
+          🎪 {selectedContest?.name ?? 'Big Dollar Contest'} 🎪
+        </h1>
+        {/* Kept faint so it does not distract on the big screen */}
+        <select
+          value={selectedContest?.id ?? ''}
+          onChange={(e) => selectContest(e.target.value)}
+          disabled={contests.length === 0}
+          className="px-3 py-1 bg-transparent border border-white/10 rounded-full text-white/30 text-xs hover:text-white/80 hover:border-white/30 transition-all duration-200"
+        >
+          {contests.length === 0 && <option value="">No contests</option>}
+          {contests.map(contest => (
+            <option key={contest.id} value={contest.id} className="text-black">
+              {contest.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-600"></div>
+        </div>
+      ) : state.phase === 'standings' || !state.category ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {standings.map(({ category, winners: categoryWinners }) => (
+            <div key={category.id} className="bg-white/10 backdrop-blur-xl rounded-3xl p-6 border border-white/20 shadow-2xl">
+              <div className="flex items-center space-x-3 mb-4">
+                <div className={`inline-flex items-center justify-center w-14 h-14 bg-gradient-to-r ${category.gradient} rounded-xl shadow-lg`}>
+                  <span className="text-3xl">{category.icon}</span>
+                </div>
+                <div>
+                  <h2 className="text-2xl font-bold">{category.name}</h2>
+                  <p className="text-blue-200">
+                    {categoryWinners.length} of {category.winnerCount} drawn
+                  </p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                {categoryWinners.map(winner => (
+                  <div key={winner.id} className="flex items-center justify-between bg-white/10 rounded-xl px-4 py-2">
+                    <span className="text-lg font-semibold">{winner.name}</span>
+                    <span className="font-mono text-yellow-300">{formatTicket(winner.drawn_ticket ?? 0)}</span>
+                  </div>
+                ))}
+                {categoryWinners.length === 0 && <p className="text-white/50">Still to be drawn</p>}
+              </div>
+            </div>
+          ))}
+          {standings.length === 0 && (
+            <p className="text-white/60 text-2xl text-center col-span-full py-24">✨ The draw will start soon ✨</p>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center text-center">
+          <div className="flex items-center space-x-4 mb-4">
+            <div className={`inline-flex items-center justify-center w-20 h-20 bg-gradient-to-r ${state.category.gradient} rounded-2xl shadow-lg`}>
+              <span className="text-5xl">{state.category.icon}</span>
+            </div>
+            <h2 className="text-6xl font-bold">{state.category.name}</h2>
+          </div>
+          <p className="text-2xl text-blue-200 mb-12">
+            {state.phase === 'ready'
+              ? state.category.description
+              : `Draw ${Math.min(state.drawIndex + 1, state.totalWinners)} of ${state.totalWinners}`}
+          </p>
+
+          <div className="min-h-[20rem] flex items-center justify-center">
+            <AnimatePresence mode="wait">
+              {state.phase === 'ready' && (
+                <motion.div key="ready" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+                  {state.category.image && (
+                    <img src={state.category.image} alt={state.category.name} className="max-h-64 rounded-3xl shadow-2xl mx-auto mb-6" />
+                  )}
+                  <p className="text-3xl font-semibold">
+                    🎁 {state.totalWinners} {state.totalWinners === 1 ? 'winner' : 'winners'} to be drawn
+                  </p>
+                  {state.seedCommitment && (
+                    <p className="mt-6 text-lg text-blue-200 break-all max-w-3xl mx-auto">
+                      🔒 Seed commitment: <span className="font-mono text-white">{state.seedCommitment}</span>
+                    </p>
+                  )}
+                </motion.div>
+              )}
+
+              {state.phase === 'countdown' && (
+                <motion.div
+                  key={`countdown-${state.secondsLeft}`}
+                  initial={{ scale: 1.6, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  exit={{ scale: 0.6, opacity: 0 }}
+                  transition={{ duration: 0.4 }}
+                >
+                  <p className="text-blue-200 text-3xl font-medium mb-4">⏳ The draw begins in</p>
+                  <p className="text-[12rem] leading-none font-bold bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
+                    {state.secondsLeft}
+                  </p>
+                </motion.div>
+              )}
+
+              {state.phase === 'drawing' && (
+                <motion.div key={`drawing-${state.drawIndex}`} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+                  <p className="text-blue-200 text-3xl font-medium mb-6">🎰 Drawing a ticket...</p>
+                  <motion.div
+                    animate={{ rotate: [0, -3, 3, 0] }}
+                    transition={{ duration: 0.3, repeat: Infinity }}
+                    className="inline-flex items-center bg-yellow-400 text-black px-14 py-8 rounded-3xl font-bold text-8xl font-mono shadow-2xl"
+                  >
+                    <Ticket className="w-16 h-16 mr-6" />
+                    {scrollTicket !== null ? formatTicket(scrollTicket) : '#----'}
+                  </motion.div>
+                </motion.div>
+              )}
+
+              {state.phase === 'revealing' && latest && (
+                <motion.div
+                  key={`revealing-${state.revealed.length}`}
+                  initial={{ scale: 0, opacity: 0, rotateY: 180 }}
+                  animate={{ scale: 1, opacity: 1, rotateY: 0 }}
+                  exit={{ scale: 0, opacity: 0 }}
+                  transition={{ duration: 0.8, type: "spring", stiffness: 100, damping: 15 }}
+                >
+                  <div className="inline-flex items-center bg-yellow-400 text-black px-12 py-6 rounded-3xl font-bold text-7xl font-mono shadow-2xl mb-8">
+                    <Ticket className="w-14 h-14 mr-4" />
+                    {formatTicket(latest.ticket)}
+                  </div>
+                  <h3 className="text-7xl font-bold mb-4">🏆 {latest.name}</h3>
+                  <p className="text-3xl text-blue-100">
+                    {latest.department} • {latest.supervisor}
+                  </p>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+
+          {state.revealed.length > 1 && (
+            <div className="flex flex-wrap justify-center gap-3 mt-12">
+              {state.revealed.slice(0, -1).map(winner => (
+                <span key={winner.ticket} className="inline-flex items-center px-4 py-2 rounded-full bg-white/20 text-lg">
+                  <Trophy className="w-5 h-5 mr-2 text-yellow-300" />
+                  {winner.name}
+                  <span className="ml-2 font-mono text-yellow-300">{formatTicket(winner.ticket)}</span>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* The audience must never mistake a rehearsal for the real draw */}
+      {state.rehearsal && (
+        <div className="fixed inset-0 pointer-events-none flex items-center justify-center overflow-hidden">
+          <div className="absolute top-0 inset-x-0 bg-amber-500/90 text-center text-white text-2xl font-bold tracking-widest py-2">
+            🧪 REHEARSAL • NOT A REAL DRAW 🧪
+          </div>
+          <p className="text-[14vw] font-black text-white/10 -rotate-12 select-none">REHEARSAL</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useMemo } from 'react';
+import { Scale, FileText, CheckCircle, AlertTriangle } from 'lucide-react';
+import { useContestGuides } from '../hooks/useContestGuides';
+import { useTicketAssignment } from '../hooks/useTicketAssignment';
+import { useWinners } from '../hooks/useWinners';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { usePastWinners } from '../hooks/usePastWinners';
+import { useContest } from '../context/contestContext';
+import { FairnessBreakdown, buildFairnessReport, describeExcludedGroups, describeFairnessTest, fairnessFlagged, formatPValue } from '../utils/fairness';
+import { exportFairnessReportToPDF } from '../utils/exportUtils';
+
+const BreakdownSection: React.FC<{ title: string; breakdown: FairnessBreakdown; showHistograms?: boolean }> = ({
+  title,
+  breakdown,
+  showHistograms = false
+}) => {
+  const { test } = breakdown;
+  const flagged = fairnessFlagged(test);
+  const excludedNote = describeExcludedGroups(test, breakdown.grouping);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl space-y-4">
+      <h3 className="text-xl font-semibold text-white">{title}</h3>
+
+      <div className={`flex items-start rounded-xl p-4 border ${flagged ? 'bg-orange-500/20 border-orange-300/30' : 'bg-green-500/20 border-green-300/30'}`}>
+        {flagged
+          ? <AlertTriangle className="w-5 h-5 mr-3 mt-0.5 text-orange-200 flex-shrink-0" />
+          : <CheckCircle className="w-5 h-5 mr-3 mt-0.5 text-green-200 flex-shrink-0" />}
+        <div className="text-sm">
+          <p className="text-white font-semibold">{describeFairnessTest(test, breakdown.grouping)}</p>
+          <p className="text-blue-200">
+            Chi-square {test.statistic.toFixed(2)} on {test.degreesOfFreedom} degrees of freedom:{' '}
+            {formatPValue(test.pValue)} from the chi-square distribution, {formatPValue(test.simulatedPValue)} from the simulated contests
+          </p>
+          {excludedNote && <p className="text-blue-200 mt-1">{excludedNote}</p>}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-white/20">
+            <tr>
+              {[breakdown.grouping === 'department' ? 'Department' : 'Supervisor', 'Guides', 'Tickets', 'Ticket Share', 'Expected', 'Observed', 'Difference'].map(heading => (
+                <th key={heading} className="px-4 py-3 text-left text-xs font-bold text-white uppercase tracking-wider">
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10">
+            {breakdown.rows.map(row => {
+              const difference = row.observed - row.expected;
+              return (
+                <tr key={row.group} className="hover:bg-white/10 transition-colors duration-300">
+                  <td className="px-4 py-2 text-white font-medium">{row.group}</td>
+                  <td className="px-4 py-2 text-blue-100">{row.guides}</td>
+                  <td className="px-4 py-2 text-blue-100">{row.tickets.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-blue-100">{(row.ticketShare * 100).toFixed(1)}%</td>
+                  <td className="px-4 py-2 text-blue-100">{row.expected > 0 ? row.expected.toFixed(2) : '0 (not tested)'}</td>
+                  <td className="px-4 py-2 text-white font-bold">{row.observed}</td>
+                  <td className={`px-4 py-2 font-semibold ${Math.abs(difference) < 1 ? 'text-blue-100' : difference > 0 ? 'text-green-200' : 'text-orange-200'}`}>
+                    {difference >= 0 ? '+' : ''}{difference.toFixed(2)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {showHistograms && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {breakdown.rows.map(row => {
+            const bins = Math.max(row.distribution.length, row.observed + 1);
+            const tallest = Math.max(...row.distribution, 0.0001);
+            return (
+              <div key={row.group} className="bg-white/10 rounded-xl p-4 border border-white/20">
+                <p className="text-white font-semibold text-sm mb-2">{row.group}</p>
+                <div className="flex items-end gap-1 h-24">
+                  {Array.from({ length: bins }, (_, count) => (
+                    <div
+                      key={count}
+                      title={`${count} winner(s): ${(((row.distribution[count] ?? 0)) * 100).toFixed(1)}% of simulated contests`}
+                      className={`flex-1 rounded-t ${count === row.observed ? 'bg-yellow-400' : 'bg-blue-400/70'}`}
+                      style={{ height: `${((row.distribution[count] ?? 0) / tallest) * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <p className="text-xs text-blue-200 mt-2">0 to {bins - 1} winners • observed {row.observed} in yellow</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const FairnessView: React.FC = () => {
+  const { selectedContest } = useContest();
+  const contestId = selectedContest?.id ?? null;
+  const { guides, loading: guidesLoading } = useContestGuides(contestId);
+  const { guidesWithTickets, loading: assignmentLoading } = useTicketAssignment(contestId, guides);
+  const { winners, loading: winnersLoading } = useWinners(contestId);
+  const { categories } = usePrizeCategories(contestId);
+  const { pastWinnerIds } = usePastWinners(contestId);
+  const loading = guidesLoading || assignmentLoading || winnersLoading;
+
+  const report = useMemo(() => {
+    if (guidesWithTickets.length === 0) return null;
+    return buildFairnessReport({
+      guidesWithTickets,
+      winners,
+      categories,
+      pastWinnerIds,
+      quotaRules: selectedContest?.quota_rules ?? null
+    });
+  }, [guidesWithTickets, winners, categories, pastWinnerIds, selectedContest]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 space-y-6 p-6">
+      {/* Header */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-8 text-white border border-white/20 shadow-2xl">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-4xl font-bold mb-2 bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
+              ⚖️ Fairness Report ⚖️
+            </h2>
+            <p className="text-blue-100 text-lg">
+              Did the draw favour anyone? The winners of {selectedContest?.name} compared with what ticket weighting predicts
+            </p>
+          </div>
+          <button
+            onClick={() => report && selectedContest && exportFairnessReportToPDF(report, selectedContest.name)}
+            disabled={!report || report.winnerCount === 0}
+            className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-full font-semibold hover:from-red-600 hover:to-pink-700 focus:ring-4 focus:ring-red-500/50 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileText className="w-5 h-5 mr-2" />
+            Export PDF
+          </button>
+        </div>
+      </div>
+
+      {!report || report.winnerCount === 0 ? (
+        <div className="text-center py-12 bg-white/10 backdrop-blur-xl rounded-2xl border border-white/20">
+          <p className="text-white/60 text-lg">✨ The report is ready once the first winners are drawn ✨</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl text-sm text-blue-200 flex items-start">
+            <Scale className="w-5 h-5 mr-3 text-yellow-300 flex-shrink-0" />
+            <p>
+              The expected counts come from re-running this contest's {report.draws.length} prize draw(s) {report.runs.toLocaleString()} times
+              on the stored ticket assignment, with the same eligibility rules and quotas, for the {report.winnerCount} current winners.
+              Voided winners are left out. A p-value below 0.05 means an outcome this uneven turns up in fewer than 1 in 20 fair contests.
+            </p>
+          </div>
+
+          <BreakdownSection title="By Department" breakdown={report.departments} showHistograms />
+          <BreakdownSection title="By Supervisor" breakdown={report.supervisors} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,285 @@
+import React, { useState, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Link2, Search, SlidersHorizontal, Ticket, Trophy, Percent } from 'lucide-react';
+import { useContestGuides } from '../hooks/useContestGuides';
+import { useTicketAssignment } from '../hooks/useTicketAssignment';
+import { useWinners } from '../hooks/useWinners';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { usePastWinners } from '../hooks/usePastWinners';
+import { useGuideWinHistory } from '../hooks/useGuideWinHistory';
+import { useContest } from '../context/contestContext';
+import { activeWinners } from '../utils/ticketSystem';
+import { calculateOdds, formatChance, plannedDraws } from '../utils/odds';
+import { openSlotCount } from '../utils/quotas';
+import { calculateTickets, METRIC_LABELS } from '../utils/ticketRules';
+import { isGuideEligible } from '../utils/eligibility';
+import { copyContestLink } from '../utils/links';
+import { NotFound } from './NotFound';
+import { PrizeCategory } from '../types';
+
+interface PrizeOdds {
+  category: PrizeCategory;
+  openSlots: number;
+  chance: number | null; // null when the guide cannot be drawn
+  note: string | null;   // why the guide cannot be drawn
+}
+
+const formatTicket = (ticket: number) => `#${ticket.toString().padStart(4, '0')}`;
+
+export const GuideDetailView: React.FC = () => {
+  const { guideId } = useParams();
+  const [ticketQuery, setTicketQuery] = useState('');
+
+  const { selectedContest, contests } = useContest();
+  const contestId = selectedContest?.id ?? null;
+  const { guides, loading: guidesLoading } = useContestGuides(contestId);
+  const { guidesWithTickets, loading: assignmentLoading } = useTicketAssignment(contestId, guides);
+  const { winners } = useWinners(contestId);
+  const { activeCategories } = usePrizeCategories(contestId);
+  const { pastWinnerIds } = usePastWinners(contestId);
+  const loading = guidesLoading || assignmentLoading;
+
+  const guide = useMemo(
+    () => guidesWithTickets.find(candidate => candidate.id === Number(guideId)),
+    [guidesWithTickets, guideId]
+  );
+  const { wins: history } = useGuideWinHistory(guide?.id ?? null);
+
+  const ticketRules = selectedContest?.ticket_rules ?? null;
+  const breakdown = useMemo(
+    () => (guide && ticketRules ? calculateTickets(guide, ticketRules) : null),
+    [guide, ticketRules]
+  );
+
+  const drawnTickets = useMemo(
+    () => new Set(winners.filter(winner => winner.guide_id === guide?.id).map(winner => winner.drawn_ticket)),
+    [winners, guide]
+  );
+
+  const visibleTickets = useMemo(() => {
+    const digits = ticketQuery.replace(/\D/g, '');
+    if (!guide || !digits) return guide?.ticketNumbers ?? [];
+    return guide.ticketNumbers.filter(ticket => formatTicket(ticket).includes(digits));
+  }, [guide, ticketQuery]);
+
+  // The remaining prizes are assumed to be drawn in prize order, as on the Guides page
+  const contestOdds = useMemo(() => {
+    const winnerIds = new Set(winners.map(winner => winner.guide_id));
+    const draws = plannedDraws(activeCategories, winners);
+    const result = calculateOdds({
+      pool: guidesWithTickets.filter(candidate => !winnerIds.has(candidate.id)),
+      draws,
+      holders: activeWinners(winners),
+      openSlots: openSlotCount(activeCategories, winners),
+      pastWinnerIds,
+      quotaRules: selectedContest?.quota_rules ?? null
+    });
+    return { winnerIds, draws, result };
+  }, [winners, activeCategories, guidesWithTickets, pastWinnerIds, selectedContest]);
+
+  const odds = useMemo(() => {
+    if (!guide) return [];
+
+    const { winnerIds, draws, result } = contestOdds;
+    return draws.map<PrizeOdds>(({ category, slots }) => {
+      if (winnerIds.has(guide.id)) return { category, openSlots: slots, chance: null, note: 'Already a winner in this contest' };
+      if (!isGuideEligible(guide, category.eligibility, pastWinnerIds)) {
+        return { category, openSlots: slots, chance: null, note: 'Not eligible for this prize' };
+      }
+      return { category, openSlots: slots, chance: result.guides.get(guide.id)?.byCategory[category.id] ?? 0, note: null };
+    });
+  }, [guide, contestOdds, pastWinnerIds]);
+
+  const contestName = (id: string) => contests.find(contest => contest.id === id)?.name ?? 'Unknown contest';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!guide) {
+    return <NotFound message={`No guide with id ${guideId} is in ${selectedContest?.name}.`} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 space-y-6 p-6">
+      <Link to="/guides" className="inline-flex items-center text-blue-200 hover:text-white text-sm font-semibold">
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        All guides
+      </Link>
+
+      {/* Header */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-8 text-white border border-white/20 shadow-2xl">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-4">
+            <div className="w-16 h-16 bg-gradient-to-r from-pink-400 to-purple-500 rounded-full flex items-center justify-center shadow-lg">
+              <span className="text-white font-bold text-xl">{guide.name.split(' ').map(n => n[0]).join('')}</span>
+            </div>
+            <div>
+              <h2 className="text-4xl font-bold bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
+                {guide.name}
+              </h2>
+              <p className="text-blue-100 text-lg">{guide.department} • {guide.supervisor}</p>
+            </div>
+          </div>
+          {contestId && (
+            <button
+              onClick={() => copyContestLink(contestId, `guides/${guide.id}`)}
+              className="inline-flex items-center px-4 py-2 bg-white/20 border border-white/30 text-white rounded-full text-sm font-semibold hover:bg-white/30 transition-all duration-300"
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              Copy Link
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Metrics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        {[
+          { label: 'NPS', value: guide.nps.toString() },
+          { label: 'NRPC', value: guide.nrpc.toString() },
+          { label: 'Refund %', value: `${guide.refundPercent.toFixed(1)}%` },
+          { label: 'Tickets', value: guide.totalTickets.toString() }
+        ].map(metric => (
+          <div key={metric.label} className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl">
+            <p className="text-sm font-medium text-blue-200">{metric.label}</p>
+            <p className="text-3xl font-bold text-white">{metric.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* How the metrics produced the ticket count */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl space-y-3">
+        <h3 className="text-xl font-semibold text-white flex items-center">
+          <SlidersHorizontal className="w-5 h-5 mr-2 text-yellow-300" />
+          Ticket calculation
+        </h3>
+        {breakdown ? (
+          <div className="space-y-2 text-sm">
+            {breakdown.lines.map(line => (
+              <div key={line.metric} className="flex items-center justify-between bg-white/10 rounded-xl px-4 py-2">
+                <span className="text-blue-100">
+                  {METRIC_LABELS[line.metric]} {line.metric === 'refundPercent' ? `${line.value.toFixed(1)}%` : line.value}
+                  {line.tier
+                    ? ` reaches the ${ticketRules?.metrics.find(rule => rule.metric === line.metric)?.comparison === 'atMost' ? '≤' : '≥'} ${line.tier.threshold} tier`
+                    : ' reaches no tier'}
+                </span>
+                <span className="text-white font-semibold">
+                  {line.tickets} tickets
+                  {line.capped && <span className="ml-1 text-xs text-yellow-300">(capped from {line.weighted})</span>}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between px-4 pt-2 text-white">
+              <span>
+                Subtotal {breakdown.subtotal}
+                {breakdown.adjustment === 'minimum' && ', raised to the minimum per guide'}
+                {breakdown.adjustment === 'maximum' && ', lowered to the maximum per guide'}
+              </span>
+              <span className="font-bold">{breakdown.totalTickets} tickets</span>
+            </div>
+            {breakdown.totalTickets !== guide.totalTickets && (
+              <p className="text-xs text-yellow-200 px-4">
+                The stored roster holds {guide.totalTickets} tickets; it has not been recalculated since the rules changed.
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-white/60 text-sm">
+            This contest takes ticket counts straight from the roster, so {guide.totalTickets} tickets were imported as is.
+          </p>
+        )}
+      </div>
+
+      {/* Odds for the prizes still to draw */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl space-y-3">
+        <h3 className="text-xl font-semibold text-white flex items-center">
+          <Percent className="w-5 h-5 mr-2 text-yellow-300" />
+          Chances for the remaining prizes
+        </h3>
+        {odds.map(({ category, openSlots, chance, note }) => (
+          <div key={category.id} className="flex items-center justify-between bg-white/10 rounded-xl px-4 py-3 text-sm">
+            <span className="text-white font-medium">
+              {category.icon} {category.name}
+              <span className="text-blue-200"> • {openSlots} {openSlots === 1 ? 'slot' : 'slots'} open</span>
+            </span>
+            {note ? (
+              <span className="text-white/60">{note}</span>
+            ) : (
+              <span className="text-white">
+                <span className="font-bold text-yellow-300">{formatChance(chance ?? 0)}</span>
+              </span>
+            )}
+          </div>
+        ))}
+        {odds.length === 0 && <p className="text-white/60 text-sm">Every prize in this contest has been drawn.</p>}
+        {odds.some(entry => entry.chance !== null) && (
+          <p className="text-xs text-blue-200">
+            {contestOdds.result.method === 'exact'
+              ? 'Exact: this guide\'s share of the tickets that can win the last prize.'
+              : `Estimated from ${contestOdds.result.runs} simulated runs of the remaining draws in prize order, with quotas applied.`}
+          </p>
+        )}
+      </div>
+
+      {/* Wins across contests */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl space-y-3">
+        <h3 className="text-xl font-semibold text-white flex items-center">
+          <Trophy className="w-5 h-5 mr-2 text-yellow-300" />
+          Win history
+        </h3>
+        {history.map(winner => (
+          <Link
+            key={winner.id}
+            to={winner.contest_id === contestId ? `/winners/${winner.id}` : `/contests/${winner.contest_id}/winners/${winner.id}`}
+            className={`block bg-white/20 rounded-xl px-4 py-3 text-white hover:bg-white/30 transition-colors duration-300 ${winner.voided_at ? 'opacity-60' : ''}`}
+          >
+            🏆 {winner.prize_name} with ticket {formatTicket(winner.drawn_ticket ?? 0)}
+            <span className="text-blue-200 text-sm"> • {contestName(winner.contest_id)} • {new Date(winner.won_at).toLocaleString()}</span>
+            {winner.voided_at && <span className="text-red-200 text-sm"> • Voided: {winner.void_reason}</span>}
+          </Link>
+        ))}
+        {history.length === 0 && <p className="text-white/60">Has not won a prize in any contest yet.</p>}
+      </div>
+
+      {/* Tickets */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <h3 className="text-xl font-semibold text-white flex items-center">
+            <Ticket className="w-5 h-5 mr-2 text-yellow-300" />
+            {guide.totalTickets} tickets, {formatTicket(guide.ticketRange.start)}-{formatTicket(guide.ticketRange.end)}
+          </h3>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-white/60" />
+            <input
+              type="text"
+              value={ticketQuery}
+              onChange={(e) => setTicketQuery(e.target.value)}
+              placeholder="Find a ticket number"
+              className="pl-9 pr-4 py-2 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white text-sm placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-12 gap-2">
+          {visibleTickets.map(ticket => (
+            <span
+              key={ticket}
+              className={`px-2 py-1 rounded text-center font-mono text-xs ${
+                drawnTickets.has(ticket) ? 'bg-yellow-400 text-black font-bold' : 'bg-white/20 text-white'
+              }`}
+            >
+              {formatTicket(ticket)}
+            </span>
+          ))}
+        </div>
+        {visibleTickets.length === 0 && (
+          <p className="text-white/60 text-sm">None of this guide's tickets match "{ticketQuery}".</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,41 @@
 import React, { useState, useMemo } from 'react';
-import { Search, Filter, User, Award, Percent, Ticket, Download, FileSpreadsheet, FileText } from 'lucide-react';
-import { Guide } from '../types';
-import { assignTicketsToGuides, GuideWithTickets } from '../utils/ticketSystem';
+import { Link } from 'react-router-dom';
+import { Search, User, Award, Percent, Ticket, Download, FileSpreadsheet, FileText, Upload, SlidersHorizontal } from 'lucide-react';
+import { useTicketAssignment } from '../hooks/useTicketAssignment';
+import { useContestGuides } from '../hooks/useContestGuides';
+import { useWinners } from '../hooks/useWinners';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { usePastWinners } from '../hooks/usePastWinners';
+import { useContest } from '../context/contestContext';
+import { useAuth } from '../context/authContext';
+import { Guide, TicketRules } from '../types';
 import { exportUniversalPoolToExcel, exportUniversalPoolToPDF } from '../utils/exportUtils';
-import guidesData from '../data/guides.json';
+import { diffRosters } from '../utils/rosterImport';
+import { logAuditEvent } from '../utils/audit';
+import { activeWinners } from '../utils/ticketSystem';
+import { calculateOdds, formatChance, plannedDraws } from '../utils/odds';
+import { openSlotCount } from '../utils/quotas';
+import { RosterImportModal } from './RosterImportModal';
+import { TicketRulesModal } from './TicketRulesModal';
 
 export const GuidesView: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedDepartment, setSelectedDepartment] = useState('');
   const [selectedSupervisor, setSelectedSupervisor] = useState('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
 
-  const guides = guidesData as Guide[];
-  const guidesWithTickets = useMemo(() => assignTicketsToGuides(guides), [guides]);
+  const { selectedContest, isReadOnly, saveTicketRules } = useContest();
+  const { isAdmin } = useAuth();
+  const canEdit = isAdmin && !isReadOnly;
+  const contestId = selectedContest?.id ?? null;
+  const { guides, loading: guidesLoading, fetchGuides, replaceGuides } = useContestGuides(contestId);
+  const ticketRules = selectedContest?.ticket_rules ?? null;
+  const { guidesWithTickets, loading: assignmentLoading } = useTicketAssignment(contestId, guides);
+  const { winners } = useWinners(contestId);
+  const { activeCategories } = usePrizeCategories(contestId);
+  const { pastWinnerIds } = usePastWinners(contestId);
+  const loading = guidesLoading || assignmentLoading;
 
   const departments = useMemo(() => {
     return Array.from(new Set(guidesWithTickets.map(guide => guide.department))).sort();
@@ -42,6 +66,45 @@ export const GuidesView: React.FC = () => {
     return { totalTickets, avgNPS, avgNRPC, avgRefund };
   }, [guidesWithTickets]);
 
+  const winnerIds = useMemo(() => new Set(winners.map(winner => winner.guide_id)), [winners]);
+
+  // Chance of each guide winning any of the prizes still to draw, run in prize order
+  const odds = useMemo(() => {
+    const draws = plannedDraws(activeCategories, winners);
+    return calculateOdds({
+      pool: guidesWithTickets.filter(guide => !winnerIds.has(guide.id)),
+      draws,
+      holders: activeWinners(winners),
+      openSlots: openSlotCount(activeCategories, winners),
+      pastWinnerIds,
+      quotaRules: selectedContest?.quota_rules ?? null
+    });
+  }, [activeCategories, winners, guidesWithTickets, winnerIds, pastWinnerIds, selectedContest]);
+
+  const oddsTitle = (guideId: number) =>
+    activeCategories
+      .filter(category => category.id in (odds.guides.get(guideId)?.byCategory ?? {}))
+      .map(category => `${category.name}: ${formatChance(odds.guides.get(guideId)?.byCategory[category.id] ?? 0)}`)
+      .join('\n');
+
+  const handleSaveTicketRules = async (rules: TicketRules, recalculatedGuides: Guide[]) => {
+    await saveTicketRules(rules, recalculatedGuides);
+    await fetchGuides();
+  };
+
+  const handleImportRoster = async (importedGuides: Guide[], fileName: string) => {
+    const diff = diffRosters(guides, importedGuides);
+    await replaceGuides(importedGuides);
+    await logAuditEvent(contestId, 'roster_imported', {
+      fileName,
+      guideCount: importedGuides.length,
+      totalTickets: importedGuides.reduce((sum, guide) => sum + guide.totalTickets, 0),
+      added: diff.added.map(guide => guide.id),
+      removed: diff.removed.map(guide => guide.id),
+      changed: diff.changed.map(change => change.after.id)
+    });
+  };
+
   const handleExportUniversalPoolExcel = () => {
     exportUniversalPoolToExcel(guidesWithTickets);
   };
@@ -50,6 +113,14 @@ export const GuidesView: React.FC = () => {
     exportUniversalPoolToPDF(guidesWithTickets);
   };
 
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 space-y-6 p-6">
       {/* Header with Export Options */}
@@ -63,6 +134,24 @@ export const GuidesView: React.FC = () => {
           </div>
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2">
+              {(canEdit || ticketRules) && (
+                <button
+                  onClick={() => setIsRulesOpen(true)}
+                  className="inline-flex items-center px-4 py-2 bg-white/20 border border-white/30 text-white rounded-full font-semibold hover:bg-white/30 focus:ring-4 focus:ring-white/30 transition-all duration-300 shadow-lg transform hover:scale-105"
+                >
+                  <SlidersHorizontal className="w-4 h-4 mr-2" />
+                  Ticket Rules
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="inline-flex items-center px-4 py-2 bg-white/20 border border-white/30 text-white rounded-full font-semibold hover:bg-white/30 focus:ring-4 focus:ring-white/30 transition-all duration-300 shadow-lg transform hover:scale-105"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import Roster
+                </button>
+              )}
               <button
                 onClick={handleExportUniversalPoolExcel}
                 className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-full font-semibold hover:from-green-600 hover:to-emerald-700 focus:ring-4 focus:ring-green-500/50 transition-all duration-300 shadow-lg transform hover:scale-105"
@@ -195,6 +284,14 @@ export const GuidesView: React.FC = () => {
                 <th className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider">
                   Total Tickets
                 </th>
+                <th
+                  className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider"
+                  title={odds.method === 'exact'
+                    ? 'Exact chance of winning the last prize'
+                    : `Chance of winning any remaining prize, from ${odds.runs} simulated runs of the remaining draws`}
+                >
+                  Odds
+                </th>
                 <th className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider">
                   Ticket Range
                 </th>
@@ -211,7 +308,9 @@ export const GuidesView: React.FC = () => {
                         </span>
                       </div>
                       <div className="ml-4">
-                        <div className="text-sm font-bold text-white">{guide.name}</div>
+                        <Link to={`/guides/${guide.id}`} className="text-sm font-bold text-white hover:text-yellow-300 hover:underline">
+                          {guide.name}
+                        </Link>
                       </div>
                     </div>
                   </td>
@@ -256,6 +355,15 @@ export const GuidesView: React.FC = () => {
                       <span className="text-sm font-bold text-white">{guide.totalTickets}</span>
                     </div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {winnerIds.has(guide.id) ? (
+                      <span className="text-yellow-300 font-semibold">🏆 Won</span>
+                    ) : (
+                      <span className="font-bold text-white" title={oddsTitle(guide.id)}>
+                        {formatChance(odds.guides.get(guide.id)?.anyPrize ?? 0)}
+                      </span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-xs text-blue-200">
                       <div className="space-y-1">
@@ -283,6 +391,23 @@ export const GuidesView: React.FC = () => {
           </div>
         )}
       </div>
+
+      <RosterImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        currentGuides={guides}
+        ticketRules={ticketRules}
+        onCommit={handleImportRoster}
+      />
+
+      <TicketRulesModal
+        isOpen={isRulesOpen}
+        onClose={() => setIsRulesOpen(false)}
+        guides={guides}
+        rules={ticketRules}
+        readOnly={!canEdit}
+        onSave={handleSaveTicketRules}
+      />
     </div>
   );
 };
\ No newline at end of file
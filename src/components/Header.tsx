@@ -1,15 +1,23 @@
 import React from 'react';
 import { Trophy, LogOut } from 'lucide-react';
-import { logout } from '../utils/auth';
+import { useAuth } from '../context/authContext';
+import { ContestSwitcher } from './ContestSwitcher';
 
 interface HeaderProps {
   onLogout: () => void;
 }
 
 export const Header: React.FC<HeaderProps> = ({ onLogout }) => {
-  const handleLogout = () => {
-    logout();
-    onLogout();
+  const { session, isOfflineSession, isAdmin, signOut } = useAuth();
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      onLogout();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+      alert('Failed to sign out. Please try again.');
+    }
   };
 
   return (
@@ -24,17 +32,26 @@ export const Header: React.FC<HeaderProps> = ({ onLogout }) => {
               <h1 className="text-2xl font-bold bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
                 🎪 Big Dollar Contest 🎪
               </h1>
-              <p className="text-sm text-blue-200 font-medium">✨ Magical Admin Dashboard ✨</p>
+              <p className="text-sm text-blue-200 font-medium">
+                {isAdmin ? '✨ Magical Admin Dashboard ✨' : '✨ Viewer Dashboard ✨'}
+              </p>
             </div>
           </div>
           
-          <button
-            onClick={handleLogout}
-            className="inline-flex items-center px-6 py-2 border border-white/30 text-sm font-bold rounded-full text-white bg-white/20 backdrop-blur-sm hover:bg-red-500/80 focus:ring-2 focus:ring-red-400/50 transition-all duration-300 shadow-lg transform hover:scale-105"
-          >
-            <LogOut className="w-4 h-4 mr-2" />
-            Logout
-          </button>
+          <div className="flex items-center gap-4">
+            <ContestSwitcher />
+            <span className="hidden md:inline text-xs text-blue-200" title={session?.user.email}>
+              {session?.user.email} • {isAdmin ? 'Admin' : 'Viewer'}
+              {isOfflineSession && ' • Offline sign-in'}
+            </span>
+            <button
+              onClick={handleLogout}
+              className="inline-flex items-center px-6 py-2 border border-white/30 text-sm font-bold rounded-full text-white bg-white/20 backdrop-blur-sm hover:bg-red-500/80 focus:ring-2 focus:ring-red-400/50 transition-all duration-300 shadow-lg transform hover:scale-105"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Logout
+            </button>
+          </div>
         </div>
       </div>
     </header>
@@ -1,13 +1,10 @@
 import React, { useState } from 'react';
-import { Lock, User, Trophy } from 'lucide-react';
-import { login } from '../utils/auth';
+import { Lock, Mail, Trophy } from 'lucide-react';
+import { useAuth } from '../context/authContext';
 
-interface LoginProps {
-  onLogin: () => void;
-}
-
-export const Login: React.FC<LoginProps> = ({ onLogin }) => {
-  const [username, setUsername] = useState('');
+export const Login: React.FC = () => {
+  const { signIn } = useAuth();
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -17,14 +14,15 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
     setIsLoading(true);
     setError('');
 
-    setTimeout(() => {
-      if (login(username, password)) {
-        onLogin();
-      } else {
-        setError('Invalid credentials. Please try again.');
-      }
+    // On success the auth provider picks up the new session and App leaves the login screen
+    try {
+      await signIn(email, password);
+    } catch (signInError) {
+      console.error('Failed to sign in:', signInError);
+      setError(signInError instanceof Error ? signInError.message : 'Invalid credentials. Please try again.');
+    } finally {
       setIsLoading(false);
-    }, 800);
+    }
   };
 
   return (
@@ -44,16 +42,17 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
           <form onSubmit={handleSubmit} className="space-y-6">
             <div>
               <label className="block text-sm font-medium text-white mb-2">
-                Username
+                Email
               </label>
               <div className="relative">
-                <User className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/60" />
+                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/60" />
                 <input
-                  type="text"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
+                  type="email"
+                  autoComplete="username"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
                   className="w-full pl-10 pr-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
-                  placeholder="🔑 Enter username"
+                  placeholder="🔑 Enter email"
                   required
                 />
               </div>
@@ -67,6 +66,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/60" />
                 <input
                   type="password"
+                  autoComplete="current-password"
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="w-full pl-10 pr-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
@@ -90,6 +90,12 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
               {isLoading ? '🔄 Signing In...' : '🚀 Enter the Magic!'}
             </button>
           </form>
+
+          <p className="text-center mt-6">
+            <a href="/verify" className="text-sm text-blue-200 hover:text-white underline transition-colors duration-200">
+              🔍 Verify published draw results without signing in
+            </a>
+          </p>
         </div>
       </div>
     </div>
@@ -1,39 +1,51 @@
 import React from 'react';
-import { Users, Trophy, List, Shuffle } from 'lucide-react';
+import { NavLink } from 'react-router-dom';
+import { Users, Trophy, Shuffle, ScrollText, Gift, ShieldCheck, Scale } from 'lucide-react';
+import { useContest } from '../context/contestContext';
+import { useAuth } from '../context/authContext';
 
-interface NavigationProps {
-  activeTab: string;
-  setActiveTab: (tab: string) => void;
-}
+export const Navigation: React.FC = () => {
+  const { selectedContest, isReadOnly } = useContest();
+  const { isAdmin } = useAuth();
 
-export const Navigation: React.FC<NavigationProps> = ({ activeTab, setActiveTab }) => {
+  // Completed contests can be browsed but not drawn. Viewers see the guides, the winners and the
+  // public Verify page; everything else is for admins
   const tabs = [
     { id: 'guides', label: 'All Shortlisted Guides', icon: Users },
-    { id: 'raffle', label: 'Run Raffle', icon: Shuffle },
+    { id: 'raffle', label: 'Run Raffle', icon: Shuffle, hidden: isReadOnly || !isAdmin },
     { id: 'winners', label: 'Winners Dashboard', icon: Trophy },
-  ];
+    { id: 'prizes', label: 'Prizes', icon: Gift, hidden: !isAdmin },
+    { id: 'audit', label: 'Audit Log', icon: ScrollText, hidden: !isAdmin },
+    { id: 'fairness', label: 'Fairness', icon: Scale, hidden: !isAdmin },
+    { id: 'verify', label: 'Verify', icon: ShieldCheck },
+  ].filter(tab => !tab.hidden);
 
   return (
     <nav className="bg-white/10 backdrop-blur-xl shadow-lg border-b border-white/20">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="flex space-x-8">
+        <div className="flex items-center space-x-8">
           {tabs.map((tab) => {
             const Icon = tab.icon;
             return (
-              <button
+              <NavLink
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
-                className={`inline-flex items-center px-4 py-4 border-b-2 text-sm font-bold transition-all duration-300 ${
-                  activeTab === tab.id
+                to={`/${tab.id}`}
+                className={({ isActive }) => `inline-flex items-center px-4 py-4 border-b-2 text-sm font-bold transition-all duration-300 ${
+                  isActive
                     ? 'border-yellow-400 text-yellow-300 bg-white/10 rounded-t-lg'
                     : 'border-transparent text-white/70 hover:text-white hover:border-white/30 hover:bg-white/5 rounded-t-lg'
                 }`}
               >
                 <Icon className="w-5 h-5 mr-2" />
                 {tab.label}
-              </button>
+              </NavLink>
             );
           })}
+          {isReadOnly && selectedContest && (
+            <span className="ml-auto inline-flex px-3 py-1 text-xs font-bold rounded-full bg-white/20 text-blue-100">
+              📚 {selectedContest.name} (read-only)
+            </span>
+          )}
         </div>
       </div>
     </nav>
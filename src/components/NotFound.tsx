@@ -0,0 +1,27 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Compass } from 'lucide-react';
+
+interface NotFoundProps {
+  message?: string;
+}
+
+export const NotFound: React.FC<NotFoundProps> = ({ message = 'There is nothing at this address.' }) => {
+  return (
+    <div className="flex items-center justify-center py-24">
+      <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-10 text-center border border-white/20 shadow-2xl max-w-md">
+        <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-pink-500 to-purple-600 rounded-2xl shadow-lg mb-4">
+          <Compass className="w-8 h-8 text-white" />
+        </div>
+        <h2 className="text-3xl font-bold text-white mb-2">Page not found</h2>
+        <p className="text-blue-200 mb-6">{message}</p>
+        <Link
+          to="/guides"
+          className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-full font-semibold hover:from-blue-600 hover:to-purple-700 transition-all duration-300 shadow-lg"
+        >
+          Back to the guides
+        </Link>
+      </div>
+    </div>
+  );
+};
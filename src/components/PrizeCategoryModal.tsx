@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from 'react';
+import { X, Gift, Upload, Save, Filter } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { EligibilityRules, PrizeCategory } from '../types';
+import { prizeGradients } from '../data/prizeCategories';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+import { DEFAULT_ELIGIBILITY, describeEligibility } from '../utils/eligibility';
+
+interface PrizeCategoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  category: PrizeCategory | null; // null creates a new category
+  minWinnerCount: number; // Winners already holding a slot in this category
+  departments: string[]; // Offered as eligibility choices, from the contest roster
+  supervisors: string[];
+  onSave: (category: Omit<PrizeCategory, 'id'>) => Promise<void>;
+  onUploadImage: (file: File) => Promise<string>;
+}
+
+const emptyCategory: Omit<PrizeCategory, 'id'> = {
+  name: '',
+  description: '',
+  winnerCount: 1,
+  image: '',
+  gradient: prizeGradients[0],
+  icon: '🎁',
+  countdownSeconds: 10,
+  eligibility: null
+};
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const toLimit = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const inputClassName = 'w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200';
+
+export const PrizeCategoryModal: React.FC<PrizeCategoryModalProps> = ({
+  isOpen,
+  onClose,
+  category,
+  minWinnerCount,
+  departments,
+  supervisors,
+  onSave,
+  onUploadImage
+}) => {
+  const [form, setForm] = useState<Omit<PrizeCategory, 'id'>>(emptyCategory);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(category ? { ...category } : emptyCategory);
+      setError('');
+    }
+  }, [isOpen, category]);
+
+  const update = <K extends keyof Omit<PrizeCategory, 'id'>>(key: K, value: Omit<PrizeCategory, 'id'>[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const rules = form.eligibility ?? DEFAULT_ELIGIBILITY;
+
+  const updateRules = (changes: Partial<EligibilityRules>) => {
+    update('eligibility', { ...rules, ...changes });
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setError('');
+    try {
+      update('image', await onUploadImage(file));
+    } catch (uploadError) {
+      setError(friendlyErrorMessage(uploadError, 'Failed to upload the image. Please try again.'));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const validationError = !form.name.trim()
+    ? 'A name is required.'
+    : form.winnerCount < Math.max(minWinnerCount, 1)
+      ? `The winner count cannot be lower than ${Math.max(minWinnerCount, 1)}; that many winners are already drawn.`
+      : form.countdownSeconds < 1
+        ? 'The countdown must be at least one second.'
+        : '';
+
+  const handleSave = async () => {
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave({
+        ...form,
+        name: form.name.trim(),
+        description: form.description.trim(),
+        // A category without any rule switched on is stored without rules
+        eligibility: describeEligibility(form.eligibility).length > 0 ? form.eligibility : null
+      });
+      onClose();
+    } catch (saveError) {
+      console.error('Failed to save prize category:', saveError);
+      setError(friendlyErrorMessage(saveError, 'Failed to save the prize category. Please try again.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto border border-white/20"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/20">
+          <div className="flex items-center space-x-3">
+            <div className={`inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r ${form.gradient} rounded-xl shadow-lg`}>
+              <Gift className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">{category ? 'Edit Prize' : 'Add Prize'}</h2>
+              <p className="text-blue-200">{category ? category.name : 'A new prize category for this contest'}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-6 h-6 text-white" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Preview */}
+          <div className="relative h-40 rounded-2xl overflow-hidden">
+            {form.image && <img src={form.image} alt={form.name} className="w-full h-full object-cover" />}
+            <div className={`absolute inset-0 bg-gradient-to-t ${form.gradient} opacity-60`} />
+            <div className="absolute top-4 left-4 text-4xl">{form.icon}</div>
+            <div className="absolute bottom-4 left-4 text-white font-bold text-lg">{form.name || 'Prize name'}</div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-blue-200 mb-2">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => update('name', e.target.value)}
+                placeholder="e.g. 1st Prize - Refrigerator"
+                className={inputClassName}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-blue-200 mb-2">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => update('description', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-blue-200 mb-2">Number of winners</label>
+              <input
+                type="number"
+                min={Math.max(minWinnerCount, 1)}
+                value={form.winnerCount}
+                onChange={(e) => update('winnerCount', Number(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-blue-200 mb-2">Countdown (seconds)</label>
+              <input
+                type="number"
+                min={1}
+                value={form.countdownSeconds}
+                onChange={(e) => update('countdownSeconds', Number(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-blue-200 mb-2">Icon</label>
+              <input
+                type="text"
+                value={form.icon}
+                onChange={(e) => update('icon', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-blue-200 mb-2">Colours</label>
+              <div className="flex flex-wrap gap-2">
+                {prizeGradients.map(gradient => (
+                  <button
+                    key={gradient}
+                    type="button"
+                    onClick={() => update('gradient', gradient)}
+                    aria-label={gradient}
+                    className={`w-9 h-9 rounded-lg bg-gradient-to-r ${gradient} border-2 transition-all duration-200 ${
+                      form.gradient === gradient ? 'border-white scale-110' : 'border-transparent'
+                    }`}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-blue-200 mb-2">Image</label>
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={form.image}
+                  onChange={(e) => update('image', e.target.value)}
+                  placeholder="/prizes/fridge.jpg or an uploaded image URL"
+                  className={inputClassName}
+                />
+                <label className="inline-flex items-center shrink-0 px-4 py-3 bg-white/20 border border-white/30 text-white rounded-xl font-semibold hover:bg-white/30 transition-all duration-300 cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {isUploading ? 'Uploading...' : 'Upload'}
+                  <input type="file" accept="image/*" onChange={handleImageChange} disabled={isUploading} className="hidden" />
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Eligibility */}
+          <div className="bg-white/10 rounded-xl p-4 border border-white/20 space-y-4">
+            <h3 className="text-white font-semibold flex items-center">
+              <Filter className="w-4 h-4 mr-2 text-blue-200" />
+              Who can win
+            </h3>
+
+            <div>
+              <p className="text-sm font-medium text-blue-200 mb-2">Departments (none selected allows all)</p>
+              <div className="flex flex-wrap gap-2">
+                {departments.map(department => (
+                  <button
+                    key={department}
+                    type="button"
+                    onClick={() => updateRules({ departments: toggle(rules.departments, department) })}
+                    className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all duration-200 ${
+                      rules.departments.includes(department)
+                        ? 'bg-blue-500 border-blue-300 text-white'
+                        : 'bg-white/10 border-white/30 text-blue-100 hover:bg-white/20'
+                    }`}
+                  >
+                    {department}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-blue-200 mb-2">Supervisors (none selected allows all)</p>
+              <div className="flex flex-wrap gap-2">
+                {supervisors.map(supervisor => (
+                  <button
+                    key={supervisor}
+                    type="button"
+                    onClick={() => updateRules({ supervisors: toggle(rules.supervisors, supervisor) })}
+                    className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all duration-200 ${
+                      rules.supervisors.includes(supervisor)
+                        ? 'bg-blue-500 border-blue-300 text-white'
+                        : 'bg-white/10 border-white/30 text-blue-100 hover:bg-white/20'
+                    }`}
+                  >
+                    {supervisor}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-blue-200 mb-2">Minimum NPS</label>
+                <input
+                  type="number"
+                  value={rules.minNps ?? ''}
+                  onChange={(e) => updateRules({ minNps: toLimit(e.target.value) })}
+                  placeholder="No minimum"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-blue-200 mb-2">Maximum refund %</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={rules.maxRefundPercent ?? ''}
+                  onChange={(e) => updateRules({ maxRefundPercent: toLimit(e.target.value) })}
+                  placeholder="No maximum"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-3 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={rules.allowPastWinners}
+                onChange={(e) => updateRules({ allowPastWinners: e.target.checked })}
+                className="w-4 h-4 rounded"
+              />
+              Guides who won in an earlier contest may win this prize
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-6 py-3 bg-white/20 border border-white/30 text-white rounded-full font-semibold hover:bg-white/30 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || isUploading}
+              className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-full font-semibold hover:from-green-600 hover:to-emerald-700 focus:ring-4 focus:ring-green-500/50 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-5 h-5 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Prize'}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -1,34 +1,101 @@
-import React from 'react';
-import { X, Trophy } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, Trophy, KeyRound, BarChart3, Lock } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { PrizeCategory } from '../types';
+import { PrizeCategory, PrizeWinner } from '../types';
+import { DRAW_ALGORITHM_VERSION, generateDrawSeed, seedCommitment } from '../utils/ticketSystem';
+import { describeEligibility } from '../utils/eligibility';
+import { formatChance } from '../utils/odds';
 
 interface PrizeDrawModalProps {
   isOpen: boolean;
   onClose: () => void;
   category: PrizeCategory | null;
-  onConfirmDraw: () => void;
+  onConfirmDraw: (seed: string) => void;
   isDrawing: boolean;
   availableGuides: number;
+  eligibleGuides: number; // Guides left after the category's eligibility rules
+  eligibleTickets: number;
+  slotCount?: number; // Winners this draw will add; defaults to the category's full count
+  replacing?: PrizeWinner | null; // The voided winner a redraw replaces
+  quotas?: string[]; // The contest's quotas, described
+  heldBack?: { name: string; reason: string }[]; // Eligible guides the quotas would pass over right now
+  odds?: { name: string; chance: number }[]; // Each guide's chance of winning this draw, highest first
+  oddsNote?: string; // How the odds were worked out
+  requiresCommitment?: boolean; // Saved draws only take a seed whose commitment was recorded first
+  commitment?: { seed: string; committedAt: string } | null; // Already recorded for this draw
+  onCommitSeed?: (seed: string) => Promise<void>;
 }
 
+const CHART_GUIDES = 10;
+
 export const PrizeDrawModal: React.FC<PrizeDrawModalProps> = ({
   isOpen,
   onClose,
   category,
   onConfirmDraw,
   isDrawing,
-  availableGuides
+  availableGuides,
+  eligibleGuides,
+  eligibleTickets,
+  slotCount,
+  replacing,
+  quotas = [],
+  heldBack = [],
+  odds = [],
+  oddsNote,
+  requiresCommitment = false,
+  commitment = null,
+  onCommitSeed
 }) => {
+  const [seed, setSeed] = useState('');
+  const [isCommitting, setIsCommitting] = useState(false);
+  const committedSeed = commitment?.seed ?? null;
+
+  // Offer a fresh random seed each time a draw is set up; a value published
+  // before the event can be pasted over it instead. A committed seed is kept, restarts included
+  useEffect(() => {
+    if (isOpen) {
+      setSeed(committedSeed ?? generateDrawSeed());
+    }
+  }, [isOpen, category, committedSeed]);
+
   if (!isOpen || !category) return null;
 
+  const winnersNeeded = slotCount ?? category.winnerCount;
+  const rules = describeEligibility(category.eligibility);
+  const drawableGuides = eligibleGuides - heldBack.length;
+  const isCommitted = !!commitment && commitment.seed === seed.trim();
+
+  const handleCommit = async () => {
+    if (!onCommitSeed) return;
+
+    setIsCommitting(true);
+    try {
+      await onCommitSeed(seed.trim());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to record the seed commitment. Please try again.');
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  // One line per reason, so a long roster does not flood the dialog
+  const heldBackReasons = Array.from(
+    heldBack.reduce((counts, guide) => counts.set(guide.reason, (counts.get(guide.reason) || 0) + 1), new Map<string, number>())
+  );
+
+  // The bars share one scale, so the favourite's bar is full width
+  const chartedOdds = odds.slice(0, CHART_GUIDES);
+  const otherOdds = odds.slice(CHART_GUIDES);
+  const highestChance = odds[0]?.chance ?? 0;
+
   return (
     <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <motion.div
         initial={{ scale: 0.8, opacity: 0 }}
         animate={{ scale: 1, opacity: 1 }}
         exit={{ scale: 0.8, opacity: 0 }}
-        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-2xl border border-white/20"
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto border border-white/20"
       >
         <div className="flex items-center justify-between p-6 border-b border-white/20">
           <div className="flex items-center space-x-3">
@@ -51,11 +118,13 @@ export const PrizeDrawModal: React.FC<PrizeDrawModalProps> = ({
         {/* Prize Image */}
         <div className="p-6">
           <div className="relative h-64 rounded-2xl overflow-hidden mb-6">
-            <img
-              src={category.image}
-              alt={category.name}
-              className="w-full h-full object-cover"
-            />
+            {category.image && (
+              <img
+                src={category.image}
+                alt={category.name}
+                className="w-full h-full object-cover"
+              />
+            )}
             <div className={`absolute inset-0 bg-gradient-to-t ${category.gradient} opacity-40`} />
             <div className="absolute inset-0 flex items-center justify-center">
               <motion.div
@@ -88,24 +157,135 @@ export const PrizeDrawModal: React.FC<PrizeDrawModalProps> = ({
               </div>
               <div>
                 <p className="text-blue-200">Number of Winners:</p>
-                <p className="font-semibold text-white">{category.winnerCount}</p>
+                <p className="font-semibold text-white">{winnersNeeded}</p>
+              </div>
+              <div>
+                <p className="text-blue-200">Eligible Guides:</p>
+                <p className="font-semibold text-white">{eligibleGuides} of {availableGuides}</p>
               </div>
               <div>
-                <p className="text-blue-200">Available Guides:</p>
-                <p className="font-semibold text-white">{availableGuides}</p>
+                <p className="text-blue-200">Eligible Tickets:</p>
+                <p className="font-semibold text-white">{eligibleTickets.toLocaleString()}</p>
               </div>
               <div>
                 <p className="text-blue-200">Draw Type:</p>
                 <p className="font-semibold text-white">Weighted by Tickets</p>
               </div>
             </div>
+            <div className="mt-4 text-sm">
+              <p className="text-blue-200">Eligibility:</p>
+              {rules.length === 0 ? (
+                <p className="font-semibold text-white">Every guide who has not won yet</p>
+              ) : (
+                <ul className="list-disc list-inside font-semibold text-white">
+                  {rules.map(rule => <li key={rule}>{rule}</li>)}
+                </ul>
+              )}
+            </div>
+            {quotas.length > 0 && (
+              <div className="mt-4 text-sm">
+                <p className="text-blue-200">Quotas:</p>
+                <ul className="list-disc list-inside font-semibold text-white">
+                  {quotas.map(quota => <li key={quota}>{quota}</li>)}
+                </ul>
+                {heldBackReasons.length > 0 && (
+                  <div className="mt-2 text-orange-200">
+                    <p>Tickets landing on these guides are passed over and the draw moves on:</p>
+                    <ul className="list-disc list-inside">
+                      {heldBackReasons.map(([reason, count]) => (
+                        <li key={reason}>{count} guide(s): {reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+            {replacing && (
+              <p className="mt-4 text-sm text-orange-200">
+                🔁 Redraw replacing {replacing.name}, voided: {replacing.void_reason}
+              </p>
+            )}
+          </div>
+
+          {/* Odds */}
+          {odds.length > 0 && (
+            <div className="bg-white/20 backdrop-blur-sm rounded-xl p-6 mb-6 border border-white/20">
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+                <BarChart3 className="w-5 h-5 mr-2 text-yellow-400" />
+                Chances of Winning
+              </h3>
+              <div className="space-y-2">
+                {chartedOdds.map(guide => (
+                  <div key={guide.name} className="grid grid-cols-[8rem_1fr_3.5rem] items-center gap-3 text-sm">
+                    <span className="text-white truncate" title={guide.name}>{guide.name}</span>
+                    <div className="h-3 bg-white/10 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full bg-gradient-to-r ${category.gradient} rounded-full`}
+                        style={{ width: `${highestChance > 0 ? (guide.chance / highestChance) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="text-right font-semibold text-white">{formatChance(guide.chance)}</span>
+                  </div>
+                ))}
+              </div>
+              {otherOdds.length > 0 && (
+                <p className="mt-3 text-xs text-blue-200">
+                  {otherOdds.length} more guide(s), each at {formatChance(otherOdds[0].chance)} or less
+                </p>
+              )}
+              {oddsNote && <p className="mt-2 text-xs text-blue-200">{oddsNote}</p>}
+            </div>
+          )}
+
+          {/* Draw Seed */}
+          <div className="bg-white/20 backdrop-blur-sm rounded-xl p-6 mb-6 border border-white/20">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+              <KeyRound className="w-5 h-5 mr-2 text-yellow-400" />
+              Draw Seed
+            </h3>
+            <input
+              type="text"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              className="w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white font-mono text-sm placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+              placeholder="🔑 Enter the published seed"
+            />
+            <div className="mt-3 text-xs text-blue-200 space-y-1">
+              <p>Algorithm: <span className="font-mono text-white">{DRAW_ALGORITHM_VERSION}</span></p>
+              <p className="break-all">
+                Commitment (SHA-256): <span className="font-mono text-white">{seed.trim() ? seedCommitment(seed.trim()) : 'N/A'}</span>
+              </p>
+            </div>
+            {requiresCommitment && (
+              <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <button
+                  onClick={handleCommit}
+                  disabled={isCommitting || isCommitted || !seed.trim()}
+                  className="inline-flex items-center justify-center px-4 py-2 bg-white/20 border border-white/30 rounded-full text-white text-sm font-semibold hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  <Lock className="w-4 h-4 mr-2" />
+                  {isCommitting ? 'Recording...' : commitment && !isCommitted ? 'Commit New Seed' : 'Commit Seed'}
+                </button>
+                <p className="text-xs text-blue-200">
+                  {isCommitted
+                    ? `🔒 Committed at ${new Date(commitment.committedAt).toLocaleTimeString()}. The draw only accepts this seed.`
+                    : commitment
+                    ? '⚠️ The seed differs from the one committed. Committing it replaces the earlier commitment, and both stay in the audit log.'
+                    : 'The commitment is recorded and shown on the big screen before the draw can start.'}
+                </p>
+              </div>
+            )}
           </div>
 
-          {/* Warning if not enough guides */}
-          {availableGuides < category.winnerCount && (
+          {/* Warning if not enough eligible guides */}
+          {(eligibleGuides < winnersNeeded || drawableGuides === 0) && (
             <div className="bg-red-500/20 backdrop-blur-sm border border-red-400/30 rounded-xl p-4 mb-6">
               <p className="text-red-200 text-sm font-medium">
-                ⚠️ Warning: Only {availableGuides} guides available, but {category.winnerCount} winners needed for this category.
+                {eligibleGuides === 0
+                  ? '⚠️ No guides meet the eligibility rules of this category.'
+                  : drawableGuides === 0
+                  ? '⚠️ Every eligible guide is held back by the quotas right now.'
+                  : `⚠️ Warning: Only ${eligibleGuides} eligible guides, but ${winnersNeeded} winners needed for this category. The draw will pick ${eligibleGuides}.`}
               </p>
             </div>
           )}
@@ -120,8 +300,8 @@ export const PrizeDrawModal: React.FC<PrizeDrawModalProps> = ({
             </button>
             
             <button
-              onClick={onConfirmDraw}
-              disabled={isDrawing || availableGuides < category.winnerCount}
+              onClick={() => onConfirmDraw(seed.trim())}
+              disabled={isDrawing || !seed.trim() || (requiresCommitment && !isCommitted) || winnersNeeded === 0 || drawableGuides <= 0}
               className={`flex-1 inline-flex items-center justify-center px-6 py-3 bg-gradient-to-r ${category.gradient} text-white rounded-full font-bold hover:opacity-90 focus:ring-2 focus:ring-white/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-lg`}
             >
               {isDrawing ? (
@@ -138,7 +318,7 @@ export const PrizeDrawModal: React.FC<PrizeDrawModalProps> = ({
               ) : (
                 <>
                   <Trophy className="w-5 h-5 mr-2" />
-                  Start {category.name} Draw
+                  {replacing ? `Redraw ${category.name}` : `Start ${category.name} Draw`}
                 </>
               )}
             </button>
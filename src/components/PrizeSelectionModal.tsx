@@ -2,12 +2,12 @@ import React from 'react';
 import { X, Trophy, Users, Ticket } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { PrizeCategory, Guide } from '../types';
-import { prizeCategories } from '../data/prizeCategories';
 
 interface PrizeSelectionModalProps {
   isOpen: boolean;
   onClose: () => void;
   availableGuides: Guide[];
+  prizeCategories: PrizeCategory[];
   onSelectPrize: (category: PrizeCategory) => void;
   existingWinners: any[];
 }
@@ -16,6 +16,7 @@ export const PrizeSelectionModal: React.FC<PrizeSelectionModalProps> = ({
   isOpen,
   onClose,
   availableGuides,
+  prizeCategories,
   onSelectPrize,
   existingWinners
 }) => {
@@ -99,11 +100,13 @@ export const PrizeSelectionModal: React.FC<PrizeSelectionModalProps> = ({
                 >
                   {/* Prize Image */}
                   <div className="relative h-48 overflow-hidden">
-                    <img
-                      src={category.image}
-                      alt={category.name}
-                      className="w-full h-full object-cover"
-                    />
+                    {category.image && (
+                      <img
+                        src={category.image}
+                        alt={category.name}
+                        className="w-full h-full object-cover"
+                      />
+                    )}
                     <div className={`absolute inset-0 bg-gradient-to-t ${category.gradient} opacity-60`} />
                     <div className="absolute top-4 left-4">
                       <span className="text-4xl">{category.icon}</span>
@@ -0,0 +1,280 @@
+import React, { useState, useMemo } from 'react';
+import { Gift, Plus, Pencil, ArrowUp, ArrowDown, Archive, RotateCcw, Scale } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { PrizeCategory } from '../types';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { useWinners } from '../hooks/useWinners';
+import { useContestGuides } from '../hooks/useContestGuides';
+import { useContest } from '../context/contestContext';
+import { useAuth } from '../context/authContext';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+import { logAuditEvent } from '../utils/audit';
+import { activeWinners, pendingRedraws } from '../utils/ticketSystem';
+import { describeEligibility } from '../utils/eligibility';
+import { describeQuotas } from '../utils/quotas';
+import { PrizeCategoryModal } from './PrizeCategoryModal';
+import { QuotaRulesModal } from './QuotaRulesModal';
+
+// Category ids are stored on winners, so they are derived once from the name and never change
+const toCategoryId = (name: string, existingIds: string[]): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'prize';
+  let id = base;
+  for (let suffix = 2; existingIds.includes(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
+
+export const PrizesView: React.FC = () => {
+  const [editingCategory, setEditingCategory] = useState<PrizeCategory | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isQuotasOpen, setIsQuotasOpen] = useState(false);
+
+  const { selectedContest, isReadOnly, saveQuotaRules } = useContest();
+  const { isAdmin } = useAuth();
+  const contestId = selectedContest?.id ?? null;
+  const {
+    categories,
+    activeCategories,
+    loading,
+    saveCategory,
+    reorderCategories,
+    setCategoryRetired,
+    uploadPrizeImage
+  } = usePrizeCategories(contestId);
+  const { winners } = useWinners(contestId);
+  const { guides } = useContestGuides(contestId);
+
+  const canEdit = isAdmin && !isReadOnly;
+  const quotas = describeQuotas(selectedContest?.quota_rules, categories);
+
+  // Slots taken per category: active winners plus voided winners still waiting for their redraw
+  const takenSlots = useMemo(() => {
+    const counts = new Map<string, number>();
+    [...activeWinners(winners), ...pendingRedraws(winners)].forEach(winner => {
+      counts.set(winner.prize_category, (counts.get(winner.prize_category) || 0) + 1);
+    });
+    return counts;
+  }, [winners]);
+
+  const departments = useMemo(() => Array.from(new Set(guides.map(guide => guide.department))).sort(), [guides]);
+  const supervisors = useMemo(() => Array.from(new Set(guides.map(guide => guide.supervisor))).sort(), [guides]);
+
+  const openEditor = (category: PrizeCategory | null) => {
+    setEditingCategory(category);
+    setIsEditorOpen(true);
+  };
+
+  const handleSave = async (fields: Omit<PrizeCategory, 'id'>) => {
+    const id = editingCategory?.id ?? toCategoryId(fields.name, categories.map(category => category.id));
+    await saveCategory({ ...fields, id, retiredAt: editingCategory?.retiredAt ?? null });
+    await logAuditEvent(contestId, 'prize_edited', {
+      prizeCategory: id,
+      prizeName: fields.name,
+      action: editingCategory ? 'updated' : 'created'
+    });
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= categories.length) return;
+
+    const ordered = [...categories];
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+
+    setIsBusy(true);
+    try {
+      await reorderCategories(ordered);
+      await logAuditEvent(contestId, 'prize_edited', {
+        prizeCategory: categories[index].id,
+        prizeName: categories[index].name,
+        action: offset < 0 ? 'moved up' : 'moved down'
+      });
+    } catch (error) {
+      alert(friendlyErrorMessage(error, 'Failed to reorder the prize categories. Please try again.'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleToggleRetired = async (category: PrizeCategory) => {
+    const retire = !category.retiredAt;
+    if (retire && !window.confirm(`Retire "${category.name}"? Its winners are kept, but it can no longer be drawn.`)) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await setCategoryRetired(category.id, retire);
+      await logAuditEvent(contestId, 'prize_edited', {
+        prizeCategory: category.id,
+        prizeName: category.name,
+        action: retire ? 'retired' : 'reinstated'
+      });
+    } catch (error) {
+      alert(friendlyErrorMessage(error, 'Failed to update the prize category. Please try again.'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 space-y-6 p-6">
+      {/* Header */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-8 text-white border border-white/20 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-4xl font-bold mb-2 bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
+              🎁 Prize Categories 🎁
+            </h2>
+            <p className="text-blue-100 text-lg">
+              {canEdit
+                ? `Add, edit, reorder and retire the prizes of ${selectedContest?.name}`
+                : `The prizes of ${selectedContest?.name}`}
+            </p>
+          </div>
+          {canEdit && (
+            <div className="flex gap-3">
+              <button
+                onClick={() => setIsQuotasOpen(true)}
+                className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-yellow-500 to-orange-600 text-white rounded-full font-bold hover:from-yellow-600 hover:to-orange-700 focus:ring-4 focus:ring-yellow-500/50 transition-all duration-300 shadow-lg transform hover:scale-105"
+              >
+                <Scale className="w-5 h-5 mr-2" />
+                Quotas
+              </button>
+              <button
+                onClick={() => openEditor(null)}
+                className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-green-500 to-blue-500 text-white rounded-full font-bold hover:from-green-600 hover:to-blue-600 focus:ring-4 focus:ring-green-500/50 transition-all duration-300 shadow-lg transform hover:scale-105"
+              >
+                <Plus className="w-5 h-5 mr-2" />
+                Add Prize
+              </button>
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-blue-200 mt-4">
+          Quotas: {quotas.join(' • ') || 'none, winners are drawn without regard to department or team'}
+        </p>
+      </div>
+
+      {/* Categories */}
+      <div className="space-y-4">
+        {categories.map((category, index) => {
+          const taken = takenSlots.get(category.id) || 0;
+          return (
+            <motion.div
+              key={category.id}
+              layout
+              className={`bg-white/10 backdrop-blur-xl rounded-2xl border border-white/20 shadow-xl overflow-hidden flex flex-col md:flex-row ${
+                category.retiredAt ? 'opacity-60' : ''
+              }`}
+            >
+              <div className="relative h-32 md:h-auto md:w-48 shrink-0">
+                {category.image && <img src={category.image} alt={category.name} className="w-full h-full object-cover" />}
+                <div className={`absolute inset-0 bg-gradient-to-t ${category.gradient} opacity-60`} />
+                <div className="absolute top-3 left-3 text-3xl">{category.icon}</div>
+              </div>
+
+              <div className="flex-1 p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                  <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                    {category.name}
+                    {category.retiredAt && (
+                      <span className="inline-flex px-3 py-1 text-xs font-bold rounded-full bg-white/20 text-blue-100">
+                        Retired
+                      </span>
+                    )}
+                  </h3>
+                  <p className="text-blue-200 text-sm">{category.description}</p>
+                  <p className="text-xs text-blue-300 mt-2">
+                    {taken}/{category.winnerCount} winners • {category.countdownSeconds}s countdown
+                  </p>
+                  <p className="text-xs text-blue-200 mt-1">
+                    Eligible: {describeEligibility(category.eligibility).join(' • ') || 'every guide who has not won yet'}
+                  </p>
+                </div>
+
+                {canEdit && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={isBusy || index === 0}
+                      aria-label="Move up"
+                      className="p-2 bg-white/20 border border-white/30 text-white rounded-full hover:bg-white/30 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={isBusy || index === categories.length - 1}
+                      aria-label="Move down"
+                      className="p-2 bg-white/20 border border-white/30 text-white rounded-full hover:bg-white/30 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => openEditor(category)}
+                      disabled={isBusy}
+                      className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-full text-sm font-semibold hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-lg disabled:opacity-50"
+                    >
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleToggleRetired(category)}
+                      disabled={isBusy}
+                      className={`inline-flex items-center px-4 py-2 text-white rounded-full text-sm font-semibold transition-all duration-300 shadow-lg disabled:opacity-50 ${
+                        category.retiredAt
+                          ? 'bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700'
+                          : 'bg-gradient-to-r from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700'
+                      }`}
+                    >
+                      {category.retiredAt ? <RotateCcw className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+                      {category.retiredAt ? 'Reinstate' : 'Retire'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          );
+        })}
+
+        {categories.length === 0 && (
+          <div className="text-center py-12 bg-white/10 backdrop-blur-xl rounded-2xl border border-white/20">
+            <Gift className="w-10 h-10 text-white/40 mx-auto mb-3" />
+            <p className="text-white/60 text-lg">✨ No prizes yet ✨</p>
+          </div>
+        )}
+      </div>
+
+      <PrizeCategoryModal
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        category={editingCategory}
+        minWinnerCount={editingCategory ? takenSlots.get(editingCategory.id) || 0 : 0}
+        departments={departments}
+        supervisors={supervisors}
+        onSave={handleSave}
+        onUploadImage={uploadPrizeImage}
+      />
+
+      <QuotaRulesModal
+        isOpen={isQuotasOpen}
+        onClose={() => setIsQuotasOpen(false)}
+        rules={selectedContest?.quota_rules ?? null}
+        departments={departments}
+        categories={activeCategories}
+        onSave={saveQuotaRules}
+      />
+    </div>
+  );
+};
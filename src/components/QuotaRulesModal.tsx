@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { X, Scale, Plus, Trash2, Save } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { DepartmentQuota, PrizeCategory, QuotaRules, TierCap } from '../types';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+import { DEFAULT_QUOTA_RULES, describeQuotas } from '../utils/quotas';
+
+interface QuotaRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: QuotaRules | null;
+  departments: string[]; // From the contest roster
+  categories: PrizeCategory[]; // Active categories, offered for tier caps
+  onSave: (rules: QuotaRules | null) => Promise<void>;
+}
+
+const emptyTierCap: TierCap = {
+  label: '',
+  categoryIds: [],
+  groupBy: 'supervisor',
+  max: 1
+};
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const toLimit = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const inputClassName = 'w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200';
+
+export const QuotaRulesModal: React.FC<QuotaRulesModalProps> = ({
+  isOpen,
+  onClose,
+  rules,
+  departments,
+  categories,
+  onSave
+}) => {
+  const [form, setForm] = useState<QuotaRules>(DEFAULT_QUOTA_RULES);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Every roster department gets a row; quotas for departments no longer on the roster are kept
+  useEffect(() => {
+    if (isOpen) {
+      const stored = rules ?? DEFAULT_QUOTA_RULES;
+      const names = Array.from(new Set([...departments, ...stored.departments.map(quota => quota.department)])).sort();
+      setForm({
+        departments: names.map(department =>
+          stored.departments.find(quota => quota.department === department) ?? { department, min: null, max: null }
+        ),
+        tierCaps: stored.tierCaps.map(cap => ({ ...cap }))
+      });
+      setError('');
+    }
+  }, [isOpen, rules, departments]);
+
+  const updateDepartment = (index: number, changes: Partial<DepartmentQuota>) => {
+    setForm(current => ({
+      ...current,
+      departments: current.departments.map((quota, i) => (i === index ? { ...quota, ...changes } : quota))
+    }));
+  };
+
+  const updateTierCap = (index: number, changes: Partial<TierCap>) => {
+    setForm(current => ({
+      ...current,
+      tierCaps: current.tierCaps.map((cap, i) => (i === index ? { ...cap, ...changes } : cap))
+    }));
+  };
+
+  const isWholeNumber = (value: number | null) => value === null || (Number.isInteger(value) && value >= 0);
+
+  const validationError = form.departments.some(quota => !isWholeNumber(quota.min) || !isWholeNumber(quota.max))
+    ? 'Department minimums and maximums must be whole numbers of zero or more.'
+    : form.departments.some(quota => quota.min !== null && quota.max !== null && quota.min > quota.max)
+      ? 'A department minimum cannot be higher than its maximum.'
+      : form.tierCaps.some(cap => cap.categoryIds.length === 0)
+        ? 'Every tier cap needs at least one prize category.'
+        : form.tierCaps.some(cap => !Number.isInteger(cap.max) || cap.max < 1)
+          ? 'Tier caps must allow at least one winner per group.'
+          : '';
+
+  const handleSave = async () => {
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const cleaned: QuotaRules = {
+      departments: form.departments.filter(quota => quota.min !== null || quota.max !== null),
+      tierCaps: form.tierCaps.map(cap => ({ ...cap, label: cap.label.trim() }))
+    };
+
+    setIsSaving(true);
+    setError('');
+    try {
+      // Nothing switched on is stored as no quotas at all
+      await onSave(describeQuotas(cleaned).length > 0 ? cleaned : null);
+      onClose();
+    } catch (saveError) {
+      console.error('Failed to save quota rules:', saveError);
+      setError(friendlyErrorMessage(saveError, 'Failed to save the quotas. Please try again.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto border border-white/20"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/20">
+          <div className="flex items-center space-x-3">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r from-yellow-500 to-orange-600 rounded-xl shadow-lg">
+              <Scale className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Quotas</h2>
+              <p className="text-blue-200">Spread the winners across departments and teams</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-6 h-6 text-white" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-blue-200">
+            When a ticket lands on a guide a quota holds back, the draw passes over it, records why, and
+            moves on to the next seed value.
+          </p>
+
+          {/* Department quotas */}
+          <div className="bg-white/10 rounded-xl p-4 border border-white/20 space-y-3">
+            <h3 className="text-white font-semibold">Winners per department</h3>
+            <p className="text-xs text-blue-200">
+              Once the open prizes are only enough to bring departments up to their minimum, they are held for those departments.
+            </p>
+            {form.departments.map((quota, index) => (
+              <div key={quota.department} className="grid grid-cols-3 gap-3 items-center">
+                <p className="text-white font-medium">{quota.department}</p>
+                <input
+                  type="number"
+                  min={0}
+                  value={quota.min ?? ''}
+                  onChange={(e) => updateDepartment(index, { min: toLimit(e.target.value) })}
+                  placeholder="No minimum"
+                  aria-label={`${quota.department} minimum`}
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={quota.max ?? ''}
+                  onChange={(e) => updateDepartment(index, { max: toLimit(e.target.value) })}
+                  placeholder="No maximum"
+                  aria-label={`${quota.department} maximum`}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+            {form.departments.length === 0 && (
+              <p className="text-sm text-white/60">The roster has no departments yet.</p>
+            )}
+          </div>
+
+          {/* Tier caps */}
+          <div className="bg-white/10 rounded-xl p-4 border border-white/20 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-white font-semibold">Tier caps</h3>
+              <button
+                type="button"
+                onClick={() => setForm(current => ({ ...current, tierCaps: [...current.tierCaps, { ...emptyTierCap }] }))}
+                className="inline-flex items-center px-4 py-2 bg-white/20 border border-white/30 text-white rounded-full text-sm font-semibold hover:bg-white/30 transition-all duration-300"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Cap
+              </button>
+            </div>
+
+            {form.tierCaps.map((cap, index) => (
+              <div key={index} className="bg-white/10 rounded-xl p-4 border border-white/20 space-y-3">
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={cap.label}
+                    onChange={(e) => updateTierCap(index, { label: e.target.value })}
+                    placeholder="e.g. Top 3"
+                    className={inputClassName}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setForm(current => ({ ...current, tierCaps: current.tierCaps.filter((_, i) => i !== index) }))}
+                    aria-label="Remove cap"
+                    className="p-3 bg-white/20 border border-white/30 text-white rounded-xl hover:bg-red-500/40 transition-all duration-300"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {categories.map(category => (
+                    <button
+                      key={category.id}
+                      type="button"
+                      onClick={() => updateTierCap(index, { categoryIds: toggle(cap.categoryIds, category.id) })}
+                      className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all duration-200 ${
+                        cap.categoryIds.includes(category.id)
+                          ? 'bg-blue-500 border-blue-300 text-white'
+                          : 'bg-white/10 border-white/30 text-blue-100 hover:bg-white/20'
+                      }`}
+                    >
+                      {category.icon} {category.name}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 items-center text-sm text-white">
+                  <label className="flex items-center gap-2">
+                    At most
+                    <input
+                      type="number"
+                      min={1}
+                      value={cap.max}
+                      onChange={(e) => updateTierCap(index, { max: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </label>
+                  <select
+                    value={cap.groupBy}
+                    onChange={(e) => updateTierCap(index, { groupBy: e.target.value as TierCap['groupBy'] })}
+                    className={inputClassName}
+                  >
+                    <option value="supervisor">per supervisor team</option>
+                    <option value="department">per department</option>
+                  </select>
+                </div>
+              </div>
+            ))}
+            {form.tierCaps.length === 0 && (
+              <p className="text-sm text-white/60">No tier caps. Add one to limit how many of a set of prizes one team can win.</p>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-6 py-3 bg-white/20 border border-white/30 text-white rounded-full font-semibold hover:bg-white/30 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-full font-semibold hover:from-green-600 hover:to-emerald-700 focus:ring-4 focus:ring-green-500/50 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-5 h-5 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Quotas'}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
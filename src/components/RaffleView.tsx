@@ -1,16 +1,29 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Shuffle, Trophy, Users, Ticket, Trash2, Sparkles, Gift } from 'lucide-react';
-import { Guide, Winner, PrizeCategory } from '../types';
-import { assignTicketsToGuides, GuideWithTickets } from '../utils/ticketSystem';
+import { Shuffle, Trophy, Users, Ticket, Archive, Sparkles, Gift, RotateCcw, Scale, X, FlaskConical, WifiOff, RefreshCw } from 'lucide-react';
+import { DisplayState, PrizeCategory, PrizeWinner, SkippedTicket } from '../types';
+import { GuideWithTickets, DrawResult, seedCommitment, winnerToGuide, activeWinners, pendingRedraws, slotWinners, openSlots } from '../utils/ticketSystem';
 import { useWinners } from '../hooks/useWinners';
+import { useDraws } from '../hooks/useDraws';
+import { useTicketAssignment } from '../hooks/useTicketAssignment';
+import { useContestGuides } from '../hooks/useContestGuides';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { usePastWinners } from '../hooks/usePastWinners';
+import { useDisplayBroadcast, STANDINGS_STATE } from '../hooks/useDrawDisplay';
+import { useRehearsal } from '../hooks/useRehearsal';
+import { useContest } from '../context/contestContext';
+import { friendlyErrorMessage, isNetworkError } from '../utils/dbErrors';
+import { logAuditEvent } from '../utils/audit';
+import { filterEligibleGuides } from '../utils/eligibility';
+import { describeQuotas, openSlotCount, quotaSkipReason } from '../utils/quotas';
+import { calculateOdds, simulationMargin, formatChance } from '../utils/odds';
+import { ArchiveWinnersModal } from './ArchiveWinnersModal';
 import { PrizeSelectionModal } from './PrizeSelectionModal';
 import { PrizeDrawModal } from './PrizeDrawModal';
+import { RehearsalSimulator } from './RehearsalSimulator';
 import { TicketDrawAnimation } from './TicketDrawAnimation';
 import { WinnerAnimation } from './WinnerAnimation';
-import { prizeCategories } from '../data/prizeCategories';
 import confetti from 'canvas-confetti';
-import guidesData from '../data/guides.json';
 
 export const RaffleView: React.FC = () => {
   const [isPrizeSelectionOpen, setIsPrizeSelectionOpen] = useState(false);
@@ -21,73 +34,293 @@ export const RaffleView: React.FC = () => {
   const [showWinnerAnimation, setShowWinnerAnimation] = useState(false);
   const [animationWinners, setAnimationWinners] = useState<GuideWithTickets[]>([]);
   const [drawnTickets, setDrawnTickets] = useState<number[]>([]);
+  const [drawSeed, setDrawSeed] = useState('');
+  const [drawPool, setDrawPool] = useState<GuideWithTickets[]>([]);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [replacingWinner, setReplacingWinner] = useState<PrizeWinner | null>(null);
+  const [lastSkipped, setLastSkipped] = useState<{ prizeName: string; tickets: SkippedTicket[] } | null>(null);
+  const [drawProgress, setDrawProgress] = useState<Omit<DisplayState, 'category'> | null>(null);
+  const [commitment, setCommitment] = useState<{ categoryId: string; seed: string; committedAt: string } | null>(null);
 
-  const { winners, addWinners, purgeWinners } = useWinners();
-  const guides = guidesData as Guide[];
-  const guidesWithTickets = useMemo(() => assignTicketsToGuides(guides), [guides]);
+  const { selectedContest, isReadOnly } = useContest();
+  const contestId = selectedContest?.id ?? null;
+  const quotaRules = selectedContest?.quota_rules ?? null;
+  const {
+    winners: contestWinners,
+    archiveWinners,
+    isOnline,
+    reportUnreachable,
+    pendingDraws,
+    drawOffline,
+    syncOfflineDraws,
+    dismissOfflineDraw
+  } = useWinners(contestId);
+  const { commitSeed, drawPrize } = useDraws(contestId);
+  const { guides } = useContestGuides(contestId);
+  const { categories: prizeCategories, activeCategories } = usePrizeCategories(contestId);
+  const { guidesWithTickets, loading: assignmentLoading } = useTicketAssignment(contestId, guides);
+  const { pastWinnerIds } = usePastWinners(contestId);
+  const { broadcast } = useDisplayBroadcast(contestId);
+  const rehearsal = useRehearsal(contestId, activeCategories, quotaRules);
+  const { isRehearsing } = rehearsal;
+
+  // During a rehearsal every view of the contest below works on the in-memory winners
+  const winners = isRehearsing ? rehearsal.winners : contestWinners;
+
+  // Saved draws need their seed committed first; rehearsals and offline draws save nothing yet
+  const requiresCommitment = !isRehearsing && isOnline;
+  const drawCommitment = commitment && commitment.categoryId === selectedCategory?.id ? commitment : null;
 
   const availableGuides = useMemo(() => {
     const winnerIds = new Set(winners.map(w => w.guide_id));
     return guidesWithTickets.filter(guide => !winnerIds.has(guide.id));
   }, [guidesWithTickets, winners]);
 
+  // The selected category's rules narrow the pool further; the database applies the same rules
+  const eligibleGuides = useMemo(() => {
+    return filterEligibleGuides(availableGuides, selectedCategory?.eligibility, pastWinnerIds);
+  }, [availableGuides, selectedCategory, pastWinnerIds]);
+
+  // A voided winner's slot stays taken until its redraw, so only the linked redraw can fill it
+  const awaitingRedraw = useMemo(() => pendingRedraws(winners), [winners]);
+  const slotHolders = useMemo(() => slotWinners(winners), [winners]);
+
+  // A redraw replaces exactly one winner; a regular draw fills whatever the category has left
+  const slotCount = useMemo(() => {
+    if (!selectedCategory) return 0;
+    if (replacingWinner) return 1;
+    return openSlots(selectedCategory, winners);
+  }, [selectedCategory, replacingWinner, winners]);
+
+  // Eligible guides a quota would pass over if the draw landed on them right now. Open slots are
+  // counted as draw_prize counts them, with the slot a redraw is filling open
+  const heldBack = useMemo(() => {
+    if (!selectedCategory || !quotaRules) return [];
+
+    const holders = activeWinners(winners);
+    const slotsOpen = openSlotCount(activeCategories, winners, replacingWinner?.id);
+    return eligibleGuides.flatMap(guide => {
+      const reason = quotaSkipReason(quotaRules, selectedCategory.id, guide, holders, slotsOpen);
+      return reason ? [{ name: guide.name, reason }] : [];
+    });
+  }, [selectedCategory, quotaRules, winners, activeCategories, replacingWinner, eligibleGuides]);
+
+  // Mirror every step of the draw to the audience display at /display
+  useEffect(() => {
+    const category = selectedCategory && {
+      id: selectedCategory.id,
+      name: selectedCategory.name,
+      description: selectedCategory.description,
+      icon: selectedCategory.icon,
+      gradient: selectedCategory.gradient,
+      image: selectedCategory.image
+    };
+
+    if (isTicketDrawing) {
+      // The animation reports its first step right after it mounts
+      if (drawProgress) broadcast({ ...drawProgress, category, rehearsal: isRehearsing });
+    } else if (showWinnerAnimation) {
+      broadcast({
+        phase: 'revealing',
+        category,
+        drawIndex: animationWinners.length - 1,
+        totalWinners: animationWinners.length,
+        secondsLeft: 0,
+        revealed: animationWinners.map((guide, index) => ({
+          name: guide.name,
+          department: guide.department,
+          supervisor: guide.supervisor,
+          ticket: drawnTickets[index]
+        })),
+        rehearsal: isRehearsing
+      });
+    } else if (isPrizeDrawOpen && category) {
+      broadcast({
+        ...STANDINGS_STATE,
+        phase: 'ready',
+        category,
+        totalWinners: slotCount,
+        seedCommitment: drawCommitment ? seedCommitment(drawCommitment.seed) : null,
+        rehearsal: isRehearsing
+      });
+    } else {
+      broadcast({ ...STANDINGS_STATE, rehearsal: isRehearsing });
+    }
+  }, [broadcast, selectedCategory, isTicketDrawing, drawProgress, showWinnerAnimation, animationWinners, drawnTickets, isPrizeDrawOpen, slotCount, drawCommitment, isRehearsing]);
+
+  // Odds of this draw alone; only worked out while its confirmation is open
+  const drawOdds = useMemo(() => {
+    if (!isPrizeDrawOpen || !selectedCategory || slotCount === 0) return null;
+
+    const result = calculateOdds({
+      pool: availableGuides,
+      draws: [{ category: selectedCategory, slots: slotCount }],
+      holders: activeWinners(winners),
+      openSlots: openSlotCount(activeCategories, winners, replacingWinner?.id),
+      pastWinnerIds,
+      quotaRules
+    });
+    const chances = availableGuides
+      .map(guide => ({ name: guide.name, chance: result.guides.get(guide.id)?.byCategory[selectedCategory.id] ?? 0 }))
+      .filter(guide => guide.chance > 0)
+      .sort((a, b) => b.chance - a.chance);
+    const note = result.method === 'exact'
+      ? 'Exact: each guide\'s share of the tickets that can win.'
+      : `Estimated from ${result.runs} simulated draws, within ±${formatChance(simulationMargin(chances[0]?.chance ?? 0, result.runs))}.`;
+
+    return { chances, note };
+  }, [isPrizeDrawOpen, selectedCategory, slotCount, availableGuides, winners, activeCategories, replacingWinner, pastWinnerIds, quotaRules]);
+
   const handleSelectPrize = (category: PrizeCategory) => {
     setSelectedCategory(category);
     setIsPrizeSelectionOpen(false);
     setIsPrizeDrawOpen(true);
   };
 
-  const handleRunRaffle = async () => {
-    if (!selectedCategory || availableGuides.length < selectedCategory.winnerCount) {
+  const handleRedraw = (winner: PrizeWinner) => {
+    const category = prizeCategories.find(c => c.id === winner.prize_category);
+    if (!category) {
+      alert(`The prize category of ${winner.name} no longer exists.`);
       return;
     }
+    if (category.retiredAt) {
+      alert(`${category.name} has been retired and can no longer be drawn.`);
+      return;
+    }
+
+    setReplacingWinner(winner);
+    setSelectedCategory(category);
+    setIsPrizeDrawOpen(true);
+  };
+
+  const resetDraw = () => {
+    setIsDrawing(false);
+    setSelectedCategory(null);
+    setReplacingWinner(null);
+    setCommitment(null);
+  };
+
+  // Its own step before the draw: the commitment is on record and on the big screen before anything is drawn
+  const handleCommitSeed = async (seed: string) => {
+    if (!selectedCategory) return;
 
+    let committedAt: string;
+    try {
+      committedAt = await commitSeed(selectedCategory.id, seed);
+    } catch (error) {
+      // Out of reach: the draw runs offline instead and commits when it is replayed
+      if (!isNetworkError(error)) throw error;
+      reportUnreachable();
+      return;
+    }
+    setCommitment({ categoryId: selectedCategory.id, seed, committedAt });
+  };
+
+  const handleToggleRehearsal = () => {
+    if (!isRehearsing) {
+      rehearsal.startRehearsal(contestWinners);
+      setLastSkipped(null);
+      return;
+    }
+
+    const drawn = rehearsal.drawnWinners.length;
+    if (drawn > 0 && !confirm(`End the rehearsal? Its ${drawn} winner(s) will be discarded.`)) return;
+    rehearsal.endRehearsal();
+    setLastSkipped(null);
+  };
+
+  const handleRunRaffle = async (seed: string) => {
+    if (!selectedCategory || slotCount === 0 || eligibleGuides.length === 0) {
+      return;
+    }
+
+    // Rehearsals leave no trace, in the audit log included; an offline draw is logged by the database when it is replayed
+    if (!isRehearsing && isOnline) {
+      await logAuditEvent(contestId, 'draw_started', {
+        prizeCategory: selectedCategory.id,
+        prizeName: selectedCategory.name,
+        seedCommitment: seedCommitment(seed),
+        poolGuideCount: eligibleGuides.length,
+        poolTicketCount: eligibleGuides.reduce((sum, guide) => sum + guide.totalTickets, 0),
+        ...(replacingWinner ? { replacesWinnerId: replacingWinner.id } : {})
+      });
+    }
+
+    // The database draws from its own locked pool; this copy only feeds the cosmetic ticket scroll
+    setLastSkipped(null);
+    setDrawSeed(seed);
+    setDrawPool(eligibleGuides);
     setIsDrawing(true);
     setIsPrizeDrawOpen(false);
     setIsTicketDrawing(true);
   };
 
+  // Called by the animation when the countdown ends
+  const performDraw = async (): Promise<DrawResult> => {
+    if (!selectedCategory) throw new Error('No prize category is selected');
+
+    const runOffline = () => drawOffline({
+      category: selectedCategory,
+      seed: drawSeed,
+      pool: drawPool,
+      activeCategories,
+      quotaRules,
+      replacesWinnerId: replacingWinner?.id
+    });
+
+    try {
+      const { winners: drawnWinners, skipped } = isRehearsing
+        ? await rehearsal.drawPrize(selectedCategory, drawSeed, drawPool, replacingWinner?.id)
+        : isOnline
+          // The request never reached the database, or its answer was lost: the draw runs offline
+          // and its replay finds it already saved in the second case
+          ? await drawPrize(selectedCategory.id, drawSeed, replacingWinner?.id).catch(error => {
+            if (!isNetworkError(error)) throw error;
+            reportUnreachable();
+            return runOffline();
+          })
+          : await runOffline();
+      if (skipped.length > 0) {
+        setLastSkipped({ prizeName: selectedCategory.name, tickets: skipped });
+      }
+      return {
+        winners: drawnWinners.map(winnerToGuide),
+        drawnTickets: drawnWinners.map(winner => winner.drawn_ticket as number),
+        skipped
+      };
+    } catch (error) {
+      console.error('Failed to run draw:', error);
+      alert(friendlyErrorMessage(error, 'Failed to run the draw. No winners were saved. Please try again.'));
+      throw error;
+    }
+  };
+
   const handleTicketDrawComplete = async (selectedWinners: GuideWithTickets[], tickets: number[], isRestart?: boolean) => {
     setIsTicketDrawing(false);
+    setDrawProgress(null);
+
+    // Restart and abort are only offered during the countdown, before anything is saved
+    if (isRestart !== undefined && selectedCategory && !isRehearsing) {
+      await logAuditEvent(contestId, isRestart ? 'draw_restarted' : 'draw_aborted', {
+        prizeCategory: selectedCategory.id,
+        prizeName: selectedCategory.name
+      });
+    }
     
-    // Check if this is a restart
-    if (isRestart || selectedWinners.length === 0) {
-      // Reset the draw state
+    // A restart goes back to the draw confirmation for the same prize, where a new seed can be set
+    if (isRestart) {
       setIsDrawing(false);
-      setSelectedCategory(null);
+      setIsPrizeDrawOpen(true);
       return;
     }
-    
-    // Save winners to database immediately after draw
-    if (selectedCategory && selectedWinners.length > 0) {
-      const winnersData: any[] = selectedWinners.map((guide, index) => ({
-        guide_id: guide.id,
-        name: guide.name,
-        supervisor: guide.supervisor,
-        department: guide.department,
-        nps: guide.nps,
-        nrpc: guide.nrpc,
-        refund_percent: guide.refundPercent,
-        total_tickets: guide.totalTickets,
-        prize_category: selectedCategory.id,
-        prize_name: selectedCategory.name,
-        drawn_ticket: tickets[index],
-        ticket_numbers: JSON.stringify(guide.ticketNumbers),
-        won_at: new Date().toISOString()
-      }));
-
-      try {
-        await addWinners(winnersData);
-        console.log('Winners saved to database successfully');
-      } catch (error) {
-        console.error('Failed to save winners to database:', error);
-        alert('Failed to save winners to database. Please try again.');
-        setIsDrawing(false);
-        setSelectedCategory(null);
-        return;
-      }
+
+    // Aborted, failed, or nothing left to draw
+    if (selectedWinners.length === 0) {
+      resetDraw();
+      return;
     }
     
+    // The winners were saved by the database before the reveal
     setAnimationWinners(selectedWinners);
     setDrawnTickets(tickets);
     setShowWinnerAnimation(true);
@@ -104,29 +337,7 @@ export const RaffleView: React.FC = () => {
       colors: ['#FFD700', '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7']
     });
     
-    setIsDrawing(false);
-    setSelectedCategory(null);
-  };
-
-  const handlePurgeWinners = async () => {
-    if (winners.length === 0) {
-      alert('No winners to purge!');
-      return;
-    }
-
-    const confirmed = window.confirm(
-      `Are you sure you want to delete ALL ${winners.length} winners? This action cannot be undone.`
-    );
-
-    if (confirmed) {
-      try {
-        await purgeWinners();
-        alert('All winners have been successfully purged!');
-      } catch (error) {
-        console.error('Failed to purge winners:', error);
-        alert('Failed to purge winners. Please try again.');
-      }
-    }
+    resetDraw();
   };
 
   const stats = useMemo(() => {
@@ -138,15 +349,15 @@ export const RaffleView: React.FC = () => {
   }, [availableGuides]);
 
   const prizeStats = useMemo(() => {
-    return prizeCategories.map(category => {
-      const categoryWinners = winners.filter(w => w.prize_category === category.id);
+    return activeCategories.map(category => {
+      const categoryWinners = slotHolders.filter(w => w.prize_category === category.id);
       return {
         ...category,
         currentWinners: categoryWinners.length,
         isCompleted: categoryWinners.length >= category.winnerCount
       };
     });
-  }, [winners]);
+  }, [activeCategories, slotHolders]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 space-y-6 p-6">
@@ -157,7 +368,11 @@ export const RaffleView: React.FC = () => {
             <h2 className="text-4xl font-bold mb-2 bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
               🎪 Multi-Prize Contest System 🎪
             </h2>
-            <p className="text-blue-100 text-lg">Conduct magical draws for different prize categories!</p>
+            <p className="text-blue-100 text-lg">
+              {isReadOnly
+                ? `📚 ${selectedContest?.name} is completed. Its results are read-only.`
+                : 'Conduct magical draws for different prize categories!'}
+            </p>
           </div>
           <motion.div
             animate={{ 
@@ -175,6 +390,96 @@ export const RaffleView: React.FC = () => {
         </div>
       </div>
 
+      {/* Rehearsal: draws run in memory and are thrown away when it ends */}
+      {isRehearsing && (
+        <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border-2 border-dashed border-amber-300/60 shadow-xl space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h3 className="text-xl font-semibold text-white flex items-center">
+                <FlaskConical className="w-5 h-5 mr-2 text-amber-300" />
+                Rehearsal Mode
+              </h3>
+              <p className="text-sm text-amber-100 mt-1">
+                Draws run the full flow in this browser only. Nothing is saved or logged, and the{' '}
+                {rehearsal.drawnWinners.length} rehearsal winner(s) so far are discarded when the rehearsal ends.
+              </p>
+            </div>
+            <button
+              onClick={handleToggleRehearsal}
+              disabled={isDrawing}
+              className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-600 text-white rounded-full font-semibold hover:from-amber-600 hover:to-orange-700 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <X className="w-5 h-5 mr-2" />
+              End Rehearsal
+            </button>
+          </div>
+
+          <div>
+            <h4 className="text-lg font-semibold text-white mb-1">Batch Simulator</h4>
+            <p className="text-sm text-blue-200 mb-4">
+              Runs the whole contest many times over with the current tickets, eligibility rules and quotas, to see how the winners tend to spread.
+            </p>
+            <RehearsalSimulator
+              guidesWithTickets={guidesWithTickets}
+              activeCategories={activeCategories}
+              pastWinnerIds={pastWinnerIds}
+              quotaRules={quotaRules}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Draws run without a connection, until the database has them */}
+      {(!isOnline || pendingDraws.length > 0) && (
+        <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-orange-300/30 shadow-xl">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+            <div>
+              <h3 className="text-xl font-semibold text-white flex items-center">
+                <WifiOff className="w-5 h-5 mr-2 text-orange-300" />
+                Offline Draws
+              </h3>
+              <p className="text-sm text-blue-200 mt-1">
+                {isOnline
+                  ? 'Back online. Offline draws are saved to the database in the order they were run.'
+                  : 'The database cannot be reached. Draws keep working in this browser and are saved once the connection returns.'}
+              </p>
+            </div>
+            {isOnline && pendingDraws.some(draw => !draw.conflict) && (
+              <button
+                onClick={() => syncOfflineDraws()}
+                className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-full text-sm font-semibold hover:from-blue-600 hover:to-purple-700 transition-all duration-300 shadow-lg"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Sync Now
+              </button>
+            )}
+          </div>
+          <div className="space-y-3">
+            {pendingDraws.map(draw => (
+              <div key={draw.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+                <div>
+                  <p className="font-semibold text-white">
+                    {draw.winners[0]?.prize_name} <span className="text-blue-200">• {draw.winners.map(winner => winner.name).join(', ')}</span>
+                  </p>
+                  <p className={`text-xs ${draw.conflict ? 'text-red-200' : 'text-orange-200'}`}>
+                    {draw.conflict ?? `Drawn offline at ${new Date(draw.drawnAt).toLocaleTimeString()}, waiting to be saved`}
+                  </p>
+                </div>
+                {draw.conflict && (
+                  <button
+                    onClick={() => dismissOfflineDraw(draw.id).catch(error => alert(error.message))}
+                    className="inline-flex items-center px-4 py-2 bg-white/20 border border-white/30 text-white rounded-full text-sm font-semibold hover:bg-white/30 transition-all duration-300"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Dismiss
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Current Pool Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl">
@@ -247,6 +552,68 @@ export const RaffleView: React.FC = () => {
         </div>
       </div>
 
+      {/* Voided winners awaiting redraw */}
+      {awaitingRedraw.length > 0 && (
+        <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-orange-300/30 shadow-xl">
+          <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
+            <RotateCcw className="w-5 h-5 mr-2 text-orange-300" />
+            Voided Winners Awaiting Redraw
+          </h3>
+          <div className="space-y-3">
+            {awaitingRedraw.map(winner => (
+              <div key={winner.id} className="flex items-center justify-between bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+                <div>
+                  <p className="font-semibold text-white">{winner.name} <span className="text-blue-200">• {winner.prize_name}</span></p>
+                  <p className="text-xs text-orange-200">Voided: {winner.void_reason}</p>
+                </div>
+                {!isReadOnly && (
+                  <button
+                    onClick={() => handleRedraw(winner)}
+                    disabled={isDrawing || assignmentLoading || availableGuides.length === 0}
+                    className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-orange-500 to-pink-600 text-white rounded-full text-sm font-semibold hover:from-orange-600 hover:to-pink-700 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Redraw
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Tickets the last draw passed over, shown once its winners have been revealed */}
+      {lastSkipped && !isDrawing && (
+        <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-yellow-300/30 shadow-xl">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-semibold text-white flex items-center">
+              <Scale className="w-5 h-5 mr-2 text-yellow-300" />
+              Passed Over by Quotas • {lastSkipped.prizeName}
+            </h3>
+            <button
+              onClick={() => setLastSkipped(null)}
+              aria-label="Dismiss"
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+            >
+              <X className="w-5 h-5 text-white" />
+            </button>
+          </div>
+          <p className="text-sm text-blue-200 mb-3">
+            The draw landed on these tickets first. Their guides were held back by the contest quotas, so the draw moved on to the next seed value.
+          </p>
+          <div className="space-y-2">
+            {lastSkipped.tickets.map(skip => (
+              <div key={skip.pick} className="flex flex-col md:flex-row md:items-center md:justify-between bg-white/20 backdrop-blur-sm rounded-xl p-3 border border-white/20 text-sm">
+                <p className="font-semibold text-white">
+                  <span className="font-mono text-yellow-300">#{skip.ticket.toString().padStart(4, '0')}</span> {skip.name}
+                </p>
+                <p className="text-yellow-100">{skip.reason}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Raffle Controls */}
       <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl">
         <div className="flex flex-col md:flex-row gap-4 items-start md:items-center justify-between">
@@ -258,39 +625,59 @@ export const RaffleView: React.FC = () => {
             <div className="space-y-2 text-sm text-blue-100">
               <p>Total Guides in System: <span className="font-medium">{guidesWithTickets.length}</span></p>
               <p>Available for Draw: <span className="font-medium">{availableGuides.length}</span></p>
-              <p>Total Winners Selected: <span className="font-medium">{winners.length}</span></p>
+              <p>Total Winners Selected: <span className="font-medium">{activeWinners(winners).length}</span></p>
             </div>
           </div>
           
           <div className="flex gap-4">
-            {winners.length > 0 && (
+            {!isRehearsing && !isReadOnly && (
+              <button
+                onClick={handleToggleRehearsal}
+                disabled={isDrawing || assignmentLoading}
+                className="inline-flex items-center px-6 py-3 bg-white/20 border border-amber-300/50 text-amber-100 rounded-full font-semibold hover:bg-white/30 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FlaskConical className="w-5 h-5 mr-2" />
+                Rehearsal
+              </button>
+            )}
+
+            {winners.length > 0 && !isReadOnly && !isRehearsing && (
               <button
-                onClick={handlePurgeWinners}
+                onClick={() => setIsArchiveOpen(true)}
                 className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-full font-semibold hover:from-red-600 hover:to-pink-700 focus:ring-4 focus:ring-red-500/50 transition-all duration-300 shadow-lg transform hover:scale-105"
               >
-                <Trash2 className="w-5 h-5 mr-2" />
-                Purge All Winners
+                <Archive className="w-5 h-5 mr-2" />
+                Archive All Winners
               </button>
             )}
             
             <button
               onClick={() => setIsPrizeSelectionOpen(true)}
-              disabled={isDrawing || availableGuides.length === 0}
+              disabled={isReadOnly || isDrawing || assignmentLoading || availableGuides.length === 0}
               className="inline-flex items-center px-8 py-3 bg-gradient-to-r from-green-500 to-blue-500 text-white rounded-full font-bold text-lg hover:from-green-600 hover:to-blue-600 focus:ring-4 focus:ring-green-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-lg transform hover:scale-105 disabled:transform-none"
             >
               <Gift className="w-6 h-6 mr-2" />
-              {isDrawing ? '🎰 Drawing Magic...' : '🎁 Select Prize & Draw!'}
+              {isDrawing ? '🎰 Drawing Magic...' : isRehearsing ? '🧪 Rehearse a Draw' : '🎁 Select Prize & Draw!'}
             </button>
           </div>
         </div>
       </div>
 
+      <ArchiveWinnersModal
+        isOpen={isArchiveOpen}
+        onClose={() => setIsArchiveOpen(false)}
+        contestName={selectedContest?.name ?? ''}
+        winnerCount={winners.length}
+        onArchive={archiveWinners}
+      />
+
       <PrizeSelectionModal
         isOpen={isPrizeSelectionOpen}
         onClose={() => setIsPrizeSelectionOpen(false)}
         availableGuides={availableGuides}
+        prizeCategories={activeCategories}
         onSelectPrize={handleSelectPrize}
-        existingWinners={winners}
+        existingWinners={slotHolders}
       />
       
       <PrizeDrawModal
@@ -298,19 +685,33 @@ export const RaffleView: React.FC = () => {
         onClose={() => {
           setIsPrizeDrawOpen(false);
           setSelectedCategory(null);
+          setReplacingWinner(null);
         }}
         category={selectedCategory}
+        slotCount={slotCount}
+        replacing={replacingWinner}
         onConfirmDraw={handleRunRaffle}
         isDrawing={isDrawing}
         availableGuides={availableGuides.length}
+        eligibleGuides={eligibleGuides.length}
+        eligibleTickets={eligibleGuides.reduce((sum, guide) => sum + guide.totalTickets, 0)}
+        quotas={describeQuotas(quotaRules, prizeCategories)}
+        heldBack={heldBack}
+        odds={drawOdds?.chances}
+        oddsNote={drawOdds?.note}
+        requiresCommitment={requiresCommitment}
+        commitment={drawCommitment}
+        onCommitSeed={handleCommitSeed}
       />
       
       <TicketDrawAnimation
-        guides={availableGuides}
+        guides={drawPool}
         isDrawing={isTicketDrawing}
+        performDraw={performDraw}
         onComplete={handleTicketDrawComplete}
-        winnerCount={selectedCategory?.winnerCount || 1}
+        winnerCount={Math.min(slotCount, drawPool.length) || 1}
         prizeCategory={selectedCategory}
+        onProgress={setDrawProgress}
       />
       
       <WinnerAnimation
@@ -319,6 +720,16 @@ export const RaffleView: React.FC = () => {
         onComplete={handleAnimationComplete}
         prizeCategory={selectedCategory}
       />
+
+      {/* Above the draw animations too, so no rehearsal result can pass for a real one */}
+      {isRehearsing && (
+        <div className="fixed inset-0 z-[60] pointer-events-none flex items-center justify-center overflow-hidden">
+          <div className="absolute top-0 inset-x-0 bg-amber-500/90 text-center text-white font-bold tracking-widest py-1">
+            🧪 REHEARSAL • NOTHING IS SAVED 🧪
+          </div>
+          <p className="text-[12vw] font-black text-white/10 -rotate-12 select-none">REHEARSAL</p>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { BarChart3, Play } from 'lucide-react';
+import { PrizeCategory, QuotaRules } from '../types';
+import { GuideWithTickets } from '../utils/ticketSystem';
+import { formatChance } from '../utils/odds';
+import { ContestSimulation, MAX_SIMULATED_CONTESTS, randomSimulationSeed, simulateContests } from '../utils/simulation';
+
+interface RehearsalSimulatorProps {
+  guidesWithTickets: GuideWithTickets[];
+  activeCategories: PrizeCategory[];
+  pastWinnerIds: Set<number>;
+  quotaRules: QuotaRules | null;
+}
+
+const TOP_GUIDES = 15;
+
+export const RehearsalSimulator: React.FC<RehearsalSimulatorProps> = ({
+  guidesWithTickets,
+  activeCategories,
+  pastWinnerIds,
+  quotaRules
+}) => {
+  const [runs, setRuns] = useState(1000);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ContestSimulation | null>(null);
+
+  const handleRun = () => {
+    setRunning(true);
+    // Let the button show its busy state before the runs block the page
+    setTimeout(() => {
+      try {
+        setResult(simulateContests(
+          { guidesWithTickets, activeCategories, pastWinnerIds, quotaRules },
+          Math.min(Math.max(Math.round(runs), 1), MAX_SIMULATED_CONTESTS),
+          randomSimulationSeed()
+        ));
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const categoryName = (categoryId: string) =>
+    activeCategories.find(category => category.id === categoryId)?.name ?? categoryId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div>
+          <label htmlFor="simulated-contests" className="block text-sm font-medium text-blue-200 mb-2">
+            Contests to simulate
+          </label>
+          <input
+            id="simulated-contests"
+            type="number"
+            min={1}
+            max={MAX_SIMULATED_CONTESTS}
+            value={runs}
+            onChange={(e) => setRuns(Number(e.target.value))}
+            className="w-40 px-4 py-2 bg-white/20 border border-white/30 rounded-xl text-white focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+          />
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={running || guidesWithTickets.length === 0 || activeCategories.length === 0}
+          className="inline-flex items-center px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-full font-semibold hover:from-blue-600 hover:to-purple-700 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Play className="w-4 h-4 mr-2" />
+          {running ? 'Simulating...' : 'Run Simulation'}
+        </button>
+      </div>
+
+      {result && (
+        <div className="space-y-4">
+          <p className="text-sm text-blue-200">
+            {result.runs.toLocaleString()} full contests from an empty winners list, seed {result.seed}.
+            On average {result.meanFilled.toFixed(1)} of {result.totalSlots} prizes found a winner.
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-white/20">
+                <tr>
+                  {['Department', 'Guides', 'Avg Winners', 'Range', 'Distribution'].map(heading => (
+                    <th key={heading} className="px-4 py-2 text-left text-xs font-bold text-white uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {result.departments.map(department => {
+                  const tallest = Math.max(...department.distribution, 0.0001);
+                  return (
+                    <tr key={department.department}>
+                      <td className="px-4 py-2 text-white font-medium">{department.department}</td>
+                      <td className="px-4 py-2 text-blue-100">{department.guides}</td>
+                      <td className="px-4 py-2 text-white font-bold">{department.mean.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-blue-100">{department.min} to {department.max}</td>
+                      <td className="px-4 py-2">
+                        <div className="flex items-end gap-0.5 h-8 w-40">
+                          {department.distribution.map((share, count) => (
+                            <div
+                              key={count}
+                              title={`${count} winner(s) in ${formatChance(share)} of contests`}
+                              className="flex-1 bg-blue-400/70 rounded-t"
+                              style={{ height: `${(share / tallest) * 100}%` }}
+                            />
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h4 className="text-white font-semibold mb-2 flex items-center">
+              <BarChart3 className="w-4 h-4 mr-2 text-yellow-300" />
+              Most Frequent Winners
+            </h4>
+            <div className="space-y-1">
+              {result.guides.slice(0, TOP_GUIDES).map(({ guide, winRate, byCategory }) => (
+                <div key={guide.id} className="flex items-center justify-between bg-white/10 rounded-lg px-3 py-2 text-sm">
+                  <div>
+                    <span className="text-white font-medium">{guide.name}</span>
+                    <span className="text-blue-200"> • {guide.department} • {guide.totalTickets} tickets</span>
+                  </div>
+                  <span
+                    title={Object.entries(byCategory).map(([categoryId, share]) => `${categoryName(categoryId)}: ${formatChance(share)}`).join('\n')}
+                    className="text-yellow-300 font-bold"
+                  >
+                    {formatChance(winRate)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,296 @@
+import React, { useState, useMemo } from 'react';
+import { X, Upload, UserPlus, UserMinus, RefreshCw, CheckCircle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Guide, TicketRules } from '../types';
+import {
+  ColumnMapping,
+  ROSTER_FIELDS,
+  RosterField,
+  detectColumnMapping,
+  diffRosters,
+  parseRosterFile,
+  validateRoster
+} from '../utils/rosterImport';
+import { applyTicketRules } from '../utils/ticketRules';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+
+interface RosterImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentGuides: Guide[];
+  ticketRules: TicketRules | null;
+  onCommit: (guides: Guide[], fileName: string) => Promise<void>;
+}
+
+const MAX_LISTED_ISSUES = 20;
+
+const fieldLabel = (field: RosterField) => ROSTER_FIELDS.find(f => f.field === field)?.label || field;
+
+export const RosterImportModal: React.FC<RosterImportModalProps> = ({
+  isOpen,
+  onClose,
+  currentGuides,
+  ticketRules,
+  onCommit
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<Record<string, unknown>[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [error, setError] = useState('');
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const validation = useMemo(() => validateRoster(rows, mapping), [rows, mapping]);
+  // Contests with ticket rules derive the counts from the metrics instead of the file's ticket column
+  const incomingGuides = useMemo(
+    () => (ticketRules ? applyTicketRules(validation.guides, ticketRules) : validation.guides),
+    [validation.guides, ticketRules]
+  );
+  const diff = useMemo(() => diffRosters(currentGuides, incomingGuides), [currentGuides, incomingGuides]);
+  const hasChanges = diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+  const reset = () => {
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setError('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    try {
+      const parsed = await parseRosterFile(file);
+      setFileName(file.name);
+      setHeaders(parsed.headers);
+      setRows(parsed.rows);
+      setMapping(detectColumnMapping(parsed.headers));
+    } catch (parseError) {
+      console.error('Failed to read roster file:', parseError);
+      reset();
+      setError('Could not read this file. Please upload a CSV or XLSX spreadsheet.');
+    }
+  };
+
+  const handleCommit = async () => {
+    setIsCommitting(true);
+    setError('');
+    try {
+      await onCommit(incomingGuides, fileName);
+      handleClose();
+    } catch (commitError) {
+      console.error('Failed to import roster:', commitError);
+      setError(friendlyErrorMessage(commitError, 'Failed to import roster. Please try again.'));
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto border border-white/20"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/20">
+          <div className="flex items-center space-x-3">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r from-green-500 to-emerald-600 rounded-xl shadow-lg">
+              <Upload className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Import Guide Roster</h2>
+              <p className="text-blue-200">Upload a CSV or XLSX file, check the mapping and review the changes</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-6 h-6 text-white" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* File Picker */}
+          <label className="block bg-white/20 backdrop-blur-sm rounded-xl p-6 border border-dashed border-white/40 text-center cursor-pointer hover:bg-white/30 transition-all duration-300">
+            <Upload className="w-8 h-8 text-blue-200 mx-auto mb-2" />
+            <p className="text-white font-semibold">{fileName || 'Choose a roster file'}</p>
+            <p className="text-xs text-blue-200">{fileName ? `${rows.length} rows found` : '.csv, .xlsx or .xls'}</p>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          {headers.length > 0 && (
+            <>
+              {/* Column Mapping */}
+              <div className="bg-white/20 backdrop-blur-sm rounded-xl p-6 border border-white/20">
+                <h3 className="text-lg font-semibold text-white mb-4">Column Mapping</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {ROSTER_FIELDS.map(({ field, label }) => (
+                    <div key={field}>
+                      <p className="text-xs text-blue-200 mb-1">{label}</p>
+                      <select
+                        value={mapping[field] || ''}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value || undefined }))}
+                        className="w-full px-3 py-2 bg-white/20 backdrop-blur-sm border border-white/30 rounded-lg text-white text-sm focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+                      >
+                        <option value="" className="text-black">— Not mapped —</option>
+                        {headers.map(header => (
+                          <option key={header} value={header} className="text-black">{header}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Validation Issues */}
+              {validation.issues.length > 0 && (
+                <div className="bg-red-500/20 backdrop-blur-sm border border-red-400/30 rounded-xl p-4">
+                  <p className="text-red-200 text-sm font-bold mb-2">
+                    ⚠️ {validation.issues.length} issue{validation.issues.length === 1 ? '' : 's'} must be fixed before importing
+                  </p>
+                  <ul className="text-red-200 text-xs space-y-1">
+                    {validation.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                      <li key={index}>Row {issue.row}: {issue.message}</li>
+                    ))}
+                    {validation.issues.length > MAX_LISTED_ISSUES && (
+                      <li>...and {validation.issues.length - MAX_LISTED_ISSUES} more</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {/* Diff Preview */}
+              {validation.issues.length === 0 && (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+                      <p className="text-green-200 text-sm font-medium">Added</p>
+                      <p className="text-2xl font-bold text-white">{diff.added.length}</p>
+                    </div>
+                    <div className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+                      <p className="text-red-200 text-sm font-medium">Removed</p>
+                      <p className="text-2xl font-bold text-white">{diff.removed.length}</p>
+                    </div>
+                    <div className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+                      <p className="text-yellow-200 text-sm font-medium">Changed</p>
+                      <p className="text-2xl font-bold text-white">{diff.changed.length}</p>
+                    </div>
+                    <div className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+                      <p className="text-blue-200 text-sm font-medium">Unchanged</p>
+                      <p className="text-2xl font-bold text-white">{diff.unchangedCount}</p>
+                    </div>
+                  </div>
+
+                  {diff.added.length > 0 && (
+                    <div className="bg-white/10 rounded-xl p-4 border border-white/20">
+                      <h4 className="text-sm font-bold text-green-300 mb-2 flex items-center">
+                        <UserPlus className="w-4 h-4 mr-2" /> Added Guides
+                      </h4>
+                      <div className="flex flex-wrap gap-2">
+                        {diff.added.map(guide => (
+                          <span key={guide.id} className="bg-green-500/20 text-green-100 px-3 py-1 rounded-full text-xs font-semibold">
+                            #{guide.id} {guide.name} • {guide.totalTickets} tickets
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {diff.removed.length > 0 && (
+                    <div className="bg-white/10 rounded-xl p-4 border border-white/20">
+                      <h4 className="text-sm font-bold text-red-300 mb-2 flex items-center">
+                        <UserMinus className="w-4 h-4 mr-2" /> Removed Guides
+                      </h4>
+                      <div className="flex flex-wrap gap-2">
+                        {diff.removed.map(guide => (
+                          <span key={guide.id} className="bg-red-500/20 text-red-100 px-3 py-1 rounded-full text-xs font-semibold">
+                            #{guide.id} {guide.name}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {diff.changed.length > 0 && (
+                    <div className="bg-white/10 rounded-xl p-4 border border-white/20">
+                      <h4 className="text-sm font-bold text-yellow-300 mb-2 flex items-center">
+                        <RefreshCw className="w-4 h-4 mr-2" /> Changed Guides
+                      </h4>
+                      <table className="w-full text-xs">
+                        <tbody className="divide-y divide-white/10">
+                          {diff.changed.map(({ before, after, fields }) => (
+                            <tr key={after.id}>
+                              <td className="py-2 pr-4 text-white font-semibold whitespace-nowrap">#{after.id} {after.name}</td>
+                              <td className="py-2 text-blue-100">
+                                {fields.map(field => (
+                                  <span key={field} className="inline-block mr-3">
+                                    {fieldLabel(field)}: <span className="line-through text-white/50">{String(before[field])}</span> → <span className="text-white">{String(after[field])}</span>
+                                  </span>
+                                ))}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {hasChanges && (
+                    <div className="bg-yellow-500/20 backdrop-blur-sm border border-yellow-400/30 rounded-xl p-4">
+                      <p className="text-yellow-100 text-sm font-medium">
+                        ⚠️ Importing replaces this contest's guide pool and regenerates every ticket number.
+                        {ticketRules && ' Ticket counts are recalculated from the contest\'s ticket rules.'}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-500/20 backdrop-blur-sm border border-red-400/30 rounded-xl p-3">
+              <p className="text-red-200 text-sm font-medium">❌ {error}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-4">
+            <button
+              onClick={handleClose}
+              className="flex-1 px-6 py-3 border border-white/30 rounded-full text-white bg-white/10 backdrop-blur-sm hover:bg-white/20 focus:ring-2 focus:ring-white/50 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCommit}
+              disabled={isCommitting || rows.length === 0 || validation.issues.length > 0 || !hasChanges}
+              className="flex-1 inline-flex items-center justify-center px-6 py-3 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-full font-bold hover:from-green-600 hover:to-emerald-700 focus:ring-2 focus:ring-white/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-lg"
+            >
+              <CheckCircle className="w-5 h-5 mr-2" />
+              {isCommitting ? 'Importing...' : `Import ${validation.guides.length} Guides`}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -1 +1,304 @@
-{"code":"rate-limited","message":"You have hit the rate limit. Please upgrade to keep chatting.","providerLimitHit":false,"isRetryable":true}
\ No newline at end of file
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Ticket, RotateCcw, XCircle } from 'lucide-react';
+import { DisplayState, PrizeCategory } from '../types';
+import { DrawResult, GuideWithTickets } from '../utils/ticketSystem';
+
+interface TicketDrawAnimationProps {
+  guides: GuideWithTickets[];
+  isDrawing: boolean;
+  // Runs the draw in the database once the countdown ends; the animation only reveals its result
+  performDraw: () => Promise<DrawResult>;
+  onComplete: (selectedWinners: GuideWithTickets[], tickets: number[], isRestart?: boolean) => void;
+  winnerCount: number;
+  prizeCategory: PrizeCategory | null;
+  // Reports each step so the audience display can follow along
+  onProgress?: (progress: Omit<DisplayState, 'category'>) => void;
+}
+
+type DrawPhase = 'countdown' | 'drawing' | 'revealing' | 'waiting';
+
+const DEFAULT_COUNTDOWN_SECONDS = 10;
+const DRAWING_DURATION_MS = 3000;
+const REVEAL_DURATION_MS = 2500;
+const WAITING_DURATION_MS = 2000;
+const SCROLL_INTERVAL_MS = 80;
+
+const formatTicket = (ticket: number) => `#${ticket.toString().padStart(4, '0')}`;
+
+export const TicketDrawAnimation: React.FC<TicketDrawAnimationProps> = ({
+  guides,
+  isDrawing,
+  performDraw,
+  onComplete,
+  winnerCount,
+  prizeCategory,
+  onProgress
+}) => {
+  const [phase, setPhase] = useState<DrawPhase>('countdown');
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [scrollTicket, setScrollTicket] = useState<number | null>(null);
+  const [result, setResult] = useState<DrawResult | null>(null);
+
+  // The parent re-renders on realtime updates; keep the latest callbacks without restarting timers
+  const onCompleteRef = useRef(onComplete);
+  const performDrawRef = useRef(performDraw);
+  const onProgressRef = useRef(onProgress);
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+    performDrawRef.current = performDraw;
+    onProgressRef.current = onProgress;
+  }, [onComplete, performDraw, onProgress]);
+
+  // Each run gets an id so a response that arrives after the overlay closed is ignored
+  const runRef = useRef(0);
+  const drawRequestedRef = useRef(false);
+
+  useEffect(() => {
+    runRef.current++;
+    drawRequestedRef.current = false;
+    setResult(null);
+
+    if (!isDrawing) return;
+
+    setCurrentIndex(0);
+    setScrollTicket(null);
+    setSecondsLeft(prizeCategory?.countdownSeconds ?? DEFAULT_COUNTDOWN_SECONDS);
+    setPhase('countdown');
+  }, [isDrawing, prizeCategory]);
+
+  useEffect(() => {
+    if (!isDrawing || phase !== 'countdown') return;
+
+    if (secondsLeft <= 0) {
+      setPhase('drawing');
+      return;
+    }
+
+    const timer = setTimeout(() => setSecondsLeft(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [isDrawing, phase, secondsLeft]);
+
+  // Nothing is decided until the countdown ends; from here on the draw can no longer be restarted
+  useEffect(() => {
+    if (!isDrawing || phase !== 'drawing' || drawRequestedRef.current) return;
+
+    drawRequestedRef.current = true;
+    const run = runRef.current;
+    performDrawRef.current()
+      .then(drawResult => {
+        if (runRef.current === run) setResult(drawResult);
+      })
+      .catch(() => {
+        // The parent has already reported the error
+        if (runRef.current === run) onCompleteRef.current([], []);
+      });
+  }, [isDrawing, phase]);
+
+  useEffect(() => {
+    if (!isDrawing || phase !== 'drawing') return;
+
+    if (result && result.winners.length === 0) {
+      onCompleteRef.current([], []);
+      return;
+    }
+
+    // Purely cosmetic scroll through the pool while the database draws
+    const poolTickets = guides.flatMap(guide => guide.ticketNumbers);
+    let step = 0;
+    const interval = setInterval(() => {
+      if (poolTickets.length > 0) {
+        setScrollTicket(poolTickets[(step * 7919) % poolTickets.length]);
+      }
+      step++;
+    }, SCROLL_INTERVAL_MS);
+
+    // Reveal once the result is in and the scroll has run its course
+    const timer = result ? setTimeout(() => setPhase('revealing'), DRAWING_DURATION_MS) : undefined;
+
+    return () => {
+      clearInterval(interval);
+      clearTimeout(timer);
+    };
+  }, [isDrawing, phase, result, guides]);
+
+  useEffect(() => {
+    if (!isDrawing || phase !== 'revealing' || !result) return;
+
+    const timer = setTimeout(() => {
+      if (currentIndex + 1 < result.winners.length) {
+        setPhase('waiting');
+      } else {
+        onCompleteRef.current(result.winners, result.drawnTickets);
+      }
+    }, REVEAL_DURATION_MS);
+
+    return () => clearTimeout(timer);
+  }, [isDrawing, phase, result, currentIndex]);
+
+  useEffect(() => {
+    if (!isDrawing || phase !== 'waiting') return;
+
+    const timer = setTimeout(() => {
+      setCurrentIndex(index => index + 1);
+      setPhase('drawing');
+    }, WAITING_DURATION_MS);
+
+    return () => clearTimeout(timer);
+  }, [isDrawing, phase]);
+
+  // Winners are only sent once revealed here, so the big screen never runs ahead of the room
+  useEffect(() => {
+    if (!isDrawing) return;
+
+    const revealedCount = !result ? 0 : phase === 'drawing' ? currentIndex : currentIndex + 1;
+    onProgressRef.current?.({
+      phase: phase === 'waiting' ? 'revealing' : phase,
+      drawIndex: currentIndex,
+      totalWinners: result?.winners.length ?? winnerCount,
+      secondsLeft,
+      revealed: (result?.winners ?? []).slice(0, revealedCount).map((guide, index) => ({
+        name: guide.name,
+        department: guide.department,
+        supervisor: guide.supervisor,
+        ticket: result?.drawnTickets[index] ?? 0
+      }))
+    });
+  }, [isDrawing, phase, secondsLeft, currentIndex, result, winnerCount]);
+
+  const handleRestart = () => {
+    onCompleteRef.current([], [], true);
+  };
+
+  const handleAbort = () => {
+    onCompleteRef.current([], [], false);
+  };
+
+  if (!isDrawing) return null;
+
+  const totalWinners = result?.winners.length || winnerCount;
+  const currentWinner = result?.winners[currentIndex];
+  const currentTicket = result?.drawnTickets[currentIndex] ?? 0;
+  const revealedCount = phase === 'revealing' || phase === 'waiting' ? currentIndex + 1 : currentIndex;
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-purple-900/95 via-blue-900/95 to-indigo-900/95 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl">
+        <div className="bg-white/20 backdrop-blur-xl rounded-3xl p-10 text-center border border-white/30 shadow-2xl">
+          {/* Header */}
+          <div className="flex items-center justify-center space-x-3 mb-2">
+            {prizeCategory && (
+              <div className={`inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r ${prizeCategory.gradient} rounded-xl shadow-lg`}>
+                <span className="text-2xl">{prizeCategory.icon}</span>
+              </div>
+            )}
+            <h2 className="text-3xl font-bold text-white">
+              {prizeCategory ? prizeCategory.name : '🎰 Ticket Draw'}
+            </h2>
+          </div>
+          <p className="text-blue-200 mb-8">
+            Draw {Math.min(currentIndex + 1, totalWinners)} of {totalWinners}
+          </p>
+
+          <div className="min-h-[16rem] flex items-center justify-center">
+            <AnimatePresence mode="wait">
+              {phase === 'countdown' && (
+                <motion.div
+                  key={`countdown-${secondsLeft}`}
+                  initial={{ scale: 1.6, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  exit={{ scale: 0.6, opacity: 0 }}
+                  transition={{ duration: 0.4 }}
+                >
+                  <p className="text-blue-200 text-lg font-medium mb-4">⏳ The draw begins in</p>
+                  <p className="text-9xl font-bold bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
+                    {secondsLeft}
+                  </p>
+                </motion.div>
+              )}
+
+              {phase === 'drawing' && (
+                <motion.div
+                  key={`drawing-${currentIndex}`}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                >
+                  <p className="text-blue-200 text-lg font-medium mb-4">🎰 Drawing a ticket...</p>
+                  <motion.div
+                    animate={{ rotate: [0, -3, 3, 0] }}
+                    transition={{ duration: 0.3, repeat: Infinity }}
+                    className="inline-flex items-center bg-yellow-400 text-black px-10 py-6 rounded-2xl font-bold text-6xl font-mono shadow-2xl"
+                  >
+                    <Ticket className="w-12 h-12 mr-4" />
+                    {scrollTicket !== null ? formatTicket(scrollTicket) : '#----'}
+                  </motion.div>
+                </motion.div>
+              )}
+
+              {(phase === 'revealing' || phase === 'waiting') && currentWinner && (
+                <motion.div
+                  key={`revealing-${currentIndex}`}
+                  initial={{ scale: 0, opacity: 0, rotateY: 180 }}
+                  animate={{ scale: 1, opacity: 1, rotateY: 0 }}
+                  exit={{ scale: 0, opacity: 0 }}
+                  transition={{ duration: 0.8, type: "spring", stiffness: 100, damping: 15 }}
+                  className="w-full"
+                >
+                  <div className="inline-flex items-center bg-yellow-400 text-black px-8 py-4 rounded-2xl font-bold text-5xl font-mono shadow-2xl mb-6">
+                    <Ticket className="w-10 h-10 mr-3" />
+                    {formatTicket(currentTicket)}
+                  </div>
+                  <div className="bg-white/30 backdrop-blur-sm rounded-2xl p-6">
+                    <h3 className="text-3xl font-bold text-white mb-2">{currentWinner.name}</h3>
+                    <p className="text-xl text-blue-100">
+                      {currentWinner.department} • {currentWinner.supervisor}
+                    </p>
+                  </div>
+                  {phase === 'waiting' && (
+                    <p className="text-blue-200 text-sm font-medium mt-4">✨ Next ticket coming up... ✨</p>
+                  )}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+
+          {/* Tickets drawn so far */}
+          {result && revealedCount > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 mt-8">
+              {result.drawnTickets.slice(0, revealedCount).map((ticket, index) => (
+                <span
+                  key={ticket}
+                  className="bg-white/20 text-white px-3 py-1 rounded-full text-xs font-mono font-semibold"
+                >
+                  {formatTicket(ticket)} • {result.winners[index].name}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Controls */}
+          {phase === 'countdown' && (
+            <div className="flex justify-center gap-4 mt-8">
+              <button
+                onClick={handleRestart}
+                className="inline-flex items-center px-6 py-2 border border-white/30 text-sm font-bold rounded-full text-white bg-white/10 backdrop-blur-sm hover:bg-white/20 focus:ring-2 focus:ring-white/50 transition-all duration-300"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restart Draw
+              </button>
+              <button
+                onClick={handleAbort}
+                className="inline-flex items-center px-6 py-2 border border-white/30 text-sm font-bold rounded-full text-white bg-white/10 backdrop-blur-sm hover:bg-red-500/80 focus:ring-2 focus:ring-red-400/50 transition-all duration-300"
+              >
+                <XCircle className="w-4 h-4 mr-2" />
+                Abort
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
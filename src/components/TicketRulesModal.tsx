@@ -0,0 +1,407 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, SlidersHorizontal, Plus, Trash2, Save, RotateCcw } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { Guide, MetricRule, TicketRules, TicketTier } from '../types';
+import {
+  DEFAULT_TICKET_RULES,
+  METRIC_LABELS,
+  calculateTickets,
+  describeDistribution,
+  validateTicketRules
+} from '../utils/ticketRules';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+
+interface TicketRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  guides: Guide[];
+  rules: TicketRules | null;
+  readOnly: boolean;
+  onSave: (rules: TicketRules, guides: Guide[]) => Promise<void>;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-white/20 backdrop-blur-sm border border-white/30 rounded-lg text-white text-sm focus:ring-2 focus:ring-blue-400 focus:border-transparent disabled:opacity-60';
+
+// Empty optional fields mean "no limit"
+const parseOptional = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const formatTickets = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+export const TicketRulesModal: React.FC<TicketRulesModalProps> = ({
+  isOpen,
+  onClose,
+  guides,
+  rules,
+  readOnly,
+  onSave
+}) => {
+  const [draft, setDraft] = useState<TicketRules>(rules ?? DEFAULT_TICKET_RULES);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Every opening starts from the contest's saved rules
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(rules ?? DEFAULT_TICKET_RULES);
+      setError('');
+    }
+  }, [isOpen, rules]);
+
+  const validationErrors = useMemo(() => validateTicketRules(draft), [draft]);
+
+  const breakdowns = useMemo(() => guides.map(guide => calculateTickets(guide, draft)), [guides, draft]);
+
+  const recalculatedGuides = useMemo(
+    () => guides.map((guide, index) => ({ ...guide, totalTickets: breakdowns[index].totalTickets })),
+    [guides, breakdowns]
+  );
+
+  const currentDistribution = useMemo(() => describeDistribution(guides), [guides]);
+  const previewDistribution = useMemo(() => describeDistribution(recalculatedGuides), [recalculatedGuides]);
+  const changedCount = recalculatedGuides.filter((guide, index) => guide.totalTickets !== guides[index].totalTickets).length;
+
+  const bucketRows = useMemo(() => {
+    const longest = currentDistribution.buckets.length >= previewDistribution.buckets.length
+      ? currentDistribution.buckets
+      : previewDistribution.buckets;
+
+    return longest.map((bucket, index) => ({
+      label: bucket.label,
+      current: currentDistribution.buckets[index]?.count ?? 0,
+      preview: previewDistribution.buckets[index]?.count ?? 0
+    }));
+  }, [currentDistribution, previewDistribution]);
+
+  const largestBucket = Math.max(1, ...bucketRows.map(row => Math.max(row.current, row.preview)));
+
+  const updateMetric = (metricIndex: number, changes: Partial<MetricRule>) => {
+    setDraft(prev => ({
+      ...prev,
+      metrics: prev.metrics.map((rule, index) => (index === metricIndex ? { ...rule, ...changes } : rule))
+    }));
+  };
+
+  const updateTier = (metricIndex: number, tierIndex: number, changes: Partial<TicketTier>) => {
+    const rule = draft.metrics[metricIndex];
+    updateMetric(metricIndex, {
+      tiers: rule.tiers.map((tier, index) => (index === tierIndex ? { ...tier, ...changes } : tier))
+    });
+  };
+
+  const addTier = (metricIndex: number) => {
+    const rule = draft.metrics[metricIndex];
+    const last = rule.tiers[rule.tiers.length - 1];
+    updateMetric(metricIndex, {
+      tiers: [...rule.tiers, { threshold: last ? last.threshold + (rule.comparison === 'atLeast' ? 1 : -1) : 0, tickets: 0 }]
+    });
+  };
+
+  const removeTier = (metricIndex: number, tierIndex: number) => {
+    const rule = draft.metrics[metricIndex];
+    updateMetric(metricIndex, { tiers: rule.tiers.filter((_, index) => index !== tierIndex) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave(draft, recalculatedGuides);
+      onClose();
+    } catch (saveError) {
+      console.error('Failed to save ticket rules:', saveError);
+      setError(friendlyErrorMessage(saveError, 'Failed to save ticket rules. Please try again.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-6xl max-h-[90vh] overflow-y-auto border border-white/20"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/20">
+          <div className="flex items-center space-x-3">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r from-yellow-400 to-orange-500 rounded-xl shadow-lg">
+              <SlidersHorizontal className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Ticket Rules</h2>
+              <p className="text-blue-200">
+                {rules ? 'How this contest turns NPS, NRPC and refund % into tickets' : 'Ticket counts currently come from the roster; set rules to derive them'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-6 h-6 text-white" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Metric Rules */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {draft.metrics.map((rule, metricIndex) => (
+              <div key={rule.metric} className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20 space-y-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-white">{METRIC_LABELS[rule.metric]}</h3>
+                  <p className="text-xs text-blue-200">
+                    {rule.comparison === 'atLeast' ? 'Higher is better' : 'Lower is better'} • the best tier reached applies
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  {rule.tiers.map((tier, tierIndex) => (
+                    <div key={tierIndex} className="flex items-center gap-2">
+                      <span className="text-white font-mono text-sm w-6">{rule.comparison === 'atLeast' ? '≥' : '≤'}</span>
+                      <input
+                        type="number"
+                        value={tier.threshold}
+                        disabled={readOnly}
+                        onChange={(e) => updateTier(metricIndex, tierIndex, { threshold: Number(e.target.value) })}
+                        className={inputClassName}
+                      />
+                      <span className="text-blue-200 text-sm">→</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={tier.tickets}
+                        disabled={readOnly}
+                        onChange={(e) => updateTier(metricIndex, tierIndex, { tickets: Number(e.target.value) })}
+                        className={inputClassName}
+                      />
+                      {!readOnly && (
+                        <button
+                          onClick={() => removeTier(metricIndex, tierIndex)}
+                          title="Remove tier"
+                          className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-300" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {!readOnly && (
+                    <button
+                      onClick={() => addTier(metricIndex)}
+                      className="inline-flex items-center text-xs font-semibold text-blue-200 hover:text-white transition-colors duration-200"
+                    >
+                      <Plus className="w-4 h-4 mr-1" /> Add tier
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <p className="text-xs text-blue-200 mb-1">Weight</p>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={rule.weight}
+                      disabled={readOnly}
+                      onChange={(e) => updateMetric(metricIndex, { weight: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <p className="text-xs text-blue-200 mb-1">Cap</p>
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder="No cap"
+                      value={rule.cap ?? ''}
+                      disabled={readOnly}
+                      onChange={(e) => updateMetric(metricIndex, { cap: parseOptional(e.target.value) })}
+                      className={`${inputClassName} placeholder-white/50`}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Per-Guide Limits */}
+          <div className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20 grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs text-blue-200 mb-1">Minimum tickets per guide</p>
+              <input
+                type="number"
+                min={0}
+                value={draft.minimumPerGuide}
+                disabled={readOnly}
+                onChange={(e) => setDraft(prev => ({ ...prev, minimumPerGuide: Number(e.target.value) }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <p className="text-xs text-blue-200 mb-1">Maximum tickets per guide</p>
+              <input
+                type="number"
+                min={0}
+                placeholder="No maximum"
+                value={draft.maximumPerGuide ?? ''}
+                disabled={readOnly}
+                onChange={(e) => setDraft(prev => ({ ...prev, maximumPerGuide: parseOptional(e.target.value) }))}
+                className={`${inputClassName} placeholder-white/50`}
+              />
+            </div>
+          </div>
+
+          {validationErrors.length > 0 && (
+            <div className="bg-red-500/20 backdrop-blur-sm border border-red-400/30 rounded-xl p-4">
+              <ul className="text-red-200 text-sm space-y-1">
+                {validationErrors.map(message => (
+                  <li key={message}>⚠️ {message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Distribution Preview */}
+          <div className="bg-white/20 backdrop-blur-sm rounded-xl p-6 border border-white/20">
+            <h3 className="text-lg font-semibold text-white mb-4">Ticket Distribution</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div>
+                <p className="text-blue-200 text-sm font-medium">Total Tickets</p>
+                <p className="text-xl font-bold text-white">
+                  {currentDistribution.totalTickets.toLocaleString()} → {previewDistribution.totalTickets.toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <p className="text-blue-200 text-sm font-medium">Average per Guide</p>
+                <p className="text-xl font-bold text-white">
+                  {currentDistribution.averageTickets.toFixed(1)} → {previewDistribution.averageTickets.toFixed(1)}
+                </p>
+              </div>
+              <div>
+                <p className="text-blue-200 text-sm font-medium">Range</p>
+                <p className="text-xl font-bold text-white">
+                  {currentDistribution.minTickets}-{currentDistribution.maxTickets} → {previewDistribution.minTickets}-{previewDistribution.maxTickets}
+                </p>
+              </div>
+              <div>
+                <p className="text-blue-200 text-sm font-medium">Guides Changing</p>
+                <p className="text-xl font-bold text-white">{changedCount} / {guides.length}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {bucketRows.map(row => (
+                <div key={row.label} className="flex items-center gap-3 text-xs">
+                  <span className="w-14 text-blue-200 font-mono text-right">{row.label}</span>
+                  <div className="flex-1 space-y-1">
+                    <div className="h-2 rounded-full bg-white/40" style={{ width: `${(row.current / largestBucket) * 100}%` }} />
+                    <div className="h-2 rounded-full bg-gradient-to-r from-yellow-400 to-orange-500" style={{ width: `${(row.preview / largestBucket) * 100}%` }} />
+                  </div>
+                  <span className="w-16 text-white">{row.current} → {row.preview}</span>
+                </div>
+              ))}
+              <p className="text-xs text-blue-200 pt-2">Guides per ticket range: grey is the current roster, orange is with these rules</p>
+            </div>
+          </div>
+
+          {/* Per-Guide Breakdown */}
+          <div className="bg-white/10 rounded-xl border border-white/20 overflow-hidden">
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-white/20 backdrop-blur-sm sticky top-0">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-bold text-white uppercase tracking-wider">Guide</th>
+                    {draft.metrics.map(rule => (
+                      <th key={rule.metric} className="px-4 py-3 text-left text-xs font-bold text-white uppercase tracking-wider">
+                        {METRIC_LABELS[rule.metric]}
+                      </th>
+                    ))}
+                    <th className="px-4 py-3 text-left text-xs font-bold text-white uppercase tracking-wider">Subtotal</th>
+                    <th className="px-4 py-3 text-left text-xs font-bold text-white uppercase tracking-wider">Tickets</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {guides.map((guide, index) => {
+                    const breakdown = breakdowns[index];
+                    const delta = breakdown.totalTickets - guide.totalTickets;
+
+                    return (
+                      <tr key={guide.id} className="hover:bg-white/10 transition-colors duration-300">
+                        <td className="px-4 py-2 text-white font-semibold whitespace-nowrap">{guide.name}</td>
+                        {breakdown.lines.map(line => (
+                          <td key={line.metric} className="px-4 py-2 text-blue-100 whitespace-nowrap">
+                            <span className="text-white/60">{line.value}</span> → {formatTickets(line.tickets)}
+                            {line.capped && <span className="ml-1 text-xs text-yellow-300">(capped)</span>}
+                          </td>
+                        ))}
+                        <td className="px-4 py-2 text-blue-100">{breakdown.subtotal}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          <span className="font-bold text-white">{breakdown.totalTickets}</span>
+                          {breakdown.adjustment && (
+                            <span className="ml-1 text-xs text-yellow-300">({breakdown.adjustment})</span>
+                          )}
+                          {delta !== 0 && (
+                            <span className={`ml-2 text-xs font-semibold ${delta > 0 ? 'text-green-300' : 'text-red-300'}`}>
+                              {delta > 0 ? `+${delta}` : delta}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {!readOnly && changedCount > 0 && (
+            <div className="bg-yellow-500/20 backdrop-blur-sm border border-yellow-400/30 rounded-xl p-4">
+              <p className="text-yellow-100 text-sm font-medium">
+                ⚠️ Saving updates every guide's ticket count and regenerates all ticket numbers for this contest.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-500/20 backdrop-blur-sm border border-red-400/30 rounded-xl p-3">
+              <p className="text-red-200 text-sm font-medium">❌ {error}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-4">
+            <button
+              onClick={onClose}
+              className="flex-1 px-6 py-3 border border-white/30 rounded-full text-white bg-white/10 backdrop-blur-sm hover:bg-white/20 focus:ring-2 focus:ring-white/50 transition-all duration-300"
+            >
+              {readOnly ? 'Close' : 'Cancel'}
+            </button>
+            {!readOnly && (
+              <>
+                <button
+                  onClick={() => setDraft(DEFAULT_TICKET_RULES)}
+                  className="inline-flex items-center justify-center px-6 py-3 border border-white/30 rounded-full text-white bg-white/10 backdrop-blur-sm hover:bg-white/20 focus:ring-2 focus:ring-white/50 transition-all duration-300"
+                >
+                  <RotateCcw className="w-5 h-5 mr-2" />
+                  Defaults
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || validationErrors.length > 0 || guides.length === 0}
+                  className="flex-1 inline-flex items-center justify-center px-6 py-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-white rounded-full font-bold hover:from-yellow-500 hover:to-orange-600 focus:ring-2 focus:ring-white/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-lg"
+                >
+                  <Save className="w-5 h-5 mr-2" />
+                  {isSaving ? 'Saving...' : 'Save Rules'}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
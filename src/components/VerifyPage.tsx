@@ -0,0 +1,71 @@
+import React from 'react';
+import { ShieldCheck, LogIn } from 'lucide-react';
+import { useContest } from '../context/contestContext';
+import { VerifyView } from './VerifyView';
+import { Footer } from './Footer';
+
+// Public shell around the Verify view: no sign-in, no admin controls, just a contest picker
+export const VerifyPage: React.FC = () => {
+  const { contests, selectedContest, selectContest, loading } = useContest();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+      <header className="bg-white/10 backdrop-blur-xl shadow-2xl border-b border-white/20">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-3">
+              <div className="inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r from-green-400 to-blue-500 rounded-xl shadow-lg">
+                <ShieldCheck className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
+                  🎪 Big Dollar Contest 🎪
+                </h1>
+                <p className="text-sm text-blue-200 font-medium">✨ Public Draw Verification ✨</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <select
+                value={selectedContest?.id ?? ''}
+                onChange={(e) => selectContest(e.target.value)}
+                disabled={contests.length === 0}
+                className="px-4 py-2 bg-white/20 backdrop-blur-sm border border-white/30 rounded-full text-white text-sm font-semibold focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+              >
+                {contests.length === 0 && <option value="">No contests</option>}
+                {contests.map(contest => (
+                  <option key={contest.id} value={contest.id} className="text-black">
+                    {contest.status === 'completed' ? `📚 ${contest.name}` : `🎪 ${contest.name}`}
+                  </option>
+                ))}
+              </select>
+              <a
+                href="/"
+                className="inline-flex items-center px-6 py-2 border border-white/30 text-sm font-bold rounded-full text-white bg-white/20 backdrop-blur-sm hover:bg-white/30 transition-all duration-300 shadow-lg"
+              >
+                <LogIn className="w-4 h-4 mr-2" />
+                Sign in
+              </a>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : selectedContest ? (
+          <VerifyView />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-white/60 text-lg">✨ No contest has been published yet ✨</p>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
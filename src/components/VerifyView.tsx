@@ -0,0 +1,243 @@
+import React, { useState, useMemo } from 'react';
+import { Search, ShieldCheck, ShieldAlert, Ticket, Trophy, KeyRound, Archive } from 'lucide-react';
+import { useContestGuides } from '../hooks/useContestGuides';
+import { useTicketAssignment } from '../hooks/useTicketAssignment';
+import { useWinners } from '../hooks/useWinners';
+import { useDraws } from '../hooks/useDraws';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { useContest } from '../context/contestContext';
+import { findGuideByTicket, verifyDraw } from '../utils/ticketSystem';
+
+const formatTicket = (ticket: number) => `#${ticket.toString().padStart(4, '0')}`;
+
+// Read-only: everything shown here is recomputed in the browser from published rows, so anyone
+// can check the results without trusting the app that ran the draw
+export const VerifyView: React.FC = () => {
+  const [query, setQuery] = useState('');
+
+  const { selectedContest } = useContest();
+  const contestId = selectedContest?.id ?? null;
+  const { guides, loading: guidesLoading } = useContestGuides(contestId);
+  const { guidesWithTickets, loading: assignmentLoading } = useTicketAssignment(contestId, guides);
+  const { winners } = useWinners(contestId);
+  const { draws, loading: drawsLoading } = useDraws(contestId);
+  const { categories } = usePrizeCategories(contestId);
+  const loading = guidesLoading || assignmentLoading || drawsLoading;
+
+  const prizeName = (categoryId: string) =>
+    categories.find(category => category.id === categoryId)?.name ??
+    winners.find(winner => winner.prize_category === categoryId)?.prize_name ??
+    categoryId;
+
+  const verifications = useMemo(() => {
+    if (guidesWithTickets.length === 0) return [];
+    return draws.map(draw => ({ draw, result: verifyDraw(draw, guidesWithTickets, winners) }));
+  }, [draws, guidesWithTickets, winners]);
+
+  const trimmed = query.trim();
+  const ticketNumber = /^#?\d+$/.test(trimmed) ? Number(trimmed.replace('#', '')) : null;
+
+  const ticketLookup = useMemo(() => {
+    if (ticketNumber === null) return null;
+
+    return {
+      owner: findGuideByTicket(ticketNumber, guidesWithTickets),
+      drawnFor: winners.filter(winner => winner.drawn_ticket === ticketNumber),
+      skippedIn: draws.flatMap(draw =>
+        (draw.skipped ?? []).filter(skip => skip.ticket === ticketNumber).map(skip => ({ draw, skip }))
+      )
+    };
+  }, [ticketNumber, guidesWithTickets, winners, draws]);
+
+  const nameMatches = useMemo(() => {
+    if (ticketNumber !== null || trimmed.length < 2) return [];
+    return guidesWithTickets
+      .filter(guide => guide.name.toLowerCase().includes(trimmed.toLowerCase()))
+      .slice(0, 10);
+  }, [ticketNumber, trimmed, guidesWithTickets]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 space-y-6 p-6">
+      {/* Header */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-8 text-white border border-white/20 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-2 bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent">
+          🔍 Verify the Draw 🔍
+        </h2>
+        <p className="text-blue-100 text-lg">
+          Look up any ticket or guide of {selectedContest?.name}, and replay every draw in your browser from its published seed
+        </p>
+      </div>
+
+      {/* Lookup */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/60" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="🔍 Your name or any ticket number"
+            className="w-full pl-10 pr-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+          />
+        </div>
+
+        {ticketLookup && ticketNumber !== null && (
+          <div className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20 text-sm space-y-2">
+            <p className="text-white font-semibold flex items-center">
+              <Ticket className="w-4 h-4 mr-2 text-yellow-300" />
+              {ticketLookup.owner
+                ? `Ticket ${formatTicket(ticketNumber)} belongs to ${ticketLookup.owner.name} (${ticketLookup.owner.department}, ${ticketLookup.owner.supervisor})`
+                : `No guide holds ticket ${formatTicket(ticketNumber)} under the stored assignment`}
+            </p>
+            {ticketLookup.drawnFor.length === 0 && <p className="text-blue-200">This ticket has not been drawn.</p>}
+            {ticketLookup.drawnFor.map(winner => (
+              <p key={winner.id} className="text-green-200">
+                🏆 Drawn for {winner.prize_name} on {new Date(winner.won_at).toLocaleString()}
+                {winner.voided_at ? ` (later voided: ${winner.void_reason})` : ''}
+              </p>
+            ))}
+            {ticketLookup.skippedIn.map(({ draw, skip }) => (
+              <p key={`${draw.id}-${skip.pick}`} className="text-yellow-200">
+                ⚖️ Landed on in the {prizeName(draw.prize_category)} draw but passed over: {skip.reason}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {nameMatches.map(guide => {
+          const win = winners.find(winner => winner.guide_id === guide.id && !winner.voided_at);
+          return (
+            <div key={guide.id} className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20 text-sm space-y-2">
+              <p className="text-white font-semibold">
+                {guide.name} <span className="text-blue-200">• {guide.department} • {guide.supervisor}</span>
+              </p>
+              <p className={win ? 'text-green-200' : 'text-blue-200'}>
+                {win
+                  ? `🏆 Won ${win.prize_name} with ticket ${formatTicket(win.drawn_ticket ?? 0)}`
+                  : 'Has not won a prize in this contest'}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {guide.ticketNumbers.map(ticket => (
+                  <span
+                    key={ticket}
+                    className={`px-2 py-0.5 rounded font-mono text-xs ${
+                      win?.drawn_ticket === ticket ? 'bg-yellow-400 text-black font-bold' : 'bg-white/20 text-white'
+                    }`}
+                  >
+                    {formatTicket(ticket)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {trimmed.length >= 2 && ticketNumber === null && nameMatches.length === 0 && (
+          <p className="text-white/60 text-sm">No guide matches "{trimmed}".</p>
+        )}
+      </div>
+
+      {/* Draws */}
+      <div className="space-y-4">
+        {verifications.map(({ draw, result }) => {
+          const verified = result.algorithmSupported && result.commitmentMatches && result.poolHashMatches && result.winnersMatch;
+          // Archived winners leave nothing to compare with, which is not a mismatch
+          const archived = !verified && result.winnersArchived && result.algorithmSupported && result.commitmentMatches;
+          return (
+            <div key={draw.id} className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl space-y-4">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <h3 className="text-xl font-semibold text-white flex items-center">
+                  <Trophy className="w-5 h-5 mr-2 text-yellow-300" />
+                  {prizeName(draw.prize_category)}
+                  <span className="ml-2 text-sm text-blue-200">{new Date(draw.drawn_at).toLocaleString()}</span>
+                </h3>
+                <span
+                  className={`inline-flex items-center px-3 py-1 text-xs font-bold rounded-full ${
+                    verified ? 'bg-green-500/30 text-green-100' : archived ? 'bg-yellow-500/30 text-yellow-100' : 'bg-red-500/30 text-red-100'
+                  }`}
+                >
+                  {verified ? <ShieldCheck className="w-4 h-4 mr-1" /> : archived ? <Archive className="w-4 h-4 mr-1" /> : <ShieldAlert className="w-4 h-4 mr-1" />}
+                  {verified ? 'Verified' : archived ? 'Winners archived' : 'Could not verify'}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-blue-200">
+                <p className="break-all">
+                  <KeyRound className="w-3 h-3 inline mr-1" />
+                  Seed: <span className="font-mono text-white">{draw.seed}</span>
+                </p>
+                <p className="break-all">
+                  Server salt:{' '}
+                  {draw.server_salt
+                    ? <span className="font-mono text-white">{draw.server_salt}</span>
+                    : 'none; an offline draw or one from before salts, drawn from the seed alone'}
+                </p>
+                <p>
+                  Algorithm: <span className="font-mono text-white">{draw.algorithm_version}</span>
+                  {!result.algorithmSupported && <span className="text-red-200"> (this page cannot replay it)</span>}
+                </p>
+                <p className="break-all">
+                  Seed commitment: <span className="font-mono text-white">{draw.seed_commitment}</span>
+                  <span className={result.commitmentMatches ? 'text-green-200' : 'text-red-200'}>
+                    {result.commitmentMatches ? ' ✓ matches the seed' : ' ✗ does not match the seed'}
+                  </span>
+                  <span className="block">
+                    {draw.committed_at
+                      ? `Committed at ${new Date(draw.committed_at).toLocaleString()}${result.committedBeforeDraw ? ', before the draw' : ''}`
+                      : 'Recorded with the draw; this draw predates separate commitments'}
+                  </span>
+                </p>
+                <p className="break-all">
+                  Pool hash: <span className="font-mono text-white">{draw.pool_hash}</span>
+                  <span className={result.poolHashMatches ? 'text-green-200' : 'text-red-200'}>
+                    {result.poolHashMatches
+                    ? ' ✓ matches the stored tickets'
+                    : archived
+                    ? ' (the ticket assignment has changed since its winners were archived)'
+                    : ' ✗ the ticket assignment has changed since this draw'}
+                  </span>
+                </p>
+              </div>
+
+              <div>
+                <p className="text-sm text-blue-200 mb-2">
+                  Replayed result {result.winnersMatch
+                    ? '(matches the saved winners)'
+                    : archived
+                    ? '(its winners were archived into a snapshot, so there are no saved winners to compare with)'
+                    : '(differs from the saved winners)'}:
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {result.replay.winners.map((guide, index) => (
+                    <span key={guide.id} className="px-3 py-1 rounded-full bg-white/20 text-white text-sm">
+                      <span className="font-mono text-yellow-300">{formatTicket(result.replay.drawnTickets[index])}</span> {guide.name}
+                    </span>
+                  ))}
+                  {result.replay.skipped.map(skip => (
+                    <span key={`skip-${skip.pick}`} className="px-3 py-1 rounded-full bg-white/10 text-white/60 text-sm line-through" title={skip.reason}>
+                      <span className="font-mono">{formatTicket(skip.ticket)}</span> {skip.name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {draws.length === 0 && (
+          <div className="text-center py-12 bg-white/10 backdrop-blur-xl rounded-2xl border border-white/20">
+            <p className="text-white/60 text-lg">✨ No draws have been run in this contest yet ✨</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
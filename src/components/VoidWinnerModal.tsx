@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { X, Ban, AlertTriangle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { PrizeWinner } from '../types';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+
+interface VoidWinnerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  winner: PrizeWinner | null;
+  onVoid: (winnerId: string, reason: string) => Promise<void>;
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/30 rounded-xl text-white placeholder-white/60 focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200';
+
+export const VoidWinnerModal: React.FC<VoidWinnerModalProps> = ({
+  isOpen,
+  onClose,
+  winner,
+  onVoid
+}) => {
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  const [isVoiding, setIsVoiding] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setError('');
+    }
+  }, [isOpen, winner]);
+
+  const handleVoid = async () => {
+    if (!winner) return;
+
+    setIsVoiding(true);
+    setError('');
+    try {
+      await onVoid(winner.id, reason.trim());
+      onClose();
+    } catch (voidError) {
+      console.error('Failed to void winner:', voidError);
+      setError(friendlyErrorMessage(voidError, 'Failed to void the winner. Please try again.'));
+    } finally {
+      setIsVoiding(false);
+    }
+  };
+
+  if (!isOpen || !winner) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-lg border border-white/20"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/20">
+          <div className="flex items-center space-x-3">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r from-red-500 to-pink-600 rounded-xl shadow-lg">
+              <Ban className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Void Winner</h2>
+              <p className="text-blue-200">
+                {winner.name} • {winner.prize_name}
+                {winner.drawn_ticket ? ` • #${winner.drawn_ticket.toString().padStart(4, '0')}` : ''}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-6 h-6 text-white" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-start gap-3 bg-orange-500/20 border border-orange-300/30 rounded-xl p-4">
+            <AlertTriangle className="w-5 h-5 text-orange-200 shrink-0 mt-0.5" />
+            <p className="text-sm text-orange-100">
+              The winner stays on record as voided and cannot win again in this contest. Their slot is held
+              until it is redrawn from the Raffle tab, and the redraw is linked to this winner.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-blue-200 mb-2">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder="e.g. No longer with the company"
+              className={inputClassName}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-6 py-3 bg-white/20 border border-white/30 text-white rounded-full font-semibold hover:bg-white/30 transition-all duration-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleVoid}
+              disabled={!reason.trim() || isVoiding}
+              className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-full font-semibold hover:from-red-600 hover:to-pink-700 focus:ring-4 focus:ring-red-500/50 transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Ban className="w-5 h-5 mr-2" />
+              {isVoiding ? 'Voiding...' : 'Void Winner'}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
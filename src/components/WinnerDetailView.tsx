@@ -0,0 +1,158 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Link2, KeyRound, ShieldCheck, Ticket, Trophy } from 'lucide-react';
+import { useWinners } from '../hooks/useWinners';
+import { useDraws } from '../hooks/useDraws';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { useContest } from '../context/contestContext';
+import { copyContestLink } from '../utils/links';
+import { NotFound } from './NotFound';
+
+const formatTicket = (ticket: number) => `#${ticket.toString().padStart(4, '0')}`;
+
+export const WinnerDetailView: React.FC = () => {
+  const { winnerId } = useParams();
+  const { selectedContest } = useContest();
+  const contestId = selectedContest?.id ?? null;
+  const { winners, loading: winnersLoading } = useWinners(contestId);
+  const { draws, loading: drawsLoading } = useDraws(contestId);
+  const { categories } = usePrizeCategories(contestId);
+  const loading = winnersLoading || drawsLoading;
+
+  const winner = winners.find(candidate => candidate.id === winnerId);
+  const category = categories.find(candidate => candidate.id === winner?.prize_category);
+  const draw = draws.find(candidate => candidate.id === winner?.draw_id);
+
+  // A voided winner links forward to its redraw, a redraw back to the winner it replaced
+  const replaced = winners.find(candidate => candidate.id === winner?.replaces_winner_id);
+  const replacement = winners.find(candidate => !!winner && candidate.replaces_winner_id === winner.id);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!winner) {
+    return <NotFound message={`No winner with id ${winnerId} is in ${selectedContest?.name}.`} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 space-y-6 p-6">
+      <Link to="/winners" className="inline-flex items-center text-blue-200 hover:text-white text-sm font-semibold">
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Winners dashboard
+      </Link>
+
+      {/* Header */}
+      <div className={`bg-white/10 backdrop-blur-xl rounded-3xl p-8 text-white border border-white/20 shadow-2xl ${winner.voided_at ? 'opacity-80' : ''}`}>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-4">
+            <div className={`inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r ${category?.gradient ?? 'from-yellow-400 to-orange-500'} rounded-2xl shadow-lg`}>
+              <span className="text-3xl">{category?.icon ?? '🏆'}</span>
+            </div>
+            <div>
+              <h2 className={`text-4xl font-bold bg-gradient-to-r from-yellow-300 to-pink-300 bg-clip-text text-transparent ${winner.voided_at ? 'line-through' : ''}`}>
+                {winner.name}
+              </h2>
+              <p className="text-blue-100 text-lg">
+                {winner.prize_name} • {new Date(winner.won_at).toLocaleString()}
+              </p>
+            </div>
+          </div>
+          {contestId && (
+            <button
+              onClick={() => copyContestLink(contestId, `winners/${winner.id}`)}
+              className="inline-flex items-center px-4 py-2 bg-white/20 border border-white/30 text-white rounded-full text-sm font-semibold hover:bg-white/30 transition-all duration-300"
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              Copy Link
+            </button>
+          )}
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          <span className="inline-flex items-center bg-yellow-400 text-black px-4 py-2 rounded-full font-bold shadow-lg">
+            <Ticket className="w-4 h-4 mr-2" />
+            {winner.drawn_ticket ? formatTicket(winner.drawn_ticket) : 'N/A'}
+          </span>
+          <span className="inline-flex px-3 py-1 text-xs font-bold rounded-full bg-gradient-to-r from-blue-400 to-cyan-400 text-white shadow-sm">
+            {winner.department}
+          </span>
+          <span className="text-sm text-white font-medium">{winner.supervisor}</span>
+          <Link to={`/guides/${winner.guide_id}`} className="text-sm text-blue-200 hover:text-white underline">
+            View guide
+          </Link>
+        </div>
+
+        {winner.voided_at && (
+          <p className="mt-4 text-sm text-red-200">
+            Voided on {new Date(winner.voided_at).toLocaleString()}: {winner.void_reason}
+            {replacement ? (
+              <> • Replaced by <Link to={`/winners/${replacement.id}`} className="underline">{replacement.name}</Link></>
+            ) : ' • Awaiting redraw'}
+          </p>
+        )}
+        {replaced && (
+          <p className="mt-4 text-sm text-orange-200">
+            🔁 Redrawn to replace <Link to={`/winners/${replaced.id}`} className="underline">{replaced.name}</Link>
+          </p>
+        )}
+      </div>
+
+      {/* Metrics at the time of the draw */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        {[
+          { label: 'NPS', value: winner.nps.toString() },
+          { label: 'NRPC', value: winner.nrpc.toString() },
+          { label: 'Refund %', value: `${winner.refund_percent.toFixed(1)}%` },
+          { label: 'Tickets', value: winner.total_tickets.toString() }
+        ].map(metric => (
+          <div key={metric.label} className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl">
+            <p className="text-sm font-medium text-blue-200">{metric.label}</p>
+            <p className="text-3xl font-bold text-white">{metric.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Draw */}
+      <div className="bg-white/10 backdrop-blur-xl rounded-2xl p-6 border border-white/20 shadow-xl space-y-3">
+        <h3 className="text-xl font-semibold text-white flex items-center">
+          <Trophy className="w-5 h-5 mr-2 text-yellow-300" />
+          The draw
+        </h3>
+        {draw ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-blue-200">
+            <p className="break-all">
+              <KeyRound className="w-3 h-3 inline mr-1" />
+              Seed: <span className="font-mono text-white">{draw.seed}</span>
+            </p>
+            <p className="break-all">
+              Server salt: <span className="font-mono text-white">{draw.server_salt || 'none'}</span>
+            </p>
+            <p>
+              Algorithm: <span className="font-mono text-white">{draw.algorithm_version}</span>
+            </p>
+            <p className="break-all">
+              Seed commitment: <span className="font-mono text-white">{draw.seed_commitment}</span>
+            </p>
+            <p>
+              Pool: <span className="text-white">{draw.pool_guide_ids.length} guides</span>
+            </p>
+          </div>
+        ) : (
+          <p className="text-white/60 text-sm">This winner was saved before draws were recorded.</p>
+        )}
+        <Link
+          to="/verify"
+          className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-full text-sm font-semibold hover:from-green-600 hover:to-emerald-700 transition-all duration-300 shadow-lg"
+        >
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Verify the draws
+        </Link>
+      </div>
+    </div>
+  );
+};
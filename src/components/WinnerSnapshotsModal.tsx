@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { X, History, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { WinnerSnapshot } from '../types';
+import { friendlyErrorMessage } from '../utils/dbErrors';
+
+interface WinnerSnapshotsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  snapshots: WinnerSnapshot[];
+  canRestore: boolean;
+  onRestore: (snapshotId: string) => Promise<number>;
+}
+
+export const WinnerSnapshotsModal: React.FC<WinnerSnapshotsModalProps> = ({
+  isOpen,
+  onClose,
+  snapshots,
+  canRestore,
+  onRestore
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleClose = () => {
+    setError('');
+    onClose();
+  };
+
+  const handleRestore = async (snapshot: WinnerSnapshot) => {
+    const confirmed = window.confirm(
+      `Restore the ${snapshot.winner_count} winner(s) archived in "${snapshot.name}"?`
+    );
+    if (!confirmed) return;
+
+    setRestoringId(snapshot.id);
+    setError('');
+    try {
+      const restored = await onRestore(snapshot.id);
+      alert(`${restored} winner(s) restored from "${snapshot.name}".`);
+    } catch (restoreError) {
+      console.error('Failed to restore snapshot:', restoreError);
+      setError(friendlyErrorMessage(restoreError, 'Failed to restore the snapshot. Please try again.'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.8, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.8, opacity: 0 }}
+        className="bg-white/10 backdrop-blur-xl rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto border border-white/20"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/20">
+          <div className="flex items-center space-x-3">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-xl shadow-lg">
+              <History className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Winner Snapshots</h2>
+              <p className="text-blue-200">Archived winners of this contest, newest first</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-white/20 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-6 h-6 text-white" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {error && (
+            <p className="text-sm text-red-300 bg-red-500/20 border border-red-300/30 rounded-xl p-3">{error}</p>
+          )}
+
+          {snapshots.length === 0 && (
+            <p className="text-center text-white/60 py-8">✨ No winners have been archived yet ✨</p>
+          )}
+
+          {snapshots.map(snapshot => {
+            const isExpanded = expandedId === snapshot.id;
+            return (
+              <div key={snapshot.id} className="bg-white/20 backdrop-blur-sm rounded-xl border border-white/20">
+                <div className="flex items-center justify-between p-4">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : snapshot.id)}
+                    className="flex items-center gap-3 text-left"
+                  >
+                    {isExpanded ? <ChevronDown className="w-5 h-5 text-blue-200" /> : <ChevronRight className="w-5 h-5 text-blue-200" />}
+                    <div>
+                      <p className="font-semibold text-white">{snapshot.name}</p>
+                      <p className="text-xs text-blue-200">
+                        {snapshot.winner_count} winner(s) • {new Date(snapshot.created_at).toLocaleString()}
+                        {snapshot.created_by_email ? ` • ${snapshot.created_by_email}` : ''}
+                      </p>
+                    </div>
+                  </button>
+                  {snapshot.restored_at ? (
+                    <span className="inline-flex px-3 py-1 text-xs font-bold rounded-full bg-green-500/30 text-green-100">
+                      Restored {new Date(snapshot.restored_at).toLocaleDateString()}
+                    </span>
+                  ) : canRestore && (
+                    <button
+                      onClick={() => handleRestore(snapshot)}
+                      disabled={restoringId !== null}
+                      className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-full text-sm font-semibold hover:from-green-600 hover:to-emerald-700 transition-all duration-300 shadow-lg disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      {restoringId === snapshot.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="border-t border-white/20 px-4 py-3 space-y-1">
+                    {snapshot.winners.map(winner => (
+                      <div key={winner.id} className="flex justify-between text-sm text-white">
+                        <span>{winner.name} <span className="text-blue-200">({winner.department})</span></span>
+                        <span className="text-blue-200">
+                          {winner.prize_name}
+                          {winner.drawn_ticket ? ` • #${winner.drawn_ticket.toString().padStart(4, '0')}` : ''}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -1,40 +1,64 @@
-import React, { useMemo } from 'react';
-import { Trophy, Calendar, User, Award, Percent, Ticket, TrendingUp, Sparkles, Trash2, Gift, Download, FileText, FileSpreadsheet } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Trophy, Award, Ticket, TrendingUp, Sparkles, Archive, History, Gift, FileText, FileSpreadsheet, Ban } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
 import { useWinners } from '../hooks/useWinners';
-import { prizeCategories } from '../data/prizeCategories';
+import { useWinnerSnapshots } from '../hooks/useWinnerSnapshots';
+import { usePrizeCategories } from '../hooks/usePrizeCategories';
+import { useContest } from '../context/contestContext';
+import { useAuth } from '../context/authContext';
 import { exportToExcel, exportToPDF } from '../utils/exportUtils';
+import { ArchiveWinnersModal } from './ArchiveWinnersModal';
+import { WinnerSnapshotsModal } from './WinnerSnapshotsModal';
+import { VoidWinnerModal } from './VoidWinnerModal';
+import { PrizeWinner } from '../types';
+import { activeWinners } from '../utils/ticketSystem';
+import { isOfflineWinner } from '../utils/offlineSync';
 
 export const WinnersView: React.FC = () => {
-  const { winners, loading, purgeWinners } = useWinners();
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  const [voidingWinner, setVoidingWinner] = useState<PrizeWinner | null>(null);
 
-  const handlePurgeWinners = async () => {
-    if (winners.length === 0) {
-      alert('No winners to purge!');
-      return;
-    }
+  const { selectedContest, isReadOnly } = useContest();
+  const { isAdmin } = useAuth();
+  const contestId = selectedContest?.id ?? null;
+  const { winners, loading, fetchWinners, archiveWinners, voidWinner } = useWinners(contestId);
+  const { snapshots, fetchSnapshots, restoreSnapshot } = useWinnerSnapshots(contestId);
+  const { categories: prizeCategories } = usePrizeCategories(contestId);
 
-    const confirmed = window.confirm(
-      `Are you sure you want to delete ALL ${winners.length} winners? This action cannot be undone.`
-    );
+  const handleArchiveWinners = async (snapshotName: string) => {
+    await archiveWinners(snapshotName);
+    await fetchSnapshots();
+  };
 
-    if (confirmed) {
-      try {
-        await purgeWinners();
-        alert('All winners have been successfully purged!');
-      } catch (error) {
-        console.error('Failed to purge winners:', error);
-        alert('Failed to purge winners. Please try again.');
-      }
-    }
+  const handleRestoreSnapshot = async (snapshotId: string) => {
+    const restored = await restoreSnapshot(snapshotId);
+    await fetchWinners();
+    return restored;
   };
 
+  const canVoid = isAdmin && !isReadOnly;
+
+  // Voided rows stay in the list for the record, but only active winners count towards the stats
+  const currentWinners = useMemo(() => activeWinners(winners), [winners]);
+
+  const winnersById = useMemo(() => new Map(winners.map(winner => [winner.id, winner])), [winners]);
+
+  const replacementsById = useMemo(() => {
+    const map = new Map<string, PrizeWinner>();
+    winners.forEach(winner => {
+      if (winner.replaces_winner_id) map.set(winner.replaces_winner_id, winner);
+    });
+    return map;
+  }, [winners]);
+
   const handleExportExcel = () => {
     if (winners.length === 0) {
       alert('No winners to export!');
       return;
     }
-    exportToExcel(winners);
+    exportToExcel(winners, prizeCategories);
   };
 
   const handleExportPDF = () => {
@@ -42,37 +66,40 @@ export const WinnersView: React.FC = () => {
       alert('No winners to export!');
       return;
     }
-    exportToPDF(winners);
+    exportToPDF(winners, prizeCategories);
   };
 
   const stats = useMemo(() => {
-    if (winners.length === 0) return { totalWinners: 0, totalTickets: 0, avgNPS: 0, avgNRPC: 0 };
+    if (currentWinners.length === 0) return { totalWinners: 0, totalTickets: 0, avgNPS: 0, avgNRPC: 0 };
     
-    const totalTickets = winners.reduce((sum, winner) => sum + winner.total_tickets, 0);
-    const avgNPS = winners.reduce((sum, winner) => sum + winner.nps, 0) / winners.length;
-    const avgNRPC = winners.reduce((sum, winner) => sum + winner.nrpc, 0) / winners.length;
+    const totalTickets = currentWinners.reduce((sum, winner) => sum + winner.total_tickets, 0);
+    const avgNPS = currentWinners.reduce((sum, winner) => sum + winner.nps, 0) / currentWinners.length;
+    const avgNRPC = currentWinners.reduce((sum, winner) => sum + winner.nrpc, 0) / currentWinners.length;
     
-    return { totalWinners: winners.length, totalTickets, avgNPS, avgNRPC };
-  }, [winners]);
+    return { totalWinners: currentWinners.length, totalTickets, avgNPS, avgNRPC };
+  }, [currentWinners]);
 
   const departmentStats = useMemo(() => {
     const deptMap = new Map<string, number>();
-    winners.forEach(winner => {
+    currentWinners.forEach(winner => {
       deptMap.set(winner.department, (deptMap.get(winner.department) || 0) + 1);
     });
     return Array.from(deptMap.entries()).sort((a, b) => b[1] - a[1]);
-  }, [winners]);
+  }, [currentWinners]);
 
   const prizeStats = useMemo(() => {
-    return prizeCategories.map(category => {
-      const categoryWinners = winners.filter(w => w.prize_category === category.id);
-      return {
-        ...category,
-        winnersCount: categoryWinners.length,
-        winners: categoryWinners
-      };
-    });
-  }, [winners]);
+    // Retired categories only appear here while they still have winners
+    return prizeCategories
+      .map(category => {
+        const categoryWinners = currentWinners.filter(w => w.prize_category === category.id);
+        return {
+          ...category,
+          winnersCount: categoryWinners.length,
+          winners: categoryWinners
+        };
+      })
+      .filter(category => !category.retiredAt || category.winnersCount > 0);
+  }, [prizeCategories, currentWinners]);
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -111,15 +138,26 @@ export const WinnersView: React.FC = () => {
                     PDF
                   </button>
                 </div>
-                <button
-                  onClick={handlePurgeWinners}
-                  className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-full font-semibold hover:from-red-600 hover:to-pink-700 focus:ring-4 focus:ring-red-500/50 transition-all duration-300 shadow-lg transform hover:scale-105"
-                >
-                  <Trash2 className="w-5 h-5 mr-2" />
-                  Purge All Winners
-                </button>
+                {isAdmin && !isReadOnly && (
+                  <button
+                    onClick={() => setIsArchiveOpen(true)}
+                    className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-full font-semibold hover:from-red-600 hover:to-pink-700 focus:ring-4 focus:ring-red-500/50 transition-all duration-300 shadow-lg transform hover:scale-105"
+                  >
+                    <Archive className="w-5 h-5 mr-2" />
+                    Archive All Winners
+                  </button>
+                )}
               </>
             )}
+            {isAdmin && (snapshots.length > 0 || !isReadOnly) && (
+              <button
+                onClick={() => setIsSnapshotsOpen(true)}
+                className="inline-flex items-center px-4 py-2 bg-white/20 border border-white/30 text-white rounded-full font-semibold hover:bg-white/30 focus:ring-4 focus:ring-white/30 transition-all duration-300 shadow-lg transform hover:scale-105"
+              >
+                <History className="w-4 h-4 mr-2" />
+                Snapshots
+              </button>
+            )}
             <motion.div
               animate={{ 
                 rotate: [0, 10, -10, 0],
@@ -188,17 +226,25 @@ export const WinnersView: React.FC = () => {
             Winners by Department
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {departmentStats.map(([department, count]) => (
-              <motion.div
-                key={department}
-                whileHover={{ scale: 1.05 }}
-                className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20 hover:bg-white/30 transition-all duration-300"
-              >
-                <h4 className="font-bold text-white">{department}</h4>
-                <p className="text-3xl font-bold bg-gradient-to-r from-yellow-300 to-orange-300 bg-clip-text text-transparent">{count}</p>
-                <p className="text-xs text-blue-200 font-medium">winners</p>
-              </motion.div>
-            ))}
+            {departmentStats.map(([department, count]) => {
+              const quota = selectedContest?.quota_rules?.departments.find(entry => entry.department === department);
+              return (
+                <motion.div
+                  key={department}
+                  whileHover={{ scale: 1.05 }}
+                  className="bg-white/20 backdrop-blur-sm rounded-xl p-4 border border-white/20 hover:bg-white/30 transition-all duration-300"
+                >
+                  <h4 className="font-bold text-white">{department}</h4>
+                  <p className="text-3xl font-bold bg-gradient-to-r from-yellow-300 to-orange-300 bg-clip-text text-transparent">{count}</p>
+                  <p className="text-xs text-blue-200 font-medium">winners</p>
+                  {quota && (quota.min !== null || quota.max !== null) && (
+                    <p className="text-xs text-yellow-200 mt-1">
+                      Quota: {quota.min ?? 0}{quota.max !== null ? ` to ${quota.max}` : '+'}
+                    </p>
+                  )}
+                </motion.div>
+              );
+            })}
           </div>
         </div>
       )}
@@ -303,112 +349,175 @@ export const WinnersView: React.FC = () => {
                   <th className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider">
                     Won At
                   </th>
+                  {canVoid && (
+                    <th className="px-6 py-4 text-left text-xs font-bold text-white uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
                 </tr>
               </thead>
               <tbody className="divide-y divide-white/10">
-                {winners.map((winner, index) => (
-                  <motion.tr
-                    key={winner.id}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.05 }}
-                    className="hover:bg-white/10 transition-colors duration-300"
-                  >
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        {prizeCategories.find(p => p.id === winner.prize_category) && (
-                          <>
-                            <span className="text-2xl mr-2">
-                              {prizeCategories.find(p => p.id === winner.prize_category)?.icon}
-                            </span>
-                            <div>
-                              <div className="text-sm font-bold text-white">
-                                {prizeCategories.find(p => p.id === winner.prize_category)?.name}
+                {winners.map((winner, index) => {
+                  const replaced = winner.replaces_winner_id ? winnersById.get(winner.replaces_winner_id) : undefined;
+                  const replacement = replacementsById.get(winner.id);
+                  return (
+                    <motion.tr
+                      key={winner.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      className={`hover:bg-white/10 transition-colors duration-300 ${winner.voided_at ? 'opacity-60' : ''}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          {prizeCategories.find(p => p.id === winner.prize_category) && (
+                            <>
+                              <span className="text-2xl mr-2">
+                                {prizeCategories.find(p => p.id === winner.prize_category)?.icon}
+                              </span>
+                              <div>
+                                <div className="text-sm font-bold text-white">
+                                  {prizeCategories.find(p => p.id === winner.prize_category)?.name}
+                                </div>
+                                <div className="text-xs text-blue-200">
+                                  {prizeCategories.find(p => p.id === winner.prize_category)?.description}
+                                </div>
                               </div>
-                              <div className="text-xs text-blue-200">
-                                {prizeCategories.find(p => p.id === winner.prize_category)?.description}
-                              </div>
-                            </div>
-                          </>
-                        )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="bg-yellow-400 text-black px-3 py-1 rounded-full font-bold text-sm shadow-lg">
-                          🎫 #{winner.drawn_ticket ? winner.drawn_ticket.toString().padStart(4, '0') : 'N/A'}
+                            </>
+                          )}
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="w-12 h-12 bg-gradient-to-r from-yellow-400 to-orange-500 rounded-full flex items-center justify-center shadow-lg">
-                          <span className="text-white font-medium text-sm">
-                            {winner.name.split(' ').map(n => n[0]).join('')}
-                          </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="bg-yellow-400 text-black px-3 py-1 rounded-full font-bold text-sm shadow-lg">
+                            🎫 #{winner.drawn_ticket ? winner.drawn_ticket.toString().padStart(4, '0') : 'N/A'}
+                          </div>
                         </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-bold text-white flex items-center">
-                            {winner.name}
-                            <Trophy className="w-4 h-4 ml-2 text-yellow-400" />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="w-12 h-12 bg-gradient-to-r from-yellow-400 to-orange-500 rounded-full flex items-center justify-center shadow-lg">
+                            <span className="text-white font-medium text-sm">
+                              {winner.name.split(' ').map(n => n[0]).join('')}
+                            </span>
                           </div>
-                          <div className="text-xs text-blue-200 font-medium">
-                            🏆 {prizeCategories.find(p => p.id === winner.prize_category)?.name || 'Winner'}
+                          <div className="ml-4">
+                            <div className={`text-sm font-bold text-white flex items-center ${winner.voided_at ? 'line-through' : ''}`}>
+                              <Link to={`/winners/${winner.id}`} className="hover:text-yellow-300 hover:underline">
+                                {winner.name}
+                              </Link>
+                              {!winner.voided_at && <Trophy className="w-4 h-4 ml-2 text-yellow-400" />}
+                            </div>
+                            <div className="text-xs text-blue-200 font-medium">
+                              🏆 {prizeCategories.find(p => p.id === winner.prize_category)?.name || 'Winner'}
+                            </div>
+                            {winner.voided_at && (
+                              <div className="text-xs text-red-300 font-medium whitespace-normal">
+                                Voided: {winner.void_reason}
+                                {replacement ? ` • Replaced by ${replacement.name}` : ' • Awaiting redraw'}
+                              </div>
+                            )}
+                            {replaced && (
+                              <div className="text-xs text-orange-200 font-medium">
+                                🔁 Replaces {replaced.name}
+                              </div>
+                            )}
+                            {isOfflineWinner(winner) && (
+                              <div className="text-xs text-orange-200 font-medium">
+                                📡 Drawn offline, not saved yet
+                              </div>
+                            )}
                           </div>
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="inline-flex px-3 py-1 text-xs font-bold rounded-full bg-gradient-to-r from-blue-400 to-cyan-400 text-white shadow-sm">
-                        {winner.department}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-medium">
-                      {winner.supervisor}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                        winner.nps >= 90 ? 'bg-gradient-to-r from-green-400 to-emerald-400 text-white' :
-                        winner.nps >= 80 ? 'bg-gradient-to-r from-yellow-400 to-orange-400 text-white' :
-                        'bg-gradient-to-r from-red-400 to-pink-400 text-white'
-                      }`}>
-                        {winner.nps}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                        winner.nrpc >= 90 ? 'bg-gradient-to-r from-green-400 to-emerald-400 text-white' :
-                        winner.nrpc >= 85 ? 'bg-gradient-to-r from-yellow-400 to-orange-400 text-white' :
-                        'bg-gradient-to-r from-red-400 to-pink-400 text-white'
-                      }`}>
-                        {winner.nrpc}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                        winner.refund_percent <= 3 ? 'bg-gradient-to-r from-green-400 to-emerald-400 text-white' :
-                        winner.refund_percent <= 4 ? 'bg-gradient-to-r from-yellow-400 to-orange-400 text-white' :
-                        'bg-gradient-to-r from-red-400 to-pink-400 text-white'
-                      }`}>
-                        {winner.refund_percent.toFixed(1)}%
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <Ticket className="w-4 h-4 text-yellow-400 mr-1" />
-                        <span className="text-sm font-bold text-white">{winner.total_tickets}</span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-200 font-medium">
-                      {new Date(winner.won_at).toLocaleString()}
-                    </td>
-                  </motion.tr>
-                ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className="inline-flex px-3 py-1 text-xs font-bold rounded-full bg-gradient-to-r from-blue-400 to-cyan-400 text-white shadow-sm">
+                          {winner.department}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-medium">
+                        {winner.supervisor}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          winner.nps >= 90 ? 'bg-gradient-to-r from-green-400 to-emerald-400 text-white' :
+                          winner.nps >= 80 ? 'bg-gradient-to-r from-yellow-400 to-orange-400 text-white' :
+                          'bg-gradient-to-r from-red-400 to-pink-400 text-white'
+                        }`}>
+                          {winner.nps}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          winner.nrpc >= 90 ? 'bg-gradient-to-r from-green-400 to-emerald-400 text-white' :
+                          winner.nrpc >= 85 ? 'bg-gradient-to-r from-yellow-400 to-orange-400 text-white' :
+                          'bg-gradient-to-r from-red-400 to-pink-400 text-white'
+                        }`}>
+                          {winner.nrpc}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          winner.refund_percent <= 3 ? 'bg-gradient-to-r from-green-400 to-emerald-400 text-white' :
+                          winner.refund_percent <= 4 ? 'bg-gradient-to-r from-yellow-400 to-orange-400 text-white' :
+                          'bg-gradient-to-r from-red-400 to-pink-400 text-white'
+                        }`}>
+                          {winner.refund_percent.toFixed(1)}%
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <Ticket className="w-4 h-4 text-yellow-400 mr-1" />
+                          <span className="text-sm font-bold text-white">{winner.total_tickets}</span>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-200 font-medium">
+                        {new Date(winner.won_at).toLocaleString()}
+                      </td>
+                      {canVoid && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {!winner.voided_at && !isOfflineWinner(winner) && (
+                            <button
+                              onClick={() => setVoidingWinner(winner)}
+                              className="inline-flex items-center px-3 py-1 bg-red-500/30 border border-red-300/30 text-red-100 rounded-full text-xs font-semibold hover:bg-red-500/50 transition-all duration-300"
+                            >
+                              <Ban className="w-3 h-3 mr-1" />
+                              Void
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </motion.tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
         )}
       </div>
+
+      <ArchiveWinnersModal
+        isOpen={isArchiveOpen}
+        onClose={() => setIsArchiveOpen(false)}
+        contestName={selectedContest?.name ?? ''}
+        winnerCount={winners.length}
+        onArchive={handleArchiveWinners}
+      />
+
+      <VoidWinnerModal
+        isOpen={voidingWinner !== null}
+        onClose={() => setVoidingWinner(null)}
+        winner={voidingWinner}
+        onVoid={voidWinner}
+      />
+
+      <WinnerSnapshotsModal
+        isOpen={isSnapshotsOpen}
+        onClose={() => setIsSnapshotsOpen(false)}
+        snapshots={snapshots}
+        canRestore={!isReadOnly}
+        onRestore={handleRestoreSnapshot}
+      />
     </div>
   );
 };
\ No newline at end of file
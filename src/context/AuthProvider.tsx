@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { AuthContext } from './authContext';
+import { repositories } from '../repositories';
+import { login, logout, fetchUserRole, cachedUserRole } from '../utils/auth';
+import { AuthSession, UserRole } from '../types';
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [backendSession, setBackendSession] = useState<AuthSession | null>(null);
+  // Signed in on this device while the backend could not be reached; replaced by the first
+  // session the backend reports
+  const [offlineSession, setOfflineSession] = useState<AuthSession | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  const [role, setRole] = useState<UserRole | null>(null);
+
+  useEffect(() => {
+    const handleSession = (newSession: AuthSession | null) => {
+      setBackendSession(newSession);
+      if (newSession) setOfflineSession(null);
+    };
+
+    repositories.auth.getSession()
+      .then(handleSession)
+      .catch(error => console.error('Error loading session:', error))
+      .finally(() => setSessionLoading(false));
+
+    // Picks up sign-in, sign-out, token refreshes and sessions ended in another tab
+    return repositories.auth.onSessionChange(handleSession);
+  }, []);
+
+  const session = backendSession ?? offlineSession;
+  const isOfflineSession = !backendSession && offlineSession !== null;
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    setRole(null);
+    if (!userId) return;
+
+    // Nothing to ask: the role seen at the last online sign-in is all there is
+    if (isOfflineSession) {
+      setRole(cachedUserRole(userId));
+      return;
+    }
+
+    let cancelled = false;
+    fetchUserRole(userId)
+      .then(fetchedRole => {
+        if (!cancelled) setRole(fetchedRole);
+      })
+      .catch(error => {
+        console.error('Error loading user role:', error);
+        // Fall back to the least privileged role; RLS rejects admin writes either way
+        if (!cancelled) setRole('viewer');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isOfflineSession]);
+
+  const signIn = async (email: string, password: string) => {
+    const deviceSession = await login(email, password);
+    if (deviceSession) setOfflineSession(deviceSession);
+  };
+
+  // A device-only session never reached the backend, so there is nothing to end there
+  const signOut = async () => {
+    if (isOfflineSession) {
+      setOfflineSession(null);
+      return;
+    }
+    await logout();
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        isOfflineSession,
+        role,
+        isAdmin: role === 'admin',
+        loading: sessionLoading || (session !== null && role === null),
+        signIn,
+        signOut
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { ContestContext } from './contestContext';
+import { useContests } from '../hooks/useContests';
+import { Guide, QuotaRules, TicketRules } from '../types';
+import { logAuditEvent } from '../utils/audit';
+
+const SELECTED_CONTEST_KEY = 'selectedContestId';
+
+interface ContestProviderProps {
+  children: React.ReactNode;
+}
+
+export const ContestProvider: React.FC<ContestProviderProps> = ({ children }) => {
+  const { contests, loading, createContest, completeContest, saveTicketRules, saveQuotaRules } = useContests();
+  const [selectedContestId, setSelectedContestId] = useState<string | null>(
+    () => localStorage.getItem(SELECTED_CONTEST_KEY)
+  );
+
+  // Fall back to the newest active contest when nothing (or a deleted contest) is selected
+  useEffect(() => {
+    if (loading || contests.length === 0) return;
+    if (selectedContestId && contests.some(contest => contest.id === selectedContestId)) return;
+
+    const fallback = contests.find(contest => contest.status === 'active') || contests[0];
+    setSelectedContestId(fallback.id);
+  }, [loading, contests, selectedContestId]);
+
+  useEffect(() => {
+    if (selectedContestId) {
+      localStorage.setItem(SELECTED_CONTEST_KEY, selectedContestId);
+    }
+  }, [selectedContestId]);
+
+  const selectedContest = contests.find(contest => contest.id === selectedContestId) || null;
+
+  const handleCreateContest = async (name: string) => {
+    // create_contest records the contest_created audit event itself
+    const contest = await createContest(name, selectedContest?.id ?? null);
+    setSelectedContestId(contest.id);
+  };
+
+  const handleSaveTicketRules = async (rules: TicketRules, guides: Guide[]) => {
+    if (!selectedContest) throw new Error('No contest is selected');
+    await saveTicketRules(selectedContest.id, rules, guides);
+    await logAuditEvent(selectedContest.id, 'ticket_rules_saved', {
+      rules,
+      guideCount: guides.length,
+      totalTickets: guides.reduce((sum, guide) => sum + guide.totalTickets, 0)
+    });
+  };
+
+  const handleSaveQuotaRules = async (rules: QuotaRules | null) => {
+    if (!selectedContest) throw new Error('No contest is selected');
+    await saveQuotaRules(selectedContest.id, rules);
+    await logAuditEvent(selectedContest.id, 'quota_rules_saved', {
+      rules,
+      departmentQuotaCount: rules?.departments.length ?? 0,
+      tierCapCount: rules?.tierCaps.length ?? 0
+    });
+  };
+
+  const handleCompleteContest = async (contestId: string) => {
+    await completeContest(contestId);
+    await logAuditEvent(contestId, 'contest_completed', {
+      name: contests.find(contest => contest.id === contestId)?.name ?? ''
+    });
+  };
+
+  return (
+    <ContestContext.Provider
+      value={{
+        contests,
+        selectedContest,
+        isReadOnly: selectedContest?.status === 'completed',
+        loading,
+        selectContest: setSelectedContestId,
+        createContest: handleCreateContest,
+        completeContest: handleCompleteContest,
+        saveTicketRules: handleSaveTicketRules,
+        saveQuotaRules: handleSaveQuotaRules
+      }}
+    >
+      {children}
+    </ContestContext.Provider>
+  );
+};
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import { AuthSession, UserRole } from '../types';
+
+export interface AuthContextValue {
+  session: AuthSession | null;
+  // Signed in on this device only, because the backend could not be reached. Draws run offline
+  // and are saved once an admin signs in online
+  isOfflineSession: boolean;
+  role: UserRole | null;
+  // Admins can draw, archive winners and manage contests; viewers only browse guides and winners
+  isAdmin: boolean;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
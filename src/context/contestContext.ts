@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import { Contest, Guide, QuotaRules, TicketRules } from '../types';
+
+export interface ContestContextValue {
+  contests: Contest[];
+  selectedContest: Contest | null;
+  // Completed contests stay browsable but can no longer be drawn or archived
+  isReadOnly: boolean;
+  loading: boolean;
+  selectContest: (contestId: string) => void;
+  createContest: (name: string) => Promise<void>;
+  completeContest: (contestId: string) => Promise<void>;
+  // Saves the selected contest's ticket rules along with the roster recalculated from them
+  saveTicketRules: (rules: TicketRules, guides: Guide[]) => Promise<void>;
+  // Saves the selected contest's department quotas and tier caps; null removes them
+  saveQuotaRules: (rules: QuotaRules | null) => Promise<void>;
+}
+
+export const ContestContext = createContext<ContestContextValue | null>(null);
+
+export const useContest = (): ContestContextValue => {
+  const context = useContext(ContestContext);
+  if (!context) {
+    throw new Error('useContest must be used within a ContestProvider');
+  }
+  return context;
+};
@@ -1,49 +1,67 @@
 import { PrizeCategory } from '../types';
 
+// Bundled defaults for a contest without categories; images are served from public/prizes
 export const prizeCategories: PrizeCategory[] = [
   {
     id: 'refrigerator',
     name: '1st Prize - Refrigerator',
     description: 'Premium Double Door Refrigerator',
     winnerCount: 1,
-    image: '/src/img/fridge.jpg',
+    image: '/prizes/fridge.jpg',
     gradient: 'from-blue-500 to-cyan-500',
-    icon: '❄️'
+    icon: '❄️',
+    countdownSeconds: 60
   },
   {
     id: 'tablets',
     name: '2nd Prize - Samsung Tablets',
     description: 'Latest Samsung Galaxy Tablets',
     winnerCount: 2,
-    image: 'https://images.pexels.com/photos/1334597/pexels-photo-1334597.jpeg?auto=compress&cs=tinysrgb&w=400',
+    image: '/prizes/tablet.svg',
     gradient: 'from-purple-500 to-pink-500',
-    icon: '📱'
+    icon: '📱',
+    countdownSeconds: 20
   },
   {
     id: 'washing-machine',
     name: '3rd Prize - Washing Machine',
     description: 'Fully Automatic Washing Machine',
     winnerCount: 2,
-    image: '/src/img/wm.jpg',
+    image: '/prizes/wm.jpg',
     gradient: 'from-green-500 to-teal-500',
-    icon: '🧺'
+    icon: '🧺',
+    countdownSeconds: 15
   },
   {
     id: 'soundbars',
     name: '4th Prize - BOAT Sound Bars',
     description: 'Premium BOAT Sound Bar System',
     winnerCount: 8,
-    image: '/src/img/boat.jpg',
+    image: '/prizes/boat.jpg',
     gradient: 'from-orange-500 to-red-500',
-    icon: '🔊'
+    icon: '🔊',
+    countdownSeconds: 10
   },
   {
     id: 'iron-box',
     name: '5th Prize - Iron Box',
     description: 'Steam Iron with Advanced Features',
     winnerCount: 15,
-    image: '/src/img/iron.jpg',
+    image: '/prizes/iron.jpg',
     gradient: 'from-yellow-500 to-orange-500',
-    icon: '👔'
+    icon: '👔',
+    countdownSeconds: 7
   }
-];
\ No newline at end of file
+];
+
+// Tailwind only generates classes it can find in the source, so prize gradients are picked from this list
+export const prizeGradients: string[] = [
+  'from-blue-500 to-cyan-500',
+  'from-purple-500 to-pink-500',
+  'from-green-500 to-teal-500',
+  'from-orange-500 to-red-500',
+  'from-yellow-500 to-orange-500',
+  'from-indigo-500 to-purple-500',
+  'from-pink-500 to-rose-500',
+  'from-emerald-500 to-lime-500'
+];
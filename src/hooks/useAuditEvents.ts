@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { repositories } from '../repositories';
+import { AuditEvent } from '../types';
+
+export const useAuditEvents = (contestId: string | null) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEvents = useCallback(async () => {
+    if (!repositories.available || !contestId) {
+      setEvents([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setEvents(await repositories.audit.listEvents(contestId));
+    } catch (error) {
+      console.error('Error fetching audit events:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [contestId]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  return { events, loading, fetchEvents };
+};
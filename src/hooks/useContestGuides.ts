@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { repositories } from '../repositories';
+import { useAuth } from '../context/authContext';
+import { Guide } from '../types';
+import { contestDataKey, loadWithOfflineCopy } from '../utils/offlineCopy';
+import guidesData from '../data/guides.json';
+
+const defaultGuides = guidesData as Guide[];
+
+export const useContestGuides = (contestId: string | null) => {
+  const { isAdmin } = useAuth();
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchGuides = useCallback(async (): Promise<Guide[]> => {
+    if (!contestId) return [];
+    return loadWithOfflineCopy(contestDataKey('guides', contestId), () => repositories.guides.listGuides(contestId));
+  }, [contestId]);
+
+  const loadGuides = useCallback(async () => {
+    setLoading(true);
+    try {
+      let stored = await fetchGuides();
+
+      // New contests get their pool when they are created; the one created by the contests migration
+      // starts from the bundled roster the first time an admin opens it. Nobody else may write it
+      if (stored.length === 0 && contestId && isAdmin) {
+        await repositories.guides.addGuides(contestId, defaultGuides);
+        stored = await fetchGuides();
+      }
+
+      setGuides(stored);
+    } catch (error) {
+      console.error('Error loading contest guides:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [contestId, isAdmin, fetchGuides]);
+
+  // Swaps the whole pool in one step and clears the ticket assignment so it is regenerated
+  const replaceGuides = async (newGuides: Guide[]) => {
+    if (!contestId) throw new Error('No contest is selected');
+
+    try {
+      await repositories.guides.replaceGuides(contestId, newGuides);
+      await loadGuides(); // Refresh the list
+    } catch (error) {
+      console.error('Error replacing contest guides:', error);
+      throw error;
+    }
+  };
+
+  useEffect(() => {
+    loadGuides();
+  }, [loadGuides]);
+
+  return { guides, loading, fetchGuides: loadGuides, replaceGuides };
+};
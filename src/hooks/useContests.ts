@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { repositories } from '../repositories';
+import { Contest, Guide, QuotaRules, TicketRules } from '../types';
+import { contestDataKey, loadWithOfflineCopy } from '../utils/offlineCopy';
+import { prizeCategories as defaultPrizeCategories } from '../data/prizeCategories';
+import guidesData from '../data/guides.json';
+
+const defaultGuides = guidesData as Guide[];
+
+export const useContests = () => {
+  const [contests, setContests] = useState<Contest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchContests = useCallback(async () => {
+    try {
+      setContests(await loadWithOfflineCopy(contestDataKey('contests'), () => repositories.contests.listContests()));
+    } catch (error) {
+      console.error('Error fetching contests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // A new contest starts from a copy of the source contest's guide pool, prize categories and
+  // rules, or from the bundled roster and prizes without one, all in one step. Seeded here, by the
+  // admin creating it, since viewers cannot write them later; the ticket assignment is generated on first load
+  const createContest = async (name: string, sourceContestId: string | null): Promise<Contest> => {
+    try {
+      const contest = await repositories.contests.createContest(name, sourceContestId, {
+        guides: defaultGuides,
+        prizes: defaultPrizeCategories
+      });
+
+      await fetchContests(); // Refresh the list
+      return contest;
+    } catch (error) {
+      console.error('Error creating contest:', error);
+      throw error;
+    }
+  };
+
+  const completeContest = async (contestId: string) => {
+    try {
+      await repositories.contests.completeContest(contestId);
+      await fetchContests(); // Refresh the list
+    } catch (error) {
+      console.error('Error completing contest:', error);
+      throw error;
+    }
+  };
+
+  // Stores the rules together with the roster recalculated from them; the ticket assignment is regenerated
+  const saveTicketRules = async (contestId: string, rules: TicketRules, guides: Guide[]) => {
+    try {
+      await repositories.contests.saveTicketRules(contestId, rules, guides);
+      await fetchContests(); // Refresh the list
+    } catch (error) {
+      console.error('Error saving ticket rules:', error);
+      throw error;
+    }
+  };
+
+  // null removes every quota; the next draw applies the new rules
+  const saveQuotaRules = async (contestId: string, rules: QuotaRules | null) => {
+    try {
+      await repositories.contests.saveQuotaRules(contestId, rules);
+      await fetchContests(); // Refresh the list
+    } catch (error) {
+      console.error('Error saving quota rules:', error);
+      throw error;
+    }
+  };
+
+  useEffect(() => {
+    fetchContests();
+  }, [fetchContests]);
+
+  return { contests, loading, fetchContests, createContest, completeContest, saveTicketRules, saveQuotaRules };
+};
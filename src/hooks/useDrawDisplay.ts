@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { DisplaySender, repositories } from '../repositories';
+import { useAuth } from '../context/authContext';
+import { DisplayState } from '../types';
+
+// The display channel stores nothing, so the presenter repeats the last state it sent for displays
+// that join late. Only admins can send on it: an admin's display may also ask for the current
+// state, anyone else only listens
+const RESEND_INTERVAL_MS = 3000;
+
+export const STANDINGS_STATE: DisplayState = {
+  phase: 'standings',
+  category: null,
+  drawIndex: 0,
+  totalWinners: 0,
+  secondsLeft: 0,
+  revealed: []
+};
+
+// Presenter side: the Raffle screen sends every step of the draw
+export const useDisplayBroadcast = (contestId: string | null) => {
+  const senderRef = useRef<DisplaySender | null>(null);
+  const lastStateRef = useRef<DisplayState>(STANDINGS_STATE);
+
+  useEffect(() => {
+    if (!repositories.available || !contestId) return;
+
+    const sendLastState = () => sender.send(lastStateRef.current);
+    const sender = repositories.display.openPresenter(contestId, sendLastState);
+    senderRef.current = sender;
+    const interval = setInterval(sendLastState, RESEND_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      senderRef.current = null;
+      sender.close();
+    };
+  }, [contestId]);
+
+  const broadcast = useCallback((state: DisplayState) => {
+    lastStateRef.current = state;
+    senderRef.current?.send(state);
+  }, []);
+
+  return { broadcast };
+};
+
+// Audience side: the /display page follows whatever the presenter last sent
+export const useDisplayState = (contestId: string | null) => {
+  const { isAdmin } = useAuth();
+  const [state, setState] = useState<DisplayState>(STANDINGS_STATE);
+
+  useEffect(() => {
+    setState(STANDINGS_STATE);
+    if (!repositories.available || !contestId) return;
+
+    return repositories.display.follow(contestId, setState, isAdmin);
+  }, [contestId, isAdmin]);
+
+  return state;
+};
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Draw } from '../types';
+import { DrawOutcome, repositories } from '../repositories';
+import { isNetworkError, toFriendlyError } from '../utils/dbErrors';
+import { seedCommitment } from '../utils/ticketSystem';
+
+export const useDraws = (contestId: string | null) => {
+  const [draws, setDraws] = useState<Draw[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDraws = useCallback(async () => {
+    if (!repositories.available || !contestId) {
+      setDraws([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setDraws(await repositories.winners.listDraws(contestId));
+    } catch (error) {
+      console.error('Error fetching draws:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [contestId]);
+
+  // Recorded in its own step before the draw; the draw then only accepts this seed for the category.
+  // Resolves to the time the backend recorded it
+  const commitSeed = async (categoryId: string, seed: string): Promise<string> => {
+    if (!contestId) throw new Error('No contest is selected');
+
+    try {
+      return await repositories.winners.commitSeed(contestId, categoryId, seedCommitment(seed));
+    } catch (error) {
+      console.error('Error committing draw seed:', error);
+      if (isNetworkError(error)) throw error; // Left as is so the caller can switch to an offline draw
+      throw toFriendlyError(error, 'Failed to record the seed commitment. Please try again.');
+    }
+  };
+
+  // The repository locks the pool, picks the winners from the seed, and records the
+  // draw and its winners in one step; the returned rows are in draw order
+  // A redraw passes the voided winner it replaces and always draws exactly one winner
+  const drawPrize = async (
+    categoryId: string,
+    seed: string,
+    replacesWinnerId?: string
+  ): Promise<DrawOutcome> => {
+    if (!contestId) throw new Error('No contest is selected');
+
+    try {
+      const outcome = await repositories.winners.drawPrize(contestId, categoryId, seed, replacesWinnerId);
+      await fetchDraws(); // Refresh the list
+      return outcome;
+    } catch (error) {
+      console.error('Error running draw:', error);
+      if (isNetworkError(error)) throw error; // Left as is so the caller can switch to an offline draw
+      throw toFriendlyError(error, 'Failed to run the draw. No winners were saved. Please try again.');
+    }
+  };
+
+  useEffect(() => {
+    fetchDraws();
+  }, [fetchDraws]);
+
+  return { draws, loading, commitSeed, drawPrize, fetchDraws };
+};
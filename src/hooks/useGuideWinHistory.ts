@@ -0,0 +1,32 @@
+import { useState, useEffect, useCallback } from 'react';
+import { repositories } from '../repositories';
+import { PrizeWinner } from '../types';
+
+// Every win of one guide across all contests, newest first; guide ids carry over between
+// contest rosters, which is also how past winners are recognised
+export const useGuideWinHistory = (guideId: number | null) => {
+  const [wins, setWins] = useState<PrizeWinner[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchWins = useCallback(async () => {
+    if (!repositories.available || guideId === null) {
+      setWins([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setWins(await repositories.winners.listGuideWins(guideId));
+    } catch (error) {
+      console.error('Error fetching win history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [guideId]);
+
+  useEffect(() => {
+    fetchWins();
+  }, [fetchWins]);
+
+  return { wins, loading, fetchWins };
+};
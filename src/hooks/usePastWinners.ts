@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { repositories } from '../repositories';
+import { useContest } from '../context/contestContext';
+import { activeWinners } from '../utils/ticketSystem';
+
+// Guides who won (and were not voided) in a contest created before the given one; prize
+// categories that do not allow past winners leave them out of the pool
+export const usePastWinners = (contestId: string | null) => {
+  const { contests } = useContest();
+  const [pastWinnerIds, setPastWinnerIds] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  const fetchPastWinners = useCallback(async () => {
+    const contest = contests.find(c => c.id === contestId);
+    const earlierContestIds = contest
+      ? contests.filter(c => new Date(c.created_at) < new Date(contest.created_at)).map(c => c.id)
+      : [];
+
+    if (!repositories.available || earlierContestIds.length === 0) {
+      setPastWinnerIds(new Set());
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const earlierWinners = await Promise.all(earlierContestIds.map(id => repositories.winners.listWinners(id)));
+      setPastWinnerIds(new Set(activeWinners(earlierWinners.flat()).map(winner => winner.guide_id)));
+    } catch (error) {
+      console.error('Error fetching past winners:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [contests, contestId]);
+
+  useEffect(() => {
+    fetchPastWinners();
+  }, [fetchPastWinners]);
+
+  return { pastWinnerIds, loading, fetchPastWinners };
+};
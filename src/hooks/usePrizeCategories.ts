@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { repositories } from '../repositories';
+import { useAuth } from '../context/authContext';
+import { PrizeCategory } from '../types';
+import { toFriendlyError } from '../utils/dbErrors';
+import { contestDataKey, loadWithOfflineCopy } from '../utils/offlineCopy';
+import { prizeCategories as defaultPrizeCategories } from '../data/prizeCategories';
+
+export const usePrizeCategories = (contestId: string | null) => {
+  const { isAdmin } = useAuth();
+  const [categories, setCategories] = useState<PrizeCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCategories = useCallback(async (): Promise<PrizeCategory[]> => {
+    if (!contestId) return [];
+    return loadWithOfflineCopy(contestDataKey('prizes', contestId), () => repositories.prizes.listPrizes(contestId));
+  }, [contestId]);
+
+  const loadCategories = useCallback(async () => {
+    setLoading(true);
+    try {
+      let stored = await fetchCategories();
+
+      // Like the guide pool: seeded when a contest is created, or by the first admin to open the migration's contest
+      if (stored.length === 0 && contestId && isAdmin) {
+        await repositories.prizes.addPrizes(contestId, defaultPrizeCategories);
+        stored = await fetchCategories();
+      }
+
+      setCategories(stored);
+    } catch (error) {
+      console.error('Error loading prize categories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [contestId, isAdmin, fetchCategories]);
+
+  // Retired categories stay in `categories` so existing winners and exports can still name them
+  const activeCategories = useMemo(() => categories.filter(category => !category.retiredAt), [categories]);
+
+  // Creates the category when its id is new, otherwise updates it in place
+  const saveCategory = async (category: PrizeCategory) => {
+    if (!contestId) throw new Error('No contest is selected');
+
+    const index = categories.findIndex(existing => existing.id === category.id);
+
+    try {
+      await repositories.prizes.savePrize(contestId, category, index === -1 ? categories.length : index);
+      await loadCategories(); // Refresh the list
+    } catch (error) {
+      console.error('Error saving prize category:', error);
+      throw toFriendlyError(error, 'Failed to save the prize category. Please try again.');
+    }
+  };
+
+  // Rewrites every position in one step so the order never ends up half-applied
+  const reorderCategories = async (ordered: PrizeCategory[]) => {
+    if (!contestId) throw new Error('No contest is selected');
+
+    try {
+      await repositories.prizes.reorderPrizes(contestId, ordered);
+      await loadCategories(); // Refresh the list
+    } catch (error) {
+      console.error('Error reordering prize categories:', error);
+      throw toFriendlyError(error, 'Failed to reorder the prize categories. Please try again.');
+    }
+  };
+
+  const setCategoryRetired = async (categoryId: string, retired: boolean) => {
+    if (!contestId) throw new Error('No contest is selected');
+
+    try {
+      await repositories.prizes.setPrizeRetired(contestId, categoryId, retired);
+      await loadCategories(); // Refresh the list
+    } catch (error) {
+      console.error('Error retiring prize category:', error);
+      throw toFriendlyError(error, 'Failed to update the prize category. Please try again.');
+    }
+  };
+
+  // Returns the URL to store on the category
+  const uploadPrizeImage = async (file: File): Promise<string> => {
+    if (!contestId) throw new Error('No contest is selected');
+
+    try {
+      return await repositories.prizes.uploadPrizeImage(contestId, file);
+    } catch (error) {
+      console.error('Error uploading prize image:', error);
+      throw toFriendlyError(error, 'Failed to upload the image. Please try again.');
+    }
+  };
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  return {
+    categories,
+    activeCategories,
+    loading,
+    fetchCategories: loadCategories,
+    saveCategory,
+    reorderCategories,
+    setCategoryRetired,
+    uploadPrizeImage
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { PrizeCategory, PrizeWinner, QuotaRules, SkippedTicket } from '../types';
+import { GuideWithTickets } from '../utils/ticketSystem';
+import { drawPrizeLocally } from '../utils/localDraw';
+
+// Stands in for the winners table and the `draw_prize` function during a rehearsal. Draws run
+// on the browser copy of the draw engine against winners kept in memory, so nothing is written
+// and ending the rehearsal throws every rehearsal winner away
+export const useRehearsal = (
+  contestId: string | null,
+  activeCategories: PrizeCategory[],
+  quotaRules: QuotaRules | null
+) => {
+  const [isRehearsing, setIsRehearsing] = useState(false);
+  const [startingWinners, setStartingWinners] = useState<PrizeWinner[]>([]);
+  const [drawnWinners, setDrawnWinners] = useState<PrizeWinner[]>([]);
+  const winners = useMemo(() => [...drawnWinners, ...startingWinners], [drawnWinners, startingWinners]);
+
+  // A rehearsal picks up from the contest as it stands, so the prizes still to draw can be practised
+  const startRehearsal = useCallback((currentWinners: PrizeWinner[]) => {
+    setStartingWinners(currentWinners);
+    setDrawnWinners([]);
+    setIsRehearsing(true);
+  }, []);
+
+  const endRehearsal = useCallback(() => {
+    setStartingWinners([]);
+    setDrawnWinners([]);
+    setIsRehearsing(false);
+  }, []);
+
+  // A rehearsal belongs to the contest it was started on
+  useEffect(() => {
+    endRehearsal();
+  }, [contestId, endRehearsal]);
+
+  // Same contract as useDraws().drawPrize, with the pool passed in since there is no database to lock it
+  const drawPrize = async (
+    category: PrizeCategory,
+    seed: string,
+    pool: GuideWithTickets[],
+    replacesWinnerId?: string
+  ): Promise<{ winners: PrizeWinner[]; skipped: SkippedTicket[] }> => {
+    const result = drawPrizeLocally({
+      contestId: contestId ?? '',
+      category,
+      seed,
+      pool,
+      winners,
+      activeCategories,
+      quotaRules,
+      replacesWinnerId,
+      idPrefix: 'rehearsal-'
+    });
+
+    setDrawnWinners(previous => [...result.winners, ...previous]);
+    return result;
+  };
+
+  return { isRehearsing, winners, drawnWinners, startRehearsal, endRehearsal, drawPrize };
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { repositories } from '../repositories';
+import { useAuth } from '../context/authContext';
+import { Guide, TicketAssignment } from '../types';
+import { assignTicketsToGuides, applyTicketAssignments, toTicketAssignments } from '../utils/ticketSystem';
+import { contestDataKey, loadWithOfflineCopy } from '../utils/offlineCopy';
+
+export const useTicketAssignment = (contestId: string | null, guides: Guide[]) => {
+  const { isAdmin } = useAuth();
+  const [assignments, setAssignments] = useState<TicketAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAssignments = useCallback(async (): Promise<TicketAssignment[]> => {
+    if (!contestId) return [];
+    return loadWithOfflineCopy(
+      contestDataKey('ticket_assignments', contestId),
+      () => repositories.guides.listTicketAssignments(contestId)
+    );
+  }, [contestId]);
+
+  const generateAssignments = useCallback(async () => {
+    if (!contestId) return;
+
+    // Another session may generate at the same time; a stored assignment always wins,
+    // so both then load the same one
+    await repositories.guides.addTicketAssignments(contestId, toTicketAssignments(assignTicketsToGuides(guides)));
+  }, [contestId, guides]);
+
+  const loadAssignments = useCallback(async () => {
+    setLoading(true);
+    try {
+      let stored = await fetchAssignments();
+
+      // Generated for a new pool, or after the roster or ticket rules changed; only admins may store it
+      if (stored.length === 0 && guides.length > 0 && isAdmin) {
+        await generateAssignments();
+        stored = await fetchAssignments();
+      }
+
+      setAssignments(stored);
+    } catch (error) {
+      console.error('Error loading ticket assignments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [guides, isAdmin, fetchAssignments, generateAssignments]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  const guidesWithTickets = useMemo(
+    () => applyTicketAssignments(guides, assignments),
+    [guides, assignments]
+  );
+
+  return { guidesWithTickets, loading, fetchAssignments: loadAssignments };
+};
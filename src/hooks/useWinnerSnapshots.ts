@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { repositories } from '../repositories';
+import { WinnerSnapshot } from '../types';
+import { toFriendlyError } from '../utils/dbErrors';
+
+export const useWinnerSnapshots = (contestId: string | null) => {
+  const [snapshots, setSnapshots] = useState<WinnerSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSnapshots = useCallback(async () => {
+    if (!repositories.available || !contestId) {
+      setSnapshots([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setSnapshots(await repositories.winners.listSnapshots(contestId));
+    } catch (error) {
+      console.error('Error fetching winner snapshots:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [contestId]);
+
+  // All or nothing: the database refuses the restore if any winner conflicts with the current
+  // roster, prize categories or winners
+  const restoreSnapshot = async (snapshotId: string): Promise<number> => {
+    try {
+      const restored = await repositories.winners.restoreSnapshot(snapshotId);
+      await fetchSnapshots(); // Refresh the list
+      return restored;
+    } catch (error) {
+      console.error('Error restoring winner snapshot:', error);
+      throw toFriendlyError(error, 'Failed to restore the snapshot. Please try again.');
+    }
+  };
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  return { snapshots, loading, fetchSnapshots, restoreSnapshot };
+};
@@ -1,86 +1,222 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '../utils/supabase';
-import { Winner, PrizeWinner } from '../types';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { repositories } from '../repositories';
+import { PendingDraw, PrizeCategory, PrizeWinner, QuotaRules, SkippedTicket } from '../types';
+import { isNetworkError, toFriendlyError } from '../utils/dbErrors';
+import { GuideWithTickets } from '../utils/ticketSystem';
+import { drawPrizeLocally } from '../utils/localDraw';
+import { winnersStore } from '../utils/winnersStore';
+import {
+  OFFLINE_ID_PREFIX,
+  dismissPendingDraw,
+  queueOfflineDraw,
+  subscribeToPendingDraws,
+  syncPendingDraws
+} from '../utils/offlineSync';
 
-export const useWinners = () => {
-  const [winners, setWinners] = useState<PrizeWinner[]>([]);
+// How often the database is tried again after a request could not reach it
+const RECONNECT_INTERVAL_MS = 15000;
+
+interface OfflineDrawOptions {
+  category: PrizeCategory;
+  seed: string;
+  pool: GuideWithTickets[];
+  activeCategories: PrizeCategory[];
+  quotaRules: QuotaRules | null;
+  replacesWinnerId?: string;
+}
+
+export const useWinners = (contestId: string | null) => {
+  const [savedWinners, setSavedWinners] = useState<PrizeWinner[]>([]);
+  const [pendingDraws, setPendingDraws] = useState<PendingDraw[]>([]);
   const [loading, setLoading] = useState(true);
+  const [isBrowserOnline, setIsBrowserOnline] = useState(() => navigator.onLine);
+  // navigator.onLine only sees the local network: venue Wi-Fi without an upstream still reads as online
+  const [isReachable, setIsReachable] = useState(true);
+  // Without a backend at all every draw runs offline and waits in the queue
+  const isOnline = isBrowserOnline && isReachable && repositories.available;
+
+  // Offline winners count as winners until their draw is replayed; a conflicting draw no longer does
+  const winners = useMemo(() => {
+    const savedGuideIds = new Set(savedWinners.map(winner => winner.guide_id));
+    const offline = pendingDraws
+      .filter(draw => !draw.conflict)
+      .flatMap(draw => draw.winners)
+      .filter(winner => !savedGuideIds.has(winner.guide_id));
+    return [...offline, ...savedWinners].sort((a, b) => b.won_at.localeCompare(a.won_at));
+  }, [savedWinners, pendingDraws]);
 
-  const fetchWinners = async () => {
+  // The last copy this browser saw, for when the database cannot be reached
+  const loadCachedWinners = useCallback(async (id: string) => {
     try {
-      const { data, error } = await supabase
-        .from('winners')
-        .select('*')
-        .order('won_at', { ascending: false });
+      const cached = await winnersStore.loadWinners(id);
+      if (cached) setSavedWinners(cached);
+    } catch (error) {
+      console.error('Error loading cached winners:', error);
+    }
+  }, []);
+
+  const fetchWinners = useCallback(async () => {
+    if (!contestId) {
+      setSavedWinners([]);
+      setLoading(false);
+      return;
+    }
+
+    if (!repositories.available) {
+      await loadCachedWinners(contestId);
+      setLoading(false);
+      return;
+    }
 
-      if (error) throw error;
-      setWinners(data || []);
+    try {
+      const data = await repositories.winners.listWinners(contestId);
+      setIsReachable(true);
+      setSavedWinners(data);
+      winnersStore.saveWinners(contestId, data).catch(cacheError => {
+        console.error('Error caching winners:', cacheError);
+      });
     } catch (error) {
       console.error('Error fetching winners:', error);
+      if (isNetworkError(error)) setIsReachable(false);
+      await loadCachedWinners(contestId);
     } finally {
       setLoading(false);
     }
-  };
+  }, [contestId, loadCachedWinners]);
+
+  const fetchPendingDraws = useCallback(async () => {
+    if (!contestId) {
+      setPendingDraws([]);
+      return;
+    }
 
-  const addWinners = async (newWinners: any[]) => {
     try {
-      const { error } = await supabase
-        .from('winners')
-        .insert(newWinners);
+      setPendingDraws(await winnersStore.loadPendingDraws(contestId));
+    } catch (error) {
+      console.error('Error loading offline draws:', error);
+    }
+  }, [contestId]);
 
-      if (error) throw error;
+  // Replays the offline draws, then picks up what the database saved
+  const syncOfflineDraws = useCallback(async () => {
+    if (!contestId) return;
+    if (await syncPendingDraws(contestId) > 0) await fetchWinners();
+  }, [contestId, fetchWinners]);
+
+  // Moves every winner into a named snapshot that can be restored later
+  const archiveWinners = async (snapshotName: string) => {
+    if (!contestId) throw new Error('No contest is selected');
+
+    try {
+      await repositories.winners.archiveWinners(contestId, snapshotName);
       await fetchWinners(); // Refresh the list
     } catch (error) {
-      console.error('Error adding winners:', error);
-      throw error;
+      console.error('Error archiving winners:', error);
+      throw toFriendlyError(error, 'Failed to archive winners. Please try again.');
     }
   };
 
-  const purgeWinners = async () => {
+  // The row stays in place with its reason; its slot is held until a linked redraw fills it
+  const voidWinner = async (winnerId: string, reason: string) => {
     try {
-      // First, check if there are any winners
-      const { count, error: countError } = await supabase
-        .from('winners')
-        .select('*', { count: 'exact', head: true });
-
-      if (countError) throw countError;
-      
-      if (!count || count === 0) {
-        return; // No winners to delete
-      }
-
-      // Delete all records using a simple delete operation
-      const { error } = await supabase
-        .from('winners')
-        .delete()
-        .neq('id', '00000000-0000-0000-0000-000000000000'); // This will match all real UUIDs
-
-      if (error) throw error;
+      await repositories.winners.voidWinner(winnerId, reason);
       await fetchWinners(); // Refresh the list
     } catch (error) {
-      console.error('Error purging winners:', error);
-      throw error;
+      console.error('Error voiding winner:', error);
+      throw toFriendlyError(error, 'Failed to void the winner. Please try again.');
     }
   };
 
-  useEffect(() => {
-    fetchWinners();
+  // Same contract as useDraws().drawPrize for when the database is out of reach. The draw runs on
+  // the browser copy of the engine and is queued; replaying its seed reproduces it in the database
+  const drawOffline = async (
+    options: OfflineDrawOptions
+  ): Promise<{ winners: PrizeWinner[]; skipped: SkippedTicket[] }> => {
+    if (!contestId) throw new Error('No contest is selected');
 
-    // Subscribe to real-time changes
-    const channel = supabase
-      .channel('winners_changes')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'winners' },
-        () => {
-          fetchWinners();
-        }
-      )
-      .subscribe();
+    const result = drawPrizeLocally({ ...options, contestId, winners, idPrefix: OFFLINE_ID_PREFIX });
+    await queueOfflineDraw({
+      id: crypto.randomUUID(),
+      contestId,
+      categoryId: options.category.id,
+      winnerCount: options.category.winnerCount,
+      seed: options.seed,
+      replacesWinnerId: options.replacesWinnerId ?? null,
+      winners: result.winners,
+      skipped: result.skipped,
+      drawnAt: new Date().toISOString(),
+      conflict: null
+    });
+    return result;
+  };
+
+  // For requests that failed to reach the database elsewhere, e.g. a draw: draws run offline
+  // from then on, until reading the winners succeeds again
+  const reportUnreachable = useCallback(() => setIsReachable(false), []);
+
+  // A conflicting draw is dropped once an admin has seen why it could not be saved
+  const dismissOfflineDraw = async (drawId: string) => {
+    try {
+      await dismissPendingDraw(drawId);
+      await syncOfflineDraws(); // The draws queued behind it can go now
+    } catch (error) {
+      console.error('Error dismissing offline draw:', error);
+      throw new Error('Failed to dismiss the offline draw. Please try again.');
+    }
+  };
+
+  useEffect(() => {
+    const updateOnline = () => setIsBrowserOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
 
     return () => {
-      supabase.removeChannel(channel);
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
     };
   }, []);
 
-  return { winners, loading, addWinners, fetchWinners, purgeWinners };
-};
\ No newline at end of file
+  useEffect(() => {
+    fetchPendingDraws();
+    return subscribeToPendingDraws(fetchPendingDraws);
+  }, [fetchPendingDraws]);
+
+  // Whenever the connection comes back
+  useEffect(() => {
+    if (isOnline) syncOfflineDraws();
+  }, [isOnline, syncOfflineDraws]);
+
+  // No browser event fires when the upstream comes back, so keep trying
+  useEffect(() => {
+    if (isReachable || !isBrowserOnline) return;
+
+    const interval = setInterval(fetchWinners, RECONNECT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isReachable, isBrowserOnline, fetchWinners]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchWinners();
+
+    if (!contestId) return;
+
+    // Subscribe to changes made elsewhere
+    return repositories.winners.subscribe(contestId, () => {
+      fetchWinners();
+    });
+  }, [contestId, fetchWinners]);
+
+  return {
+    winners,
+    loading,
+    fetchWinners,
+    archiveWinners,
+    voidWinner,
+    isOnline,
+    reportUnreachable,
+    pendingDraws,
+    drawOffline,
+    syncOfflineDraws,
+    dismissOfflineDraw
+  };
+};
@@ -0,0 +1,49 @@
+import { Repositories } from './types';
+import { createSupabaseRepositories } from './supabaseRepositories';
+import { createMemoryRepositories } from './memoryRepositories';
+import { createRestRepositories } from './restRepositories';
+
+export type {
+  Repositories,
+  AuthRepository,
+  ContestDefaults,
+  ContestsRepository,
+  GuidesRepository,
+  PrizesRepository,
+  WinnersRepository,
+  AuditRepository,
+  DisplayRepository,
+  DisplaySender,
+  DrawOutcome
+} from './types';
+export { createSupabaseRepositories, createMemoryRepositories, createRestRepositories };
+
+export type DataBackend = 'supabase' | 'memory' | 'rest';
+
+const DATA_BACKENDS: DataBackend[] = ['supabase', 'memory', 'rest'];
+
+export const createRepositories = (backend: DataBackend, apiUrl = ''): Repositories => {
+  switch (backend) {
+    case 'memory':
+      return createMemoryRepositories();
+    case 'rest':
+      return createRestRepositories(apiUrl);
+    default:
+      return createSupabaseRepositories();
+  }
+};
+
+const configuredBackend: string = import.meta.env.VITE_DATA_BACKEND || 'supabase';
+const apiUrl: string = import.meta.env.VITE_DATA_API_URL || '';
+
+const isDataBackend = (value: string): value is DataBackend => (DATA_BACKENDS as string[]).includes(value);
+
+if (!isDataBackend(configuredBackend)) {
+  console.warn(`Unknown VITE_DATA_BACKEND "${configuredBackend}". Falling back to Supabase.`);
+}
+if (configuredBackend === 'rest' && !apiUrl) {
+  console.warn('VITE_DATA_BACKEND is "rest" but VITE_DATA_API_URL is not set. Requests will go to this site.');
+}
+
+// Everything the app reads and writes, sign-in and the live display included
+export const repositories = createRepositories(isDataBackend(configuredBackend) ? configuredBackend : 'supabase', apiUrl);
@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Guide, PrizeCategory } from '../types';
+import { Repositories } from './types';
+import { applyTicketAssignments, seedCommitment, verifyDraw } from '../utils/ticketSystem';
+import { createMemoryRepositories } from './memoryRepositories';
+
+const guide = (id: number, department = 'IM', totalTickets = 2): Guide => ({
+  id,
+  name: `Guide ${id}`,
+  supervisor: 'S',
+  department,
+  nps: 80,
+  nrpc: 10,
+  refundPercent: 0,
+  totalTickets
+});
+
+const prize = (id: string, winnerCount: number): PrizeCategory => ({
+  id,
+  name: `Prize ${id}`,
+  description: '',
+  winnerCount,
+  image: '',
+  gradient: '',
+  icon: '',
+  countdownSeconds: 10
+});
+
+// Commits to the seed before drawing, as the presenter does
+const draw = async (repos: Repositories, contestId: string, categoryId: string, seed: string, replacesWinnerId?: string) => {
+  await repos.winners.commitSeed(contestId, categoryId, seedCommitment(seed));
+  return repos.winners.drawPrize(contestId, categoryId, seed, replacesWinnerId);
+};
+
+describe('createMemoryRepositories', () => {
+  let repositories: Repositories;
+  let contestId: string;
+
+  beforeEach(async () => {
+    repositories = createMemoryRepositories();
+    contestId = (await repositories.contests.createContest('Test contest', null, {
+      guides: [guide(1), guide(2, 'CS'), guide(3, 'CS')],
+      prizes: [prize('first', 1), prize('second', 2)]
+    })).id;
+
+    await repositories.guides.addTicketAssignments(contestId, [
+      { guide_id: 1, ticket_numbers: [1, 4] },
+      { guide_id: 2, ticket_numbers: [2, 5] },
+      { guide_id: 3, ticket_numbers: [3, 6] }
+    ]);
+  });
+
+  it('creates a contest from a copy of another one', async () => {
+    await repositories.contests.saveQuotaRules(contestId, { departments: [], tierCaps: [] });
+    await repositories.prizes.setPrizeRetired(contestId, 'first', true);
+
+    const copy = await repositories.contests.createContest('Copy', contestId, { guides: [], prizes: [] });
+
+    expect(copy.quota_rules).toEqual({ departments: [], tierCaps: [] });
+    expect((await repositories.guides.listGuides(copy.id)).map(stored => stored.id)).toEqual([1, 2, 3]);
+    expect((await repositories.prizes.listPrizes(copy.id)).map(stored => stored.id)).toEqual(['second']);
+    expect(await repositories.guides.listTicketAssignments(copy.id)).toEqual([]);
+  });
+
+  it('keeps guides and ticket assignments already stored', async () => {
+    await repositories.guides.addGuides(contestId, [{ ...guide(1), name: 'Renamed' }, guide(4)]);
+    await repositories.guides.addTicketAssignments(contestId, [{ guide_id: 1, ticket_numbers: [9] }]);
+
+    const guides = await repositories.guides.listGuides(contestId);
+    expect(guides.map(stored => stored.id)).toEqual([1, 2, 3, 4]);
+    expect(guides[0].name).toBe('Guide 1');
+    expect((await repositories.guides.listTicketAssignments(contestId))[0].ticket_numbers).toEqual([1, 4]);
+  });
+
+  it('orders, saves and retires prizes', async () => {
+    const [first, second] = await repositories.prizes.listPrizes(contestId);
+    await repositories.prizes.reorderPrizes(contestId, [second, first]);
+    await repositories.prizes.savePrize(contestId, { ...first, name: 'Renamed' }, 1);
+    await repositories.prizes.setPrizeRetired(contestId, second.id, true);
+
+    const prizes = await repositories.prizes.listPrizes(contestId);
+    expect(prizes.map(stored => stored.id)).toEqual(['second', 'first']);
+    expect(prizes[1].name).toBe('Renamed');
+    expect(prizes[0].retiredAt).toBeTruthy();
+  });
+
+  it('draws winners, records them and notifies subscribers', async () => {
+    const onChange = vi.fn();
+    const unsubscribe = repositories.winners.subscribe(contestId, onChange);
+
+    const { winners } = await draw(repositories, contestId, 'second', 'seed-1');
+    unsubscribe();
+    await draw(repositories, contestId, 'first', 'seed-2');
+
+    expect(winners).toHaveLength(2);
+    expect(new Set(winners.map(winner => winner.guide_id)).size).toBe(2);
+    expect(await repositories.winners.listWinners(contestId)).toHaveLength(3);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('draws the same winners for the same seed when no server salt is added', async () => {
+    const other = createMemoryRepositories();
+    const otherId = (await other.contests.createContest('Copy', null, {
+      guides: await repositories.guides.listGuides(contestId),
+      prizes: await repositories.prizes.listPrizes(contestId)
+    })).id;
+    await other.guides.addTicketAssignments(otherId, await repositories.guides.listTicketAssignments(contestId));
+
+    // As an offline draw is replayed: the seed alone decides
+    const tickets = async (repos: Repositories, id: string) => {
+      await repos.winners.commitSeed(id, 'second', seedCommitment('same-seed'), true);
+      return (await repos.winners.drawPrize(id, 'second', 'same-seed')).winners.map(winner => winner.drawn_ticket);
+    };
+    expect(await tickets(other, otherId)).toEqual(await tickets(repositories, contestId));
+  });
+
+  it('only draws with the seed that was committed to', async () => {
+    await expect(repositories.winners.drawPrize(contestId, 'first', 'seed-1'))
+      .rejects.toThrow('No seed commitment is recorded for Prize first');
+    await expect(repositories.winners.commitSeed(contestId, 'first', 'not-a-hash')).rejects.toThrow('SHA-256');
+
+    await repositories.winners.commitSeed(contestId, 'first', seedCommitment('seed-1'));
+    await expect(repositories.winners.drawPrize(contestId, 'first', 'seed-2'))
+      .rejects.toThrow('The seed does not match the commitment recorded for Prize first');
+
+    const [winner] = (await repositories.winners.drawPrize(contestId, 'first', 'seed-1')).winners;
+    await repositories.winners.voidWinner(winner.id, 'No show');
+    await expect(repositories.winners.drawPrize(contestId, 'first', 'seed-1', winner.id)).rejects.toThrow('No seed commitment');
+  });
+
+  it('refuses a full prize and a draw with nobody left', async () => {
+    await draw(repositories, contestId, 'first', 'seed-1');
+    await expect(draw(repositories, contestId, 'first', 'seed-2')).rejects.toThrow();
+
+    await draw(repositories, contestId, 'second', 'seed-3');
+    await repositories.prizes.addPrizes(contestId, [prize('third', 1)]);
+    await expect(draw(repositories, contestId, 'third', 'seed-4'))
+      .rejects.toThrow('No eligible guides are left to draw from for Prize third');
+  });
+
+  it('applies department quotas', async () => {
+    await repositories.contests.saveQuotaRules(contestId, {
+      departments: [{ department: 'CS', min: null, max: 1 }],
+      tierCaps: []
+    });
+
+    await draw(repositories, contestId, 'second', 'seed-1');
+    await draw(repositories, contestId, 'first', 'seed-2').catch(() => undefined);
+
+    const winners = await repositories.winners.listWinners(contestId);
+    expect(winners.filter(winner => winner.department === 'CS')).toHaveLength(1);
+  });
+
+  it('voids a winner once and redraws their slot once', async () => {
+    const [winner] = (await draw(repositories, contestId, 'first', 'seed-1')).winners;
+
+    await expect(draw(repositories, contestId, 'first', 'seed-2', winner.id))
+      .rejects.toThrow('has not been voided');
+    await expect(repositories.winners.voidWinner(winner.id, ' ')).rejects.toThrow('A reason is required');
+
+    await repositories.winners.voidWinner(winner.id, 'No show');
+    await expect(repositories.winners.voidWinner(winner.id, 'Again')).rejects.toThrow('already been voided');
+
+    const [replacement] = (await draw(repositories, contestId, 'first', 'seed-2', winner.id)).winners;
+    expect(replacement.replaces_winner_id).toBe(winner.id);
+    expect(replacement.guide_id).not.toBe(winner.guide_id);
+    await expect(draw(repositories, contestId, 'first', 'seed-3', winner.id))
+      .rejects.toThrow('has already been redrawn');
+  });
+
+  it('keeps the roster of a contest with winners', async () => {
+    await draw(repositories, contestId, 'first', 'seed-1');
+    await expect(repositories.guides.replaceGuides(contestId, [guide(9)])).rejects.toThrow('already has winners');
+
+    await repositories.winners.archiveWinners(contestId, 'Snapshot');
+    await repositories.guides.replaceGuides(contestId, [guide(9)]);
+    expect((await repositories.guides.listGuides(contestId)).map(stored => stored.id)).toEqual([9]);
+    expect(await repositories.guides.listTicketAssignments(contestId)).toEqual([]);
+  });
+
+  it('records each draw so it can be verified', async () => {
+    await draw(repositories, contestId, 'second', 'seed-1');
+
+    const [recorded] = await repositories.winners.listDraws(contestId);
+    expect(recorded.server_salt).toMatch(/^[0-9a-f]{32}$/);
+
+    const pool = applyTicketAssignments(
+      await repositories.guides.listGuides(contestId),
+      await repositories.guides.listTicketAssignments(contestId)
+    );
+    const result = verifyDraw(recorded, pool, await repositories.winners.listWinners(contestId));
+    expect(result).toMatchObject({ commitmentMatches: true, committedBeforeDraw: true, poolHashMatches: true, winnersMatch: true });
+  });
+
+  it('archives winners into a snapshot that can be restored once', async () => {
+    const [winner] = (await draw(repositories, contestId, 'first', 'seed-1')).winners;
+    await expect(repositories.winners.archiveWinners(contestId, ' ')).rejects.toThrow('A snapshot name is required');
+
+    await repositories.winners.archiveWinners(contestId, 'Snapshot');
+    await expect(repositories.winners.archiveWinners(contestId, 'Again')).rejects.toThrow('no winners to archive');
+    expect(await repositories.winners.listWinners(contestId)).toEqual([]);
+
+    const [snapshot] = await repositories.winners.listSnapshots(contestId);
+    expect(snapshot.winners).toEqual([winner]);
+
+    expect(await repositories.winners.restoreSnapshot(snapshot.id)).toBe(1);
+    expect(await repositories.winners.listWinners(contestId)).toEqual([winner]);
+    await expect(repositories.winners.restoreSnapshot(snapshot.id)).rejects.toThrow('has already been restored');
+  });
+
+  it('refuses to restore winners whose guides have won again', async () => {
+    const [winner] = (await draw(repositories, contestId, 'first', 'seed-1')).winners;
+    await repositories.winners.archiveWinners(contestId, 'Snapshot');
+    const [snapshot] = await repositories.winners.listSnapshots(contestId);
+
+    await repositories.guides.replaceGuides(contestId, [guide(winner.guide_id)]);
+    await repositories.guides.addTicketAssignments(contestId, [{ guide_id: winner.guide_id, ticket_numbers: [winner.drawn_ticket!] }]);
+    await draw(repositories, contestId, 'second', 'seed-2');
+
+    await expect(repositories.winners.restoreSnapshot(snapshot.id)).rejects.toThrow('have won again since');
+    expect(await repositories.winners.listWinners(contestId)).toHaveLength(1);
+  });
+
+  it('signs anyone in as an admin and records who did what', async () => {
+    const onChange = vi.fn();
+    repositories.auth.onSessionChange(onChange);
+
+    await expect(repositories.auth.signIn('', 'secret')).rejects.toThrow('Enter an email and a password');
+    await repositories.auth.signIn('host@example.com', 'secret');
+    const session = await repositories.auth.getSession();
+    expect(onChange).toHaveBeenCalledWith(session);
+    expect(await repositories.auth.fetchRole(session!.user.id)).toBe('admin');
+
+    await draw(repositories, contestId, 'first', 'seed-1');
+    await repositories.audit.logEvent(contestId, 'draw_started', {});
+    await expect(repositories.audit.logEvent(contestId, 'seed_committed', {})).rejects.toThrow('recorded by the database itself');
+
+    const events = await repositories.audit.listEvents(contestId);
+    expect(events.map(event => event.event_type).sort()).toEqual(['contest_created', 'draw_started', 'seed_committed', 'winners_saved']);
+    expect(events.find(event => event.event_type === 'winners_saved')?.actor_email).toBe('host@example.com');
+
+    await repositories.auth.signOut();
+    expect(await repositories.auth.getSession()).toBeNull();
+  });
+
+  it('makes a completed contest read-only', async () => {
+    await repositories.contests.completeContest(contestId);
+
+    expect((await repositories.contests.listContests())[0].status).toBe('completed');
+    await expect(draw(repositories, contestId, 'first', 'seed-1')).rejects.toThrow('Contest is completed');
+    await expect(repositories.winners.archiveWinners(contestId, 'Snapshot')).rejects.toThrow('Contest is completed');
+  });
+});
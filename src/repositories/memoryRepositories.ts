@@ -0,0 +1,498 @@
+import {
+  AuditEvent,
+  AuditEventType,
+  AuthSession,
+  Contest,
+  DisplayState,
+  Draw,
+  Guide,
+  PrizeCategory,
+  PrizeWinner,
+  TicketAssignment,
+  WinnerSnapshot
+} from '../types';
+import {
+  DRAW_ALGORITHM_VERSION,
+  activeWinners,
+  applyTicketAssignments,
+  drawSeed,
+  generateDrawSeed,
+  hashPool,
+  seedCommitment,
+  slotWinners
+} from '../utils/ticketSystem';
+import { filterEligibleGuides } from '../utils/eligibility';
+import { drawPrizeLocally } from '../utils/localDraw';
+import { Repositories } from './types';
+
+// Keeps every table in memory, for tests and for running the app without a database. Draws run
+// on the browser copy of the draw engine and raise the same errors as the database functions,
+// and the audit events the database records itself are recorded here too. Nothing survives a
+// reload. Anyone can sign in with any email and password and is an admin: the data never leaves
+// this tab, so there is nobody to keep out.
+
+// Events only the backend records; logEvent refuses them, as log_audit_event does
+const BACKEND_EVENT_TYPES: AuditEventType[] = [
+  'winners_saved', 'winners_purged', 'winners_archived', 'winners_restored', 'winner_voided', 'seed_committed'
+];
+
+interface StoredPrize {
+  category: PrizeCategory;
+  sortOrder: number;
+}
+
+interface StoredCommitment {
+  commitment: string;
+  serverSalt: string | null;
+  committedAt: string;
+}
+
+type DisplayMessage = { type: 'state'; state: DisplayState } | { type: 'sync' };
+
+export const createMemoryRepositories = (): Repositories => {
+  const contests: Contest[] = [];
+  const guidesByContest = new Map<string, Guide[]>();
+  const assignmentsByContest = new Map<string, TicketAssignment[]>();
+  const prizesByContest = new Map<string, StoredPrize[]>();
+  const winnersByContest = new Map<string, PrizeWinner[]>();
+  const drawsByContest = new Map<string, Draw[]>();
+  const snapshots: WinnerSnapshot[] = [];
+  const auditEvents: AuditEvent[] = [];
+  const commitments = new Map<string, StoredCommitment>(); // Open commitment per contest and prize category
+  const listeners = new Map<string, Set<() => void>>();
+  let session: AuthSession | null = null;
+  const sessionListeners = new Set<(session: AuthSession | null) => void>();
+
+  const notify = (contestId: string) => listeners.get(contestId)?.forEach(listener => listener());
+
+  const setSession = (next: AuthSession | null) => {
+    session = next;
+    sessionListeners.forEach(listener => listener(next));
+  };
+
+  const recordEvent = (contestId: string | null, eventType: AuditEventType, payload: Record<string, unknown>) => {
+    auditEvents.push({
+      id: crypto.randomUUID(),
+      contest_id: contestId,
+      event_type: eventType,
+      actor_id: session?.user.id ?? null,
+      actor_email: session?.user.email ?? null,
+      payload,
+      created_at: new Date().toISOString()
+    });
+  };
+
+  const findContest = (contestId: string): Contest => {
+    const contest = contests.find(candidate => candidate.id === contestId);
+    if (!contest) throw new Error(`Contest ${contestId} does not exist`);
+    return contest;
+  };
+
+  const updateContest = (contestId: string, changes: Partial<Contest>) => {
+    const index = contests.indexOf(findContest(contestId));
+    contests[index] = { ...contests[index], ...changes };
+  };
+
+  const commitmentKey = (contestId: string, categoryId: string) => `${contestId}:${categoryId}`;
+
+  const sortedPrizes = (contestId: string): PrizeCategory[] =>
+    [...(prizesByContest.get(contestId) ?? [])]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map(prize => prize.category);
+
+  const upsertPrize = (contestId: string, category: PrizeCategory, sortOrder: number, overwrite: boolean) => {
+    const prizes = prizesByContest.get(contestId) ?? [];
+    const index = prizes.findIndex(prize => prize.category.id === category.id);
+    if (index === -1) prizes.push({ category, sortOrder });
+    else if (overwrite) prizes[index] = { category, sortOrder };
+    prizesByContest.set(contestId, prizes);
+  };
+
+  // Guides who kept a prize in a contest created before this one
+  const pastWinnerIds = (contest: Contest): Set<number> =>
+    new Set(contests
+      .filter(earlier => new Date(earlier.created_at) < new Date(contest.created_at))
+      .flatMap(earlier => activeWinners(winnersByContest.get(earlier.id) ?? []))
+      .map(winner => winner.guide_id));
+
+  // Another tab of this browser can show the display, so the draw goes out on a BroadcastChannel
+  const openDisplayChannel = (contestId: string, onMessage: (message: DisplayMessage) => void) => {
+    const channel = new BroadcastChannel(`draw_display_${contestId}`);
+    channel.onmessage = (event: MessageEvent<DisplayMessage>) => onMessage(event.data);
+    return channel;
+  };
+
+  return {
+    available: true,
+
+    auth: {
+      getSession: async () => session,
+      onSessionChange: (onChange) => {
+        sessionListeners.add(onChange);
+        return () => {
+          sessionListeners.delete(onChange);
+        };
+      },
+      signIn: async (email, password) => {
+        if (!email.trim() || !password) throw new Error('Enter an email and a password');
+        setSession({ user: { id: `local:${email.trim().toLowerCase()}`, email: email.trim() } });
+      },
+      signOut: async () => {
+        setSession(null);
+      },
+      fetchRole: async () => 'admin'
+    },
+
+    contests: {
+      listContests: async () =>
+        [...contests].sort((a, b) => b.created_at.localeCompare(a.created_at)),
+      createContest: async (name, sourceContestId, defaults) => {
+        const source = sourceContestId ? findContest(sourceContestId) : null;
+        const contest: Contest = {
+          id: crypto.randomUUID(),
+          name,
+          status: 'active',
+          created_at: new Date().toISOString(),
+          completed_at: null,
+          ticket_rules: source?.ticket_rules ?? null,
+          quota_rules: source?.quota_rules ?? null
+        };
+
+        // Retired prizes stay with the contest that retired them
+        const guides = source ? guidesByContest.get(source.id) ?? [] : defaults.guides;
+        const prizes = source ? sortedPrizes(source.id).filter(category => !category.retiredAt) : defaults.prizes;
+
+        contests.push(contest);
+        guidesByContest.set(contest.id, [...guides]);
+        prizesByContest.set(contest.id, prizes.map((category, sortOrder) => ({ category, sortOrder })));
+        recordEvent(contest.id, 'contest_created', { name, sourceContestId });
+        return contest;
+      },
+      completeContest: async (contestId) => {
+        updateContest(contestId, { status: 'completed', completed_at: new Date().toISOString() });
+      },
+      saveTicketRules: async (contestId, rules, guides) => {
+        updateContest(contestId, { ticket_rules: rules });
+        guidesByContest.set(contestId, [...guides]);
+        assignmentsByContest.delete(contestId);
+      },
+      saveQuotaRules: async (contestId, rules) => {
+        updateContest(contestId, { quota_rules: rules });
+      }
+    },
+
+    guides: {
+      listGuides: async (contestId) =>
+        [...(guidesByContest.get(contestId) ?? [])].sort((a, b) => a.id - b.id),
+      addGuides: async (contestId, guides) => {
+        const stored = guidesByContest.get(contestId) ?? [];
+        const storedIds = new Set(stored.map(guide => guide.id));
+        guidesByContest.set(contestId, [...stored, ...guides.filter(guide => !storedIds.has(guide.id))]);
+      },
+      replaceGuides: async (contestId, guides) => {
+        if (findContest(contestId).status === 'completed') throw new Error('Contest is completed; its roster is read-only');
+        if ((winnersByContest.get(contestId) ?? []).length > 0) {
+          throw new Error('Contest already has winners; purge them before importing a new roster');
+        }
+        guidesByContest.set(contestId, [...guides]);
+        assignmentsByContest.delete(contestId);
+      },
+      listTicketAssignments: async (contestId) => [...(assignmentsByContest.get(contestId) ?? [])],
+      addTicketAssignments: async (contestId, assignments) => {
+        const stored = assignmentsByContest.get(contestId) ?? [];
+        const storedIds = new Set(stored.map(assignment => assignment.guide_id));
+        assignmentsByContest.set(contestId, [...stored, ...assignments.filter(assignment => !storedIds.has(assignment.guide_id))]);
+      }
+    },
+
+    prizes: {
+      listPrizes: async (contestId) => sortedPrizes(contestId),
+      addPrizes: async (contestId, categories) => {
+        categories.forEach((category, index) => upsertPrize(contestId, category, index, false));
+      },
+      savePrize: async (contestId, category, sortOrder) => {
+        upsertPrize(contestId, category, sortOrder, true);
+      },
+      reorderPrizes: async (contestId, ordered) => {
+        ordered.forEach((category, index) => upsertPrize(contestId, category, index, true));
+      },
+      setPrizeRetired: async (contestId, categoryId, retired) => {
+        const prize = (prizesByContest.get(contestId) ?? []).find(candidate => candidate.category.id === categoryId);
+        if (!prize) throw new Error(`Prize category ${categoryId} does not exist in this contest`);
+        prize.category = { ...prize.category, retiredAt: retired ? new Date().toISOString() : null };
+      },
+      // Only valid for this page load, like everything else kept here
+      uploadPrizeImage: async (_contestId, file) => URL.createObjectURL(file)
+    },
+
+    winners: {
+      listWinners: async (contestId) =>
+        [...(winnersByContest.get(contestId) ?? [])].sort((a, b) => b.won_at.localeCompare(a.won_at)),
+      listGuideWins: async (guideId) =>
+        [...winnersByContest.values()]
+          .flat()
+          .filter(winner => winner.guide_id === guideId)
+          .sort((a, b) => b.won_at.localeCompare(a.won_at)),
+      listDraws: async (contestId) =>
+        [...(drawsByContest.get(contestId) ?? [])].sort((a, b) => b.drawn_at.localeCompare(a.drawn_at)),
+      commitSeed: async (contestId, categoryId, commitment, offline = false) => {
+        if (!/^[0-9a-f]{64}$/.test(commitment)) throw new Error('A seed commitment is the SHA-256 of the seed in lowercase hex');
+        if (findContest(contestId).status === 'completed') throw new Error('Contest is completed; no more draws can be run');
+        const category = sortedPrizes(contestId).find(candidate => candidate.id === categoryId);
+        if (!category) throw new Error(`Prize category ${categoryId} does not exist in this contest`);
+
+        const key = commitmentKey(contestId, categoryId);
+        const superseded = commitments.has(key);
+        const committedAt = new Date().toISOString();
+        commitments.set(key, { commitment, serverSalt: offline ? null : generateDrawSeed(), committedAt });
+        recordEvent(contestId, 'seed_committed', {
+          prizeCategory: categoryId,
+          prizeName: category.name,
+          seedCommitment: commitment,
+          supersededCount: superseded ? 1 : 0,
+          offline
+        });
+        return committedAt;
+      },
+      drawPrize: async (contestId, categoryId, seed, replacesWinnerId) => {
+        const contest = findContest(contestId);
+        if (contest.status === 'completed') throw new Error('Contest is completed; no more draws can be run');
+
+        const categories = sortedPrizes(contestId);
+        const category = categories.find(candidate => candidate.id === categoryId);
+        if (!category) throw new Error(`Prize category ${categoryId} does not exist in this contest`);
+
+        const winners = winnersByContest.get(contestId) ?? [];
+        let remaining = 1;
+        if (replacesWinnerId) {
+          const replaced = winners.find(winner => winner.id === replacesWinnerId && winner.prize_category === categoryId);
+          if (!replaced) throw new Error(`The winner being replaced is not a ${category.name} winner of this contest`);
+          if (!replaced.voided_at) throw new Error(`${replaced.name} has not been voided, so their prize cannot be redrawn`);
+          if (winners.some(winner => winner.replaces_winner_id === replacesWinnerId)) {
+            throw new Error(`The prize voided from ${replaced.name} has already been redrawn`);
+          }
+        } else {
+          const slotsTaken = slotWinners(winners)
+            .filter(winner => winner.prize_category === categoryId).length;
+          if (slotsTaken >= category.winnerCount) throw new Error(`Prize category ${category.name} already has all of its winners`);
+          remaining = category.winnerCount - slotsTaken;
+        }
+
+        const commitment = commitments.get(commitmentKey(contestId, categoryId));
+        if (!commitment) throw new Error(`No seed commitment is recorded for ${category.name}; record it before drawing`);
+        if (commitment.commitment !== seedCommitment(seed)) throw new Error(`The seed does not match the commitment recorded for ${category.name}`);
+
+        const wonIds = new Set(winners.map(winner => winner.guide_id));
+        const pool = filterEligibleGuides(
+          applyTicketAssignments(guidesByContest.get(contestId) ?? [], assignmentsByContest.get(contestId) ?? [])
+            .filter(guide => !wonIds.has(guide.id)),
+          category.eligibility,
+          pastWinnerIds(contest)
+        );
+        if (pool.length === 0) throw new Error(`No eligible guides are left to draw from for ${category.name}`);
+
+        const outcome = drawPrizeLocally({
+          contestId,
+          category,
+          seed: drawSeed(seed, commitment.serverSalt),
+          pool,
+          winners,
+          activeCategories: categories.filter(candidate => !candidate.retiredAt),
+          quotaRules: contest.quota_rules,
+          replacesWinnerId,
+          idPrefix: ''
+        });
+
+        const drawId = outcome.winners[0].draw_id ?? crypto.randomUUID(); // drawPrizeLocally always sets it
+        const poolHash = hashPool(pool);
+        drawsByContest.set(contestId, [...(drawsByContest.get(contestId) ?? []), {
+          id: drawId,
+          contest_id: contestId,
+          prize_category: categoryId,
+          seed,
+          seed_commitment: commitment.commitment,
+          committed_at: commitment.committedAt,
+          server_salt: commitment.serverSalt,
+          algorithm_version: DRAW_ALGORITHM_VERSION,
+          pool_hash: poolHash,
+          pool_guide_ids: pool.map(guide => guide.id).sort((a, b) => a - b),
+          winner_count: remaining,
+          skipped: outcome.skipped,
+          drawn_at: new Date().toISOString()
+        }]);
+
+        commitments.delete(commitmentKey(contestId, categoryId));
+        winnersByContest.set(contestId, [...outcome.winners, ...winners]);
+        recordEvent(contestId, 'winners_saved', {
+          drawId,
+          prizeCategory: categoryId,
+          prizeName: category.name,
+          guideIds: outcome.winners.map(winner => winner.guide_id),
+          drawnTickets: outcome.winners.map(winner => winner.drawn_ticket),
+          poolHash,
+          replacesWinnerId: replacesWinnerId ?? null,
+          eligibility: category.eligibility ?? {},
+          skipped: outcome.skipped
+        });
+        notify(contestId);
+        return outcome;
+      },
+      archiveWinners: async (contestId, snapshotName) => {
+        if (!snapshotName.trim()) throw new Error('A snapshot name is required');
+        if (findContest(contestId).status === 'completed') throw new Error('Contest is completed; its winners are read-only');
+
+        const winners = [...(winnersByContest.get(contestId) ?? [])].sort((a, b) => a.won_at.localeCompare(b.won_at));
+        if (winners.length === 0) throw new Error('Contest has no winners to archive');
+
+        const snapshot: WinnerSnapshot = {
+          id: crypto.randomUUID(),
+          contest_id: contestId,
+          name: snapshotName.trim(),
+          winners,
+          winner_count: winners.length,
+          created_by: session?.user.id ?? null,
+          created_by_email: session?.user.email ?? null,
+          created_at: new Date().toISOString(),
+          restored_at: null,
+          restored_by: null
+        };
+        snapshots.push(snapshot);
+        winnersByContest.set(contestId, []);
+        recordEvent(contestId, 'winners_archived', {
+          snapshotId: snapshot.id,
+          snapshotName: snapshot.name,
+          winnerCount: snapshot.winner_count
+        });
+        notify(contestId);
+      },
+      listSnapshots: async (contestId) =>
+        snapshots
+          .filter(snapshot => snapshot.contest_id === contestId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+      // Refuses the whole snapshot on the first conflict, with the same checks as restore_winner_snapshot
+      restoreSnapshot: async (snapshotId) => {
+        const index = snapshots.findIndex(candidate => candidate.id === snapshotId);
+        if (index === -1) throw new Error(`Snapshot ${snapshotId} does not exist`);
+
+        const snapshot = snapshots[index];
+        const contestId = snapshot.contest_id;
+        if (findContest(contestId).status === 'completed') throw new Error('Contest is completed; its winners are read-only');
+        if (snapshot.restored_at) throw new Error(`Snapshot "${snapshot.name}" has already been restored`);
+
+        const names = (rows: PrizeWinner[]) => rows.map(row => row.name).sort().join(', ');
+        const guideIds = new Set((guidesByContest.get(contestId) ?? []).map(guide => guide.id));
+        const assignments = assignmentsByContest.get(contestId) ?? [];
+        const categories = sortedPrizes(contestId);
+        const current = winnersByContest.get(contestId) ?? [];
+
+        const missingGuides = snapshot.winners.filter(row => !guideIds.has(row.guide_id));
+        if (missingGuides.length > 0) {
+          throw new Error(`Cannot restore "${snapshot.name}": these guides are no longer in the roster: ${names(missingGuides)}`);
+        }
+
+        const reassigned = snapshot.winners.filter(row => row.drawn_ticket !== undefined && !assignments.some(assignment =>
+          assignment.guide_id === row.guide_id && assignment.ticket_numbers.includes(row.drawn_ticket as number)
+        ));
+        if (reassigned.length > 0) {
+          throw new Error(`Cannot restore "${snapshot.name}": tickets have been reassigned since these guides won: ${names(reassigned)}`);
+        }
+
+        const missingPrizes = [...new Set(snapshot.winners
+          .filter(row => row.prize_category && !categories.some(category => category.id === row.prize_category))
+          .map(row => row.prize_name))];
+        if (missingPrizes.length > 0) {
+          throw new Error(`Cannot restore "${snapshot.name}": these prize categories no longer exist: ${missingPrizes.join(', ')}`);
+        }
+
+        const wonAgain = snapshot.winners.filter(row => current.some(winner =>
+          winner.guide_id === row.guide_id || (winner.drawn_ticket !== undefined && winner.drawn_ticket === row.drawn_ticket)
+        ));
+        if (wonAgain.length > 0) {
+          throw new Error(`Cannot restore "${snapshot.name}": these guides or their tickets have won again since: ${names(wonAgain)}`);
+        }
+
+        const overfull = categories.filter(category =>
+          activeWinners([...current, ...snapshot.winners]).filter(winner => winner.prize_category === category.id).length > category.winnerCount
+        );
+        if (overfull.length > 0) {
+          throw new Error(`Cannot restore "${snapshot.name}": these prize categories would have too many winners: ${overfull.map(category => category.name).join(', ')}`);
+        }
+
+        winnersByContest.set(contestId, [...snapshot.winners, ...current]);
+        snapshots[index] = { ...snapshot, restored_at: new Date().toISOString(), restored_by: session?.user.id ?? null };
+        recordEvent(contestId, 'winners_restored', {
+          snapshotId: snapshot.id,
+          snapshotName: snapshot.name,
+          winnerCount: snapshot.winner_count
+        });
+        notify(contestId);
+        return snapshot.winner_count;
+      },
+      voidWinner: async (winnerId, reason) => {
+        if (!reason.trim()) throw new Error('A reason is required to void a winner');
+
+        for (const [contestId, winners] of winnersByContest) {
+          const index = winners.findIndex(winner => winner.id === winnerId);
+          if (index === -1) continue;
+
+          if (findContest(contestId).status === 'completed') throw new Error('Contest is completed; its winners are read-only');
+          if (winners[index].voided_at) throw new Error('This winner has already been voided');
+          const voided = { ...winners[index], voided_at: new Date().toISOString(), void_reason: reason.trim() };
+          winners[index] = voided;
+          recordEvent(contestId, 'winner_voided', {
+            winnerId: voided.id,
+            guideId: voided.guide_id,
+            name: voided.name,
+            prizeCategory: voided.prize_category,
+            prizeName: voided.prize_name,
+            drawnTicket: voided.drawn_ticket,
+            reason: voided.void_reason
+          });
+          notify(contestId);
+          return;
+        }
+
+        throw new Error('This winner does not exist');
+      },
+      subscribe: (contestId, onChange) => {
+        const contestListeners = listeners.get(contestId) ?? new Set();
+        contestListeners.add(onChange);
+        listeners.set(contestId, contestListeners);
+        return () => {
+          contestListeners.delete(onChange);
+        };
+      }
+    },
+
+    audit: {
+      listEvents: async (contestId) =>
+        auditEvents
+          .filter(event => event.contest_id === contestId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+      logEvent: async (contestId, eventType, payload) => {
+        if (!session) throw new Error('Only admins can record audit events');
+        if (BACKEND_EVENT_TYPES.includes(eventType)) throw new Error(`${eventType} events are recorded by the database itself`);
+        recordEvent(contestId, eventType, payload);
+      }
+    },
+
+    display: {
+      openPresenter: (contestId, onSyncRequest) => {
+        const channel = openDisplayChannel(contestId, message => {
+          if (message.type === 'sync') onSyncRequest();
+        });
+        return {
+          send: (state) => channel.postMessage({ type: 'state', state } satisfies DisplayMessage),
+          close: () => channel.close()
+        };
+      },
+      follow: (contestId, onState, requestSync) => {
+        const channel = openDisplayChannel(contestId, message => {
+          if (message.type === 'state') onState(message.state);
+        });
+        if (requestSync) channel.postMessage({ type: 'sync' } satisfies DisplayMessage);
+        return () => channel.close();
+      }
+    }
+  };
+};
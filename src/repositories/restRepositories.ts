@@ -0,0 +1,166 @@
+import {
+  AuditEvent,
+  AuthSession,
+  Contest,
+  DisplayState,
+  Draw,
+  Guide,
+  PrizeCategory,
+  PrizeWinner,
+  TicketAssignment,
+  UserRole,
+  WinnerSnapshot
+} from '../types';
+import { DrawOutcome, Repositories } from './types';
+
+// Talks JSON to a local stand-in server; the routes are listed in the README. Bodies use the
+// app's own interfaces, and a failed request answers with { "message": "..." }.
+
+// The server cannot push changes, so winners and the display state are polled while a view follows them
+const WINNERS_POLL_MS = 5000;
+const DISPLAY_POLL_MS = 1000;
+
+export const createRestRepositories = (baseUrl: string): Repositories => {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    // The session is a cookie the server sets on sign-in
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      credentials: 'include',
+      ...init,
+      headers: init.body instanceof FormData ? init.headers : { 'Content-Type': 'application/json', ...init.headers }
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || `Request failed with status ${response.status}`);
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+
+  const send = (method: string, path: string, body?: unknown) =>
+    request<void>(path, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+
+  const contestPath = (contestId: string) => `/contests/${encodeURIComponent(contestId)}`;
+
+  // Sign-in and sign-out happen in this tab, so that is where the session changes
+  const sessionListeners = new Set<(session: AuthSession | null) => void>();
+  const getSession = () => request<AuthSession | null>('/session').then(session => session ?? null);
+
+  // An unreachable server shows up as a network error on each request instead
+  return {
+    available: true,
+
+    auth: {
+      getSession,
+      onSessionChange: (onChange) => {
+        sessionListeners.add(onChange);
+        return () => {
+          sessionListeners.delete(onChange);
+        };
+      },
+      signIn: async (email, password) => {
+        await send('POST', '/session', { email, password });
+        const session = await getSession();
+        sessionListeners.forEach(listener => listener(session));
+      },
+      signOut: async () => {
+        await send('DELETE', '/session');
+        sessionListeners.forEach(listener => listener(null));
+      },
+      fetchRole: async (userId) =>
+        (await request<{ role: UserRole }>(`/users/${encodeURIComponent(userId)}/role`)).role === 'admin' ? 'admin' : 'viewer'
+    },
+
+    contests: {
+      listContests: () => request<Contest[]>('/contests'),
+      createContest: (name, sourceContestId, defaults) =>
+        request<Contest>('/contests', {
+          method: 'POST',
+          body: JSON.stringify({ name, sourceContestId, guides: defaults.guides, prizes: defaults.prizes })
+        }),
+      completeContest: (contestId) => send('POST', `${contestPath(contestId)}/complete`),
+      saveTicketRules: (contestId, rules, guides) => send('PUT', `${contestPath(contestId)}/ticket-rules`, { rules, guides }),
+      saveQuotaRules: (contestId, rules) => send('PUT', `${contestPath(contestId)}/quota-rules`, { rules })
+    },
+
+    guides: {
+      listGuides: (contestId) => request<Guide[]>(`${contestPath(contestId)}/guides`),
+      addGuides: (contestId, guides) => send('POST', `${contestPath(contestId)}/guides`, guides),
+      replaceGuides: (contestId, guides) => send('PUT', `${contestPath(contestId)}/guides`, guides),
+      listTicketAssignments: (contestId) => request<TicketAssignment[]>(`${contestPath(contestId)}/ticket-assignments`),
+      addTicketAssignments: (contestId, assignments) =>
+        send('POST', `${contestPath(contestId)}/ticket-assignments`, assignments)
+    },
+
+    prizes: {
+      listPrizes: (contestId) => request<PrizeCategory[]>(`${contestPath(contestId)}/prizes`),
+      addPrizes: (contestId, categories) => send('POST', `${contestPath(contestId)}/prizes`, categories),
+      savePrize: (contestId, category, sortOrder) =>
+        send('PUT', `${contestPath(contestId)}/prizes/${encodeURIComponent(category.id)}`, { category, sortOrder }),
+      reorderPrizes: (contestId, ordered) => send('PUT', `${contestPath(contestId)}/prizes`, ordered),
+      setPrizeRetired: (contestId, categoryId, retired) =>
+        send('PATCH', `${contestPath(contestId)}/prizes/${encodeURIComponent(categoryId)}`, { retired }),
+      uploadPrizeImage: async (contestId, file) => {
+        const form = new FormData();
+        form.append('file', file);
+        const { url } = await request<{ url: string }>(`${contestPath(contestId)}/prize-images`, { method: 'POST', body: form });
+        return url;
+      }
+    },
+
+    winners: {
+      listWinners: (contestId) => request<PrizeWinner[]>(`${contestPath(contestId)}/winners`),
+      listGuideWins: (guideId) => request<PrizeWinner[]>(`/guides/${guideId}/winners`),
+      listDraws: (contestId) => request<Draw[]>(`${contestPath(contestId)}/draws`),
+      commitSeed: async (contestId, categoryId, commitment, offline = false) => {
+        const { committedAt } = await request<{ committedAt: string }>(`${contestPath(contestId)}/seed-commitments`, {
+          method: 'POST',
+          body: JSON.stringify({ categoryId, commitment, offline })
+        });
+        return committedAt;
+      },
+      drawPrize: (contestId, categoryId, seed, replacesWinnerId) =>
+        request<DrawOutcome>(`${contestPath(contestId)}/draws`, {
+          method: 'POST',
+          body: JSON.stringify({ categoryId, seed, replacesWinnerId: replacesWinnerId ?? null })
+        }),
+      archiveWinners: (contestId, snapshotName) => send('POST', `${contestPath(contestId)}/archive`, { name: snapshotName }),
+      listSnapshots: (contestId) => request<WinnerSnapshot[]>(`${contestPath(contestId)}/snapshots`),
+      restoreSnapshot: async (snapshotId) =>
+        (await request<{ restoredCount: number }>(`/snapshots/${encodeURIComponent(snapshotId)}/restore`, { method: 'POST' })).restoredCount,
+      voidWinner: (winnerId, reason) => send('POST', `/winners/${encodeURIComponent(winnerId)}/void`, { reason }),
+      subscribe: (_contestId, onChange) => {
+        const interval = setInterval(onChange, WINNERS_POLL_MS);
+        return () => clearInterval(interval);
+      }
+    },
+
+    audit: {
+      listEvents: (contestId) => request<AuditEvent[]>(`${contestPath(contestId)}/audit-events`),
+      logEvent: (contestId, eventType, payload) => send('POST', '/audit-events', { contestId, eventType, payload })
+    },
+
+    // The server keeps the last state sent, so a display that joins late has nothing to ask for
+    display: {
+      openPresenter: (contestId) => ({
+        send: (state) => {
+          send('PUT', `${contestPath(contestId)}/display`, state).catch(error => {
+            console.error('Error sending display state:', error);
+          });
+        },
+        close: () => {}
+      }),
+      follow: (contestId, onState) => {
+        const poll = () => {
+          request<DisplayState | null>(`${contestPath(contestId)}/display`)
+            .then(state => {
+              if (state) onState(state);
+            })
+            .catch(error => console.error('Error fetching display state:', error));
+        };
+        poll();
+        const interval = setInterval(poll, DISPLAY_POLL_MS);
+        return () => clearInterval(interval);
+      }
+    }
+  };
+};
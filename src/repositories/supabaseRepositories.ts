@@ -0,0 +1,432 @@
+import { supabase } from '../utils/supabase';
+import { DisplayState, PrizeWinner, SkippedTicket } from '../types';
+import { toGuide, toGuideRow, toPrizeCategory, toPrizeCategoryRow } from '../utils/contestRows';
+import { Repositories } from './types';
+
+const PRIZE_IMAGE_BUCKET = 'prize-images';
+
+// Broadcast on a private channel per contest; only admins can send on it (see the private_display migration)
+const DISPLAY_STATE_EVENT = 'draw_state';
+const DISPLAY_SYNC_EVENT = 'sync_request';
+const displayChannel = (contestId: string) => `draw_display_${contestId}`;
+const DISPLAY_CHANNEL_OPTIONS = { config: { private: true } };
+
+// Reads come back empty while Supabase is not configured, as they always have; writes throw
+const client = () => {
+  if (!supabase) throw new Error('Supabase is not configured');
+  return supabase;
+};
+
+// Tickets a draw passed over because of quotas. Only looked up once its winners are saved,
+// so a failed lookup loses the explanation but never the draw
+const fetchSkipped = async (drawId: string | undefined): Promise<SkippedTicket[]> => {
+  if (!drawId) return [];
+
+  try {
+    const { data, error } = await client()
+      .from('draws')
+      .select('skipped')
+      .eq('id', drawId)
+      .single();
+
+    if (error) throw error;
+    return data?.skipped || [];
+  } catch (error) {
+    console.error('Error fetching skipped tickets:', error);
+    return [];
+  }
+};
+
+export const createSupabaseRepositories = (): Repositories => ({
+  available: supabase !== null,
+
+  // Sessions are persisted and refreshed by the Supabase client; roles live in `user_roles` and are
+  // enforced again by RLS
+  auth: {
+    getSession: async () => {
+      if (!supabase) return null;
+
+      const { data } = await supabase.auth.getSession();
+      return data.session;
+    },
+    onSessionChange: (onChange) => {
+      if (!supabase) return () => {};
+
+      const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => onChange(session));
+      return () => subscription.unsubscribe();
+    },
+    signIn: async (email, password) => {
+      const { error } = await client().auth.signInWithPassword({ email, password });
+      if (error) throw error;
+    },
+    signOut: async () => {
+      if (!supabase) return;
+
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+    fetchRole: async (userId) => {
+      const { data, error } = await client()
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.role === 'admin' ? 'admin' : 'viewer';
+    }
+  },
+
+  contests: {
+    listContests: async () => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('contests')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    // One transaction, audit event included
+    createContest: async (name, sourceContestId, defaults) => {
+      const { data, error } = await client().rpc('create_contest', {
+        p_name: name,
+        p_source_contest_id: sourceContestId,
+        p_guides: defaults.guides,
+        p_prizes: defaults.prizes
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    completeContest: async (contestId) => {
+      const { error } = await client()
+        .from('contests')
+        .update({ status: 'completed', completed_at: new Date().toISOString() })
+        .eq('id', contestId);
+
+      if (error) throw error;
+    },
+    saveTicketRules: async (contestId, rules, guides) => {
+      const { error } = await client().rpc('save_ticket_rules', {
+        p_contest_id: contestId,
+        p_rules: rules,
+        p_guides: guides
+      });
+
+      if (error) throw error;
+    },
+    saveQuotaRules: async (contestId, rules) => {
+      const { error } = await client()
+        .from('contests')
+        .update({ quota_rules: rules })
+        .eq('id', contestId);
+
+      if (error) throw error;
+    }
+  },
+
+  guides: {
+    listGuides: async (contestId) => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('contest_guides')
+        .select('*')
+        .eq('contest_id', contestId)
+        .order('guide_id', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(toGuide);
+    },
+    addGuides: async (contestId, guides) => {
+      const { error } = await client()
+        .from('contest_guides')
+        .upsert(guides.map(guide => toGuideRow(contestId, guide)), {
+          onConflict: 'contest_id,guide_id',
+          ignoreDuplicates: true
+        });
+
+      if (error) throw error;
+    },
+    // Swaps the whole pool in one transaction
+    replaceGuides: async (contestId, guides) => {
+      const { error } = await client().rpc('replace_contest_roster', {
+        p_contest_id: contestId,
+        p_guides: guides
+      });
+
+      if (error) throw error;
+    },
+    listTicketAssignments: async (contestId) => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('ticket_assignments')
+        .select('guide_id, ticket_numbers')
+        .eq('contest_id', contestId);
+
+      if (error) throw error;
+      return data || [];
+    },
+    // Another session may generate at the same time; the unique guide_id makes
+    // whichever insert lands second a no-op
+    addTicketAssignments: async (contestId, assignments) => {
+      const { error } = await client()
+        .from('ticket_assignments')
+        .upsert(assignments.map(assignment => ({ ...assignment, contest_id: contestId })), {
+          onConflict: 'contest_id,guide_id',
+          ignoreDuplicates: true
+        });
+
+      if (error) throw error;
+    }
+  },
+
+  prizes: {
+    listPrizes: async (contestId) => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('prize_categories')
+        .select('*')
+        .eq('contest_id', contestId)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(toPrizeCategory);
+    },
+    addPrizes: async (contestId, categories) => {
+      const { error } = await client()
+        .from('prize_categories')
+        .upsert(categories.map((category, index) => toPrizeCategoryRow(contestId, category, index)), {
+          onConflict: 'contest_id,id',
+          ignoreDuplicates: true
+        });
+
+      if (error) throw error;
+    },
+    savePrize: async (contestId, category, sortOrder) => {
+      const { error } = await client()
+        .from('prize_categories')
+        .upsert(toPrizeCategoryRow(contestId, category, sortOrder), {
+          onConflict: 'contest_id,id'
+        });
+
+      if (error) throw error;
+    },
+    // Rewrites every sort_order in one statement so the order never ends up half-applied
+    reorderPrizes: async (contestId, ordered) => {
+      const { error } = await client()
+        .from('prize_categories')
+        .upsert(ordered.map((category, index) => toPrizeCategoryRow(contestId, category, index)), {
+          onConflict: 'contest_id,id'
+        });
+
+      if (error) throw error;
+    },
+    setPrizeRetired: async (contestId, categoryId, retired) => {
+      const { error } = await client()
+        .from('prize_categories')
+        .update({ retired_at: retired ? new Date().toISOString() : null })
+        .eq('contest_id', contestId)
+        .eq('id', categoryId);
+
+      if (error) throw error;
+    },
+    // Uploads to the public prize-images bucket
+    uploadPrizeImage: async (contestId, file) => {
+      const storage = client().storage;
+      const extension = file.name.includes('.') ? file.name.split('.').pop() : 'jpg';
+      const path = `${contestId}/${crypto.randomUUID()}.${extension}`;
+
+      const { error } = await storage
+        .from(PRIZE_IMAGE_BUCKET)
+        .upload(path, file, { contentType: file.type, upsert: false });
+
+      if (error) throw error;
+      return storage.from(PRIZE_IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+    }
+  },
+
+  winners: {
+    listWinners: async (contestId) => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('winners')
+        .select('*')
+        .eq('contest_id', contestId)
+        .order('won_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    listGuideWins: async (guideId) => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('winners')
+        .select('*')
+        .eq('guide_id', guideId)
+        .order('won_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    listDraws: async (contestId) => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('draws')
+        .select('*')
+        .eq('contest_id', contestId)
+        .order('drawn_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    commitSeed: async (contestId, categoryId, commitment, offline = false) => {
+      const { data, error } = await client().rpc('commit_draw_seed', {
+        p_contest_id: contestId,
+        p_category_id: categoryId,
+        p_commitment: commitment,
+        p_offline: offline
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    // The database records the draw and its winners in one transaction; the returned rows are in draw order
+    drawPrize: async (contestId, categoryId, seed, replacesWinnerId) => {
+      const { data, error } = await client().rpc('draw_prize', {
+        p_contest_id: contestId,
+        p_category_id: categoryId,
+        p_seed: seed,
+        p_replaces_winner_id: replacesWinnerId ?? null
+      });
+
+      if (error) throw error;
+      const winners: PrizeWinner[] = data || [];
+      return { winners, skipped: await fetchSkipped(winners[0]?.draw_id) };
+    },
+    // Moves every winner into a named snapshot that can be restored later; direct deletes are closed by RLS
+    archiveWinners: async (contestId, snapshotName) => {
+      const { error } = await client().rpc('archive_winners', {
+        p_contest_id: contestId,
+        p_name: snapshotName
+      });
+
+      if (error) throw error;
+    },
+    listSnapshots: async (contestId) => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('winner_snapshots')
+        .select('*')
+        .eq('contest_id', contestId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    // The database refuses the restore if any winner conflicts with the current roster, prize
+    // categories or winners
+    restoreSnapshot: async (snapshotId) => {
+      const { data, error } = await client().rpc('restore_winner_snapshot', { p_snapshot_id: snapshotId });
+
+      if (error) throw error;
+      return data ?? 0;
+    },
+    voidWinner: async (winnerId, reason) => {
+      const { error } = await client().rpc('void_winner', {
+        p_winner_id: winnerId,
+        p_reason: reason
+      });
+
+      if (error) throw error;
+    },
+    subscribe: (contestId, onChange) => {
+      if (!supabase) return () => {};
+
+      const realtime = supabase;
+      const channel = realtime
+        .channel(`winners_changes_${contestId}`)
+        .on('postgres_changes',
+          { event: '*', schema: 'public', table: 'winners', filter: `contest_id=eq.${contestId}` },
+          () => onChange()
+        )
+        .subscribe();
+
+      return () => {
+        realtime.removeChannel(channel);
+      };
+    }
+  },
+
+  audit: {
+    listEvents: async (contestId) => {
+      if (!supabase) return [];
+
+      const { data, error } = await supabase
+        .from('audit_events')
+        .select('*')
+        .eq('contest_id', contestId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    // Stamped with the caller from the JWT by the database
+    logEvent: async (contestId, eventType, payload) => {
+      const { error } = await client().rpc('log_audit_event', {
+        p_contest_id: contestId,
+        p_event_type: eventType,
+        p_payload: payload
+      });
+
+      if (error) throw error;
+    }
+  },
+
+  display: {
+    openPresenter: (contestId, onSyncRequest) => {
+      if (!supabase) return { send: () => {}, close: () => {} };
+
+      const realtime = supabase;
+      const channel = realtime
+        .channel(displayChannel(contestId), DISPLAY_CHANNEL_OPTIONS)
+        .on('broadcast', { event: DISPLAY_SYNC_EVENT }, () => onSyncRequest())
+        .subscribe();
+
+      return {
+        send: (state) => {
+          channel.send({ type: 'broadcast', event: DISPLAY_STATE_EVENT, payload: state });
+        },
+        close: () => {
+          realtime.removeChannel(channel);
+        }
+      };
+    },
+    follow: (contestId, onState, requestSync) => {
+      if (!supabase) return () => {};
+
+      const realtime = supabase;
+      const channel = realtime
+        .channel(displayChannel(contestId), DISPLAY_CHANNEL_OPTIONS)
+        .on('broadcast', { event: DISPLAY_STATE_EVENT }, ({ payload }) => onState(payload as DisplayState))
+        .subscribe(status => {
+          if (status === 'SUBSCRIBED' && requestSync) {
+            channel.send({ type: 'broadcast', event: DISPLAY_SYNC_EVENT, payload: {} });
+          }
+        });
+
+      return () => {
+        realtime.removeChannel(channel);
+      };
+    }
+  }
+});
@@ -0,0 +1,123 @@
+import {
+  AuditEvent,
+  AuditEventType,
+  AuthSession,
+  Contest,
+  DisplayState,
+  Draw,
+  Guide,
+  PrizeCategory,
+  PrizeWinner,
+  QuotaRules,
+  SkippedTicket,
+  TicketAssignment,
+  TicketRules,
+  UserRole,
+  WinnerSnapshot
+} from '../types';
+
+// The data the hooks read and write, independent of where it is kept. Every backend returns the
+// app's own interfaces and throws on failure; the hooks turn errors into messages for users.
+
+export type Unsubscribe = () => void;
+
+export interface DrawOutcome {
+  winners: PrizeWinner[]; // In draw order
+  skipped: SkippedTicket[];
+}
+
+// What a contest created without a source contest starts from
+export interface ContestDefaults {
+  guides: Guide[];
+  prizes: PrizeCategory[];
+}
+
+export interface AuthRepository {
+  getSession(): Promise<AuthSession | null>;
+  // Called on sign-in, sign-out and sessions ended elsewhere
+  onSessionChange(onChange: (session: AuthSession | null) => void): Unsubscribe;
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  fetchRole(userId: string): Promise<UserRole>; // Users without a role are viewers
+}
+
+export interface ContestsRepository {
+  listContests(): Promise<Contest[]>; // Newest first
+  // Creates the contest with its guide pool, prizes and rules in one step: copied from the source
+  // contest (prizes that are not retired), or taken from the defaults without one
+  createContest(name: string, sourceContestId: string | null, defaults: ContestDefaults): Promise<Contest>;
+  completeContest(contestId: string): Promise<void>;
+  // Stores the rules with the roster recalculated from them and clears the ticket assignment, in one step
+  saveTicketRules(contestId: string, rules: TicketRules, guides: Guide[]): Promise<void>;
+  saveQuotaRules(contestId: string, rules: QuotaRules | null): Promise<void>;
+}
+
+// The guide pool of each contest, together with the tickets assigned to it
+export interface GuidesRepository {
+  listGuides(contestId: string): Promise<Guide[]>; // By guide id
+  addGuides(contestId: string, guides: Guide[]): Promise<void>; // Guides already in the pool are left as they are
+  replaceGuides(contestId: string, guides: Guide[]): Promise<void>; // Also clears the ticket assignment
+  listTicketAssignments(contestId: string): Promise<TicketAssignment[]>;
+  addTicketAssignments(contestId: string, assignments: TicketAssignment[]): Promise<void>; // A stored assignment wins
+}
+
+export interface PrizesRepository {
+  listPrizes(contestId: string): Promise<PrizeCategory[]>; // In prize order, retired ones included
+  addPrizes(contestId: string, categories: PrizeCategory[]): Promise<void>; // Existing ids are left as they are
+  savePrize(contestId: string, category: PrizeCategory, sortOrder: number): Promise<void>; // Creates or updates
+  reorderPrizes(contestId: string, ordered: PrizeCategory[]): Promise<void>;
+  setPrizeRetired(contestId: string, categoryId: string, retired: boolean): Promise<void>;
+  uploadPrizeImage(contestId: string, file: File): Promise<string>; // Returns the URL to store on the category
+}
+
+export interface WinnersRepository {
+  listWinners(contestId: string): Promise<PrizeWinner[]>; // Newest first, voided winners included
+  listGuideWins(guideId: number): Promise<PrizeWinner[]>; // Every contest, newest first, voided wins included
+  listDraws(contestId: string): Promise<Draw[]>; // Newest first
+  // Records the SHA-256 of the seed the next draw of a category will use, replacing any unused one,
+  // and resolves to when it was recorded. The backend adds a salt of its own that the draw mixes
+  // into the seed, unless the draw already ran offline on the seed alone
+  commitSeed(contestId: string, categoryId: string, commitment: string, offline?: boolean): Promise<string>;
+  // Locks the pool, picks the winners from the seed and records them in one step. Refuses a seed that
+  // does not hash to the category's commitment. A redraw passes the voided winner it replaces and
+  // always draws exactly one winner
+  drawPrize(contestId: string, categoryId: string, seed: string, replacesWinnerId?: string): Promise<DrawOutcome>;
+  // Moves every winner into a named snapshot; restoring it is all or nothing and resolves to the
+  // number of winners put back
+  archiveWinners(contestId: string, snapshotName: string): Promise<void>;
+  listSnapshots(contestId: string): Promise<WinnerSnapshot[]>; // Newest first
+  restoreSnapshot(snapshotId: string): Promise<number>;
+  voidWinner(winnerId: string, reason: string): Promise<void>;
+  subscribe(contestId: string, onChange: () => void): Unsubscribe; // Called whenever the contest's winners change
+}
+
+export interface AuditRepository {
+  listEvents(contestId: string): Promise<AuditEvent[]>; // Newest first
+  // Events about winners and seed commitments are recorded by the backend itself and refused here
+  logEvent(contestId: string | null, eventType: AuditEventType, payload: Record<string, unknown>): Promise<void>;
+}
+
+export interface DisplaySender {
+  send(state: DisplayState): void;
+  close(): void;
+}
+
+// Carries the draw from the presenter to the audience display. Nothing is stored: a display that
+// joins late asks for the current state, and only admins' requests are answered
+export interface DisplayRepository {
+  openPresenter(contestId: string, onSyncRequest: () => void): DisplaySender;
+  follow(contestId: string, onState: (state: DisplayState) => void, requestSync: boolean): Unsubscribe;
+}
+
+export interface Repositories {
+  // False while the backend cannot be reached at all (Supabase without its URL and key); reads then
+  // come back empty and writes throw, so callers with a fallback should check this first
+  available: boolean;
+  auth: AuthRepository;
+  contests: ContestsRepository;
+  guides: GuidesRepository;
+  prizes: PrizesRepository;
+  winners: WinnersRepository;
+  audit: AuditRepository;
+  display: DisplayRepository;
+}
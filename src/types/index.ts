@@ -9,8 +9,51 @@ export interface Guide {
   totalTickets: number;
 }
 
+export type UserRole = 'admin' | 'viewer';
+
+// The signed-in user as every data backend reports it; a Supabase session fits this shape
+export interface AuthSession {
+  user: {
+    id: string;
+    email?: string;
+  };
+}
+
+export interface Contest {
+  id: string;
+  name: string;
+  status: 'active' | 'completed';
+  created_at: string;
+  completed_at: string | null;
+  ticket_rules: TicketRules | null; // null when ticket counts come straight from the roster
+  quota_rules: QuotaRules | null; // null leaves the draw unrestricted
+}
+
+export type TicketMetric = 'nps' | 'nrpc' | 'refundPercent';
+
+export interface TicketTier {
+  threshold: number;
+  tickets: number;
+}
+
+export interface MetricRule {
+  metric: TicketMetric;
+  // 'atLeast' for higher-is-better metrics, 'atMost' for lower-is-better ones like refunds
+  comparison: 'atLeast' | 'atMost';
+  tiers: TicketTier[];
+  weight: number;
+  cap: number | null;
+}
+
+export interface TicketRules {
+  metrics: MetricRule[];
+  minimumPerGuide: number;
+  maximumPerGuide: number | null;
+}
+
 export interface Winner {
   id: string;
+  contest_id: string;
   guide_id: number;
   name: string;
   supervisor: string;
@@ -23,10 +66,104 @@ export interface Winner {
   created_at: string;
 }
 
-export interface RaffleSettings {
-  maxWinners: number;
-  drawFrom: 'all' | 'departments';
-  selectedDepartments: string[];
+export interface TicketAssignment {
+  guide_id: number;
+  ticket_numbers: number[];
+}
+
+export interface Draw {
+  id: string;
+  contest_id: string;
+  prize_category: string;
+  seed: string;
+  seed_commitment: string;
+  committed_at?: string | null; // When the commitment was recorded; null on draws from before commitments were required
+  server_salt?: string | null; // Mixed into the seed by the database; null on offline replays and older draws
+  algorithm_version: string;
+  pool_hash: string;
+  pool_guide_ids: number[];
+  winner_count: number;
+  skipped: SkippedTicket[];
+  drawn_at: string;
+}
+
+export type AuditEventType =
+  | 'draw_started'
+  | 'draw_aborted'
+  | 'draw_restarted'
+  | 'winners_saved'
+  | 'winners_purged'
+  | 'winners_archived'
+  | 'winners_restored'
+  | 'winner_voided'
+  | 'roster_imported'
+  | 'ticket_rules_saved'
+  | 'prize_edited'
+  | 'quota_rules_saved'
+  | 'seed_committed'
+  | 'contest_created'
+  | 'contest_completed';
+
+export interface AuditEvent {
+  id: string;
+  contest_id: string | null;
+  event_type: AuditEventType;
+  actor_id: string | null;
+  actor_email: string | null;
+  payload: Record<string, unknown>;
+  created_at: string;
+}
+
+// Winners moved out of a contest by an archive; `winners` holds the rows exactly as stored
+export interface WinnerSnapshot {
+  id: string;
+  contest_id: string;
+  name: string;
+  winners: PrizeWinner[];
+  winner_count: number;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  restored_at: string | null;
+  restored_by: string | null;
+}
+
+// Who may win a prize category; empty lists and null limits leave that rule off
+export interface EligibilityRules {
+  departments: string[];
+  supervisors: string[];
+  minNps: number | null;
+  maxRefundPercent: number | null;
+  allowPastWinners: boolean; // false keeps out guides who won in an earlier contest
+}
+
+// How many winners a department may have in a contest; null leaves that side open
+export interface DepartmentQuota {
+  department: string;
+  min: number | null; // the last open slots are held for departments below this
+  max: number | null;
+}
+
+// At most `max` winners of the listed categories per supervisor team (or department)
+export interface TierCap {
+  label: string;
+  categoryIds: string[];
+  groupBy: 'supervisor' | 'department';
+  max: number;
+}
+
+export interface QuotaRules {
+  departments: DepartmentQuota[];
+  tierCaps: TierCap[];
+}
+
+// A ticket the draw landed on but passed over because of a quota; `pick` is the seed counter value
+export interface SkippedTicket {
+  pick: number;
+  ticket: number;
+  guideId: number;
+  name: string;
+  reason: string;
 }
 
 export interface PrizeCategory {
@@ -37,6 +174,30 @@ export interface PrizeCategory {
   image: string;
   gradient: string;
   icon: string;
+  countdownSeconds: number;
+  retiredAt?: string | null; // Retired categories keep their winners but are no longer drawn
+  eligibility?: EligibilityRules | null; // null lets every guide who has not won yet take part
+}
+
+// What the audience display shows, broadcast by the presenter's Raffle screen
+export type DisplayPhase = 'standings' | 'ready' | 'countdown' | 'drawing' | 'revealing';
+
+export interface DisplayWinner {
+  name: string;
+  department: string;
+  supervisor: string;
+  ticket: number;
+}
+
+export interface DisplayState {
+  phase: DisplayPhase;
+  category: Pick<PrizeCategory, 'id' | 'name' | 'description' | 'icon' | 'gradient' | 'image'> | null;
+  drawIndex: number; // 0-based position of the winner being drawn
+  totalWinners: number;
+  secondsLeft: number;
+  revealed: DisplayWinner[]; // winners of this draw revealed so far, in draw order
+  seedCommitment?: string | null; // shown while the draw is ready, so the seed can be checked against it afterwards
+  rehearsal?: boolean; // set while the presenter rehearses; nothing shown is a real result
 }
 
 export interface PrizeWinner extends Winner {
@@ -44,4 +205,22 @@ export interface PrizeWinner extends Winner {
   prize_name: string;
   ticket_numbers?: string; // JSON string of ticket numbers array
   drawn_ticket?: number;
-}
\ No newline at end of file
+  draw_id?: string;
+  voided_at?: string | null;
+  void_reason?: string | null;
+  voided_by?: string | null;
+  replaces_winner_id?: string | null; // Set on a redraw: the voided winner whose slot it fills
+}
+// A draw run while the database was out of reach, kept in this browser until it is replayed
+export interface PendingDraw {
+  id: string;
+  contestId: string;
+  categoryId: string;
+  winnerCount: number; // The prize's winner count when it was drawn
+  seed: string;
+  replacesWinnerId: string | null;
+  winners: PrizeWinner[]; // In draw order
+  skipped: SkippedTicket[];
+  drawnAt: string;
+  conflict: string | null; // Why the replay stopped; the draw waits for an admin to dismiss it
+}
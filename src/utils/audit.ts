@@ -0,0 +1,81 @@
+import { repositories } from '../repositories';
+import { AuditEvent, AuditEventType } from '../types';
+
+// Events the database records itself (winners saved, archived, restored or voided) are written inside
+// the same transaction as the change; everything else is reported from the browser here
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  draw_started: 'Draw started',
+  draw_aborted: 'Draw aborted',
+  draw_restarted: 'Draw restarted',
+  winners_saved: 'Winners saved',
+  winners_purged: 'Winners purged',
+  winners_archived: 'Winners archived',
+  winners_restored: 'Winners restored',
+  winner_voided: 'Winner voided',
+  roster_imported: 'Roster imported',
+  ticket_rules_saved: 'Ticket rules saved',
+  prize_edited: 'Prize edited',
+  quota_rules_saved: 'Quotas saved',
+  seed_committed: 'Seed committed',
+  contest_created: 'Contest created',
+  contest_completed: 'Contest completed'
+};
+
+// Never throws: a missing audit entry is logged, but must not break the draw or import it describes
+export const logAuditEvent = async (
+  contestId: string | null,
+  eventType: AuditEventType,
+  payload: Record<string, unknown> = {}
+): Promise<void> => {
+  if (!repositories.available) return;
+
+  try {
+    await repositories.audit.logEvent(contestId, eventType, payload);
+  } catch (error) {
+    console.error(`Error recording ${eventType} audit event:`, error);
+  }
+};
+
+const count = (value: unknown) => (Array.isArray(value) ? value.length : Number(value) || 0);
+
+// One-line summary of an event's payload for the audit table and exports
+export const describeAuditEvent = (event: AuditEvent): string => {
+  const payload = event.payload;
+  const prize = payload.prizeName ? String(payload.prizeName) : String(payload.prizeCategory ?? '');
+
+  switch (event.event_type) {
+    case 'draw_started':
+      return `${prize}: ${count(payload.poolGuideCount)} guides, ${count(payload.poolTicketCount)} tickets, seed commitment ${String(payload.seedCommitment ?? '').slice(0, 12)}…`;
+    case 'seed_committed':
+      return `${prize}: commitment ${String(payload.seedCommitment ?? '').slice(0, 12)}…${count(payload.supersededCount) > 0 ? ', replacing an unused one' : ''}${payload.offline ? ', for an offline draw (no server salt)' : ''}`;
+    case 'draw_aborted':
+    case 'draw_restarted':
+      return `${prize}: stopped during the countdown, no winners saved`;
+    case 'winners_saved':
+      return `${prize}: ${count(payload.guideIds)} winner(s), tickets ${(Array.isArray(payload.drawnTickets) ? payload.drawnTickets : []).map(ticket => `#${ticket}`).join(', ')}${payload.replacesWinnerId ? ' (redraw)' : ''}`;
+    case 'winners_purged':
+      return `${count(payload.deletedCount)} winner(s) deleted`;
+    case 'winners_archived':
+      return `${count(payload.winnerCount)} winner(s) archived to "${String(payload.snapshotName ?? '')}"`;
+    case 'winners_restored':
+      return `${count(payload.winnerCount)} winner(s) restored from "${String(payload.snapshotName ?? '')}"`;
+    case 'winner_voided':
+      return `${String(payload.name ?? '')} voided from ${prize}: ${String(payload.reason ?? '')}`;
+    case 'roster_imported':
+      return `${String(payload.fileName ?? 'Roster')}: ${count(payload.guideCount)} guides (+${count(payload.added)} / -${count(payload.removed)} / ${count(payload.changed)} changed)`;
+    case 'ticket_rules_saved':
+      return `${count(payload.guideCount)} guides recalculated, ${count(payload.totalTickets)} tickets in total`;
+    case 'prize_edited':
+      return `${prize}${payload.action ? `: ${String(payload.action)}` : ''}`;
+    case 'quota_rules_saved':
+      return payload.rules
+        ? `${count(payload.departmentQuotaCount)} department quota(s), ${count(payload.tierCapCount)} tier cap(s)`
+        : 'All quotas removed';
+    case 'contest_created':
+    case 'contest_completed':
+      return String(payload.name ?? '');
+    default:
+      return '';
+  }
+};
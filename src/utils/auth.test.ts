@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { rememberOfflineSignIn, signInOffline } from './auth';
+
+const session = { user: { id: 'user-1', email: 'Admin@Example.com' } };
+
+describe('offline sign-in', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value)
+    });
+  });
+
+  it('signs in an account that signed in online on this device before', async () => {
+    await rememberOfflineSignIn(session, 'Admin@Example.com', 'correct horse');
+
+    await expect(signInOffline(' admin@example.com', 'correct horse')).resolves.toEqual(session);
+  });
+
+  it('keeps a hash of the password, not the password', async () => {
+    await rememberOfflineSignIn(session, 'Admin@Example.com', 'correct horse');
+
+    expect(localStorage.getItem('offline_sign_in_admin@example.com')).not.toContain('correct horse');
+  });
+
+  it('refuses a wrong password', async () => {
+    await rememberOfflineSignIn(session, 'Admin@Example.com', 'correct horse');
+
+    await expect(signInOffline('admin@example.com', 'battery staple')).rejects.toThrow('Invalid login credentials');
+  });
+
+  it('refuses an account never seen on this device', async () => {
+    await expect(signInOffline('someone@example.com', 'correct horse')).rejects.toThrow('has not signed in on this device before');
+  });
+});
@@ -1,20 +1,99 @@
-const ADMIN_CREDENTIALS = {
-  username: 'admin',
-  password: 'InternationalMessaging@20'
+import { repositories } from '../repositories';
+import { AuthSession, UserRole } from '../types';
+import { isNetworkError } from './dbErrors';
+
+// Sessions and roles come from the data backend (Supabase Auth and `user_roles` by default);
+// the backend enforces the role again on every write
+
+const OFFLINE_SIGN_IN_ITERATIONS = 100000;
+
+// What this device keeps of the last online sign-in of an account: a PBKDF2 hash of its password,
+// never the password itself
+interface OfflineSignIn {
+  userId: string;
+  email: string;
+  salt: string;
+  hash: string;
+}
+
+const offlineSignInKey = (email: string) => `offline_sign_in_${email.trim().toLowerCase()}`;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashPassword = async (password: string, salt: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: OFFLINE_SIGN_IN_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
 };
 
-export const login = (username: string, password: string): boolean => {
-  if (username === ADMIN_CREDENTIALS.username && password === ADMIN_CREDENTIALS.password) {
-    localStorage.setItem('isAuthenticated', 'true');
-    return true;
+export const rememberOfflineSignIn = async (session: AuthSession, email: string, password: string): Promise<void> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const stored: OfflineSignIn = { userId: session.user.id, email: email.trim(), salt, hash: await hashPassword(password, salt) };
+  localStorage.setItem(offlineSignInKey(email), JSON.stringify(stored));
+};
+
+// Opens the app on this device only, for an account that signed in online here before. Nothing
+// reaches the backend with it: draws run offline and wait for an online sign-in to be saved
+export const signInOffline = async (email: string, password: string): Promise<AuthSession> => {
+  const raw = localStorage.getItem(offlineSignInKey(email));
+  if (!raw) {
+    throw new Error('The server cannot be reached, and this account has not signed in on this device before');
   }
-  return false;
+
+  const stored: OfflineSignIn = JSON.parse(raw);
+  if (await hashPassword(password, stored.salt) !== stored.hash) {
+    throw new Error('Invalid login credentials');
+  }
+  return { user: { id: stored.userId, email: stored.email } };
 };
 
-export const logout = (): void => {
-  localStorage.removeItem('isAuthenticated');
+// Resolves to a device-only session when the backend is missing or out of reach, and to null when
+// the backend took the sign-in and will report the session itself
+export const login = async (email: string, password: string): Promise<AuthSession | null> => {
+  if (!repositories.available) return signInOffline(email, password);
+
+  try {
+    await repositories.auth.signIn(email, password);
+  } catch (error) {
+    if (isNetworkError(error)) return signInOffline(email, password);
+    throw error;
+  }
+
+  try {
+    const session = await repositories.auth.getSession();
+    if (session) await rememberOfflineSignIn(session, email, password);
+  } catch (error) {
+    console.error('Error keeping the sign-in for offline use:', error);
+  }
+  return null;
+};
+
+export const logout = (): Promise<void> => repositories.auth.signOut();
+
+const roleKey = (userId: string) => `user_role_${userId}`;
+
+// The role last seen online; a device-only session has nothing else to go on
+export const cachedUserRole = (userId: string): UserRole => {
+  return localStorage.getItem(roleKey(userId)) === 'admin' ? 'admin' : 'viewer';
 };
 
-export const isAuthenticated = (): boolean => {
-  return localStorage.getItem('isAuthenticated') === 'true';
-};
\ No newline at end of file
+// Signed-in users without a role row are viewers. The last role seen is kept, so an admin who
+// reloads without a connection can still run offline draws; their replay goes through RLS anyway
+export const fetchUserRole = async (userId: string): Promise<UserRole> => {
+  if (!repositories.available) return 'viewer';
+
+  try {
+    const role = await repositories.auth.fetchRole(userId);
+    localStorage.setItem(roleKey(userId), role);
+    return role;
+  } catch (error) {
+    const cached = localStorage.getItem(roleKey(userId));
+    if (isNetworkError(error) && (cached === 'admin' || cached === 'viewer')) return cached;
+    throw error;
+  }
+};
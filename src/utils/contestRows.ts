@@ -0,0 +1,81 @@
+import { EligibilityRules, Guide, PrizeCategory } from '../types';
+
+// Database rows are snake_case and scoped to a contest; the app works with the camelCase interfaces
+
+export interface ContestGuideRow {
+  contest_id: string;
+  guide_id: number;
+  name: string;
+  supervisor: string;
+  department: string;
+  nps: number;
+  nrpc: number;
+  refund_percent: number;
+  total_tickets: number;
+}
+
+export interface PrizeCategoryRow {
+  contest_id: string;
+  id: string;
+  name: string;
+  description: string;
+  winner_count: number;
+  image: string;
+  gradient: string;
+  icon: string;
+  countdown_seconds: number;
+  sort_order: number;
+  retired_at?: string | null;
+  eligibility?: EligibilityRules | null;
+}
+
+export const toGuide = (row: ContestGuideRow): Guide => ({
+  id: row.guide_id,
+  name: row.name,
+  supervisor: row.supervisor,
+  department: row.department,
+  nps: Number(row.nps),
+  nrpc: Number(row.nrpc),
+  refundPercent: Number(row.refund_percent),
+  totalTickets: row.total_tickets
+});
+
+export const toGuideRow = (contestId: string, guide: Guide): ContestGuideRow => ({
+  contest_id: contestId,
+  guide_id: guide.id,
+  name: guide.name,
+  supervisor: guide.supervisor,
+  department: guide.department,
+  nps: guide.nps,
+  nrpc: guide.nrpc,
+  refund_percent: guide.refundPercent,
+  total_tickets: guide.totalTickets
+});
+
+export const toPrizeCategory = (row: PrizeCategoryRow): PrizeCategory => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  winnerCount: row.winner_count,
+  image: row.image,
+  gradient: row.gradient,
+  icon: row.icon,
+  countdownSeconds: row.countdown_seconds,
+  retiredAt: row.retired_at ?? null,
+  eligibility: row.eligibility ?? null
+});
+
+export const toPrizeCategoryRow = (contestId: string, category: PrizeCategory, sortOrder: number): PrizeCategoryRow => ({
+  contest_id: contestId,
+  id: category.id,
+  name: category.name,
+  description: category.description,
+  winner_count: category.winnerCount,
+  image: category.image,
+  gradient: category.gradient,
+  icon: category.icon,
+  countdown_seconds: category.countdownSeconds,
+  sort_order: sortOrder,
+  retired_at: category.retiredAt ?? null,
+  eligibility: category.eligibility ?? null
+});
@@ -0,0 +1,49 @@
+// Supabase/PostgREST errors are plain objects ({ code, message, details, hint }); this turns
+// the ones users can actually run into into messages they can act on
+
+interface DatabaseError {
+  code?: string;
+  message?: string;
+}
+
+const CONSTRAINT_MESSAGES: Record<string, string> = {
+  winners_contest_guide_key: 'This guide has already won a prize in this contest, so they cannot win again.',
+  winners_contest_drawn_ticket_key: 'This ticket has already been drawn in this contest.',
+  winners_category_capacity: 'This prize category already has all of its winners.',
+  contest_guides_nps_range: 'NPS must be between -100 and 100.'
+};
+
+const isDatabaseError = (error: unknown): error is DatabaseError =>
+  !!error && typeof error === 'object' && 'code' in error && typeof error.code === 'string';
+
+export const friendlyErrorMessage = (error: unknown, fallback: string): string => {
+  if (!isDatabaseError(error)) {
+    return error instanceof Error ? error.message : fallback;
+  }
+
+  const message = error.message ?? '';
+  const constraint = Object.keys(CONSTRAINT_MESSAGES).find(name => message.includes(name));
+
+  switch (error.code) {
+    case '23505': // unique_violation
+    case '23514': // check_violation
+      if (constraint) return CONSTRAINT_MESSAGES[constraint];
+      return error.code === '23514' ? message || fallback : fallback;
+    case '42501': // insufficient_privilege, including RLS rejections
+      return 'You do not have permission to do this. Sign in with an admin account.';
+    case 'P0001': // RAISE EXCEPTION in our database functions; written for users
+      return message || fallback;
+    default:
+      return fallback;
+  }
+};
+
+export const toFriendlyError = (error: unknown, fallback: string): Error =>
+  new Error(friendlyErrorMessage(error, fallback));
+
+// A request that never reached the database; supabase-js reports fetch failures without a code
+export const isNetworkError = (error: unknown): boolean => {
+  if (!navigator.onLine) return true;
+  const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : '';
+  return /failed to fetch|networkerror|load failed/i.test(message);
+};
@@ -0,0 +1,44 @@
+import { EligibilityRules, Guide } from '../types';
+
+// Mirrors guide_is_eligible() in the database, which applies the same rules when it draws
+
+export const DEFAULT_ELIGIBILITY: EligibilityRules = {
+  departments: [],
+  supervisors: [],
+  minNps: null,
+  maxRefundPercent: null,
+  allowPastWinners: true
+};
+
+export const isGuideEligible = (
+  guide: Guide,
+  rules: EligibilityRules | null | undefined,
+  pastWinnerIds: Set<number>
+): boolean => {
+  if (!rules) return true;
+
+  return (rules.departments.length === 0 || rules.departments.includes(guide.department)) &&
+    (rules.supervisors.length === 0 || rules.supervisors.includes(guide.supervisor)) &&
+    (rules.minNps === null || guide.nps >= rules.minNps) &&
+    (rules.maxRefundPercent === null || guide.refundPercent <= rules.maxRefundPercent) &&
+    (rules.allowPastWinners || !pastWinnerIds.has(guide.id));
+};
+
+export const filterEligibleGuides = <T extends Guide>(
+  guides: T[],
+  rules: EligibilityRules | null | undefined,
+  pastWinnerIds: Set<number>
+): T[] => guides.filter(guide => isGuideEligible(guide, rules, pastWinnerIds));
+
+// Plain-language summary of the rules that are switched on, one entry per rule
+export const describeEligibility = (rules: EligibilityRules | null | undefined): string[] => {
+  if (!rules) return [];
+
+  const lines: string[] = [];
+  if (rules.departments.length > 0) lines.push(`Departments: ${rules.departments.join(', ')}`);
+  if (rules.supervisors.length > 0) lines.push(`Supervisors: ${rules.supervisors.join(', ')}`);
+  if (rules.minNps !== null) lines.push(`NPS of at least ${rules.minNps}`);
+  if (rules.maxRefundPercent !== null) lines.push(`Refund % of at most ${rules.maxRefundPercent}`);
+  if (!rules.allowPastWinners) lines.push('No winners of earlier contests');
+  return lines;
+};
@@ -1,18 +1,34 @@
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
-import { PrizeWinner } from '../types';
+import { PrizeWinner, PrizeCategory, AuditEvent } from '../types';
 import { GuideWithTickets } from './ticketSystem';
-import { prizeCategories } from '../data/prizeCategories';
+import { AUDIT_EVENT_LABELS, describeAuditEvent } from './audit';
+import { FairnessBreakdown, FairnessReport, describeExcludedGroups, describeFairnessTest, formatPValue } from './fairness';
 
 declare module 'jspdf' {
   interface jsPDF {
     autoTable: (options: any) => jsPDF;
+    lastAutoTable: { finalY: number };
   }
 }
 
-export const exportToExcel = (winners: PrizeWinner[]) => {
+// Voided rows are exported for the record, next to the redraw that replaced them
+const voidHistory = (winner: PrizeWinner, winners: PrizeWinner[]) => {
+  const replaced = winner.replaces_winner_id ? winners.find(w => w.id === winner.replaces_winner_id) : undefined;
+  const replacement = winners.find(w => w.replaces_winner_id === winner.id);
+
+  return {
+    status: winner.voided_at ? 'Voided' : 'Active',
+    voidReason: winner.void_reason || '',
+    replaces: replaced?.name || '',
+    replacedBy: replacement?.name || (winner.voided_at ? 'Awaiting redraw' : '')
+  };
+};
+
+export const exportToExcel = (winners: PrizeWinner[], prizeCategories: PrizeCategory[]) => {
   const exportData = winners.map(winner => {
+    const history = voidHistory(winner, winners);
     const prizeCategory = prizeCategories.find(p => p.id === winner.prize_category);
     const ticketNumbers = winner.ticket_numbers ? JSON.parse(winner.ticket_numbers) : [];
     return {
@@ -31,7 +47,11 @@ export const exportToExcel = (winners: PrizeWinner[]) => {
       'All Ticket Numbers': ticketNumbers.length > 0 ? ticketNumbers.map((t: number) => `#${t.toString().padStart(4, '0')}`).join(', ') : 'N/A',
       'Won Date': new Date(winner.won_at).toLocaleDateString(),
       'Won Time': new Date(winner.won_at).toLocaleTimeString(),
-      'Guide ID': winner.guide_id
+      'Guide ID': winner.guide_id,
+      'Status': history.status,
+      'Void Reason': history.voidReason,
+      'Replaces': history.replaces,
+      'Replaced By': history.replacedBy
     };
   });
 
@@ -55,7 +75,11 @@ export const exportToExcel = (winners: PrizeWinner[]) => {
     { wch: 50 }, // All Ticket Numbers
     { wch: 12 }, // Won Date
     { wch: 12 }, // Won Time
-    { wch: 10 }  // Guide ID
+    { wch: 10 }, // Guide ID
+    { wch: 10 }, // Status
+    { wch: 30 }, // Void Reason
+    { wch: 25 }, // Replaces
+    { wch: 25 }  // Replaced By
   ];
   worksheet['!cols'] = colWidths;
 
@@ -65,7 +89,7 @@ export const exportToExcel = (winners: PrizeWinner[]) => {
   XLSX.writeFile(workbook, fileName);
 };
 
-export const exportToPDF = (winners: PrizeWinner[]) => {
+export const exportToPDF = (winners: PrizeWinner[], prizeCategories: PrizeCategory[]) => {
   const doc = new jsPDF('landscape'); // Use landscape for more columns
   
   // Add title
@@ -89,7 +113,7 @@ export const exportToPDF = (winners: PrizeWinner[]) => {
     return [
       prizeCategory?.name || 'Unknown',
       winner.drawn_ticket ? `#${winner.drawn_ticket.toString().padStart(4, '0')}` : 'N/A',
-      winner.name,
+      winner.voided_at ? `${winner.name} (voided)` : winner.name,
       winner.department,
       winner.supervisor,
       winner.nps.toString(),
@@ -133,6 +157,9 @@ export const exportToPDF = (winners: PrizeWinner[]) => {
     }
   });
 
+  // Voided winners are listed in the table but left out of the statistics
+  const currentWinners = winners.filter(w => !w.voided_at);
+
   // Add summary statistics
   const finalY = (doc as any).lastAutoTable.finalY + 20;
   doc.setFontSize(12);
@@ -140,28 +167,39 @@ export const exportToPDF = (winners: PrizeWinner[]) => {
   doc.text('Summary Statistics:', 20, finalY);
   
   doc.setFontSize(10);
-  doc.text(`Total Winners: ${winners.length}`, 20, finalY + 10);
+  doc.text(`Total Winners: ${currentWinners.length}`, 20, finalY + 10);
   
-  const totalTickets = winners.reduce((sum, w) => sum + w.total_tickets, 0);
+  const totalTickets = currentWinners.reduce((sum, w) => sum + w.total_tickets, 0);
   doc.text(`Total Tickets Won: ${totalTickets.toLocaleString()}`, 20, finalY + 20);
   
-  const avgNPS = winners.length > 0 ? winners.reduce((sum, w) => sum + w.nps, 0) / winners.length : 0;
+  const avgNPS = currentWinners.length > 0 ? currentWinners.reduce((sum, w) => sum + w.nps, 0) / currentWinners.length : 0;
   doc.text(`Average NPS: ${avgNPS.toFixed(1)}`, 20, finalY + 30);
   
-  const avgNRPC = winners.length > 0 ? winners.reduce((sum, w) => sum + w.nrpc, 0) / winners.length : 0;
+  const avgNRPC = currentWinners.length > 0 ? currentWinners.reduce((sum, w) => sum + w.nrpc, 0) / currentWinners.length : 0;
   doc.text(`Average NRPC: ${avgNRPC.toFixed(1)}`, 20, finalY + 40);
 
   // Add prize category breakdown
   doc.text('Prize Category Breakdown:', 150, finalY);
   let yPos = finalY + 10;
   prizeCategories.forEach(category => {
-    const categoryWinners = winners.filter(w => w.prize_category === category.id);
+    const categoryWinners = currentWinners.filter(w => w.prize_category === category.id);
     if (categoryWinners.length > 0) {
       doc.text(`${category.name}: ${categoryWinners.length} winners`, 150, yPos);
       yPos += 10;
     }
   });
 
+  const voidedWinners = winners.filter(w => w.voided_at);
+  if (voidedWinners.length > 0) {
+    let voidY = Math.max(yPos, finalY + 50) + 10;
+    doc.text('Voided Winners:', 20, voidY);
+    voidedWinners.forEach(winner => {
+      const history = voidHistory(winner, winners);
+      voidY += 10;
+      doc.text(`${winner.name} (${winner.prize_name}): ${history.voidReason}. Replaced by: ${history.replacedBy}`, 20, voidY);
+    });
+  }
+
   // Save the PDF
   const fileName = `Contest_Winners_Detailed_${new Date().toISOString().split('T')[0]}.pdf`;
   doc.save(fileName);
@@ -317,4 +355,155 @@ export const exportUniversalPoolToPDF = (guides: GuideWithTickets[]) => {
   // Save the PDF
   const fileName = `Universal_Pool_Complete_Data_${new Date().toISOString().split('T')[0]}.pdf`;
   doc.save(fileName);
-};
\ No newline at end of file
+};
+
+// CSV for spreadsheets and scripts, XLSX for people; both carry the raw payload as JSON
+export const exportAuditEvents = (events: AuditEvent[], contestName: string, format: 'xlsx' | 'csv') => {
+  const exportData = events.map(event => ({
+    'Date': new Date(event.created_at).toLocaleDateString(),
+    'Time': new Date(event.created_at).toLocaleTimeString(),
+    'Event': AUDIT_EVENT_LABELS[event.event_type] || event.event_type,
+    'Actor': event.actor_email || event.actor_id || 'Unknown',
+    'Summary': describeAuditEvent(event),
+    'Payload': JSON.stringify(event.payload),
+    'Event ID': event.id,
+    'Recorded At (UTC)': event.created_at
+  }));
+
+  const worksheet = XLSX.utils.json_to_sheet(exportData);
+  const workbook = XLSX.utils.book_new();
+
+  worksheet['!cols'] = [
+    { wch: 12 }, // Date
+    { wch: 12 }, // Time
+    { wch: 20 }, // Event
+    { wch: 30 }, // Actor
+    { wch: 60 }, // Summary
+    { wch: 80 }, // Payload
+    { wch: 38 }, // Event ID
+    { wch: 26 }  // Recorded At (UTC)
+  ];
+
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Audit Log');
+
+  const safeName = contestName.replace(/[^a-z0-9]+/gi, '_');
+  const fileName = `Audit_Log_${safeName}_${new Date().toISOString().split('T')[0]}.${format}`;
+  XLSX.writeFile(workbook, fileName, { bookType: format });
+};
+
+const fairnessTable = (doc: jsPDF, breakdown: FairnessBreakdown, title: string, startY: number): number => {
+  doc.setFontSize(14);
+  doc.setTextColor(40, 40, 40);
+  doc.text(title, 20, startY);
+
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  const { test } = breakdown;
+  doc.text(
+    `Chi-square ${test.statistic.toFixed(2)} on ${test.degreesOfFreedom} df: ${formatPValue(test.pValue)} (chi-square), ${formatPValue(test.simulatedPValue)} (simulated)`,
+    20,
+    startY + 7
+  );
+  doc.text(describeFairnessTest(test, breakdown.grouping), 20, startY + 13);
+
+  // Excluded groups can make a long note, so it wraps and pushes the table down
+  const excludedNote = describeExcludedGroups(test, breakdown.grouping);
+  const noteLines: string[] = excludedNote ? doc.splitTextToSize(excludedNote, 250) : [];
+  if (noteLines.length > 0) doc.text(noteLines, 20, startY + 19);
+  const tableY = startY + 18 + noteLines.length * 5;
+
+  doc.autoTable({
+    head: [[breakdown.grouping === 'department' ? 'Department' : 'Supervisor', 'Guides', 'Tickets', 'Ticket Share', 'Expected Winners', 'Observed Winners', 'Difference']],
+    body: breakdown.rows.map(row => [
+      row.group,
+      row.guides.toString(),
+      row.tickets.toLocaleString(),
+      `${(row.ticketShare * 100).toFixed(1)}%`,
+      row.expected > 0 ? row.expected.toFixed(2) : '0 (not tested)',
+      row.observed.toString(),
+      `${row.observed - row.expected >= 0 ? '+' : ''}${(row.observed - row.expected).toFixed(2)}`
+    ]),
+    startY: tableY,
+    styles: {
+      fontSize: 8,
+      cellPadding: 1.5
+    },
+    headStyles: {
+      fillColor: [66, 139, 202],
+      textColor: 255,
+      fontStyle: 'bold'
+    },
+    alternateRowStyles: {
+      fillColor: [245, 245, 245]
+    }
+  });
+
+  return doc.lastAutoTable.finalY + 15;
+};
+
+// One histogram per department: how often the simulated contests gave it each number of winners,
+// with the observed number in red
+const fairnessHistograms = (doc: jsPDF, breakdown: FairnessBreakdown, startY: number) => {
+  const width = 60;
+  const height = 30;
+  const perRow = 4;
+
+  doc.setFontSize(14);
+  doc.setTextColor(40, 40, 40);
+  doc.text('Simulated Winners per Department', 20, startY);
+
+  breakdown.rows.forEach((row, index) => {
+    const x = 20 + (index % perRow) * (width + 8);
+    const y = startY + 10 + Math.floor(index / perRow) * (height + 20);
+    const bins = Math.max(row.distribution.length, row.observed + 1);
+    const barWidth = width / bins;
+    const tallest = Math.max(...row.distribution, 0.0001);
+
+    doc.setFontSize(9);
+    doc.setTextColor(40, 40, 40);
+    doc.text(row.group, x, y);
+
+    for (let count = 0; count < bins; count++) {
+      const barHeight = ((row.distribution[count] ?? 0) / tallest) * height;
+      if (count === row.observed) {
+        doc.setFillColor(220, 53, 69);
+      } else {
+        doc.setFillColor(66, 139, 202);
+      }
+      doc.rect(x + count * barWidth, y + 2 + height - barHeight, Math.max(barWidth - 1, 0.5), barHeight, 'F');
+    }
+
+    doc.setFontSize(7);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`0 to ${bins - 1} winners, observed ${row.observed}`, x, y + height + 7);
+  });
+};
+
+export const exportFairnessReportToPDF = (report: FairnessReport, contestName: string) => {
+  const doc = new jsPDF('landscape');
+
+  // Add title
+  doc.setFontSize(20);
+  doc.setTextColor(40, 40, 40);
+  doc.text(`Big Dollar Contest - Fairness Report: ${contestName}`, 20, 20);
+
+  // Add generation date and method
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Generated on: ${new Date().toLocaleString()}`, 20, 30);
+  doc.text(
+    `${report.winnerCount} winners compared with ${report.runs.toLocaleString()} simulated contests drawn from the stored ticket assignment, eligibility rules and quotas`,
+    20,
+    35
+  );
+
+  const supervisorsY = fairnessTable(doc, report.departments, 'By Department', 48);
+  fairnessTable(doc, report.supervisors, 'By Supervisor', supervisorsY);
+
+  doc.addPage();
+  fairnessHistograms(doc, report.departments, 20);
+
+  const safeName = contestName.replace(/[^a-z0-9]+/gi, '_');
+  const fileName = `Fairness_Report_${safeName}_${new Date().toISOString().split('T')[0]}.pdf`;
+  doc.save(fileName);
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { PrizeCategory, PrizeWinner } from '../types';
+import { applyTicketAssignments } from './ticketSystem';
+import { buildFairnessReport, describeExcludedGroups, fairnessFlagged } from './fairness';
+import { winnerRow } from './testFixtures';
+
+const pool = applyTicketAssignments(
+  [
+    { id: 1, name: 'Guide One', supervisor: 'S1', department: 'IM', nps: 80, nrpc: 10, refundPercent: 0, totalTickets: 3 },
+    { id: 2, name: 'Guide Two', supervisor: 'S1', department: 'IM', nps: 80, nrpc: 10, refundPercent: 0, totalTickets: 2 },
+    { id: 3, name: 'Guide Three', supervisor: 'S2', department: 'CS', nps: 80, nrpc: 10, refundPercent: 0, totalTickets: 4 }
+  ],
+  [
+    { guide_id: 1, ticket_numbers: [1, 4, 7] },
+    { guide_id: 2, ticket_numbers: [2, 5] },
+    { guide_id: 3, ticket_numbers: [3, 6, 8, 9] }
+  ]
+);
+
+// Only IM can win it, so CS is expected to win nothing
+const imOnly: PrizeCategory = {
+  id: 'bigDollar', name: 'Big Dollar', description: '', winnerCount: 1, image: '', gradient: '', icon: '', countdownSeconds: 10,
+  eligibility: { departments: ['IM'], supervisors: [], minNps: null, maxRefundPercent: null, allowPastWinners: true }
+};
+
+const winnerOf = (guideId: number): PrizeWinner => {
+  const guide = pool.find(candidate => candidate.id === guideId)!;
+  return winnerRow(guide, guide.ticketNumbers[0]);
+};
+
+const report = (winners: PrizeWinner[]) =>
+  buildFairnessReport({ guidesWithTickets: pool, winners, categories: [imOnly], pastWinnerIds: new Set(), quotaRules: null }, 200);
+
+describe('buildFairnessReport', () => {
+  it('lists the groups nobody was expected to win in instead of dropping them', () => {
+    const { test } = report([winnerOf(1)]).departments;
+
+    expect(test.excluded).toEqual([{ group: 'CS', observed: 0 }]);
+    expect(fairnessFlagged(test)).toBe(false);
+    expect(describeExcludedGroups(test, 'department')).toContain('CS');
+  });
+
+  it('flags winners in a group that could not win', () => {
+    const { test } = report([winnerOf(3)]).departments;
+
+    expect(test.excluded).toEqual([{ group: 'CS', observed: 1 }]);
+    expect(fairnessFlagged(test)).toBe(true);
+    expect(describeExcludedGroups(test, 'department')).toContain('CS has 1 winner(s)');
+  });
+});
@@ -0,0 +1,243 @@
+import { PrizeCategory, PrizeWinner, QuotaRules } from '../types';
+import { GuideWithTickets, activeWinners } from './ticketSystem';
+import { DEFAULT_SIMULATION_RUNS, PlannedDraw, simulateDraws } from './odds';
+
+// Compares who won with what ticket weighting alone would produce. Expected counts come from
+// re-running the contest's draws many times with the same pool, eligibility rules and quotas, so
+// sampling without replacement and the quotas are accounted for. The chi-square test reports both
+// the textbook p-value and one read off the simulated runs, which holds up with the small counts a
+// contest produces.
+
+export type FairnessGrouping = 'department' | 'supervisor';
+
+export interface FairnessRow {
+  group: string;
+  guides: number;
+  tickets: number;
+  ticketShare: number;
+  expected: number;
+  observed: number;
+  distribution: number[]; // Share of simulated runs in which the group won 0, 1, 2, ... prizes
+}
+
+// A group no simulated run gave a winner to, so its expected count is 0 and it cannot enter the statistic
+export interface ExcludedGroup {
+  group: string;
+  observed: number; // Winners it has anyway, which the ticket weighting cannot produce
+}
+
+export interface FairnessTest {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number; // From the chi-square distribution
+  simulatedPValue: number; // Share of simulated runs at least as far from the expected counts
+  excluded: ExcludedGroup[];
+}
+
+export interface FairnessBreakdown {
+  grouping: FairnessGrouping;
+  rows: FairnessRow[];
+  test: FairnessTest;
+}
+
+export interface FairnessReport {
+  runs: number;
+  winnerCount: number;
+  draws: PlannedDraw[];
+  departments: FairnessBreakdown;
+  supervisors: FairnessBreakdown;
+}
+
+export interface FairnessInput {
+  guidesWithTickets: GuideWithTickets[]; // The stored ticket assignment
+  winners: PrizeWinner[];
+  categories: PrizeCategory[]; // In prize order, retired ones included
+  pastWinnerIds: Set<number>;
+  quotaRules: QuotaRules | null;
+}
+
+// Lanczos approximation of ln Γ(x)
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+const lnGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((coefficient, index) => {
+    sum += coefficient / (z + index + 1);
+  });
+  const t = z + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Regularized upper incomplete gamma Q(a, x): a series below a + 1, a continued fraction above
+const upperGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-14; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - lnGamma(a));
+  }
+
+  let b = x + 1 - a;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - lnGamma(a)) * h;
+};
+
+export const chiSquarePValue = (statistic: number, degreesOfFreedom: number): number =>
+  degreesOfFreedom > 0 ? upperGamma(degreesOfFreedom / 2, statistic / 2) : 1;
+
+// Groups nobody was expected to win in (no eligible tickets) cannot enter the statistic; the
+// report lists them as excluded instead
+const chiSquare = (observed: number[], expected: number[]): number =>
+  observed.reduce((sum, count, index) =>
+    expected[index] > 0 ? sum + (count - expected[index]) ** 2 / expected[index] : sum, 0);
+
+const breakdown = (
+  grouping: FairnessGrouping,
+  input: FairnessInput,
+  holders: PrizeWinner[],
+  simulatedCounts: number[][],
+  groups: string[]
+): FairnessBreakdown => {
+  const runs = simulatedCounts.length;
+  const totalTickets = input.guidesWithTickets.reduce((sum, guide) => sum + guide.ticketNumbers.length, 0);
+
+  const expected = groups.map((_, index) =>
+    runs > 0 ? simulatedCounts.reduce((sum, counts) => sum + counts[index], 0) / runs : 0
+  );
+  const observed = groups.map(group => holders.filter(winner => winner[grouping] === group).length);
+
+  const rows = groups.map((group, index) => {
+    const members = input.guidesWithTickets.filter(guide => guide[grouping] === group);
+    const tickets = members.reduce((sum, guide) => sum + guide.ticketNumbers.length, 0);
+    const distribution: number[] = [];
+    simulatedCounts.forEach(counts => {
+      distribution[counts[index]] = (distribution[counts[index]] ?? 0) + 1 / runs;
+    });
+
+    return {
+      group,
+      guides: members.length,
+      tickets,
+      ticketShare: totalTickets > 0 ? tickets / totalTickets : 0,
+      expected: expected[index],
+      observed: observed[index],
+      distribution: Array.from(distribution, share => share ?? 0)
+    };
+  });
+
+  const statistic = chiSquare(observed, expected);
+  const degreesOfFreedom = Math.max(expected.filter(count => count > 0).length - 1, 0);
+  const atLeastAsFar = simulatedCounts.filter(counts => chiSquare(counts, expected) >= statistic - 1e-9).length;
+
+  return {
+    grouping,
+    rows,
+    test: {
+      statistic,
+      degreesOfFreedom,
+      pValue: chiSquarePValue(statistic, degreesOfFreedom),
+      simulatedPValue: runs > 0 ? atLeastAsFar / runs : 1,
+      excluded: rows
+        .filter(row => row.expected === 0)
+        .map(row => ({ group: row.group, observed: row.observed }))
+    }
+  };
+};
+
+export const buildFairnessReport = (input: FairnessInput, runs = DEFAULT_SIMULATION_RUNS): FairnessReport => {
+  const holders = activeWinners(input.winners);
+
+  // Each prize is re-drawn as many times as it currently has winners, in prize order
+  const draws = input.categories
+    .map(category => ({ category, slots: holders.filter(winner => winner.prize_category === category.id).length }))
+    .filter(draw => draw.slots > 0);
+
+  const groupsOf = (grouping: FairnessGrouping) =>
+    Array.from(new Set([
+      ...input.guidesWithTickets.map(guide => guide[grouping]),
+      ...holders.map(winner => winner[grouping])
+    ])).sort();
+  const departments = groupsOf('department');
+  const supervisors = groupsOf('supervisor');
+
+  const departmentCounts: number[][] = [];
+  const supervisorCounts: number[][] = [];
+  simulateDraws(
+    {
+      pool: input.guidesWithTickets,
+      draws,
+      holders: [],
+      openSlots: draws.reduce((sum, draw) => sum + draw.slots, 0),
+      pastWinnerIds: input.pastWinnerIds,
+      quotaRules: input.quotaRules
+    },
+    draws.length > 0 ? runs : 0,
+    wins => {
+      departmentCounts.push(departments.map(group => wins.filter(win => win.guide.department === group).length));
+      supervisorCounts.push(supervisors.map(group => wins.filter(win => win.guide.supervisor === group).length));
+    }
+  );
+
+  return {
+    runs: departmentCounts.length,
+    winnerCount: holders.length,
+    draws,
+    departments: breakdown('department', input, holders, departmentCounts, departments),
+    supervisors: breakdown('supervisor', input, holders, supervisorCounts, supervisors)
+  };
+};
+
+export const formatPValue = (pValue: number): string => (pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`);
+
+// Winners in a group that could not win are a finding of their own, whatever the p-value says
+export const fairnessFlagged = (test: FairnessTest): boolean =>
+  (test.degreesOfFreedom > 0 && test.simulatedPValue < 0.05) || test.excluded.some(group => group.observed > 0);
+
+// Plain-language list of the groups left out of a test, for the report and its PDF, or null when none were
+export const describeExcludedGroups = (test: FairnessTest, grouping: FairnessGrouping): string | null => {
+  if (test.excluded.length === 0) return null;
+
+  const label = grouping === 'department' ? 'Departments' : 'Supervisor teams';
+  const names = test.excluded.map(group => group.group).join(', ');
+  const winning = test.excluded.filter(group => group.observed > 0);
+  const note = winning.length > 0
+    ? ` Yet ${winning.map(group => `${group.group} has ${group.observed} winner(s)`).join(' and ')}, which the ticket weighting cannot produce; check the eligibility rules and quotas.`
+    : '';
+
+  return `${label} left out of the test because none of their guides could win in the simulated contests: ${names}.${note}`;
+};
+
+// Plain-language reading of a test, for the report and its PDF
+export const describeFairnessTest = (test: FairnessTest, grouping: FairnessGrouping): string => {
+  const label = grouping === 'department' ? 'department' : 'supervisor team';
+  if (test.degreesOfFreedom === 0) return `Only one ${label} could win, so there is nothing to compare.`;
+
+  return test.simulatedPValue < 0.05
+    ? `The winners differ from the ticket weighting more than chance usually allows (${formatPValue(test.simulatedPValue)}); worth a closer look.`
+    : `No sign that the draw favoured any ${label} (${formatPValue(test.simulatedPValue)}).`;
+};
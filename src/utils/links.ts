@@ -0,0 +1,13 @@
+// Shareable addresses carry the contest, so a link opens the right contest for whoever follows it.
+// The app resolves /contests/:contestId/... by selecting that contest and dropping the prefix.
+export const contestLink = (contestId: string, path: string): string =>
+  `${window.location.origin}/contests/${contestId}/${path.replace(/^\//, '')}`;
+
+export const copyContestLink = async (contestId: string, path: string) => {
+  try {
+    await navigator.clipboard.writeText(contestLink(contestId, path));
+  } catch (error) {
+    console.error('Failed to copy link:', error);
+    alert('Failed to copy the link. Please try again.');
+  }
+};
@@ -0,0 +1,72 @@
+import { PrizeCategory, PrizeWinner, QuotaRules, SkippedTicket } from '../types';
+import { GuideWithTickets, activeWinners, openSlots, drawRandomTickets } from './ticketSystem';
+import { openSlotCount, quotaSkipReason } from './quotas';
+
+export interface LocalDrawOptions {
+  contestId: string;
+  category: PrizeCategory;
+  seed: string;
+  pool: GuideWithTickets[]; // Eligible guides without a prize, as the database would lock them
+  winners: PrizeWinner[]; // Everything the contest holds before this draw
+  activeCategories: PrizeCategory[];
+  quotaRules: QuotaRules | null;
+  replacesWinnerId?: string;
+  idPrefix: string; // Marks the rows as never having come from the database
+}
+
+const toWinnerRow = (
+  options: LocalDrawOptions,
+  guide: GuideWithTickets,
+  drawId: string,
+  drawnTicket: number | undefined
+): PrizeWinner => {
+  const now = new Date().toISOString();
+  return {
+    id: `${options.idPrefix}${crypto.randomUUID()}`,
+    contest_id: options.contestId,
+    guide_id: guide.id,
+    name: guide.name,
+    supervisor: guide.supervisor,
+    department: guide.department,
+    nps: guide.nps,
+    nrpc: guide.nrpc,
+    refund_percent: guide.refundPercent,
+    total_tickets: guide.totalTickets,
+    won_at: now,
+    created_at: now,
+    prize_category: options.category.id,
+    prize_name: options.category.name,
+    ticket_numbers: JSON.stringify([...guide.ticketNumbers].sort((a, b) => a - b)),
+    drawn_ticket: drawnTicket,
+    draw_id: drawId,
+    replaces_winner_id: options.replacesWinnerId ?? null
+  };
+};
+
+// Browser stand-in for the `draw_prize` database function, for rehearsals and offline draws. Runs
+// the browser copy of the draw engine with the same seed, so the database reproduces the result
+// from the same pool, and raises the same errors. Returns the new winner rows in draw order
+export const drawPrizeLocally = (options: LocalDrawOptions): { winners: PrizeWinner[]; skipped: SkippedTicket[] } => {
+  const { category, winners, activeCategories, quotaRules, replacesWinnerId } = options;
+  const drawId = `${options.idPrefix}${crypto.randomUUID()}`;
+  const count = replacesWinnerId ? 1 : openSlots(category, winners);
+
+  // The database re-checks the quotas after every winner it inserts
+  const result = drawRandomTickets(options.pool, count, options.seed, (guide, _pick, drawnSoFar) => {
+    const current = [...winners, ...drawnSoFar.map(drawn => toWinnerRow(options, drawn, drawId, undefined))];
+    const holders = activeWinners(current);
+    return quotaSkipReason(quotaRules, category.id, guide, holders, openSlotCount(activeCategories, current, replacesWinnerId));
+  });
+
+  if (result.winners.length === 0) {
+    const lastSkip = result.skipped[result.skipped.length - 1];
+    throw new Error(lastSkip
+      ? `Every ticket left for ${category.name} is held back by the quotas: ${lastSkip.reason}`
+      : 'No tickets are left to draw from');
+  }
+
+  return {
+    winners: result.winners.map((guide, index) => toWinnerRow(options, guide, drawId, result.drawnTickets[index])),
+    skipped: result.skipped
+  };
+};
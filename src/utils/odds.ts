@@ -0,0 +1,161 @@
+import { PrizeCategory, PrizeWinner, QuotaRules } from '../types';
+import { GuideWithTickets, TicketPicker, openSlots } from './ticketSystem';
+import { isGuideEligible } from './eligibility';
+import { QuotaHolder, quotaSkipReason } from './quotas';
+
+// Each guide's chance of winning the prizes still to be drawn. Draws follow drawRandomTickets:
+// every pick is one ticket out of the pool, the guide it lands on leaves the pool, and a guide a
+// quota holds back is passed over for the rest of that draw. Later draws only see who is left, so
+// the odds depend on the order the draws are run in.
+
+export const DEFAULT_SIMULATION_RUNS = 2000;
+
+// Fixed so the odds do not change from one render to the next
+const SIMULATION_SEED = 20250923;
+
+export interface PlannedDraw {
+  category: PrizeCategory;
+  slots: number;
+}
+
+export interface OddsInput {
+  pool: GuideWithTickets[]; // Guides without a prize in this contest yet
+  draws: PlannedDraw[]; // In the order they will be run
+  holders: QuotaHolder[]; // Winners currently holding a prize, for the quotas
+  openSlots: number; // Slots still open across the contest, for the quota minimums
+  pastWinnerIds: Set<number>;
+  quotaRules: QuotaRules | null;
+}
+
+export interface GuideOdds {
+  byCategory: Record<string, number>;
+  anyPrize: number;
+}
+
+export interface OddsResult {
+  method: 'exact' | 'simulation';
+  runs: number; // 0 when exact
+  guides: Map<number, GuideOdds>;
+}
+
+// Regular draws still to run for each active category, in prize order. A voided winner's slot is
+// left out: only its linked redraw can fill it
+export const plannedDraws = (activeCategories: PrizeCategory[], winners: PrizeWinner[]): PlannedDraw[] => {
+  return activeCategories
+    .map(category => ({ category, slots: openSlots(category, winners) }))
+    .filter(draw => draw.slots > 0);
+};
+
+// mulberry32: fast and good enough for estimating odds; the real draw uses the seeded SHA-256 picker
+const createSimulationPicker = (seed: number): TicketPicker => {
+  let state = seed;
+  return (poolSize: number) => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return Math.floor((((t ^ (t >>> 14)) >>> 0) / 4294967296) * poolSize);
+  };
+};
+
+const emptyOdds = (input: OddsInput): Map<number, GuideOdds> =>
+  new Map(input.pool.map(guide => [
+    guide.id,
+    { byCategory: Object.fromEntries(input.draws.map(draw => [draw.category.id, 0])), anyPrize: 0 }
+  ]));
+
+// With a single pick left nothing changes between picks: a guide the quotas hold back is passed
+// over and the pick falls again among the rest, so each remaining guide's chance is their ticket share
+const exactOdds = (input: OddsInput): OddsResult => {
+  const guides = emptyOdds(input);
+  const draw = input.draws.find(planned => planned.slots > 0);
+  if (!draw) return { method: 'exact', runs: 0, guides };
+
+  const candidates = input.pool.filter(guide =>
+    isGuideEligible(guide, draw.category.eligibility, input.pastWinnerIds) &&
+    !quotaSkipReason(input.quotaRules, draw.category.id, guide, input.holders, input.openSlots)
+  );
+  const totalTickets = candidates.reduce((sum, guide) => sum + guide.ticketNumbers.length, 0);
+
+  candidates.forEach(guide => {
+    const chance = totalTickets > 0 ? guide.ticketNumbers.length / totalTickets : 0;
+    const odds = guides.get(guide.id) as GuideOdds;
+    odds.byCategory[draw.category.id] = chance;
+    odds.anyPrize = chance;
+  });
+
+  return { method: 'exact', runs: 0, guides };
+};
+
+export interface SimulatedWin {
+  guide: GuideWithTickets;
+  categoryId: string;
+}
+
+// Runs the planned draws `runs` times, handing each run's winners to `onRun`. The runs only
+// depend on the seed, so two passes with the same seed see identical outcomes
+export const simulateDraws = (
+  input: OddsInput,
+  runs: number,
+  onRun: (wins: SimulatedWin[]) => void,
+  seed = SIMULATION_SEED
+) => {
+  const pickTicket = createSimulationPicker(seed);
+
+  for (let run = 0; run < runs; run++) {
+    const pool = [...input.pool];
+    const holders = [...input.holders];
+    const wins: SimulatedWin[] = [];
+    let openSlots = input.openSlots;
+
+    for (const draw of input.draws) {
+      const candidates = pool.filter(guide => isGuideEligible(guide, draw.category.eligibility, input.pastWinnerIds));
+      let drawn = 0;
+
+      while (drawn < draw.slots && candidates.length > 0) {
+        const totalTickets = candidates.reduce((sum, guide) => sum + guide.ticketNumbers.length, 0);
+        if (totalTickets === 0) break;
+
+        let ticket = pickTicket(totalTickets);
+        const index = candidates.findIndex(guide => (ticket -= guide.ticketNumbers.length) < 0);
+        const [guide] = candidates.splice(index, 1);
+
+        if (quotaSkipReason(input.quotaRules, draw.category.id, guide, holders, openSlots)) continue;
+
+        wins.push({ guide, categoryId: draw.category.id });
+        pool.splice(pool.indexOf(guide), 1);
+        holders.push({ department: guide.department, supervisor: guide.supervisor, prize_category: draw.category.id });
+        openSlots--;
+        drawn++;
+      }
+    }
+
+    onRun(wins);
+  }
+};
+
+const simulateOdds = (input: OddsInput, runs: number): OddsResult => {
+  const guides = emptyOdds(input);
+
+  simulateDraws(input, runs, wins => {
+    wins.forEach(({ guide, categoryId }) => {
+      const odds = guides.get(guide.id) as GuideOdds;
+      odds.byCategory[categoryId] += 1 / runs;
+      // A guide can win at most one prize, so the chances add up
+      odds.anyPrize += 1 / runs;
+    });
+  });
+
+  return { method: 'simulation', runs, guides };
+};
+
+export const calculateOdds = (input: OddsInput, runs = DEFAULT_SIMULATION_RUNS): OddsResult => {
+  const totalSlots = input.draws.reduce((sum, draw) => sum + draw.slots, 0);
+  return totalSlots <= 1 ? exactOdds(input) : simulateOdds(input, runs);
+};
+
+// About 95% of simulated estimates fall within this distance of the true chance
+export const simulationMargin = (chance: number, runs: number): number =>
+  runs > 0 ? 1.96 * Math.sqrt((chance * (1 - chance)) / runs) : 0;
+
+export const formatChance = (chance: number): string =>
+  chance === 0 ? '0%' : chance < 0.001 ? '<0.1%' : `${(chance * 100).toFixed(chance < 0.1 ? 1 : 0)}%`;
@@ -0,0 +1,28 @@
+import { repositories } from '../repositories';
+import { winnersStore } from './winnersStore';
+
+// Reads contest data through the repositories and keeps the last copy in the winners store, so
+// the Raffle tab still has its contest, guides, tickets and prizes after a reload without a connection
+
+export const contestDataKey = (kind: 'contests' | 'guides' | 'ticket_assignments' | 'prizes', contestId = '') =>
+  `${kind}:${contestId}`;
+
+// Falls back to the last copy when the repository cannot be read. Without a backend the
+// repositories read as empty, which must not overwrite that copy
+export const loadWithOfflineCopy = async <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  if (!repositories.available) {
+    return (await winnersStore.loadContestData<T>(key)) ?? load();
+  }
+
+  try {
+    const data = await load();
+    winnersStore.saveContestData(key, data).catch(cacheError => {
+      console.error('Error caching contest data:', cacheError);
+    });
+    return data;
+  } catch (error) {
+    const cached = await winnersStore.loadContestData<T>(key).catch(() => null);
+    if (cached === null) throw error;
+    return cached;
+  }
+};
@@ -0,0 +1,151 @@
+import { PendingDraw, PrizeWinner } from '../types';
+import { repositories } from '../repositories';
+import { winnersStore } from './winnersStore';
+import { seedCommitment, slotWinners } from './ticketSystem';
+import { friendlyErrorMessage, isNetworkError } from './dbErrors';
+
+// Draws run offline wait in the winners store and are replayed through the winners repository with their
+// own seed, oldest first. The database then reproduces the draw from the same pool. Each replay
+// is checked against the winners the database holds at that moment. A conflict stops the queue
+// until an admin dismisses the draw, since every later draw assumed its winners.
+
+export const OFFLINE_ID_PREFIX = 'offline-';
+
+export const isOfflineWinner = (winner: PrizeWinner): boolean => winner.id.startsWith(OFFLINE_ID_PREFIX);
+
+// Every useWinners instance follows the queue, whichever of them changed it
+const listeners = new Set<() => void>();
+
+export const subscribeToPendingDraws = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+export const queueOfflineDraw = async (draw: PendingDraw) => {
+  await winnersStore.savePendingDraw(draw);
+  notifyListeners();
+};
+
+export const dismissPendingDraw = async (id: string) => {
+  await winnersStore.removePendingDraw(id);
+  notifyListeners();
+};
+
+const markConflict = async (draw: PendingDraw, conflict: string) => {
+  await winnersStore.savePendingDraw({ ...draw, conflict });
+  notifyListeners();
+};
+
+const drawKey = (winners: PrizeWinner[]) =>
+  winners.map(winner => `${winner.guide_id}:${winner.drawn_ticket}`).join(',');
+
+// Why the draw can no longer be replayed as it was announced, or null when nothing stands in the way
+const conflictReason = (draw: PendingDraw, saved: PrizeWinner[]): string | null => {
+  // Voided winners keep their row, so they cannot win again either
+  const clash = draw.winners.find(winner => saved.some(row => row.guide_id === winner.guide_id));
+  if (clash) {
+    const row = saved.find(candidate => candidate.guide_id === clash.guide_id) as PrizeWinner;
+    return `${clash.name} was already recorded as a winner of ${row.prize_name} while this draw was offline.`;
+  }
+
+  if (draw.replacesWinnerId) {
+    return saved.some(row => row.replaces_winner_id === draw.replacesWinnerId)
+      ? 'The voided winner this draw replaced has already been redrawn.'
+      : null;
+  }
+
+  const slotsTaken = slotWinners(saved)
+    .filter(row => row.prize_category === draw.categoryId).length;
+  return slotsTaken + draw.winners.length > draw.winnerCount
+    ? `${draw.winners[0]?.prize_name ?? 'This prize'} already has its winners in the database.`
+    : null;
+};
+
+// Returns whether the queue stopped: offline again, or a conflict to resolve
+const replayDraw = async (draw: PendingDraw): Promise<boolean> => {
+  const saved = await repositories.winners.listWinners(draw.contestId);
+
+  // An earlier replay was saved but its answer was lost on the way back
+  const alreadySaved = draw.winners.every(winner => saved.some(row =>
+    row.guide_id === winner.guide_id && row.drawn_ticket === winner.drawn_ticket && row.prize_category === draw.categoryId
+  ));
+  if (alreadySaved) {
+    await dismissPendingDraw(draw.id);
+    return false;
+  }
+
+  const reason = conflictReason(draw, saved);
+  if (reason) {
+    await markConflict(draw, reason);
+    return true;
+  }
+
+  // No commitment could be recorded while offline, so it is recorded now and the draw's
+  // committed_at shows it came after the draw was shown in the room. It is marked offline, so no
+  // server salt is added and the database draws from the same seed the room saw
+  let recorded: PrizeWinner[];
+  try {
+    await repositories.winners.commitSeed(draw.contestId, draw.categoryId, seedCommitment(draw.seed), true);
+    ({ winners: recorded } = await repositories.winners.drawPrize(
+      draw.contestId,
+      draw.categoryId,
+      draw.seed,
+      draw.replacesWinnerId ?? undefined
+    ));
+  } catch (error) {
+    if (isNetworkError(error)) return true;
+    // Refused outright, e.g. by the quotas: nothing was saved
+    await markConflict(draw, friendlyErrorMessage(error, 'The database refused this draw.'));
+    return true;
+  }
+
+  // The pool changed under the draw, e.g. a roster import: the database's winners are the record
+  if (drawKey(recorded) !== drawKey(draw.winners)) {
+    await markConflict(
+      draw,
+      `The database drew ${recorded.map(winner => winner.name).join(', ') || 'no one'} instead. Its result has been saved and is the official one.`
+    );
+    return true;
+  }
+
+  await dismissPendingDraw(draw.id);
+  return false;
+};
+
+const replayQueue = async (contestId: string): Promise<number> => {
+  let replayed = 0;
+
+  try {
+    // A device-only sign-in cannot save anything; the queue waits for the backend to know the user
+    if (!await repositories.auth.getSession()) return 0;
+
+    for (const draw of await winnersStore.loadPendingDraws(contestId)) {
+      if (draw.conflict || await replayDraw(draw)) break;
+      replayed++;
+    }
+  } catch (error) {
+    console.error('Error replaying offline draws:', error);
+  }
+
+  return replayed;
+};
+
+// One replay per contest at a time, however many views ask for it
+const replaysInFlight = new Map<string, Promise<number>>();
+
+// Resolves to the number of draws saved to the database
+export const syncPendingDraws = (contestId: string): Promise<number> => {
+  // Nothing can be replayed without a backend; the queue waits rather than marking every draw a conflict
+  if (!repositories.available || !navigator.onLine) return Promise.resolve(0);
+
+  let replay = replaysInFlight.get(contestId);
+  if (!replay) {
+    replay = replayQueue(contestId).finally(() => replaysInFlight.delete(contestId));
+    replaysInFlight.set(contestId, replay);
+  }
+  return replay;
+};
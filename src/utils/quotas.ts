@@ -0,0 +1,97 @@
+import { Guide, PrizeCategory, PrizeWinner, QuotaRules, TierCap } from '../types';
+import { openSlots } from './ticketSystem';
+
+// Mirrors quota_skip_reason() in the database, which applies the same quotas when it draws.
+// Reasons are worded identically so previews match what the draw records
+
+export const DEFAULT_QUOTA_RULES: QuotaRules = {
+  departments: [],
+  tierCaps: []
+};
+
+export type QuotaHolder = Pick<PrizeWinner, 'department' | 'supervisor' | 'prize_category'>;
+
+const groupOf = (cap: TierCap, holder: Pick<QuotaHolder, 'department' | 'supervisor'>) =>
+  cap.groupBy === 'department' ? holder.department : holder.supervisor;
+
+/**
+ * Why the quotas stop a guide winning `categoryId` right now, or null.
+ *
+ * `holders` are the winners currently holding a prize (voided winners excluded) and
+ * `openSlots` the slots still open across the contest's active categories.
+ */
+export const quotaSkipReason = (
+  rules: QuotaRules | null | undefined,
+  categoryId: string,
+  guide: Pick<Guide, 'department' | 'supervisor'>,
+  holders: QuotaHolder[],
+  openSlots: number
+): string | null => {
+  if (!rules) return null;
+
+  let shortfall = 0;
+  const shortDepartments: string[] = [];
+  let guideIsShort = false;
+
+  for (const quota of rules.departments) {
+    const count = holders.filter(holder => holder.department === quota.department).length;
+
+    if (quota.department === guide.department && quota.max !== null && count >= quota.max) {
+      return `${guide.department} already has its maximum of ${quota.max} winner(s)`;
+    }
+
+    if (quota.min !== null && count < quota.min) {
+      shortfall += quota.min - count;
+      shortDepartments.push(quota.department);
+      guideIsShort = guideIsShort || quota.department === guide.department;
+    }
+  }
+
+  for (const cap of rules.tierCaps) {
+    if (!cap.categoryIds.includes(categoryId)) continue;
+
+    const group = groupOf(cap, guide);
+    const count = holders.filter(holder =>
+      cap.categoryIds.includes(holder.prize_category) && groupOf(cap, holder) === group
+    ).length;
+
+    if (count >= cap.max) {
+      return `${cap.groupBy === 'department' ? 'Department' : 'Team'} ${group} already has ${count} of the ${cap.label || 'capped'} prizes`;
+    }
+  }
+
+  // Minimums only bite once every slot still open is needed to reach them
+  if (shortfall > 0 && !guideIsShort && openSlots <= shortfall) {
+    return `The remaining prizes are reserved for ${shortDepartments.join(', ')} to reach their minimum`;
+  }
+
+  return null;
+};
+
+// Slots still open across the active categories, counting the one a redraw is filling as open
+export const openSlotCount = (
+  activeCategories: PrizeCategory[],
+  winners: PrizeWinner[],
+  replacesWinnerId?: string | null
+): number =>
+  activeCategories.reduce((sum, category) => sum + openSlots(category, winners, replacesWinnerId), 0);
+
+// Plain-language summary of the quotas, one entry per department quota or tier cap
+export const describeQuotas = (rules: QuotaRules | null | undefined, categories: PrizeCategory[] = []): string[] => {
+  if (!rules) return [];
+
+  const lines: string[] = rules.departments
+    .filter(quota => quota.min !== null || quota.max !== null)
+    .map(quota => {
+      if (quota.min !== null && quota.max !== null) return `${quota.department}: ${quota.min} to ${quota.max} winners`;
+      if (quota.min !== null) return `${quota.department}: at least ${quota.min} winner(s)`;
+      return `${quota.department}: at most ${quota.max} winner(s)`;
+    });
+
+  rules.tierCaps.forEach(cap => {
+    const names = cap.categoryIds.map(id => categories.find(category => category.id === id)?.name ?? id);
+    lines.push(`${cap.label || names.join(', ')}: at most ${cap.max} per ${cap.groupBy === 'department' ? 'department' : 'supervisor team'}`);
+  });
+
+  return lines;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping, validateRoster } from './rosterImport';
+
+const mapping: ColumnMapping = {
+  id: 'ID',
+  name: 'Name',
+  supervisor: 'Supervisor',
+  department: 'Department',
+  nps: 'NPS',
+  nrpc: 'NRPC',
+  refundPercent: 'Refund %',
+  totalTickets: 'Tickets'
+};
+
+const row = (nps: unknown) => ({
+  ID: '1',
+  Name: 'Guide One',
+  Supervisor: 'S',
+  Department: 'IM',
+  NPS: nps,
+  NRPC: '10',
+  'Refund %': '1.5%',
+  Tickets: '5'
+});
+
+describe('validateRoster', () => {
+  it('accepts NPS scores from -100 to 100', () => {
+    for (const nps of ['-100', '-35', '0', '100']) {
+      const { guides, issues } = validateRoster([row(nps)], mapping);
+      expect(issues).toEqual([]);
+      expect(guides[0].nps).toBe(Number(nps));
+    }
+  });
+
+  it('refuses NPS scores outside -100 to 100', () => {
+    const { guides, issues } = validateRoster([row('-101'), { ...row('101'), ID: '2' }], mapping);
+
+    expect(guides).toEqual([]);
+    expect(issues).toEqual([
+      { row: 2, field: 'nps', message: 'NPS must be between -100 and 100' },
+      { row: 3, field: 'nps', message: 'NPS must be between -100 and 100' }
+    ]);
+  });
+});
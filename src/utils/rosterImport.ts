@@ -0,0 +1,174 @@
+import * as XLSX from 'xlsx';
+import { Guide } from '../types';
+import { MAX_TICKETS_PER_GUIDE } from './ticketRules';
+
+export type RosterField = keyof Guide;
+
+export type ColumnMapping = Partial<Record<RosterField, string>>;
+
+export interface RosterIssue {
+  row: number; // 1-based spreadsheet row, header is row 1
+  field?: RosterField;
+  message: string;
+}
+
+export interface RosterChange {
+  before: Guide;
+  after: Guide;
+  fields: RosterField[];
+}
+
+export interface RosterDiff {
+  added: Guide[];
+  removed: Guide[];
+  changed: RosterChange[];
+  unchangedCount: number;
+}
+
+export const ROSTER_FIELDS: { field: RosterField; label: string; aliases: string[] }[] = [
+  { field: 'id', label: 'Guide ID', aliases: ['id', 'guide id', 'guideid', 'guide_id'] },
+  { field: 'name', label: 'Name', aliases: ['name', 'guide', 'guide name'] },
+  { field: 'supervisor', label: 'Supervisor', aliases: ['supervisor', 'manager', 'team lead'] },
+  { field: 'department', label: 'Department', aliases: ['department', 'dept'] },
+  { field: 'nps', label: 'NPS', aliases: ['nps', 'nps score'] },
+  { field: 'nrpc', label: 'NRPC', aliases: ['nrpc', 'nrpc score'] },
+  { field: 'refundPercent', label: 'Refund %', aliases: ['refund %', 'refund%', 'refund percent', 'refund percentage', 'refundpercent', 'refund_percent'] },
+  { field: 'totalTickets', label: 'Total Tickets', aliases: ['total tickets', 'totaltickets', 'total_tickets', 'tickets', 'total tickets assigned'] }
+];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Reads the first sheet of a CSV or XLSX file; xlsx detects the format from the content
+export const parseRosterFile = async (file: File): Promise<{ headers: string[]; rows: Record<string, unknown>[] }> => {
+  const workbook = XLSX.read(await file.arrayBuffer());
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    return { headers: [], rows: [] };
+  }
+
+  // Formatted text rather than raw values, so "1.5%" stays 1.5 instead of becoming 0.015
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false });
+  const headerRow = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1 })[0] || [];
+
+  return { headers: headerRow.map(header => String(header)), rows };
+};
+
+export const detectColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+
+  ROSTER_FIELDS.forEach(({ field, aliases }) => {
+    const header = headers.find(candidate => aliases.includes(normalizeHeader(candidate)));
+    if (header) {
+      mapping[field] = header;
+    }
+  });
+
+  return mapping;
+};
+
+const parseNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value ?? '').trim().replace(/%$/, '').replace(/,/g, '');
+  if (text === '') return null;
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const validateRoster = (rows: Record<string, unknown>[], mapping: ColumnMapping): { guides: Guide[]; issues: RosterIssue[] } => {
+  const issues: RosterIssue[] = [];
+  const guides: Guide[] = [];
+  const seenIds = new Map<number, number>();
+
+  ROSTER_FIELDS.forEach(({ field, label }) => {
+    if (!mapping[field]) {
+      issues.push({ row: 1, field, message: `No column is mapped to ${label}` });
+    }
+  });
+  if (issues.length > 0) {
+    return { guides, issues };
+  }
+
+  if (rows.length === 0) {
+    return { guides, issues: [{ row: 1, message: 'The file has no guide rows' }] };
+  }
+
+  rows.forEach((raw, index) => {
+    const row = index + 2;
+    const cell = (field: RosterField) => raw[mapping[field] as string];
+    const rowIssues: RosterIssue[] = [];
+
+    const text = (field: RosterField, label: string) => {
+      const value = String(cell(field) ?? '').trim();
+      if (!value) rowIssues.push({ row, field, message: `${label} is required` });
+      return value;
+    };
+
+    const number = (field: RosterField, label: string, min: number, max: number, integer = false) => {
+      const value = parseNumber(cell(field));
+      if (value === null) {
+        rowIssues.push({ row, field, message: `${label} must be a number` });
+        return 0;
+      }
+      if (integer && !Number.isInteger(value)) {
+        rowIssues.push({ row, field, message: `${label} must be a whole number` });
+      }
+      if (value < min || value > max) {
+        rowIssues.push({ row, field, message: `${label} must be between ${min} and ${max}` });
+      }
+      return value;
+    };
+
+    const guide: Guide = {
+      id: number('id', 'Guide ID', 1, Number.MAX_SAFE_INTEGER, true),
+      name: text('name', 'Name'),
+      supervisor: text('supervisor', 'Supervisor'),
+      department: text('department', 'Department'),
+      nps: number('nps', 'NPS', -100, 100), // Share of promoters minus share of detractors
+      nrpc: number('nrpc', 'NRPC', 0, Number.MAX_SAFE_INTEGER),
+      refundPercent: number('refundPercent', 'Refund %', 0, 100),
+      totalTickets: number('totalTickets', 'Total Tickets', 0, MAX_TICKETS_PER_GUIDE, true)
+    };
+
+    const firstRow = seenIds.get(guide.id);
+    if (firstRow !== undefined) {
+      rowIssues.push({ row, field: 'id', message: `Duplicate Guide ID ${guide.id} (first seen on row ${firstRow})` });
+    } else {
+      seenIds.set(guide.id, row);
+    }
+
+    issues.push(...rowIssues);
+    if (rowIssues.length === 0) {
+      guides.push(guide);
+    }
+  });
+
+  return { guides, issues };
+};
+
+export const diffRosters = (current: Guide[], incoming: Guide[]): RosterDiff => {
+  const currentById = new Map(current.map(guide => [guide.id, guide]));
+  const incomingIds = new Set(incoming.map(guide => guide.id));
+  const diff: RosterDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+
+  incoming.forEach(guide => {
+    const before = currentById.get(guide.id);
+    if (!before) {
+      diff.added.push(guide);
+      return;
+    }
+
+    const fields = ROSTER_FIELDS
+      .map(({ field }) => field)
+      .filter(field => before[field] !== guide[field]);
+
+    if (fields.length > 0) {
+      diff.changed.push({ before, after: guide, fields });
+    } else {
+      diff.unchangedCount++;
+    }
+  });
+
+  diff.removed = current.filter(guide => !incomingIds.has(guide.id));
+
+  return diff;
+};
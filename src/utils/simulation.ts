@@ -0,0 +1,114 @@
+import { PrizeCategory, QuotaRules } from '../types';
+import { GuideWithTickets } from './ticketSystem';
+import { simulateDraws } from './odds';
+
+// Batch rehearsal: runs the whole contest many times over, every active prize drawn in prize
+// order from the full pool with the same eligibility rules and quotas, and reports how the
+// winners spread out. Nothing is stored; the runs only depend on the seed.
+
+export const MAX_SIMULATED_CONTESTS = 10000;
+
+export interface ContestSimulationInput {
+  guidesWithTickets: GuideWithTickets[];
+  activeCategories: PrizeCategory[];
+  pastWinnerIds: Set<number>;
+  quotaRules: QuotaRules | null;
+}
+
+export interface GuideSimulation {
+  guide: GuideWithTickets;
+  winRate: number; // Share of contests in which the guide won a prize
+  byCategory: Record<string, number>; // Share of contests in which they won that prize
+}
+
+export interface DepartmentSimulation {
+  department: string;
+  guides: number;
+  mean: number;
+  min: number;
+  max: number;
+  distribution: number[]; // Share of contests with 0, 1, 2, ... winners from the department
+}
+
+export interface ContestSimulation {
+  runs: number;
+  seed: number;
+  totalSlots: number;
+  meanFilled: number; // Below totalSlots when eligibility or quotas leave prizes undrawn
+  guides: GuideSimulation[]; // Most frequent winners first
+  departments: DepartmentSimulation[];
+}
+
+export const randomSimulationSeed = (): number => Math.floor(Math.random() * 2 ** 32);
+
+export const simulateContests = (input: ContestSimulationInput, runs: number, seed: number): ContestSimulation => {
+  const draws = input.activeCategories
+    .filter(category => category.winnerCount > 0)
+    .map(category => ({ category, slots: category.winnerCount }));
+  const totalSlots = draws.reduce((sum, draw) => sum + draw.slots, 0);
+  const departments = Array.from(new Set(input.guidesWithTickets.map(guide => guide.department))).sort();
+
+  const wins = new Map<number, Record<string, number>>();
+  const departmentCounts: number[][] = [];
+  let filled = 0;
+
+  simulateDraws(
+    {
+      pool: input.guidesWithTickets,
+      draws,
+      holders: [],
+      openSlots: totalSlots,
+      pastWinnerIds: input.pastWinnerIds,
+      quotaRules: input.quotaRules
+    },
+    runs,
+    runWins => {
+      runWins.forEach(({ guide, categoryId }) => {
+        const byCategory = wins.get(guide.id) ?? {};
+        byCategory[categoryId] = (byCategory[categoryId] ?? 0) + 1;
+        wins.set(guide.id, byCategory);
+      });
+      departmentCounts.push(departments.map(department => runWins.filter(win => win.guide.department === department).length));
+      filled += runWins.length;
+    },
+    seed
+  );
+
+  const guides = input.guidesWithTickets
+    .map(guide => {
+      const counts = wins.get(guide.id) ?? {};
+      const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+      return {
+        guide,
+        winRate: runs > 0 ? total / runs : 0,
+        byCategory: Object.fromEntries(Object.entries(counts).map(([categoryId, count]) => [categoryId, count / runs]))
+      };
+    })
+    .sort((a, b) => b.winRate - a.winRate);
+
+  const departmentResults = departments.map((department, index) => {
+    const counts = departmentCounts.map(run => run[index]);
+    const distribution: number[] = [];
+    counts.forEach(count => {
+      distribution[count] = (distribution[count] ?? 0) + 1 / runs;
+    });
+
+    return {
+      department,
+      guides: input.guidesWithTickets.filter(guide => guide.department === department).length,
+      mean: runs > 0 ? counts.reduce((sum, count) => sum + count, 0) / runs : 0,
+      min: counts.length > 0 ? Math.min(...counts) : 0,
+      max: counts.length > 0 ? Math.max(...counts) : 0,
+      distribution: Array.from(distribution, share => share ?? 0)
+    };
+  });
+
+  return {
+    runs,
+    seed,
+    totalSlots,
+    meanFilled: runs > 0 ? filled / runs : 0,
+    guides,
+    departments: departmentResults
+  };
+};
@@ -0,0 +1,22 @@
+import { PrizeWinner } from '../types';
+import { GuideWithTickets } from './ticketSystem';
+
+// Shared by the unit tests: a saved Big Dollar winner row for `guide`, drawn on `ticket`
+export const winnerRow = (guide: GuideWithTickets, ticket: number, drawId = 'draw-1'): PrizeWinner => ({
+  id: `winner-${guide.id}`,
+  contest_id: 'contest-1',
+  guide_id: guide.id,
+  name: guide.name,
+  supervisor: guide.supervisor,
+  department: guide.department,
+  nps: guide.nps,
+  nrpc: guide.nrpc,
+  refund_percent: guide.refundPercent,
+  total_tickets: guide.totalTickets,
+  won_at: '2025-09-22T10:00:00Z',
+  created_at: '2025-09-22T10:00:00Z',
+  prize_category: 'bigDollar',
+  prize_name: 'Big Dollar',
+  drawn_ticket: ticket,
+  draw_id: drawId
+});
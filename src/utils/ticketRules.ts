@@ -0,0 +1,186 @@
+import { Guide, MetricRule, TicketMetric, TicketRules, TicketTier } from '../types';
+
+export interface TicketBreakdownLine {
+  metric: TicketMetric;
+  value: number;
+  tier: TicketTier | null; // null when the guide reached no tier for this metric
+  weighted: number;        // tier tickets × weight, before the metric cap
+  tickets: number;         // after the metric cap
+  capped: boolean;
+}
+
+export interface TicketBreakdown {
+  guideId: number;
+  lines: TicketBreakdownLine[];
+  subtotal: number; // sum of the lines, rounded to whole tickets
+  totalTickets: number;
+  adjustment: 'minimum' | 'maximum' | null;
+}
+
+export interface TicketDistribution {
+  totalTickets: number;
+  averageTickets: number;
+  minTickets: number;
+  maxTickets: number;
+  buckets: { label: string; count: number }[];
+}
+
+export const METRIC_LABELS: Record<TicketMetric, string> = {
+  nps: 'NPS',
+  nrpc: 'NRPC',
+  refundPercent: 'Refund %'
+};
+
+export const DEFAULT_TICKET_RULES: TicketRules = {
+  metrics: [
+    {
+      metric: 'nps',
+      comparison: 'atLeast',
+      tiers: [
+        { threshold: 60, tickets: 5 },
+        { threshold: 70, tickets: 10 },
+        { threshold: 80, tickets: 15 },
+        { threshold: 90, tickets: 20 }
+      ],
+      weight: 1,
+      cap: null
+    },
+    {
+      metric: 'nrpc',
+      comparison: 'atLeast',
+      tiers: [
+        { threshold: 5, tickets: 2 },
+        { threshold: 8, tickets: 5 },
+        { threshold: 12, tickets: 8 },
+        { threshold: 20, tickets: 12 }
+      ],
+      weight: 1,
+      cap: null
+    },
+    {
+      metric: 'refundPercent',
+      comparison: 'atMost',
+      tiers: [
+        { threshold: 0, tickets: 8 },
+        { threshold: 2, tickets: 5 },
+        { threshold: 4, tickets: 2 }
+      ],
+      weight: 1,
+      cap: null
+    }
+  ],
+  minimumPerGuide: 1,
+  maximumPerGuide: 50
+};
+
+export const MAX_TICKETS_PER_GUIDE = 1000;
+
+const BUCKET_SIZE = 10;
+
+const tierMatches = (rule: MetricRule, tier: TicketTier, value: number) =>
+  rule.comparison === 'atLeast' ? value >= tier.threshold : value <= tier.threshold;
+
+// Of all tiers the value reaches, the one paying the most tickets applies, so tier order does not matter
+const findTier = (rule: MetricRule, value: number): TicketTier | null => {
+  return rule.tiers
+    .filter(tier => tierMatches(rule, tier, value))
+    .reduce<TicketTier | null>((best, tier) => (!best || tier.tickets > best.tickets ? tier : best), null);
+};
+
+export const calculateTickets = (guide: Guide, rules: TicketRules): TicketBreakdown => {
+  const lines = rules.metrics.map(rule => {
+    const value = guide[rule.metric];
+    const tier = findTier(rule, value);
+    const weighted = (tier?.tickets ?? 0) * rule.weight;
+    const capped = rule.cap !== null && weighted > rule.cap;
+
+    return {
+      metric: rule.metric,
+      value,
+      tier,
+      weighted,
+      tickets: capped ? rule.cap as number : weighted,
+      capped
+    };
+  });
+
+  const subtotal = Math.round(lines.reduce((sum, line) => sum + line.tickets, 0));
+  let totalTickets = subtotal;
+  let adjustment: TicketBreakdown['adjustment'] = null;
+
+  if (totalTickets < rules.minimumPerGuide) {
+    totalTickets = rules.minimumPerGuide;
+    adjustment = 'minimum';
+  } else if (totalTickets > (rules.maximumPerGuide ?? MAX_TICKETS_PER_GUIDE)) {
+    totalTickets = rules.maximumPerGuide ?? MAX_TICKETS_PER_GUIDE;
+    adjustment = 'maximum';
+  }
+
+  return { guideId: guide.id, lines, subtotal, totalTickets, adjustment };
+};
+
+export const applyTicketRules = (guides: Guide[], rules: TicketRules): Guide[] => {
+  return guides.map(guide => ({ ...guide, totalTickets: calculateTickets(guide, rules).totalTickets }));
+};
+
+export const validateTicketRules = (rules: TicketRules): string[] => {
+  const errors: string[] = [];
+  const isWhole = (value: number) => Number.isInteger(value) && value >= 0;
+
+  rules.metrics.forEach(rule => {
+    const label = METRIC_LABELS[rule.metric];
+
+    if (!Number.isFinite(rule.weight) || rule.weight < 0) {
+      errors.push(`${label}: weight must be zero or more`);
+    }
+    if (rule.cap !== null && !isWhole(rule.cap)) {
+      errors.push(`${label}: cap must be a whole number of tickets`);
+    }
+    rule.tiers.forEach((tier, index) => {
+      if (!Number.isFinite(tier.threshold)) {
+        errors.push(`${label}: tier ${index + 1} needs a threshold`);
+      }
+      if (!isWhole(tier.tickets)) {
+        errors.push(`${label}: tier ${index + 1} must award a whole number of tickets`);
+      }
+    });
+    if (new Set(rule.tiers.map(tier => tier.threshold)).size !== rule.tiers.length) {
+      errors.push(`${label}: two tiers share the same threshold`);
+    }
+  });
+
+  if (!isWhole(rules.minimumPerGuide)) {
+    errors.push('Minimum per guide must be a whole number of tickets');
+  }
+  if (rules.maximumPerGuide !== null) {
+    if (!isWhole(rules.maximumPerGuide) || rules.maximumPerGuide > MAX_TICKETS_PER_GUIDE) {
+      errors.push(`Maximum per guide must be a whole number up to ${MAX_TICKETS_PER_GUIDE}`);
+    } else if (rules.maximumPerGuide < rules.minimumPerGuide) {
+      errors.push('Maximum per guide cannot be below the minimum');
+    }
+  }
+
+  return errors;
+};
+
+export const describeDistribution = (guides: Guide[]): TicketDistribution => {
+  const counts = guides.map(guide => guide.totalTickets);
+  const totalTickets = counts.reduce((sum, count) => sum + count, 0);
+  const maxTickets = counts.length > 0 ? Math.max(...counts) : 0;
+
+  const buckets = Array.from({ length: Math.floor(maxTickets / BUCKET_SIZE) + 1 }, (_, i) => ({
+    label: `${i * BUCKET_SIZE}-${i * BUCKET_SIZE + BUCKET_SIZE - 1}`,
+    count: 0
+  }));
+  counts.forEach(count => {
+    buckets[Math.floor(count / BUCKET_SIZE)].count++;
+  });
+
+  return {
+    totalTickets,
+    averageTickets: counts.length > 0 ? totalTickets / counts.length : 0,
+    minTickets: counts.length > 0 ? Math.min(...counts) : 0,
+    maxTickets,
+    buckets
+  };
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { Draw, PrizeCategory } from '../types';
+import {
+  DRAW_ALGORITHM_VERSION,
+  GuideWithTickets,
+  applyTicketAssignments,
+  drawRandomTickets,
+  drawSeed,
+  hashPool,
+  openSlots,
+  replayDraw,
+  seedCommitment,
+  verifyDraw
+} from './ticketSystem';
+import { winnerRow } from './testFixtures';
+
+// The fixture of supabase/tests/database/draw_prize.test.sql, so both engines are pinned to the same result
+const pool: GuideWithTickets[] = applyTicketAssignments(
+  [
+    { id: 1, name: 'Guide One', supervisor: 'S', department: 'IM', nps: 80, nrpc: 10, refundPercent: 0, totalTickets: 3 },
+    { id: 2, name: 'Guide Two', supervisor: 'S', department: 'IM', nps: 80, nrpc: 10, refundPercent: 0, totalTickets: 2 },
+    { id: 3, name: 'Guide Three', supervisor: 'S', department: 'IM', nps: 80, nrpc: 10, refundPercent: 0, totalTickets: 4 }
+  ],
+  [
+    { guide_id: 1, ticket_numbers: [7, 1, 4] },
+    { guide_id: 2, ticket_numbers: [2, 5] },
+    { guide_id: 3, ticket_numbers: [9, 3, 6, 8] }
+  ]
+);
+
+const recordedDraw = (overrides: Partial<Draw> = {}): Draw => ({
+  id: 'draw-1',
+  contest_id: 'contest-1',
+  prize_category: 'bigDollar',
+  seed: 'replay-check',
+  seed_commitment: seedCommitment('replay-check'),
+  algorithm_version: DRAW_ALGORITHM_VERSION,
+  pool_hash: hashPool(pool),
+  pool_guide_ids: [1, 2, 3],
+  winner_count: 2,
+  skipped: [],
+  drawn_at: '2025-09-22T10:00:00Z',
+  ...overrides
+});
+
+describe('drawRandomTickets', () => {
+  it('picks the same tickets as draw_prize for the same pool and seed', () => {
+    const result = drawRandomTickets(pool, 2, 'replay-check');
+
+    expect(result.winners.map(guide => guide.id)).toEqual([1, 3]);
+    expect(result.drawnTickets).toEqual([4, 9]);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('does not depend on the order the pool is listed in', () => {
+    expect(drawRandomTickets([...pool].reverse(), 2, 'replay-check').drawnTickets).toEqual([4, 9]);
+  });
+
+  it('moves on to the next seed value when a guide is passed over', () => {
+    const result = drawRandomTickets(pool, 2, 'replay-check', guide => guide.id === 1 ? 'Held back' : null);
+
+    expect(result.skipped).toEqual([{ pick: 0, ticket: 4, guideId: 1, name: 'Guide One', reason: 'Held back' }]);
+    expect(result.winners.map(guide => guide.id)).not.toContain(1);
+    expect(result.winners).toHaveLength(2);
+  });
+
+  it('stops when the pool runs out', () => {
+    expect(drawRandomTickets(pool, 5, 'replay-check').winners).toHaveLength(3);
+  });
+});
+
+describe('hashPool', () => {
+  it('matches the pool hash draw_prize records', () => {
+    expect(hashPool(pool)).toBe('8ead121063da6a4b685fe1cbd331348ead4b75497ce94bcc3997d2886af0b377');
+  });
+});
+
+describe('replayDraw', () => {
+  it('only draws from the guides the draw recorded', () => {
+    const { winners, poolHashMatches } = replayDraw(recordedDraw({ pool_guide_ids: [2, 3] }), pool);
+
+    expect(winners.every(guide => guide.id !== 1)).toBe(true);
+    expect(poolHashMatches).toBe(false);
+  });
+
+  it('follows the skips the draw recorded', () => {
+    const live = drawRandomTickets(pool, 2, 'replay-check', guide => guide.id === 1 ? 'Held back' : null);
+    const replay = replayDraw(recordedDraw({ skipped: live.skipped }), pool);
+
+    expect(replay.drawnTickets).toEqual(live.drawnTickets);
+    expect(replay.skipped).toEqual(live.skipped);
+  });
+
+  it('picks from the seed and the server salt the draw recorded', () => {
+    const live = drawRandomTickets(pool, 2, drawSeed('replay-check', 'salt-1'));
+    const replay = replayDraw(recordedDraw({ server_salt: 'salt-1' }), pool);
+
+    expect(drawSeed('replay-check', 'salt-1')).toBe('replay-check:salt-1');
+    expect(replay.drawnTickets).toEqual(live.drawnTickets);
+  });
+});
+
+describe('verifyDraw', () => {
+  const [one, , three] = pool;
+
+  it('verifies a draw whose saved winners match the replay', () => {
+    const result = verifyDraw(recordedDraw(), pool, [winnerRow(three, 9), winnerRow(one, 4)]);
+
+    expect(result).toMatchObject({
+      algorithmSupported: true,
+      commitmentMatches: true,
+      poolHashMatches: true,
+      winnersMatch: true
+    });
+  });
+
+  it('flags saved winners that differ from the replay', () => {
+    const result = verifyDraw(recordedDraw(), pool, [winnerRow(one, 4), winnerRow(three, 8)]);
+
+    expect(result.winnersMatch).toBe(false);
+    expect(result.winnersArchived).toBe(false);
+  });
+
+  it('tells a draw whose winners were archived apart from one that differs', () => {
+    const otherDraw = { ...winnerRow(pool[1], 2, 'draw-2'), id: 'winner-other' };
+    const result = verifyDraw(recordedDraw(), pool, [otherDraw]);
+
+    expect(result.winnersArchived).toBe(true);
+    expect(result.winnersMatch).toBe(false);
+    expect(result.replay.drawnTickets).toEqual([4, 9]);
+  });
+
+  it('flags a seed that does not hash to the commitment', () => {
+    expect(verifyDraw(recordedDraw({ seed_commitment: seedCommitment('other') }), pool, []).commitmentMatches).toBe(false);
+  });
+
+  it('only counts a commitment recorded before the draw ran', () => {
+    expect(verifyDraw(recordedDraw({ committed_at: '2025-09-22T09:59:00Z' }), pool, []).committedBeforeDraw).toBe(true);
+    expect(verifyDraw(recordedDraw({ committed_at: '2025-09-22T10:05:00Z' }), pool, []).committedBeforeDraw).toBe(false);
+    expect(verifyDraw(recordedDraw(), pool, []).committedBeforeDraw).toBe(false);
+  });
+
+  it('ignores winners of other draws', () => {
+    const winners = [winnerRow(one, 4), winnerRow(three, 9), { ...winnerRow(pool[1], 2, 'draw-2'), id: 'winner-other' }];
+    expect(verifyDraw(recordedDraw(), pool, winners).winnersMatch).toBe(true);
+  });
+});
+
+describe('openSlots', () => {
+  const bigDollar: PrizeCategory = {
+    id: 'bigDollar', name: 'Big Dollar', description: '', winnerCount: 2, image: '', gradient: '', icon: '', countdownSeconds: 10
+  };
+  const voided = { ...winnerRow(pool[0], 4), voided_at: '2025-09-22T11:00:00Z', void_reason: 'Not eligible' };
+
+  it('keeps a voided winner\'s slot taken until its redraw, as draw_prize does', () => {
+    expect(openSlots(bigDollar, [winnerRow(pool[2], 9)])).toBe(1);
+    expect(openSlots(bigDollar, [voided, winnerRow(pool[2], 9)])).toBe(0);
+  });
+
+  it('counts the redraw in place of the voided winner it replaced', () => {
+    const redraw = { ...winnerRow(pool[1], 2, 'draw-2'), replaces_winner_id: voided.id };
+    expect(openSlots(bigDollar, [voided, redraw, winnerRow(pool[2], 9)])).toBe(0);
+  });
+
+  it('counts the slot of the voided winner being redrawn as open during its redraw', () => {
+    expect(openSlots(bigDollar, [voided, winnerRow(pool[2], 9)], voided.id)).toBe(1);
+    expect(openSlots(bigDollar, [voided, winnerRow(pool[2], 9)], 'winner-other')).toBe(0);
+  });
+});
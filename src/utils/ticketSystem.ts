@@ -1,4 +1,5 @@
-import { Guide } from '../types';
+import { Guide, TicketAssignment, Draw, PrizeCategory, PrizeWinner, SkippedTicket } from '../types';
+import { sha256Hex } from './sha256';
 
 export interface GuideWithTickets extends Guide {
   ticketNumbers: number[];
@@ -48,7 +49,88 @@ export const assignTicketsToGuides = (guides: Guide[]): GuideWithTickets[] => {
   return guidesWithTickets;
 };
 
-export const drawRandomTicket = (guidesWithTickets: GuideWithTickets[]): { winner: GuideWithTickets | null, drawnTicket: number | null } => {
+export const toTicketAssignments = (guidesWithTickets: GuideWithTickets[]): TicketAssignment[] => {
+  return guidesWithTickets.map(guide => ({
+    guide_id: guide.id,
+    ticket_numbers: guide.ticketNumbers
+  }));
+};
+
+export const applyTicketAssignments = (guides: Guide[], assignments: TicketAssignment[]): GuideWithTickets[] => {
+  const ticketsByGuide = new Map(assignments.map(assignment => [assignment.guide_id, assignment.ticket_numbers]));
+
+  return guides.map(guide => {
+    // Guides without a stored assignment keep an empty ticket list rather than a fresh random one
+    const ticketNumbers = [...(ticketsByGuide.get(guide.id) || [])].sort((a, b) => a - b);
+
+    return {
+      ...guide,
+      ticketNumbers,
+      ticketRange: {
+        start: ticketNumbers.length > 0 ? ticketNumbers[0] : 0,
+        end: ticketNumbers.length > 0 ? ticketNumbers[ticketNumbers.length - 1] : 0
+      }
+    };
+  });
+};
+
+export const DRAW_ALGORITHM_VERSION = 'sha256-ctr-v1';
+
+// Winners in draw order, with the ticket each of them was drawn on and the tickets passed over by quotas
+export interface DrawResult {
+  winners: GuideWithTickets[];
+  drawnTickets: number[];
+  skipped: SkippedTicket[];
+}
+
+// Why the guide a ticket landed on is passed over, or null to let them win. `pick` is the
+// counter of the seed value that landed on the ticket; `drawnSoFar` the winners of this draw
+export type SkipCheck = (guide: GuideWithTickets, pick: number, drawnSoFar: GuideWithTickets[]) => string | null;
+
+// Picks an index in [0, poolSize). Each call consumes the next value of the seeded stream.
+export type TicketPicker = (poolSize: number) => number;
+
+/**
+ * Deterministic picker for the `sha256-ctr-v1` algorithm.
+ *
+ * The n-th call (starting at 0) computes SHA-256 of the UTF-8 string `${seed}:${n}`,
+ * reads the first 48 bits of the digest as an unsigned integer v, and returns
+ * floor(v * poolSize / 2^48). Integer arithmetic only, so any language (including
+ * Postgres) can replay it exactly.
+ */
+export const createTicketPicker = (seed: string): TicketPicker => {
+  let counter = 0;
+
+  return (poolSize: number) => {
+    const digest = sha256Hex(`${seed}:${counter}`);
+    counter++;
+    const value = BigInt(`0x${digest.slice(0, 12)}`);
+    return Number((value * BigInt(poolSize)) >> 48n);
+  };
+};
+
+export const generateDrawSeed = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const seedCommitment = (seed: string): string => sha256Hex(seed);
+
+// What the tickets are picked from: the committed seed and the salt the database added when it
+// was committed, as `draw_prize` does. Offline replays and older draws have no salt
+export const drawSeed = (seed: string, serverSalt?: string | null): string =>
+  serverSalt ? `${seed}:${serverSalt}` : seed;
+
+// Fingerprint of a pool snapshot: guides ordered by id, each with its sorted tickets
+export const hashPool = (guidesWithTickets: GuideWithTickets[]): string => {
+  const canonical = [...guidesWithTickets]
+    .sort((a, b) => a.id - b.id)
+    .map(guide => `${guide.id}:${[...guide.ticketNumbers].sort((a, b) => a - b).join(',')}`)
+    .join(';');
+  return sha256Hex(canonical);
+};
+
+export const drawRandomTicket = (guidesWithTickets: GuideWithTickets[], pickTicket: TicketPicker): { winner: GuideWithTickets | null, drawnTicket: number | null } => {
   // Get all available ticket numbers from all guides
   const allAvailableTickets: { ticket: number, guide: GuideWithTickets }[] = [];
   
@@ -62,9 +144,10 @@ export const drawRandomTicket = (guidesWithTickets: GuideWithTickets[]): { winne
     return { winner: null, drawnTicket: null };
   }
   
-  // Pick a random ticket from all available tickets
-  const randomIndex = Math.floor(Math.random() * allAvailableTickets.length);
-  const selectedTicket = allAvailableTickets[randomIndex];
+  // Canonical order so the pick depends only on the pool, not on how it was listed
+  allAvailableTickets.sort((a, b) => a.ticket - b.ticket);
+  
+  const selectedTicket = allAvailableTickets[pickTicket(allAvailableTickets.length)];
   
   return { 
     winner: selectedTicket.guide, 
@@ -72,24 +155,127 @@ export const drawRandomTicket = (guidesWithTickets: GuideWithTickets[]): { winne
   };
 };
 
-export const drawRandomTickets = (guidesWithTickets: GuideWithTickets[], count: number): { winners: GuideWithTickets[], drawnTickets: number[] } => {
+// Browser copy of the `draw_prize` database function, used to replay and verify recorded draws.
+// Every pick consumes a seed value, including the ones a skip check passes over
+export const drawRandomTickets = (
+  guidesWithTickets: GuideWithTickets[],
+  count: number,
+  seed: string,
+  skipCheck?: SkipCheck
+): DrawResult => {
   const drawnTickets: number[] = [];
   const winners: GuideWithTickets[] = [];
+  const skipped: SkippedTicket[] = [];
   const availableGuides = [...guidesWithTickets];
+  const pickTicket = createTicketPicker(seed);
 
-  for (let i = 0; i < count && availableGuides.length > 0; i++) {
-    const { winner: winnerGuide, drawnTicket } = drawRandomTicket(availableGuides);
-    
-    if (winnerGuide && drawnTicket) {
-      winners.push(winnerGuide);
-      drawnTickets.push(drawnTicket);
-      // Remove the winner from available guides to prevent duplicate wins
-      const index = availableGuides.indexOf(winnerGuide);
-      availableGuides.splice(index, 1);
+  for (let pick = 0; winners.length < count && availableGuides.length > 0; pick++) {
+    const { winner: winnerGuide, drawnTicket } = drawRandomTicket(availableGuides, pickTicket);
+    if (!winnerGuide || !drawnTicket) break;
+
+    // Winners and passed-over guides both leave the pool for the rest of the draw
+    const index = availableGuides.indexOf(winnerGuide);
+    availableGuides.splice(index, 1);
+
+    const reason = skipCheck ? skipCheck(winnerGuide, pick, winners) : null;
+    if (reason) {
+      skipped.push({ pick, ticket: drawnTicket, guideId: winnerGuide.id, name: winnerGuide.name, reason });
+      continue;
     }
+
+    winners.push(winnerGuide);
+    drawnTickets.push(drawnTicket);
   }
 
-  return { winners, drawnTickets };
+  return { winners, drawnTickets, skipped };
+};
+
+// Quotas depend on the winners at the time of the draw, so a replay follows the skips the draw recorded
+export const replayDraw = (draw: Draw, guidesWithTickets: GuideWithTickets[]): { poolHashMatches: boolean } & DrawResult => {
+  const poolIds = new Set(draw.pool_guide_ids);
+  const pool = guidesWithTickets.filter(guide => poolIds.has(guide.id));
+  const recordedSkips = draw.skipped ?? [];
+  const result = drawRandomTickets(pool, draw.winner_count, drawSeed(draw.seed, draw.server_salt), (guide, pick) =>
+    recordedSkips.find(skip => skip.pick === pick && skip.guideId === guide.id)?.reason ?? null
+  );
+
+  return { poolHashMatches: hashPool(pool) === draw.pool_hash, ...result };
+};
+
+export interface DrawVerification {
+  algorithmSupported: boolean;
+  commitmentMatches: boolean; // the published seed hashes to the draw's recorded commitment
+  committedBeforeDraw: boolean; // that commitment was recorded by commit_draw_seed before the draw ran
+  poolHashMatches: boolean; // the stored assignment still matches the pool the draw used
+  winnersMatch: boolean; // the replay picked the same guides on the same tickets as the database
+  winnersArchived: boolean; // no saved winner points at the draw any more: archive_winners moved them into a snapshot
+  replay: DrawResult;
+}
+
+// Replays a stored draw with the browser engine and compares it with the winners the database recorded
+export const verifyDraw = (draw: Draw, guidesWithTickets: GuideWithTickets[], recordedWinners: PrizeWinner[]): DrawVerification => {
+  const { poolHashMatches, ...replay } = replayDraw(draw, guidesWithTickets);
+  const recorded = recordedWinners
+    .filter(winner => winner.draw_id === draw.id)
+    .map(winner => `${winner.guide_id}:${winner.drawn_ticket}`)
+    .sort();
+  const replayed = replay.winners.map((guide, index) => `${guide.id}:${replay.drawnTickets[index]}`).sort();
+
+  return {
+    algorithmSupported: draw.algorithm_version === DRAW_ALGORITHM_VERSION,
+    commitmentMatches: seedCommitment(draw.seed) === draw.seed_commitment,
+    committedBeforeDraw: !!draw.committed_at && new Date(draw.committed_at) <= new Date(draw.drawn_at),
+    poolHashMatches,
+    winnersMatch: recorded.length === replayed.length && recorded.every((key, index) => key === replayed[index]),
+    // Every draw saves at least one winner and winners are never deleted, only archived
+    winnersArchived: recorded.length === 0,
+    replay
+  };
+};
+
+// Winner rows keep a snapshot of the guide, including the tickets held when they were drawn
+export const winnerToGuide = (winner: PrizeWinner): GuideWithTickets => {
+  const ticketNumbers: number[] = winner.ticket_numbers ? JSON.parse(winner.ticket_numbers) : [];
+
+  return {
+    id: winner.guide_id,
+    name: winner.name,
+    supervisor: winner.supervisor,
+    department: winner.department,
+    nps: Number(winner.nps),
+    nrpc: Number(winner.nrpc),
+    refundPercent: Number(winner.refund_percent),
+    totalTickets: winner.total_tickets,
+    ticketNumbers,
+    ticketRange: {
+      start: ticketNumbers.length > 0 ? ticketNumbers[0] : 0,
+      end: ticketNumbers.length > 0 ? ticketNumbers[ticketNumbers.length - 1] : 0
+    }
+  };
+};
+
+// Voided winners keep their row for the record but no longer hold a prize
+export const activeWinners = (winners: PrizeWinner[]): PrizeWinner[] => {
+  return winners.filter(winner => !winner.voided_at);
+};
+
+// Voided winners whose slot is still waiting for its linked redraw
+export const pendingRedraws = (winners: PrizeWinner[]): PrizeWinner[] => {
+  const replacedIds = new Set(winners.map(winner => winner.replaces_winner_id).filter(Boolean));
+  return winners.filter(winner => winner.voided_at && !replacedIds.has(winner.id));
+};
+
+// Winners taking up a prize slot. A voided winner keeps theirs until the linked redraw fills it,
+// the same count draw_prize and quota_skip_reason() use in the database. While that redraw runs,
+// `replacesWinnerId` names the voided winner whose slot it is filling, which counts as open
+export const slotWinners = (winners: PrizeWinner[], replacesWinnerId?: string | null): PrizeWinner[] => {
+  return [...activeWinners(winners), ...pendingRedraws(winners).filter(winner => winner.id !== replacesWinnerId)];
+};
+
+// Slots of a category still to fill, by a regular draw or by the redraw `replacesWinnerId` names
+export const openSlots = (category: PrizeCategory, winners: PrizeWinner[], replacesWinnerId?: string | null): number => {
+  const taken = slotWinners(winners, replacesWinnerId).filter(winner => winner.prize_category === category.id).length;
+  return Math.max(category.winnerCount - taken, 0);
 };
 
 export const findGuideByTicket = (ticketNumber: number, guidesWithTickets: GuideWithTickets[]): GuideWithTickets | null => {
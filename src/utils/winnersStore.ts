@@ -0,0 +1,131 @@
+import { PendingDraw, PrizeWinner } from '../types';
+
+// Local copy of each contest's winners plus the draws waiting to reach the database, so the
+// winners stay on screen and draws keep working when the venue loses its connection. The
+// contests, guides, ticket assignments and prizes are kept too, so a reload offline still has them
+
+export interface WinnersStore {
+  loadWinners(contestId: string): Promise<PrizeWinner[] | null>; // null when nothing is cached
+  saveWinners(contestId: string, winners: PrizeWinner[]): Promise<void>;
+  loadPendingDraws(contestId: string): Promise<PendingDraw[]>; // Oldest first
+  savePendingDraw(draw: PendingDraw): Promise<void>;
+  removePendingDraw(id: string): Promise<void>;
+  loadContestData<T>(key: string): Promise<T | null>; // null when nothing is cached
+  saveContestData<T>(key: string, data: T): Promise<void>;
+}
+
+const DB_NAME = 'big-dollar-contest';
+const DB_VERSION = 2;
+const WINNERS = 'winners';
+const PENDING_DRAWS = 'pending_draws';
+const CONTEST_DATA = 'contest_data';
+
+export const createIndexedDbWinnersStore = (): WinnersStore => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Version 2 added the contest data next to the winners and draws of version 1
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(WINNERS)) {
+          database.createObjectStore(WINNERS, { keyPath: 'contestId' });
+        }
+        if (!database.objectStoreNames.contains(PENDING_DRAWS)) {
+          database.createObjectStore(PENDING_DRAWS, { keyPath: 'id' }).createIndex('contestId', 'contestId');
+        }
+        if (!database.objectStoreNames.contains(CONTEST_DATA)) {
+          database.createObjectStore(CONTEST_DATA, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+    return databasePromise;
+  };
+
+  // Resolves once the transaction has committed, not just when the request succeeded
+  const run = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    loadWinners: async (contestId) => {
+      const entry = await run<{ contestId: string; winners: PrizeWinner[] } | undefined>(
+        WINNERS, 'readonly', store => store.get(contestId)
+      );
+      return entry?.winners ?? null;
+    },
+    saveWinners: async (contestId, winners) => {
+      await run(WINNERS, 'readwrite', store => store.put({ contestId, winners }));
+    },
+    loadPendingDraws: async (contestId) => {
+      const draws = await run<PendingDraw[]>(
+        PENDING_DRAWS, 'readonly', store => store.index('contestId').getAll(contestId)
+      );
+      return draws.sort((a, b) => a.drawnAt.localeCompare(b.drawnAt));
+    },
+    savePendingDraw: async (draw) => {
+      await run(PENDING_DRAWS, 'readwrite', store => store.put(draw));
+    },
+    removePendingDraw: async (id) => {
+      await run(PENDING_DRAWS, 'readwrite', store => store.delete(id));
+    },
+    loadContestData: async <T>(key: string) => {
+      const entry = await run<{ key: string; data: T } | undefined>(
+        CONTEST_DATA, 'readonly', store => store.get(key)
+      );
+      return entry?.data ?? null;
+    },
+    saveContestData: async (key, data) => {
+      await run(CONTEST_DATA, 'readwrite', store => store.put({ key, data }));
+    }
+  };
+};
+
+// For browsers without IndexedDB (some private windows); nothing survives a reload
+export const createMemoryWinnersStore = (): WinnersStore => {
+  const winnersByContest = new Map<string, PrizeWinner[]>();
+  const pendingDraws = new Map<string, PendingDraw>();
+  const contestData = new Map<string, unknown>();
+
+  return {
+    loadWinners: async (contestId) => winnersByContest.get(contestId) ?? null,
+    saveWinners: async (contestId, winners) => {
+      winnersByContest.set(contestId, winners);
+    },
+    loadPendingDraws: async (contestId) =>
+      Array.from(pendingDraws.values())
+        .filter(draw => draw.contestId === contestId)
+        .sort((a, b) => a.drawnAt.localeCompare(b.drawnAt)),
+    savePendingDraw: async (draw) => {
+      pendingDraws.set(draw.id, draw);
+    },
+    removePendingDraw: async (id) => {
+      pendingDraws.delete(id);
+    },
+    loadContestData: async <T>(key: string) => (contestData.get(key) as T | undefined) ?? null,
+    saveContestData: async (key, data) => {
+      contestData.set(key, data);
+    }
+  };
+};
+
+export const winnersStore: WinnersStore = typeof indexedDB !== 'undefined'
+  ? createIndexedDbWinnersStore()
+  : createMemoryWinnersStore();
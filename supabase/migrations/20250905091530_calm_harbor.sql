@@ -0,0 +1,38 @@
+/*
+  # Create ticket_assignments table
+
+  1. New Tables
+    - `ticket_assignments`
+      - `id` (uuid, primary key)
+      - `guide_id` (integer, unique, references guide data)
+      - `ticket_numbers` (integer[], every ticket number owned by the guide)
+      - `created_at` (timestamptz, when the assignment was generated)
+
+  2. Security
+    - Enable RLS on `ticket_assignments` table
+    - Add policy for public read access (anyone can verify ticket ownership)
+    - Add policy for public insert access, matching the `winners` table
+
+  3. Purpose
+    - The assignment is generated once and then loaded by every view, so the
+      ticket numbers in the Universal Pool export are the ones used in the draw
+    - The unique `guide_id` lets concurrent sessions race to generate the
+      assignment without ending up with two different ones
+*/
+
+CREATE TABLE IF NOT EXISTS public.ticket_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guide_id INT NOT NULL UNIQUE,
+  ticket_numbers INT[] NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.ticket_assignments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Enable insert access for all users" ON public.ticket_assignments
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
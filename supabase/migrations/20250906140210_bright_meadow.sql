@@ -0,0 +1,63 @@
+/*
+  # Create draws table for reproducible, seeded draws
+
+  1. New Tables
+    - `draws`
+      - `id` (uuid, primary key)
+      - `prize_category` (text, prize category that was drawn)
+      - `seed` (text, seed fed to the draw engine)
+      - `seed_commitment` (text, SHA-256 of the seed, publishable before the draw)
+      - `algorithm_version` (text, draw engine version, e.g. `sha256-ctr-v1`)
+      - `pool_hash` (text, SHA-256 fingerprint of the pool snapshot)
+      - `pool_guide_ids` (integer[], guides that were eligible for this draw)
+      - `winner_count` (integer, number of winners requested)
+      - `drawn_at` (timestamptz, when the draw ran)
+
+  2. Schema Changes
+    - Add `draw_id` column to `winners`, referencing the draw that selected the winner
+
+  3. Security
+    - Enable RLS on `draws` table
+    - Add policy for public read access (anyone can replay a draw)
+    - Add policy for public insert access, matching the `winners` table
+
+  4. Purpose
+    - Given the stored ticket assignment, the pool guide ids, the seed and the
+      algorithm version, anyone can replay a draw and get the same winners and
+      `drawn_ticket` values
+*/
+
+CREATE TABLE IF NOT EXISTS public.draws (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prize_category TEXT NOT NULL,
+  seed TEXT NOT NULL,
+  seed_commitment TEXT NOT NULL,
+  algorithm_version TEXT NOT NULL,
+  pool_hash TEXT NOT NULL,
+  pool_guide_ids INT[] NOT NULL,
+  winner_count INT NOT NULL,
+  drawn_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.draws ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.draws
+  FOR SELECT USING (true);
+
+CREATE POLICY "Enable insert access for all users" ON public.draws
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
+
+-- Link each winner to the draw that selected it
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'winners' AND column_name = 'draw_id'
+  ) THEN
+    ALTER TABLE winners ADD COLUMN draw_id uuid REFERENCES public.draws(id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_winners_draw_id ON winners (draw_id);
@@ -0,0 +1,121 @@
+/*
+  # Add contests as first-class entities
+
+  1. New Tables
+    - `contests`
+      - `id` (uuid, primary key)
+      - `name` (text, display name, e.g. "Big Dollar Contest Q3")
+      - `status` (text, `active` or `completed`; completed contests are read-only)
+      - `created_at` (timestamptz)
+      - `completed_at` (timestamptz, nullable)
+    - `contest_guides`
+      - Guide pool owned by a contest; mirrors the `Guide` interface
+      - Unique on (`contest_id`, `guide_id`)
+    - `prize_categories`
+      - Prize categories owned by a contest; mirrors the `PrizeCategory` interface
+      - Primary key (`contest_id`, `id`) so each contest can reuse category ids
+      - `sort_order` keeps the 1st to 5th prize ordering
+
+  2. Schema Changes
+    - Add `contest_id` to `winners`, `ticket_assignments` and `draws`
+    - Existing rows are moved into a "Big Dollar Contest" default contest
+    - `ticket_assignments` is now unique per (`contest_id`, `guide_id`)
+
+  3. Security
+    - Enable RLS on the new tables
+    - Public read and write access, matching the existing `winners` policies
+
+  4. Data Migration
+    - Guide pools and prize categories of a contest with no rows are seeded by
+      the application from the bundled defaults
+*/
+
+CREATE TABLE IF NOT EXISTS public.contests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS public.contest_guides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id UUID NOT NULL REFERENCES public.contests(id) ON DELETE CASCADE,
+  guide_id INT NOT NULL,
+  name TEXT NOT NULL,
+  supervisor TEXT NOT NULL,
+  department TEXT NOT NULL,
+  nps NUMERIC NOT NULL,
+  nrpc NUMERIC NOT NULL,
+  refund_percent NUMERIC NOT NULL,
+  total_tickets INT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (contest_id, guide_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.prize_categories (
+  contest_id UUID NOT NULL REFERENCES public.contests(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  winner_count INT NOT NULL CHECK (winner_count > 0),
+  image TEXT NOT NULL DEFAULT '',
+  gradient TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  countdown_seconds INT NOT NULL DEFAULT 10,
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (contest_id, id)
+);
+
+ALTER TABLE public.contests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contest_guides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prize_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.contests
+  FOR SELECT USING (true);
+CREATE POLICY "Enable insert access for all users" ON public.contests
+  FOR INSERT TO public WITH CHECK (true);
+CREATE POLICY "Enable update access for all users" ON public.contests
+  FOR UPDATE TO public USING (true) WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users" ON public.contest_guides
+  FOR SELECT USING (true);
+CREATE POLICY "Enable insert access for all users" ON public.contest_guides
+  FOR INSERT TO public WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users" ON public.prize_categories
+  FOR SELECT USING (true);
+CREATE POLICY "Enable insert access for all users" ON public.prize_categories
+  FOR INSERT TO public WITH CHECK (true);
+
+-- Scope existing tables to a contest
+ALTER TABLE public.winners ADD COLUMN IF NOT EXISTS contest_id uuid REFERENCES public.contests(id);
+ALTER TABLE public.ticket_assignments ADD COLUMN IF NOT EXISTS contest_id uuid REFERENCES public.contests(id);
+ALTER TABLE public.draws ADD COLUMN IF NOT EXISTS contest_id uuid REFERENCES public.contests(id);
+
+-- Move existing data into a default contest
+DO $$
+DECLARE
+  default_contest_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.contests) THEN
+    INSERT INTO public.contests (name) VALUES ('Big Dollar Contest')
+    RETURNING id INTO default_contest_id;
+
+    UPDATE public.winners SET contest_id = default_contest_id WHERE contest_id IS NULL;
+    UPDATE public.ticket_assignments SET contest_id = default_contest_id WHERE contest_id IS NULL;
+    UPDATE public.draws SET contest_id = default_contest_id WHERE contest_id IS NULL;
+  END IF;
+END $$;
+
+ALTER TABLE public.winners ALTER COLUMN contest_id SET NOT NULL;
+ALTER TABLE public.ticket_assignments ALTER COLUMN contest_id SET NOT NULL;
+ALTER TABLE public.draws ALTER COLUMN contest_id SET NOT NULL;
+
+ALTER TABLE public.ticket_assignments DROP CONSTRAINT IF EXISTS ticket_assignments_guide_id_key;
+ALTER TABLE public.ticket_assignments
+  ADD CONSTRAINT ticket_assignments_contest_guide_key UNIQUE (contest_id, guide_id);
+
+CREATE INDEX IF NOT EXISTS idx_winners_contest_id ON public.winners (contest_id);
+CREATE INDEX IF NOT EXISTS idx_draws_contest_id ON public.draws (contest_id);
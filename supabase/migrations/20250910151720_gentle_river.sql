@@ -0,0 +1,62 @@
+/*
+  # Roster import support
+
+  1. New Functions
+    - `replace_contest_roster(p_contest_id uuid, p_guides jsonb)`
+      - Replaces the whole guide pool of a contest in one transaction
+      - Clears the contest's ticket assignment so it is regenerated for the new pool
+      - Refuses completed contests and contests that already have winners, since
+        regenerating tickets would change numbers that have already been drawn
+      - `p_guides` is a JSON array of objects shaped like the `Guide` interface
+        (`id`, `name`, `supervisor`, `department`, `nps`, `nrpc`, `refundPercent`, `totalTickets`)
+
+  2. Security
+    - Add DELETE policies on `contest_guides` and `ticket_assignments`, matching
+      the public access of the `winners` table; the function runs with the
+      caller's privileges
+*/
+
+CREATE POLICY "Enable delete access for all users" ON public.contest_guides
+  FOR DELETE TO public USING (true);
+
+CREATE POLICY "Enable delete access for all users" ON public.ticket_assignments
+  FOR DELETE TO public USING (true);
+
+CREATE OR REPLACE FUNCTION public.replace_contest_roster(p_contest_id uuid, p_guides jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Serialize concurrent imports for the same contest
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; its roster is read-only';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.winners WHERE contest_id = p_contest_id) THEN
+    RAISE EXCEPTION 'Contest already has winners; purge them before importing a new roster';
+  END IF;
+
+  DELETE FROM public.ticket_assignments WHERE contest_id = p_contest_id;
+  DELETE FROM public.contest_guides WHERE contest_id = p_contest_id;
+
+  INSERT INTO public.contest_guides (
+    contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+  )
+  SELECT
+    p_contest_id,
+    (guide->>'id')::int,
+    guide->>'name',
+    guide->>'supervisor',
+    guide->>'department',
+    (guide->>'nps')::numeric,
+    (guide->>'nrpc')::numeric,
+    (guide->>'refundPercent')::numeric,
+    (guide->>'totalTickets')::int
+  FROM jsonb_array_elements(p_guides) AS guide;
+END;
+$$;
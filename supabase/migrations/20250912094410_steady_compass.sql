@@ -0,0 +1,28 @@
+/*
+  # Per-contest ticket rules
+
+  1. Modified Tables
+    - `contests`
+      - Add `ticket_rules` (jsonb, nullable) - thresholds, weights, caps and the
+        per-guide minimum/maximum used to derive each guide's `total_tickets`
+        from NPS, NRPC and refund %. NULL means the counts come from the roster as-is.
+
+  2. New Functions
+    - `save_ticket_rules(p_contest_id uuid, p_rules jsonb, p_guides jsonb)`
+      - Stores the rules and swaps in the recalculated roster in one transaction
+      - Goes through `replace_contest_roster`, so the ticket assignment is regenerated
+        and the same guards apply (no completed contests, no contests with winners)
+*/
+
+ALTER TABLE public.contests ADD COLUMN IF NOT EXISTS ticket_rules jsonb;
+
+CREATE OR REPLACE FUNCTION public.save_ticket_rules(p_contest_id uuid, p_rules jsonb, p_guides jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM public.replace_contest_roster(p_contest_id, p_guides);
+
+  UPDATE public.contests SET ticket_rules = p_rules WHERE id = p_contest_id;
+END;
+$$;
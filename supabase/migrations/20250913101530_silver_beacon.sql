@@ -0,0 +1,105 @@
+/*
+  # Admin and viewer roles
+
+  1. New Tables
+    - `user_roles`
+      - `user_id` (uuid, primary key, references `auth.users`)
+      - `role` (text, 'admin' or 'viewer')
+      - `created_at` (timestamp)
+    - Signed-in users without a row are viewers
+
+  2. New Functions
+    - `is_admin()` - whether the calling user has the admin role. SECURITY DEFINER
+      so policies can use it without granting read access to every role row
+
+  3. Security
+    - Replace the public INSERT/UPDATE/DELETE policies on `winners`, `draws`,
+      `ticket_assignments`, `contests`, `contest_guides` and `prize_categories`
+      with policies that only allow admins to write
+    - Read access stays public
+    - Users can read their own role; admins can manage all roles
+    - `replace_contest_roster` and `save_ticket_rules` run with the caller's
+      privileges, so they are admin-only through the same policies
+
+  4. Granting the first admin
+    - Sign the user up through Supabase Auth, then run:
+      INSERT INTO public.user_roles (user_id, role)
+      SELECT id, 'admin' FROM auth.users WHERE email = 'admin@example.com';
+*/
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'viewer')),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+CREATE POLICY "Users can read their own role" ON public.user_roles
+  FOR SELECT TO authenticated USING (user_id = auth.uid() OR public.is_admin());
+
+CREATE POLICY "Admins can manage roles" ON public.user_roles
+  FOR ALL TO authenticated USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- winners
+DROP POLICY IF EXISTS "Enable insert access for all users" ON public.winners;
+DROP POLICY IF EXISTS "Enable update access for all users" ON public.winners;
+DROP POLICY IF EXISTS "Enable delete access for all users" ON public.winners;
+
+CREATE POLICY "Enable insert access for admins" ON public.winners
+  FOR INSERT TO authenticated WITH CHECK (public.is_admin());
+CREATE POLICY "Enable update access for admins" ON public.winners
+  FOR UPDATE TO authenticated USING (public.is_admin()) WITH CHECK (public.is_admin());
+CREATE POLICY "Enable delete access for admins" ON public.winners
+  FOR DELETE TO authenticated USING (public.is_admin());
+
+-- draws
+DROP POLICY IF EXISTS "Enable insert access for all users" ON public.draws;
+
+CREATE POLICY "Enable insert access for admins" ON public.draws
+  FOR INSERT TO authenticated WITH CHECK (public.is_admin());
+
+-- ticket_assignments
+DROP POLICY IF EXISTS "Enable insert access for all users" ON public.ticket_assignments;
+DROP POLICY IF EXISTS "Enable delete access for all users" ON public.ticket_assignments;
+
+CREATE POLICY "Enable insert access for admins" ON public.ticket_assignments
+  FOR INSERT TO authenticated WITH CHECK (public.is_admin());
+CREATE POLICY "Enable delete access for admins" ON public.ticket_assignments
+  FOR DELETE TO authenticated USING (public.is_admin());
+
+-- contests
+DROP POLICY IF EXISTS "Enable insert access for all users" ON public.contests;
+DROP POLICY IF EXISTS "Enable update access for all users" ON public.contests;
+
+CREATE POLICY "Enable insert access for admins" ON public.contests
+  FOR INSERT TO authenticated WITH CHECK (public.is_admin());
+CREATE POLICY "Enable update access for admins" ON public.contests
+  FOR UPDATE TO authenticated USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- contest_guides
+DROP POLICY IF EXISTS "Enable insert access for all users" ON public.contest_guides;
+DROP POLICY IF EXISTS "Enable delete access for all users" ON public.contest_guides;
+
+CREATE POLICY "Enable insert access for admins" ON public.contest_guides
+  FOR INSERT TO authenticated WITH CHECK (public.is_admin());
+CREATE POLICY "Enable delete access for admins" ON public.contest_guides
+  FOR DELETE TO authenticated USING (public.is_admin());
+
+-- prize_categories
+DROP POLICY IF EXISTS "Enable insert access for all users" ON public.prize_categories;
+
+CREATE POLICY "Enable insert access for admins" ON public.prize_categories
+  FOR INSERT TO authenticated WITH CHECK (public.is_admin());
@@ -0,0 +1,62 @@
+/*
+  # Lock down writes for anonymous clients
+
+  1. Security
+    - Revoke INSERT, UPDATE, DELETE and TRUNCATE on every app table from `anon`.
+      The admin-only policies already reject these writes; without the grants a
+      future permissive policy cannot reopen them for holders of the anon key
+    - SELECT stays granted, so results remain publicly readable
+    - Revoke EXECUTE on the roster functions from `anon`
+
+  2. New Functions
+    - `purge_winners(p_contest_id uuid)` - deletes every winner of an active contest
+      and returns how many were removed
+      - SECURITY DEFINER, checks `is_admin()` itself and raises 42501 otherwise
+      - Executable by `authenticated` only
+
+  3. Tests
+    - `supabase/tests/database/rls.test.sql` proves that anonymous and viewer
+      writes are rejected; run it with `supabase test db`
+*/
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON
+  public.winners,
+  public.draws,
+  public.ticket_assignments,
+  public.contests,
+  public.contest_guides,
+  public.prize_categories,
+  public.user_roles
+FROM anon;
+
+REVOKE EXECUTE ON FUNCTION public.replace_contest_roster(uuid, jsonb) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION public.save_ticket_rules(uuid, jsonb, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.replace_contest_roster(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_ticket_rules(uuid, jsonb, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.purge_winners(p_contest_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can purge winners' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; its winners are read-only';
+  END IF;
+
+  DELETE FROM public.winners WHERE contest_id = p_contest_id;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_winners(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.purge_winners(uuid) TO authenticated;
@@ -0,0 +1,168 @@
+/*
+  # Server-side draws
+
+  1. New Functions
+    - `draw_prize(p_contest_id uuid, p_category_id text, p_seed text)`
+      - Locks the contest row, so concurrent draws (and roster imports) for the
+        same contest run one after another
+      - Builds the pool from the contest's guides that have not won yet, draws up
+        to the category's remaining slots with the `sha256-ctr-v1` algorithm,
+        records the draw and inserts the winners in the same transaction
+      - Returns the inserted winner rows in draw order
+      - SECURITY DEFINER, checks `is_admin()` itself; executable by `authenticated` only
+
+  2. Algorithm (identical to `createTicketPicker` / `drawRandomTickets` in src/utils/ticketSystem.ts)
+    - Pool tickets are ordered ascending
+    - Pick n (from 0) hashes the UTF-8 string `${seed}:${n}` with SHA-256, reads the
+      first 48 bits as v and takes the ticket at index floor(v * poolSize / 2^48)
+    - The winner's remaining tickets leave the pool before the next pick
+
+  3. Security
+    - Drop the admin INSERT policies on `winners` and `draws`; new winners can only
+      come from `draw_prize`, so a client cannot pick its own winners
+*/
+
+DROP POLICY IF EXISTS "Enable insert access for admins" ON public.winners;
+DROP POLICY IF EXISTS "Enable insert access for admins" ON public.draws;
+
+CREATE OR REPLACE FUNCTION public.draw_prize(p_contest_id uuid, p_category_id text, p_seed text)
+RETURNS SETOF public.winners
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.prize_categories%ROWTYPE;
+  v_remaining integer;
+  v_pool_ids integer[];
+  v_pool_hash text;
+  v_draw_id uuid;
+  v_winner_ids integer[] := '{}';
+  v_tickets integer[] := '{}';
+  v_pick integer := 0;
+  v_pool_size bigint;
+  v_value numeric;
+  v_index bigint;
+  v_ticket integer;
+  v_guide_id integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can run draws' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_seed IS NULL OR length(p_seed) = 0 THEN
+    RAISE EXCEPTION 'A draw seed is required';
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; no more draws can be run';
+  END IF;
+
+  SELECT * INTO v_category
+  FROM public.prize_categories
+  WHERE contest_id = p_contest_id AND id = p_category_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prize category % does not exist in this contest', p_category_id;
+  END IF;
+
+  v_remaining := v_category.winner_count - (
+    SELECT count(*) FROM public.winners
+    WHERE contest_id = p_contest_id AND prize_category = p_category_id
+  );
+  IF v_remaining <= 0 THEN
+    RAISE EXCEPTION 'Prize category % already has all of its winners', v_category.name;
+  END IF;
+
+  -- Pool: every guide of the contest that has not won yet; hashed the same way as hashPool()
+  SELECT
+    array_agg(g.guide_id ORDER BY g.guide_id),
+    encode(sha256(convert_to(string_agg(
+      g.guide_id || ':' || coalesce(
+        (SELECT string_agg(t::text, ',' ORDER BY t) FROM unnest(a.ticket_numbers) AS t),
+        ''
+      ),
+      ';' ORDER BY g.guide_id
+    ), 'UTF8')), 'hex')
+  INTO v_pool_ids, v_pool_hash
+  FROM public.contest_guides g
+  LEFT JOIN public.ticket_assignments a
+    ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+  WHERE g.contest_id = p_contest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.winners w
+      WHERE w.contest_id = p_contest_id AND w.guide_id = g.guide_id
+    );
+
+  IF v_pool_ids IS NULL THEN
+    RAISE EXCEPTION 'No guides are left to draw from';
+  END IF;
+
+  INSERT INTO public.draws (
+    contest_id, prize_category, seed, seed_commitment, algorithm_version,
+    pool_hash, pool_guide_ids, winner_count
+  ) VALUES (
+    p_contest_id, p_category_id, p_seed, encode(sha256(convert_to(p_seed, 'UTF8')), 'hex'), 'sha256-ctr-v1',
+    v_pool_hash, v_pool_ids, v_remaining
+  )
+  RETURNING id INTO v_draw_id;
+
+  WHILE v_pick < v_remaining LOOP
+    SELECT count(*) INTO v_pool_size
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids));
+
+    EXIT WHEN v_pool_size = 0;
+
+    -- numeric keeps v * poolSize exact for pools of any size
+    v_value := ('x' || substr(encode(sha256(convert_to(p_seed || ':' || v_pick, 'UTF8')), 'hex'), 1, 12))::bit(48)::bigint;
+    v_index := floor(v_value * v_pool_size / 281474976710656)::bigint;
+
+    SELECT t, a.guide_id INTO v_ticket, v_guide_id
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids))
+    ORDER BY t
+    OFFSET v_index
+    LIMIT 1;
+
+    INSERT INTO public.winners (
+      contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+      prize_category, prize_name, drawn_ticket, draw_id, ticket_numbers
+    )
+    SELECT
+      p_contest_id, g.guide_id, g.name, g.supervisor, g.department, g.nps, g.nrpc, g.refund_percent, g.total_tickets,
+      p_category_id, v_category.name, v_ticket, v_draw_id,
+      (SELECT array_to_json(array_agg(t ORDER BY t))::text FROM unnest(a.ticket_numbers) AS t)
+    FROM public.contest_guides g
+    JOIN public.ticket_assignments a
+      ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+    WHERE g.contest_id = p_contest_id AND g.guide_id = v_guide_id;
+
+    v_winner_ids := v_winner_ids || v_guide_id;
+    v_tickets := v_tickets || v_ticket;
+    v_pick := v_pick + 1;
+  END LOOP;
+
+  IF v_pick = 0 THEN
+    RAISE EXCEPTION 'No tickets are left to draw from';
+  END IF;
+
+  RETURN QUERY
+  SELECT w.*
+  FROM public.winners w
+  JOIN unnest(v_tickets) WITH ORDINALITY AS drawn(ticket, position) ON drawn.ticket = w.drawn_ticket
+  WHERE w.draw_id = v_draw_id
+  ORDER BY drawn.position;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_prize(uuid, text, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.draw_prize(uuid, text, text) TO authenticated;
@@ -0,0 +1,81 @@
+/*
+  # Winner integrity constraints
+
+  1. Constraints
+    - `winners_contest_guide_key` - UNIQUE (contest_id, guide_id): a guide wins at most once per contest
+    - `winners_contest_drawn_ticket_key` - UNIQUE (contest_id, drawn_ticket): a ticket is drawn at most
+      once per contest (NULLs from legacy rows without a drawn ticket are allowed)
+
+  2. New Triggers
+    - `winners_category_capacity` on `winners` (BEFORE INSERT OR UPDATE)
+      - Rejects a winner when its prize category already has `winner_count` winners
+      - Raises SQLSTATE 23514 (check_violation) with the constraint name `winners_category_capacity`
+      - Rows without a category, or with a category that is not configured for the
+        contest, are not checked
+
+  3. Existing Data
+    - The migration stops with an error if existing winners already break the
+      unique constraints; resolve those rows by hand before applying it
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.winners GROUP BY contest_id, guide_id HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'Some guides have won more than once in the same contest; resolve the duplicates before applying this migration';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.winners WHERE drawn_ticket IS NOT NULL
+    GROUP BY contest_id, drawn_ticket HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'Some tickets have been drawn more than once in the same contest; resolve the duplicates before applying this migration';
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.winners
+  ADD CONSTRAINT winners_contest_guide_key UNIQUE (contest_id, guide_id);
+
+ALTER TABLE public.winners
+  ADD CONSTRAINT winners_contest_drawn_ticket_key UNIQUE (contest_id, drawn_ticket);
+
+CREATE OR REPLACE FUNCTION public.check_winner_category_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_capacity integer;
+  v_taken integer;
+BEGIN
+  IF NEW.prize_category IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT winner_count INTO v_capacity
+  FROM public.prize_categories
+  WHERE contest_id = NEW.contest_id AND id = NEW.prize_category;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO v_taken
+  FROM public.winners
+  WHERE contest_id = NEW.contest_id
+    AND prize_category = NEW.prize_category
+    AND id <> NEW.id;
+
+  IF v_taken >= v_capacity THEN
+    RAISE EXCEPTION 'Prize category % already has all % of its winners', NEW.prize_category, v_capacity
+      USING ERRCODE = 'check_violation', CONSTRAINT = 'winners_category_capacity';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER winners_category_capacity
+  BEFORE INSERT OR UPDATE OF contest_id, prize_category ON public.winners
+  FOR EACH ROW EXECUTE FUNCTION public.check_winner_category_capacity();
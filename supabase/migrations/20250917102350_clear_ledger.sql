@@ -0,0 +1,285 @@
+/*
+  # Audit log
+
+  1. New Tables
+    - `audit_events` - append-only record of who did what and when
+      - `id` (uuid, primary key)
+      - `contest_id` (uuid, references `contests`)
+      - `event_type` (text) - `draw_started`, `draw_aborted`, `draw_restarted`,
+        `winners_saved`, `winners_purged`, `roster_imported`, `ticket_rules_saved`,
+        `prize_edited`, `contest_created` or `contest_completed`
+      - `actor_id` (uuid) / `actor_email` (text) - taken from the caller's JWT, never from the client
+      - `payload` (jsonb) - event details, e.g. the drawn tickets or the roster diff counts
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `log_audit_event(p_contest_id uuid, p_event_type text, p_payload jsonb)`
+      - Records events that only the browser knows about (draw started, restarted
+        or aborted; roster imported; rules saved; contest created or completed)
+      - SECURITY DEFINER, admin-only; `winners_saved` and `winners_purged` are rejected
+        so they can only come from the functions below
+    - `draw_prize` now records `winners_saved` and `purge_winners` records
+      `winners_purged` in the same transaction as the change itself
+
+  3. Security
+    - Signed-in users can read the log; nobody can insert directly
+    - UPDATE, DELETE and TRUNCATE are rejected by triggers, including for the
+      table owner, so existing events cannot be rewritten
+*/
+
+CREATE TABLE IF NOT EXISTS public.audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id uuid REFERENCES public.contests(id),
+  event_type text NOT NULL CHECK (event_type IN (
+    'draw_started', 'draw_aborted', 'draw_restarted', 'winners_saved', 'winners_purged',
+    'roster_imported', 'ticket_rules_saved', 'prize_edited', 'contest_created', 'contest_completed'
+  )),
+  actor_id uuid DEFAULT auth.uid(),
+  actor_email text DEFAULT (auth.jwt() ->> 'email'),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_events_contest_created_at_idx
+  ON public.audit_events (contest_id, created_at DESC);
+
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for signed-in users" ON public.audit_events
+  FOR SELECT TO authenticated USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_events FROM anon, authenticated;
+REVOKE SELECT ON public.audit_events FROM anon;
+
+CREATE OR REPLACE FUNCTION public.reject_audit_event_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit events are append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_events
+  FOR EACH ROW EXECUTE FUNCTION public.reject_audit_event_change();
+
+CREATE TRIGGER audit_events_no_truncate
+  BEFORE TRUNCATE ON public.audit_events
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reject_audit_event_change();
+
+CREATE OR REPLACE FUNCTION public.log_audit_event(p_contest_id uuid, p_event_type text, p_payload jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record audit events' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_event_type IN ('winners_saved', 'winners_purged') THEN
+    RAISE EXCEPTION '% events are recorded by the database itself', p_event_type;
+  END IF;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, p_event_type, coalesce(p_payload, '{}'::jsonb))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_audit_event(uuid, text, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.log_audit_event(uuid, text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.draw_prize(p_contest_id uuid, p_category_id text, p_seed text)
+RETURNS SETOF public.winners
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.prize_categories%ROWTYPE;
+  v_remaining integer;
+  v_pool_ids integer[];
+  v_pool_hash text;
+  v_draw_id uuid;
+  v_winner_ids integer[] := '{}';
+  v_tickets integer[] := '{}';
+  v_pick integer := 0;
+  v_pool_size bigint;
+  v_value numeric;
+  v_index bigint;
+  v_ticket integer;
+  v_guide_id integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can run draws' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_seed IS NULL OR length(p_seed) = 0 THEN
+    RAISE EXCEPTION 'A draw seed is required';
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; no more draws can be run';
+  END IF;
+
+  SELECT * INTO v_category
+  FROM public.prize_categories
+  WHERE contest_id = p_contest_id AND id = p_category_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prize category % does not exist in this contest', p_category_id;
+  END IF;
+
+  v_remaining := v_category.winner_count - (
+    SELECT count(*) FROM public.winners
+    WHERE contest_id = p_contest_id AND prize_category = p_category_id
+  );
+  IF v_remaining <= 0 THEN
+    RAISE EXCEPTION 'Prize category % already has all of its winners', v_category.name;
+  END IF;
+
+  -- Pool: every guide of the contest that has not won yet; hashed the same way as hashPool()
+  SELECT
+    array_agg(g.guide_id ORDER BY g.guide_id),
+    encode(sha256(convert_to(string_agg(
+      g.guide_id || ':' || coalesce(
+        (SELECT string_agg(t::text, ',' ORDER BY t) FROM unnest(a.ticket_numbers) AS t),
+        ''
+      ),
+      ';' ORDER BY g.guide_id
+    ), 'UTF8')), 'hex')
+  INTO v_pool_ids, v_pool_hash
+  FROM public.contest_guides g
+  LEFT JOIN public.ticket_assignments a
+    ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+  WHERE g.contest_id = p_contest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.winners w
+      WHERE w.contest_id = p_contest_id AND w.guide_id = g.guide_id
+    );
+
+  IF v_pool_ids IS NULL THEN
+    RAISE EXCEPTION 'No guides are left to draw from';
+  END IF;
+
+  INSERT INTO public.draws (
+    contest_id, prize_category, seed, seed_commitment, algorithm_version,
+    pool_hash, pool_guide_ids, winner_count
+  ) VALUES (
+    p_contest_id, p_category_id, p_seed, encode(sha256(convert_to(p_seed, 'UTF8')), 'hex'), 'sha256-ctr-v1',
+    v_pool_hash, v_pool_ids, v_remaining
+  )
+  RETURNING id INTO v_draw_id;
+
+  WHILE v_pick < v_remaining LOOP
+    SELECT count(*) INTO v_pool_size
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids));
+
+    EXIT WHEN v_pool_size = 0;
+
+    -- numeric keeps v * poolSize exact for pools of any size
+    v_value := ('x' || substr(encode(sha256(convert_to(p_seed || ':' || v_pick, 'UTF8')), 'hex'), 1, 12))::bit(48)::bigint;
+    v_index := floor(v_value * v_pool_size / 281474976710656)::bigint;
+
+    SELECT t, a.guide_id INTO v_ticket, v_guide_id
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids))
+    ORDER BY t
+    OFFSET v_index
+    LIMIT 1;
+
+    INSERT INTO public.winners (
+      contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+      prize_category, prize_name, drawn_ticket, draw_id, ticket_numbers
+    )
+    SELECT
+      p_contest_id, g.guide_id, g.name, g.supervisor, g.department, g.nps, g.nrpc, g.refund_percent, g.total_tickets,
+      p_category_id, v_category.name, v_ticket, v_draw_id,
+      (SELECT array_to_json(array_agg(t ORDER BY t))::text FROM unnest(a.ticket_numbers) AS t)
+    FROM public.contest_guides g
+    JOIN public.ticket_assignments a
+      ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+    WHERE g.contest_id = p_contest_id AND g.guide_id = v_guide_id;
+
+    v_winner_ids := v_winner_ids || v_guide_id;
+    v_tickets := v_tickets || v_ticket;
+    v_pick := v_pick + 1;
+  END LOOP;
+
+  IF v_pick = 0 THEN
+    RAISE EXCEPTION 'No tickets are left to draw from';
+  END IF;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, 'winners_saved', jsonb_build_object(
+    'drawId', v_draw_id,
+    'prizeCategory', p_category_id,
+    'prizeName', v_category.name,
+    'guideIds', to_jsonb(v_winner_ids),
+    'drawnTickets', to_jsonb(v_tickets),
+    'poolHash', v_pool_hash
+  ));
+
+  RETURN QUERY
+  SELECT w.*
+  FROM public.winners w
+  JOIN unnest(v_tickets) WITH ORDINALITY AS drawn(ticket, position) ON drawn.ticket = w.drawn_ticket
+  WHERE w.draw_id = v_draw_id
+  ORDER BY drawn.position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.purge_winners(p_contest_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_winners jsonb;
+  v_deleted integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can purge winners' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; its winners are read-only';
+  END IF;
+
+  -- Keep a record of who was removed, since the rows themselves are gone afterwards
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'guideId', guide_id,
+    'name', name,
+    'prizeCategory', prize_category,
+    'drawnTicket', drawn_ticket
+  ) ORDER BY won_at), '[]'::jsonb)
+  INTO v_winners
+  FROM public.winners
+  WHERE contest_id = p_contest_id;
+
+  DELETE FROM public.winners WHERE contest_id = p_contest_id;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, 'winners_purged', jsonb_build_object('deletedCount', v_deleted, 'winners', v_winners));
+
+  RETURN v_deleted;
+END;
+$$;
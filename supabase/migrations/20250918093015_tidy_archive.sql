@@ -0,0 +1,257 @@
+/*
+  # Archive and restore winners
+
+  1. New Tables
+    - `winner_snapshots` - winners removed from a contest, kept so they can be restored
+      - `id` (uuid, primary key)
+      - `contest_id` (uuid, references `contests`)
+      - `name` (text) - given by the admin when archiving
+      - `winners` (jsonb) - the archived `winners` rows, exactly as they were stored
+      - `winner_count` (integer)
+      - `created_by` / `created_by_email` - taken from the caller's JWT
+      - `created_at` (timestamp)
+      - `restored_at` / `restored_by` - set once the snapshot has been restored
+
+  2. New Functions
+    - `archive_winners(p_contest_id uuid, p_name text)` - replaces `purge_winners`;
+      moves every winner of an active contest into a new snapshot and returns its id
+    - `restore_winner_snapshot(p_snapshot_id uuid)` - puts a snapshot's winners back
+      and returns how many were restored. Nothing is restored if any of them conflicts
+      with the contest as it is now:
+      - the guide is no longer in the roster, or no longer holds the drawn ticket
+      - the prize category no longer exists, or would exceed its winner count
+      - the guide or the drawn ticket already has a current winner
+      - the snapshot has already been restored
+    - Both are SECURITY DEFINER, check `is_admin()` themselves and record
+      `winners_archived` / `winners_restored` audit events
+
+  3. Security
+    - Signed-in users can read snapshots; they can only be written through the functions above
+    - `purge_winners` and the admin DELETE policy on `winners` are dropped, so
+      winners can no longer be deleted irreversibly
+*/
+
+DROP POLICY IF EXISTS "Enable delete access for admins" ON public.winners;
+
+CREATE TABLE IF NOT EXISTS public.winner_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id uuid NOT NULL REFERENCES public.contests(id),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  winners jsonb NOT NULL,
+  winner_count integer NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  restored_at timestamptz,
+  restored_by uuid
+);
+
+CREATE INDEX IF NOT EXISTS winner_snapshots_contest_id_idx ON public.winner_snapshots (contest_id);
+
+ALTER TABLE public.winner_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for signed-in users" ON public.winner_snapshots
+  FOR SELECT TO authenticated USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.winner_snapshots FROM anon, authenticated;
+REVOKE SELECT ON public.winner_snapshots FROM anon;
+
+ALTER TABLE public.audit_events DROP CONSTRAINT IF EXISTS audit_events_event_type_check;
+ALTER TABLE public.audit_events ADD CONSTRAINT audit_events_event_type_check CHECK (event_type IN (
+  'draw_started', 'draw_aborted', 'draw_restarted', 'winners_saved', 'winners_purged',
+  'winners_archived', 'winners_restored', 'roster_imported', 'ticket_rules_saved',
+  'prize_edited', 'contest_created', 'contest_completed'
+));
+
+CREATE OR REPLACE FUNCTION public.log_audit_event(p_contest_id uuid, p_event_type text, p_payload jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record audit events' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_event_type IN ('winners_saved', 'winners_purged', 'winners_archived', 'winners_restored') THEN
+    RAISE EXCEPTION '% events are recorded by the database itself', p_event_type;
+  END IF;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, p_event_type, coalesce(p_payload, '{}'::jsonb))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.purge_winners(uuid);
+
+CREATE OR REPLACE FUNCTION public.archive_winners(p_contest_id uuid, p_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_winners jsonb;
+  v_count integer;
+  v_snapshot_id uuid;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can archive winners' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_name IS NULL OR length(trim(p_name)) = 0 THEN
+    RAISE EXCEPTION 'A snapshot name is required';
+  END IF;
+
+  -- Serialize with draws and restores for the same contest
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; its winners are read-only';
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(w) ORDER BY w.won_at), count(*)
+  INTO v_winners, v_count
+  FROM public.winners w
+  WHERE w.contest_id = p_contest_id;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Contest has no winners to archive';
+  END IF;
+
+  INSERT INTO public.winner_snapshots (contest_id, name, winners, winner_count)
+  VALUES (p_contest_id, trim(p_name), v_winners, v_count)
+  RETURNING id INTO v_snapshot_id;
+
+  DELETE FROM public.winners WHERE contest_id = p_contest_id;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, 'winners_archived', jsonb_build_object(
+    'snapshotId', v_snapshot_id,
+    'snapshotName', trim(p_name),
+    'winnerCount', v_count
+  ));
+
+  RETURN v_snapshot_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.archive_winners(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.archive_winners(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.restore_winner_snapshot(p_snapshot_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot public.winner_snapshots%ROWTYPE;
+  v_conflict text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore winners' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_snapshot FROM public.winner_snapshots WHERE id = p_snapshot_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot % does not exist', p_snapshot_id;
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = v_snapshot.contest_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = v_snapshot.contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; its winners are read-only';
+  END IF;
+
+  -- Re-read under the contest lock so two restores of the same snapshot cannot both pass
+  SELECT * INTO v_snapshot FROM public.winner_snapshots WHERE id = p_snapshot_id;
+  IF v_snapshot.restored_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Snapshot "%" has already been restored', v_snapshot.name;
+  END IF;
+
+  SELECT string_agg(r.name, ', ' ORDER BY r.name) INTO v_conflict
+  FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.contest_guides g
+    WHERE g.contest_id = v_snapshot.contest_id AND g.guide_id = r.guide_id
+  );
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": these guides are no longer in the roster: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  SELECT string_agg(r.name, ', ' ORDER BY r.name) INTO v_conflict
+  FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+  WHERE r.drawn_ticket IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.ticket_assignments a
+      WHERE a.contest_id = v_snapshot.contest_id
+        AND a.guide_id = r.guide_id
+        AND r.drawn_ticket = ANY (a.ticket_numbers)
+    );
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": tickets have been reassigned since these guides won: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  SELECT string_agg(DISTINCT r.prize_name, ', ') INTO v_conflict
+  FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+  WHERE r.prize_category IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.prize_categories c
+      WHERE c.contest_id = v_snapshot.contest_id AND c.id = r.prize_category
+    );
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": these prize categories no longer exist: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  SELECT string_agg(r.name, ', ' ORDER BY r.name) INTO v_conflict
+  FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+  WHERE EXISTS (
+    SELECT 1 FROM public.winners w
+    WHERE w.contest_id = v_snapshot.contest_id
+      AND (w.guide_id = r.guide_id OR w.drawn_ticket = r.drawn_ticket)
+  );
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": these guides or their tickets have won again since: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  SELECT string_agg(c.name, ', ' ORDER BY c.sort_order) INTO v_conflict
+  FROM public.prize_categories c
+  WHERE c.contest_id = v_snapshot.contest_id
+    AND (
+      (SELECT count(*) FROM public.winners w WHERE w.contest_id = c.contest_id AND w.prize_category = c.id) +
+      (SELECT count(*) FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r WHERE r.prize_category = c.id)
+    ) > c.winner_count;
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": these prize categories would have too many winners: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  INSERT INTO public.winners
+  SELECT * FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners);
+
+  UPDATE public.winner_snapshots
+  SET restored_at = now(), restored_by = auth.uid()
+  WHERE id = p_snapshot_id;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (v_snapshot.contest_id, 'winners_restored', jsonb_build_object(
+    'snapshotId', v_snapshot.id,
+    'snapshotName', v_snapshot.name,
+    'winnerCount', v_snapshot.winner_count
+  ));
+
+  RETURN v_snapshot.winner_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_winner_snapshot(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.restore_winner_snapshot(uuid) TO authenticated;
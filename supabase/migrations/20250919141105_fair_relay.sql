@@ -0,0 +1,450 @@
+/*
+  # Void and redraw a single winner
+
+  1. Modified Tables
+    - `winners`
+      - Add `voided_at` (timestamp), `void_reason` (text) and `voided_by` (uuid) -
+        set when an admin voids the winner; voided rows are kept, not deleted
+      - Add `replaces_winner_id` (uuid, references `winners`) - on a redraw winner,
+        the voided winner whose prize they received
+
+  2. Modified Functions
+    - `draw_prize` gains `p_replaces_winner_id uuid DEFAULT NULL`
+      - With it, exactly one winner is drawn for the voided winner's slot and linked to them
+      - Without it, the slots of voided winners that have not been redrawn yet stay
+        reserved, so every replacement goes through a linked redraw
+      - Voided guides stay out of the pool: they cannot win again in the same contest
+        (`winners_contest_guide_key` still covers voided rows)
+    - `check_winner_category_capacity` and `restore_winner_snapshot` only count winners
+      that have not been voided
+
+  3. New Functions
+    - `void_winner(p_winner_id uuid, p_reason text)` - marks a winner of an active contest
+      as voided with a reason and records a `winner_voided` audit event
+      - SECURITY DEFINER, checks `is_admin()` itself; executable by `authenticated` only
+*/
+
+ALTER TABLE public.winners ADD COLUMN IF NOT EXISTS voided_at timestamptz;
+ALTER TABLE public.winners ADD COLUMN IF NOT EXISTS void_reason text;
+ALTER TABLE public.winners ADD COLUMN IF NOT EXISTS voided_by uuid;
+ALTER TABLE public.winners ADD COLUMN IF NOT EXISTS replaces_winner_id uuid REFERENCES public.winners(id);
+
+-- A voided winner is replaced at most once
+CREATE UNIQUE INDEX IF NOT EXISTS winners_replaces_winner_id_key
+  ON public.winners (replaces_winner_id) WHERE replaces_winner_id IS NOT NULL;
+
+ALTER TABLE public.audit_events DROP CONSTRAINT IF EXISTS audit_events_event_type_check;
+ALTER TABLE public.audit_events ADD CONSTRAINT audit_events_event_type_check CHECK (event_type IN (
+  'draw_started', 'draw_aborted', 'draw_restarted', 'winners_saved', 'winners_purged',
+  'winners_archived', 'winners_restored', 'winner_voided', 'roster_imported', 'ticket_rules_saved',
+  'prize_edited', 'contest_created', 'contest_completed'
+));
+
+CREATE OR REPLACE FUNCTION public.log_audit_event(p_contest_id uuid, p_event_type text, p_payload jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record audit events' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_event_type IN ('winners_saved', 'winners_purged', 'winners_archived', 'winners_restored', 'winner_voided') THEN
+    RAISE EXCEPTION '% events are recorded by the database itself', p_event_type;
+  END IF;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, p_event_type, coalesce(p_payload, '{}'::jsonb))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_winner_category_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_capacity integer;
+  v_taken integer;
+BEGIN
+  IF NEW.prize_category IS NULL OR NEW.voided_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT winner_count INTO v_capacity
+  FROM public.prize_categories
+  WHERE contest_id = NEW.contest_id AND id = NEW.prize_category;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO v_taken
+  FROM public.winners
+  WHERE contest_id = NEW.contest_id
+    AND prize_category = NEW.prize_category
+    AND voided_at IS NULL
+    AND id <> NEW.id;
+
+  IF v_taken >= v_capacity THEN
+    RAISE EXCEPTION 'Prize category % already has all % of its winners', NEW.prize_category, v_capacity
+      USING ERRCODE = 'check_violation', CONSTRAINT = 'winners_category_capacity';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.void_winner(p_winner_id uuid, p_reason text)
+RETURNS public.winners
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_winner public.winners%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can void winners' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to void a winner';
+  END IF;
+
+  SELECT * INTO v_winner FROM public.winners WHERE id = p_winner_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Winner % does not exist', p_winner_id;
+  END IF;
+
+  -- Serialize with draws for the same contest
+  PERFORM 1 FROM public.contests WHERE id = v_winner.contest_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = v_winner.contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; its winners are read-only';
+  END IF;
+
+  UPDATE public.winners
+  SET voided_at = now(), void_reason = trim(p_reason), voided_by = auth.uid()
+  WHERE id = p_winner_id AND voided_at IS NULL
+  RETURNING * INTO v_winner;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This winner has already been voided';
+  END IF;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (v_winner.contest_id, 'winner_voided', jsonb_build_object(
+    'winnerId', v_winner.id,
+    'guideId', v_winner.guide_id,
+    'name', v_winner.name,
+    'prizeCategory', v_winner.prize_category,
+    'prizeName', v_winner.prize_name,
+    'drawnTicket', v_winner.drawn_ticket,
+    'reason', v_winner.void_reason
+  ));
+
+  RETURN v_winner;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.void_winner(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.void_winner(uuid, text) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.draw_prize(uuid, text, text);
+
+CREATE FUNCTION public.draw_prize(
+  p_contest_id uuid,
+  p_category_id text,
+  p_seed text,
+  p_replaces_winner_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.winners
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.prize_categories%ROWTYPE;
+  v_remaining integer;
+  v_replaced public.winners%ROWTYPE;
+  v_pool_ids integer[];
+  v_pool_hash text;
+  v_draw_id uuid;
+  v_winner_ids integer[] := '{}';
+  v_tickets integer[] := '{}';
+  v_pick integer := 0;
+  v_pool_size bigint;
+  v_value numeric;
+  v_index bigint;
+  v_ticket integer;
+  v_guide_id integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can run draws' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_seed IS NULL OR length(p_seed) = 0 THEN
+    RAISE EXCEPTION 'A draw seed is required';
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; no more draws can be run';
+  END IF;
+
+  SELECT * INTO v_category
+  FROM public.prize_categories
+  WHERE contest_id = p_contest_id AND id = p_category_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prize category % does not exist in this contest', p_category_id;
+  END IF;
+
+  IF p_replaces_winner_id IS NOT NULL THEN
+    -- A redraw fills exactly the slot of one voided winner
+    SELECT * INTO v_replaced
+    FROM public.winners
+    WHERE id = p_replaces_winner_id AND contest_id = p_contest_id AND prize_category = p_category_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The winner being replaced is not a % winner of this contest', v_category.name;
+    END IF;
+    IF v_replaced.voided_at IS NULL THEN
+      RAISE EXCEPTION '% has not been voided, so their prize cannot be redrawn', v_replaced.name;
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.winners WHERE replaces_winner_id = p_replaces_winner_id) THEN
+      RAISE EXCEPTION 'The prize voided from % has already been redrawn', v_replaced.name;
+    END IF;
+
+    v_remaining := 1;
+  ELSE
+    -- Slots of voided winners stay reserved for their redraw, so the replacement can be linked
+    v_remaining := v_category.winner_count - (
+      SELECT count(*) FROM public.winners w
+      WHERE w.contest_id = p_contest_id AND w.prize_category = p_category_id
+        AND (
+          w.voided_at IS NULL
+          OR NOT EXISTS (SELECT 1 FROM public.winners r WHERE r.replaces_winner_id = w.id)
+        )
+    );
+    IF v_remaining <= 0 THEN
+      RAISE EXCEPTION 'Prize category % already has all of its winners', v_category.name;
+    END IF;
+  END IF;
+
+  -- Pool: every guide of the contest that has not won yet; hashed the same way as hashPool()
+  SELECT
+    array_agg(g.guide_id ORDER BY g.guide_id),
+    encode(sha256(convert_to(string_agg(
+      g.guide_id || ':' || coalesce(
+        (SELECT string_agg(t::text, ',' ORDER BY t) FROM unnest(a.ticket_numbers) AS t),
+        ''
+      ),
+      ';' ORDER BY g.guide_id
+    ), 'UTF8')), 'hex')
+  INTO v_pool_ids, v_pool_hash
+  FROM public.contest_guides g
+  LEFT JOIN public.ticket_assignments a
+    ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+  WHERE g.contest_id = p_contest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.winners w
+      WHERE w.contest_id = p_contest_id AND w.guide_id = g.guide_id
+    );
+
+  IF v_pool_ids IS NULL THEN
+    RAISE EXCEPTION 'No guides are left to draw from';
+  END IF;
+
+  INSERT INTO public.draws (
+    contest_id, prize_category, seed, seed_commitment, algorithm_version,
+    pool_hash, pool_guide_ids, winner_count
+  ) VALUES (
+    p_contest_id, p_category_id, p_seed, encode(sha256(convert_to(p_seed, 'UTF8')), 'hex'), 'sha256-ctr-v1',
+    v_pool_hash, v_pool_ids, v_remaining
+  )
+  RETURNING id INTO v_draw_id;
+
+  WHILE v_pick < v_remaining LOOP
+    SELECT count(*) INTO v_pool_size
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids));
+
+    EXIT WHEN v_pool_size = 0;
+
+    -- numeric keeps v * poolSize exact for pools of any size
+    v_value := ('x' || substr(encode(sha256(convert_to(p_seed || ':' || v_pick, 'UTF8')), 'hex'), 1, 12))::bit(48)::bigint;
+    v_index := floor(v_value * v_pool_size / 281474976710656)::bigint;
+
+    SELECT t, a.guide_id INTO v_ticket, v_guide_id
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids))
+    ORDER BY t
+    OFFSET v_index
+    LIMIT 1;
+
+    INSERT INTO public.winners (
+      contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+      prize_category, prize_name, drawn_ticket, draw_id, ticket_numbers, replaces_winner_id
+    )
+    SELECT
+      p_contest_id, g.guide_id, g.name, g.supervisor, g.department, g.nps, g.nrpc, g.refund_percent, g.total_tickets,
+      p_category_id, v_category.name, v_ticket, v_draw_id,
+      (SELECT array_to_json(array_agg(t ORDER BY t))::text FROM unnest(a.ticket_numbers) AS t),
+      p_replaces_winner_id
+    FROM public.contest_guides g
+    JOIN public.ticket_assignments a
+      ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+    WHERE g.contest_id = p_contest_id AND g.guide_id = v_guide_id;
+
+    v_winner_ids := v_winner_ids || v_guide_id;
+    v_tickets := v_tickets || v_ticket;
+    v_pick := v_pick + 1;
+  END LOOP;
+
+  IF v_pick = 0 THEN
+    RAISE EXCEPTION 'No tickets are left to draw from';
+  END IF;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, 'winners_saved', jsonb_build_object(
+    'drawId', v_draw_id,
+    'prizeCategory', p_category_id,
+    'prizeName', v_category.name,
+    'guideIds', to_jsonb(v_winner_ids),
+    'drawnTickets', to_jsonb(v_tickets),
+    'poolHash', v_pool_hash,
+    'replacesWinnerId', p_replaces_winner_id
+  ));
+
+  RETURN QUERY
+  SELECT w.*
+  FROM public.winners w
+  JOIN unnest(v_tickets) WITH ORDINALITY AS drawn(ticket, position) ON drawn.ticket = w.drawn_ticket
+  WHERE w.draw_id = v_draw_id
+  ORDER BY drawn.position;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_prize(uuid, text, text, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.draw_prize(uuid, text, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.restore_winner_snapshot(p_snapshot_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot public.winner_snapshots%ROWTYPE;
+  v_conflict text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can restore winners' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_snapshot FROM public.winner_snapshots WHERE id = p_snapshot_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot % does not exist', p_snapshot_id;
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = v_snapshot.contest_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = v_snapshot.contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; its winners are read-only';
+  END IF;
+
+  -- Re-read under the contest lock so two restores of the same snapshot cannot both pass
+  SELECT * INTO v_snapshot FROM public.winner_snapshots WHERE id = p_snapshot_id;
+  IF v_snapshot.restored_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Snapshot "%" has already been restored', v_snapshot.name;
+  END IF;
+
+  SELECT string_agg(r.name, ', ' ORDER BY r.name) INTO v_conflict
+  FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.contest_guides g
+    WHERE g.contest_id = v_snapshot.contest_id AND g.guide_id = r.guide_id
+  );
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": these guides are no longer in the roster: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  SELECT string_agg(r.name, ', ' ORDER BY r.name) INTO v_conflict
+  FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+  WHERE r.drawn_ticket IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.ticket_assignments a
+      WHERE a.contest_id = v_snapshot.contest_id
+        AND a.guide_id = r.guide_id
+        AND r.drawn_ticket = ANY (a.ticket_numbers)
+    );
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": tickets have been reassigned since these guides won: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  SELECT string_agg(DISTINCT r.prize_name, ', ') INTO v_conflict
+  FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+  WHERE r.prize_category IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.prize_categories c
+      WHERE c.contest_id = v_snapshot.contest_id AND c.id = r.prize_category
+    );
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": these prize categories no longer exist: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  SELECT string_agg(r.name, ', ' ORDER BY r.name) INTO v_conflict
+  FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+  WHERE EXISTS (
+    SELECT 1 FROM public.winners w
+    WHERE w.contest_id = v_snapshot.contest_id
+      AND (w.guide_id = r.guide_id OR w.drawn_ticket = r.drawn_ticket)
+  );
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": these guides or their tickets have won again since: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  SELECT string_agg(c.name, ', ' ORDER BY c.sort_order) INTO v_conflict
+  FROM public.prize_categories c
+  WHERE c.contest_id = v_snapshot.contest_id
+    AND (
+      (SELECT count(*) FROM public.winners w
+       WHERE w.contest_id = c.contest_id AND w.prize_category = c.id AND w.voided_at IS NULL) +
+      (SELECT count(*) FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners) r
+       WHERE r.prize_category = c.id AND r.voided_at IS NULL)
+    ) > c.winner_count;
+  IF v_conflict IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot restore "%": these prize categories would have too many winners: %', v_snapshot.name, v_conflict;
+  END IF;
+
+  INSERT INTO public.winners
+  SELECT * FROM jsonb_populate_recordset(NULL::public.winners, v_snapshot.winners);
+
+  UPDATE public.winner_snapshots
+  SET restored_at = now(), restored_by = auth.uid()
+  WHERE id = p_snapshot_id;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (v_snapshot.contest_id, 'winners_restored', jsonb_build_object(
+    'snapshotId', v_snapshot.id,
+    'snapshotName', v_snapshot.name,
+    'winnerCount', v_snapshot.winner_count
+  ));
+
+  RETURN v_snapshot.winner_count;
+END;
+$$;
@@ -0,0 +1,131 @@
+/*
+  # Manage prize categories from the app
+
+  1. Modified Tables
+    - `prize_categories`
+      - Add `retired_at` (timestamp) - retired categories are kept for their winners,
+        snapshots and exports but can no longer be drawn
+      - Bundled image paths move from `/src/img/` (only served by the dev server) to `/prizes/`
+
+  2. Modified Functions
+    - `check_winner_category_capacity` also refuses winners for retired categories, which
+      covers draws, redraws and snapshot restores
+
+  3. New Functions
+    - `check_prize_category_winner_count()` - trigger that stops a category's winner count
+      from dropping below the winners already holding its slots (voided winners awaiting
+      a redraw included)
+
+  4. Storage
+    - Public `prize-images` bucket for uploaded prize images
+    - Only admins can upload, replace or delete objects in it
+
+  5. Security
+    - Admins can update the categories of active contests; categories of completed contests
+      stay read-only. There is still no delete policy: categories are retired instead
+*/
+
+ALTER TABLE public.prize_categories ADD COLUMN IF NOT EXISTS retired_at timestamptz;
+
+UPDATE public.prize_categories
+SET image = replace(image, '/src/img/', '/prizes/')
+WHERE image LIKE '/src/img/%';
+
+CREATE POLICY "Enable update access for admins" ON public.prize_categories
+  FOR UPDATE TO authenticated
+  USING (
+    public.is_admin()
+    AND EXISTS (SELECT 1 FROM public.contests WHERE id = contest_id AND status = 'active')
+  )
+  WITH CHECK (
+    public.is_admin()
+    AND EXISTS (SELECT 1 FROM public.contests WHERE id = contest_id AND status = 'active')
+  );
+
+CREATE OR REPLACE FUNCTION public.check_prize_category_winner_count()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_taken integer;
+BEGIN
+  SELECT count(*) INTO v_taken
+  FROM public.winners w
+  WHERE w.contest_id = NEW.contest_id
+    AND w.prize_category = NEW.id
+    AND (
+      w.voided_at IS NULL
+      OR NOT EXISTS (SELECT 1 FROM public.winners r WHERE r.replaces_winner_id = w.id)
+    );
+
+  IF NEW.winner_count < v_taken THEN
+    RAISE EXCEPTION '% already has % winner(s); its winner count cannot be lower than that', NEW.name, v_taken;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prize_categories_winner_count
+  BEFORE UPDATE OF winner_count ON public.prize_categories
+  FOR EACH ROW EXECUTE FUNCTION public.check_prize_category_winner_count();
+
+CREATE OR REPLACE FUNCTION public.check_winner_category_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_capacity integer;
+  v_retired_at timestamptz;
+  v_name text;
+  v_taken integer;
+BEGIN
+  IF NEW.prize_category IS NULL OR NEW.voided_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT winner_count, retired_at, name INTO v_capacity, v_retired_at, v_name
+  FROM public.prize_categories
+  WHERE contest_id = NEW.contest_id AND id = NEW.prize_category;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_retired_at IS NOT NULL THEN
+    RAISE EXCEPTION '% has been retired and can no longer be drawn', v_name;
+  END IF;
+
+  SELECT count(*) INTO v_taken
+  FROM public.winners
+  WHERE contest_id = NEW.contest_id
+    AND prize_category = NEW.prize_category
+    AND voided_at IS NULL
+    AND id <> NEW.id;
+
+  IF v_taken >= v_capacity THEN
+    RAISE EXCEPTION 'Prize category % already has all % of its winners', NEW.prize_category, v_capacity
+      USING ERRCODE = 'check_violation', CONSTRAINT = 'winners_category_capacity';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('prize-images', 'prize-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Prize images are publicly readable" ON storage.objects
+  FOR SELECT USING (bucket_id = 'prize-images');
+
+CREATE POLICY "Admins can upload prize images" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (bucket_id = 'prize-images' AND public.is_admin());
+
+CREATE POLICY "Admins can replace prize images" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (bucket_id = 'prize-images' AND public.is_admin())
+  WITH CHECK (bucket_id = 'prize-images' AND public.is_admin());
+
+CREATE POLICY "Admins can delete prize images" ON storage.objects
+  FOR DELETE TO authenticated USING (bucket_id = 'prize-images' AND public.is_admin());
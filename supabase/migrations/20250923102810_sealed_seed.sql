@@ -0,0 +1,374 @@
+/*
+  # Seed commitments recorded before the draw
+
+  Until now `draw_prize` hashed the seed into `seed_commitment` in the same insert that used it,
+  so the commitment proved nothing: a seed could be tried in the browser until the wanted guide
+  won and then drawn straight away. The commitment is now recorded in its own step, shown on the
+  audience display and in the audit log, and the draw only accepts the seed behind it.
+
+  1. New Tables
+    - `seed_commitments`
+      - `id` (uuid, primary key)
+      - `contest_id` (uuid, references `contests`), `prize_category` (text)
+      - `commitment` (text) - lowercase hex SHA-256 of the seed, as `seedCommitment()` computes it
+      - `committed_at` (timestamp)
+      - `superseded_at` (timestamp) - set when a newer commitment replaces this one unused
+      - `draw_id` (uuid, references `draws`) - the draw that used it
+      - At most one open commitment (unused, not superseded) per contest and prize category
+
+  2. Modified Tables
+    - `draws`
+      - Add `committed_at` (timestamp) - when the seed's commitment was recorded; null on draws
+        run before commitments were required
+    - `audit_events`
+      - Allow `seed_committed` events
+
+  3. New Functions
+    - `commit_draw_seed(p_contest_id uuid, p_category_id text, p_commitment text)` - records the
+      commitment for the next draw of a category, superseding any open one, and logs it
+      - SECURITY DEFINER, checks `is_admin()` itself; executable by `authenticated` only
+
+  4. Modified Functions
+    - `draw_prize` refuses to draw without an open commitment for the category, or with a seed
+      that does not hash to it, and marks the commitment used
+
+  5. Security
+    - Everyone can read commitments, like the draws they lead to; only the functions write them
+*/
+
+CREATE TABLE IF NOT EXISTS public.seed_commitments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id uuid NOT NULL REFERENCES public.contests(id) ON DELETE CASCADE,
+  prize_category text NOT NULL,
+  commitment text NOT NULL CHECK (commitment ~ '^[0-9a-f]{64}$'),
+  committed_at timestamptz NOT NULL DEFAULT now(),
+  superseded_at timestamptz,
+  draw_id uuid REFERENCES public.draws(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS seed_commitments_open_key
+  ON public.seed_commitments (contest_id, prize_category)
+  WHERE draw_id IS NULL AND superseded_at IS NULL;
+
+ALTER TABLE public.seed_commitments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for all users" ON public.seed_commitments
+  FOR SELECT USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.seed_commitments FROM anon, authenticated;
+
+ALTER TABLE public.draws ADD COLUMN IF NOT EXISTS committed_at timestamptz;
+
+ALTER TABLE public.audit_events DROP CONSTRAINT IF EXISTS audit_events_event_type_check;
+ALTER TABLE public.audit_events ADD CONSTRAINT audit_events_event_type_check CHECK (event_type IN (
+  'draw_started', 'draw_aborted', 'draw_restarted', 'winners_saved', 'winners_purged',
+  'winners_archived', 'winners_restored', 'winner_voided', 'roster_imported', 'ticket_rules_saved',
+  'prize_edited', 'quota_rules_saved', 'seed_committed', 'contest_created', 'contest_completed'
+));
+
+CREATE OR REPLACE FUNCTION public.commit_draw_seed(
+  p_contest_id uuid,
+  p_category_id text,
+  p_commitment text
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.prize_categories%ROWTYPE;
+  v_superseded integer;
+  v_committed_at timestamptz;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can commit draw seeds' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_commitment IS NULL OR p_commitment !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'A seed commitment is the SHA-256 of the seed in lowercase hex';
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; no more draws can be run';
+  END IF;
+
+  SELECT * INTO v_category
+  FROM public.prize_categories
+  WHERE contest_id = p_contest_id AND id = p_category_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prize category % does not exist in this contest', p_category_id;
+  END IF;
+
+  -- A replaced commitment stays on record, so switching seeds is visible afterwards
+  UPDATE public.seed_commitments
+  SET superseded_at = now()
+  WHERE contest_id = p_contest_id AND prize_category = p_category_id
+    AND draw_id IS NULL AND superseded_at IS NULL;
+  GET DIAGNOSTICS v_superseded = ROW_COUNT;
+
+  INSERT INTO public.seed_commitments (contest_id, prize_category, commitment)
+  VALUES (p_contest_id, p_category_id, p_commitment)
+  RETURNING committed_at INTO v_committed_at;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, 'seed_committed', jsonb_build_object(
+    'prizeCategory', p_category_id,
+    'prizeName', v_category.name,
+    'seedCommitment', p_commitment,
+    'supersededCount', v_superseded
+  ));
+
+  RETURN v_committed_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.commit_draw_seed(uuid, text, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.commit_draw_seed(uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.draw_prize(
+  p_contest_id uuid,
+  p_category_id text,
+  p_seed text,
+  p_replaces_winner_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.winners
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.prize_categories%ROWTYPE;
+  v_rules jsonb;
+  v_remaining integer;
+  v_replaced public.winners%ROWTYPE;
+  v_pool_ids integer[];
+  v_pool_hash text;
+  v_draw_id uuid;
+  v_winner_ids integer[] := '{}';
+  v_tickets integer[] := '{}';
+  v_pick integer := 0;
+  v_pool_size bigint;
+  v_value numeric;
+  v_index bigint;
+  v_ticket integer;
+  v_guide_id integer;
+  v_guide public.contest_guides%ROWTYPE;
+  v_counter integer := 0;
+  v_passed_over integer[] := '{}';
+  v_skipped jsonb := '[]'::jsonb;
+  v_reason text;
+  v_commitment public.seed_commitments%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can run draws' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_seed IS NULL OR length(p_seed) = 0 THEN
+    RAISE EXCEPTION 'A draw seed is required';
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; no more draws can be run';
+  END IF;
+
+  SELECT * INTO v_category
+  FROM public.prize_categories
+  WHERE contest_id = p_contest_id AND id = p_category_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prize category % does not exist in this contest', p_category_id;
+  END IF;
+  v_rules := coalesce(v_category.eligibility, '{}'::jsonb);
+
+  IF p_replaces_winner_id IS NOT NULL THEN
+    -- A redraw fills exactly the slot of one voided winner
+    SELECT * INTO v_replaced
+    FROM public.winners
+    WHERE id = p_replaces_winner_id AND contest_id = p_contest_id AND prize_category = p_category_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The winner being replaced is not a % winner of this contest', v_category.name;
+    END IF;
+    IF v_replaced.voided_at IS NULL THEN
+      RAISE EXCEPTION '% has not been voided, so their prize cannot be redrawn', v_replaced.name;
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.winners WHERE replaces_winner_id = p_replaces_winner_id) THEN
+      RAISE EXCEPTION 'The prize voided from % has already been redrawn', v_replaced.name;
+    END IF;
+
+    v_remaining := 1;
+  ELSE
+    -- Slots of voided winners stay reserved for their redraw, so the replacement can be linked
+    v_remaining := v_category.winner_count - (
+      SELECT count(*) FROM public.winners w
+      WHERE w.contest_id = p_contest_id AND w.prize_category = p_category_id
+        AND (
+          w.voided_at IS NULL
+          OR NOT EXISTS (SELECT 1 FROM public.winners r WHERE r.replaces_winner_id = w.id)
+        )
+    );
+    IF v_remaining <= 0 THEN
+      RAISE EXCEPTION 'Prize category % already has all of its winners', v_category.name;
+    END IF;
+  END IF;
+
+  -- The seed must be the one committed to beforehand; a fresh seed chosen now is refused
+  SELECT * INTO v_commitment
+  FROM public.seed_commitments
+  WHERE contest_id = p_contest_id AND prize_category = p_category_id
+    AND draw_id IS NULL AND superseded_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No seed commitment is recorded for %; record it before drawing', v_category.name;
+  END IF;
+  IF v_commitment.commitment <> encode(sha256(convert_to(p_seed, 'UTF8')), 'hex') THEN
+    RAISE EXCEPTION 'The seed does not match the commitment recorded for %', v_category.name;
+  END IF;
+
+  -- Pool: every guide of the contest that has not won yet and meets the category's eligibility
+  -- rules; hashed the same way as hashPool()
+  SELECT
+    array_agg(g.guide_id ORDER BY g.guide_id),
+    encode(sha256(convert_to(string_agg(
+      g.guide_id || ':' || coalesce(
+        (SELECT string_agg(t::text, ',' ORDER BY t) FROM unnest(a.ticket_numbers) AS t),
+        ''
+      ),
+      ';' ORDER BY g.guide_id
+    ), 'UTF8')), 'hex')
+  INTO v_pool_ids, v_pool_hash
+  FROM public.contest_guides g
+  LEFT JOIN public.ticket_assignments a
+    ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+  WHERE g.contest_id = p_contest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.winners w
+      WHERE w.contest_id = p_contest_id AND w.guide_id = g.guide_id
+    )
+    AND public.guide_is_eligible(g, v_rules);
+
+  IF v_pool_ids IS NULL THEN
+    RAISE EXCEPTION 'No eligible guides are left to draw from for %', v_category.name;
+  END IF;
+
+  INSERT INTO public.draws (
+    contest_id, prize_category, seed, seed_commitment, committed_at, algorithm_version,
+    pool_hash, pool_guide_ids, winner_count
+  ) VALUES (
+    p_contest_id, p_category_id, p_seed, v_commitment.commitment, v_commitment.committed_at, 'sha256-ctr-v1',
+    v_pool_hash, v_pool_ids, v_remaining
+  )
+  RETURNING id INTO v_draw_id;
+
+  UPDATE public.seed_commitments SET draw_id = v_draw_id WHERE id = v_commitment.id;
+
+  -- v_counter numbers every seed value used, v_pick only the winners; they drift apart
+  -- whenever a quota passes over a ticket
+  WHILE v_pick < v_remaining LOOP
+    SELECT count(*) INTO v_pool_size
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids))
+      AND NOT (a.guide_id = ANY (v_passed_over));
+
+    EXIT WHEN v_pool_size = 0;
+
+    -- (v * poolSize) >> 48 as in createTicketPicker(); the product stays numeric so it cannot
+    -- overflow, and div() truncates it exactly instead of rounding a fractional quotient
+    v_value := ('x' || substr(encode(sha256(convert_to(p_seed || ':' || v_counter, 'UTF8')), 'hex'), 1, 12))::bit(48)::bigint;
+    v_index := div(v_value * v_pool_size, 281474976710656)::bigint;
+
+    SELECT t, a.guide_id INTO v_ticket, v_guide_id
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids))
+      AND NOT (a.guide_id = ANY (v_passed_over))
+    ORDER BY t
+    OFFSET v_index
+    LIMIT 1;
+
+    SELECT * INTO v_guide
+    FROM public.contest_guides
+    WHERE contest_id = p_contest_id AND guide_id = v_guide_id;
+
+    -- A guide a quota stops is passed over for the rest of this draw
+    v_reason := public.quota_skip_reason(p_contest_id, p_category_id, v_guide);
+    IF v_reason IS NOT NULL THEN
+      v_skipped := v_skipped || jsonb_build_object(
+        'pick', v_counter,
+        'ticket', v_ticket,
+        'guideId', v_guide_id,
+        'name', v_guide.name,
+        'reason', v_reason
+      );
+      v_passed_over := v_passed_over || v_guide_id;
+      v_counter := v_counter + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.winners (
+      contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+      prize_category, prize_name, drawn_ticket, draw_id, ticket_numbers, replaces_winner_id
+    )
+    SELECT
+      p_contest_id, g.guide_id, g.name, g.supervisor, g.department, g.nps, g.nrpc, g.refund_percent, g.total_tickets,
+      p_category_id, v_category.name, v_ticket, v_draw_id,
+      (SELECT array_to_json(array_agg(t ORDER BY t))::text FROM unnest(a.ticket_numbers) AS t),
+      p_replaces_winner_id
+    FROM public.contest_guides g
+    JOIN public.ticket_assignments a
+      ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+    WHERE g.contest_id = p_contest_id AND g.guide_id = v_guide_id;
+
+    v_winner_ids := v_winner_ids || v_guide_id;
+    v_tickets := v_tickets || v_ticket;
+    v_pick := v_pick + 1;
+    v_counter := v_counter + 1;
+  END LOOP;
+
+  IF v_pick = 0 AND jsonb_array_length(v_skipped) > 0 THEN
+    RAISE EXCEPTION 'Every ticket left for % is held back by the quotas: %',
+      v_category.name, v_skipped->-1->>'reason';
+  END IF;
+
+  IF v_pick = 0 THEN
+    RAISE EXCEPTION 'No tickets are left to draw from';
+  END IF;
+
+  UPDATE public.draws SET skipped = v_skipped WHERE id = v_draw_id;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, 'winners_saved', jsonb_build_object(
+    'drawId', v_draw_id,
+    'prizeCategory', p_category_id,
+    'prizeName', v_category.name,
+    'guideIds', to_jsonb(v_winner_ids),
+    'drawnTickets', to_jsonb(v_tickets),
+    'poolHash', v_pool_hash,
+    'replacesWinnerId', p_replaces_winner_id,
+    'eligibility', v_rules,
+    'skipped', v_skipped
+  ));
+
+  RETURN QUERY
+  SELECT w.*
+  FROM public.winners w
+  JOIN unnest(v_tickets) WITH ORDINALITY AS drawn(ticket, position) ON drawn.ticket = w.drawn_ticket
+  WHERE w.draw_id = v_draw_id
+  ORDER BY drawn.position;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_prize(uuid, text, text, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.draw_prize(uuid, text, text, uuid) TO authenticated;
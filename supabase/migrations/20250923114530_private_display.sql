@@ -0,0 +1,29 @@
+/*
+  # Private channel for the big screen display
+
+  The display channel was a public broadcast channel, so anyone holding the anon key could join
+  `draw_display_<contest id>` and send `draw_state` messages of their own to every projector.
+  The channel is now private: Realtime checks these policies on `realtime.messages` when a client
+  joins, so only admins can send on it while anyone, signed in or not, can still receive.
+
+  1. Security
+    - Anyone can receive broadcasts on `draw_display_*` topics
+    - Only admins can send broadcasts on them, which covers both the presenter's `draw_state`
+      messages and the `sync_request` a display sends to catch up; requests from anyone else
+      never reach the presenter
+*/
+
+CREATE POLICY "Anyone can receive draw display broadcasts" ON realtime.messages
+  FOR SELECT TO anon, authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND starts_with(realtime.topic(), 'draw_display_')
+  );
+
+CREATE POLICY "Admins can send draw display broadcasts" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND starts_with(realtime.topic(), 'draw_display_')
+    AND public.is_admin()
+  );
@@ -0,0 +1,14 @@
+/*
+  # NPS range
+
+  NPS is the share of promoters minus the share of detractors, so it runs from -100 to 100.
+  The roster import refused negative scores; it now accepts the full range, and the database
+  checks the same range.
+
+  1. Modified Tables
+    - `contest_guides`
+      - `nps` must be between -100 and 100 (`contest_guides_nps_range`)
+*/
+
+ALTER TABLE public.contest_guides DROP CONSTRAINT IF EXISTS contest_guides_nps_range;
+ALTER TABLE public.contest_guides ADD CONSTRAINT contest_guides_nps_range CHECK (nps BETWEEN -100 AND 100);
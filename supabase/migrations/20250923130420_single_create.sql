@@ -0,0 +1,116 @@
+/*
+  # Create a contest in one step
+
+  Creating a contest inserted the contest, then copied the guides and then the prizes in separate
+  requests. A failure in between left a contest without its pool or prizes. `create_contest` does
+  all of it in one transaction and records the `contest_created` audit event with it.
+
+  1. New Functions
+    - `create_contest(p_name text, p_source_contest_id uuid, p_guides jsonb, p_prizes jsonb)` -
+      creates the contest and returns it
+      - With a source contest: copies its ticket and quota rules, its guide pool and its prize
+        categories that are not retired. The ticket assignment is not copied; it is generated
+        for the new pool
+      - Without one: starts from `p_guides` and `p_prizes` (the bundled roster and prizes, in the
+        app's `Guide` and `PrizeCategory` shapes)
+      - SECURITY INVOKER, so the admin-only RLS policies of every table apply; it also checks
+        `is_admin()` itself for a clear error. Executable by `authenticated` only
+*/
+
+CREATE OR REPLACE FUNCTION public.create_contest(
+  p_name text,
+  p_source_contest_id uuid DEFAULT NULL,
+  p_guides jsonb DEFAULT '[]'::jsonb,
+  p_prizes jsonb DEFAULT '[]'::jsonb
+)
+RETURNS public.contests
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_source public.contests%ROWTYPE;
+  v_contest public.contests%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create contests' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_name IS NULL OR length(trim(p_name)) = 0 THEN
+    RAISE EXCEPTION 'A contest name is required';
+  END IF;
+
+  IF p_source_contest_id IS NOT NULL THEN
+    SELECT * INTO v_source FROM public.contests WHERE id = p_source_contest_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Contest % does not exist', p_source_contest_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.contests (name, ticket_rules, quota_rules)
+  VALUES (p_name, v_source.ticket_rules, v_source.quota_rules)
+  RETURNING * INTO v_contest;
+
+  IF p_source_contest_id IS NOT NULL THEN
+    INSERT INTO public.contest_guides (
+      contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+    )
+    SELECT v_contest.id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+    FROM public.contest_guides
+    WHERE contest_id = p_source_contest_id;
+
+    -- Retired prizes stay with the contest that retired them
+    INSERT INTO public.prize_categories (
+      contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds,
+      sort_order, eligibility
+    )
+    SELECT
+      v_contest.id, id, name, description, winner_count, image, gradient, icon, countdown_seconds,
+      (row_number() OVER (ORDER BY sort_order, created_at))::int - 1, eligibility
+    FROM public.prize_categories
+    WHERE contest_id = p_source_contest_id AND retired_at IS NULL;
+  ELSE
+    INSERT INTO public.contest_guides (
+      contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+    )
+    SELECT
+      v_contest.id,
+      (guide->>'id')::int,
+      guide->>'name',
+      guide->>'supervisor',
+      guide->>'department',
+      (guide->>'nps')::numeric,
+      (guide->>'nrpc')::numeric,
+      (guide->>'refundPercent')::numeric,
+      (guide->>'totalTickets')::int
+    FROM jsonb_array_elements(coalesce(p_guides, '[]'::jsonb)) AS guide;
+
+    INSERT INTO public.prize_categories (
+      contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds,
+      sort_order, eligibility
+    )
+    SELECT
+      v_contest.id,
+      prize->>'id',
+      prize->>'name',
+      coalesce(prize->>'description', ''),
+      (prize->>'winnerCount')::int,
+      coalesce(prize->>'image', ''),
+      prize->>'gradient',
+      prize->>'icon',
+      coalesce((prize->>'countdownSeconds')::int, 10),
+      (position - 1)::int,
+      nullif(prize->'eligibility', 'null'::jsonb)
+    FROM jsonb_array_elements(coalesce(p_prizes, '[]'::jsonb)) WITH ORDINALITY AS prizes(prize, position);
+  END IF;
+
+  PERFORM public.log_audit_event(v_contest.id, 'contest_created', jsonb_build_object(
+    'name', v_contest.name,
+    'sourceContestId', p_source_contest_id
+  ));
+
+  RETURN v_contest;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_contest(text, uuid, jsonb, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.create_contest(text, uuid, jsonb, jsonb) TO authenticated;
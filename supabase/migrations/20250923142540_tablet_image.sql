@@ -0,0 +1,13 @@
+/*
+  # Local image for the tablets prize
+
+  The bundled tablets prize lost its external image and was seeded with none. It now ships with
+  `/prizes/tablet.svg` like the other default prizes.
+
+  1. Data
+    - `prize_categories`: tablets categories still without an image get `/prizes/tablet.svg`
+*/
+
+UPDATE public.prize_categories
+SET image = '/prizes/tablet.svg'
+WHERE id = 'tablets' AND image = '';
@@ -0,0 +1,387 @@
+/*
+  # Server salt in every draw seed
+
+  The operator chose the seed in the browser and the pool was known before the commitment, so
+  seeds could be tried locally until the wanted guide won and only then committed. The database
+  now adds a random salt of its own when the commitment is recorded. The salt stays hidden until
+  the draw, and the draw picks its tickets from `seed:salt`, so no seed can be tried in advance.
+
+  1. Modified Tables
+    - `seed_commitments`
+      - Add `server_salt` (text) - 32 random hex characters drawn by `commit_draw_seed`; null on
+        offline commitments and on commitments recorded before this migration. Not readable by
+        clients until the draw publishes it
+      - Add `offline` (boolean) - recorded for a draw that already ran offline and is replayed now
+    - `draws`
+      - Add `server_salt` (text) - the salt mixed into the seed; null on offline replays and
+        older draws, which used the seed alone
+
+  2. Modified Functions
+    - `commit_draw_seed(p_contest_id, p_category_id, p_commitment, p_offline boolean)`
+      - New `p_offline` (default false): the draw already ran offline on the seed alone, so no
+        salt is added and replaying it gives the same winners. The audit event records the flag
+      - The three-argument version is dropped, so existing calls keep working unchanged
+    - `draw_prize` picks its tickets from `seed:salt` when the commitment has a salt, as
+      `drawSeed()` in `src/utils/ticketSystem.ts` does, and records the salt on the draw
+    - `log_audit_event` refuses `seed_committed`: only `commit_draw_seed` records those
+
+  3. Security
+    - `anon` and `authenticated` can read every column of `seed_commitments` except `server_salt`
+*/
+
+ALTER TABLE public.seed_commitments ADD COLUMN IF NOT EXISTS server_salt text;
+ALTER TABLE public.seed_commitments ADD COLUMN IF NOT EXISTS offline boolean NOT NULL DEFAULT false;
+ALTER TABLE public.draws ADD COLUMN IF NOT EXISTS server_salt text;
+
+-- Row level security still decides which rows; the column list keeps the salt out of them
+REVOKE SELECT ON public.seed_commitments FROM anon, authenticated;
+GRANT SELECT (id, contest_id, prize_category, commitment, committed_at, superseded_at, draw_id, offline)
+  ON public.seed_commitments TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.commit_draw_seed(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.commit_draw_seed(
+  p_contest_id uuid,
+  p_category_id text,
+  p_commitment text,
+  p_offline boolean DEFAULT false
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.prize_categories%ROWTYPE;
+  v_superseded integer;
+  v_committed_at timestamptz;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can commit draw seeds' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_commitment IS NULL OR p_commitment !~ '^[0-9a-f]{64}$' THEN
+    RAISE EXCEPTION 'A seed commitment is the SHA-256 of the seed in lowercase hex';
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; no more draws can be run';
+  END IF;
+
+  SELECT * INTO v_category
+  FROM public.prize_categories
+  WHERE contest_id = p_contest_id AND id = p_category_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prize category % does not exist in this contest', p_category_id;
+  END IF;
+
+  -- A replaced commitment stays on record, so switching seeds is visible afterwards
+  UPDATE public.seed_commitments
+  SET superseded_at = now()
+  WHERE contest_id = p_contest_id AND prize_category = p_category_id
+    AND draw_id IS NULL AND superseded_at IS NULL;
+  GET DIAGNOSTICS v_superseded = ROW_COUNT;
+
+  -- An offline draw has already been shown in the room, so its seed has to stand alone
+  INSERT INTO public.seed_commitments (contest_id, prize_category, commitment, server_salt, offline)
+  VALUES (
+    p_contest_id, p_category_id, p_commitment,
+    CASE WHEN p_offline THEN NULL ELSE replace(gen_random_uuid()::text, '-', '') END,
+    p_offline
+  )
+  RETURNING committed_at INTO v_committed_at;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, 'seed_committed', jsonb_build_object(
+    'prizeCategory', p_category_id,
+    'prizeName', v_category.name,
+    'seedCommitment', p_commitment,
+    'supersededCount', v_superseded,
+    'offline', p_offline
+  ));
+
+  RETURN v_committed_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.commit_draw_seed(uuid, text, text, boolean) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.commit_draw_seed(uuid, text, text, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.log_audit_event(p_contest_id uuid, p_event_type text, p_payload jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record audit events' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_event_type IN (
+    'winners_saved', 'winners_purged', 'winners_archived', 'winners_restored', 'winner_voided', 'seed_committed'
+  ) THEN
+    RAISE EXCEPTION '% events are recorded by the database itself', p_event_type;
+  END IF;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, p_event_type, coalesce(p_payload, '{}'::jsonb))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.draw_prize(
+  p_contest_id uuid,
+  p_category_id text,
+  p_seed text,
+  p_replaces_winner_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.winners
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category public.prize_categories%ROWTYPE;
+  v_rules jsonb;
+  v_remaining integer;
+  v_replaced public.winners%ROWTYPE;
+  v_pool_ids integer[];
+  v_pool_hash text;
+  v_draw_id uuid;
+  v_winner_ids integer[] := '{}';
+  v_tickets integer[] := '{}';
+  v_pick integer := 0;
+  v_pool_size bigint;
+  v_value numeric;
+  v_index bigint;
+  v_ticket integer;
+  v_guide_id integer;
+  v_guide public.contest_guides%ROWTYPE;
+  v_counter integer := 0;
+  v_passed_over integer[] := '{}';
+  v_skipped jsonb := '[]'::jsonb;
+  v_reason text;
+  v_commitment public.seed_commitments%ROWTYPE;
+  v_seed text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can run draws' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_seed IS NULL OR length(p_seed) = 0 THEN
+    RAISE EXCEPTION 'A draw seed is required';
+  END IF;
+
+  PERFORM 1 FROM public.contests WHERE id = p_contest_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contest % does not exist', p_contest_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contests WHERE id = p_contest_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Contest is completed; no more draws can be run';
+  END IF;
+
+  SELECT * INTO v_category
+  FROM public.prize_categories
+  WHERE contest_id = p_contest_id AND id = p_category_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prize category % does not exist in this contest', p_category_id;
+  END IF;
+  v_rules := coalesce(v_category.eligibility, '{}'::jsonb);
+
+  IF p_replaces_winner_id IS NOT NULL THEN
+    -- A redraw fills exactly the slot of one voided winner
+    SELECT * INTO v_replaced
+    FROM public.winners
+    WHERE id = p_replaces_winner_id AND contest_id = p_contest_id AND prize_category = p_category_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The winner being replaced is not a % winner of this contest', v_category.name;
+    END IF;
+    IF v_replaced.voided_at IS NULL THEN
+      RAISE EXCEPTION '% has not been voided, so their prize cannot be redrawn', v_replaced.name;
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.winners WHERE replaces_winner_id = p_replaces_winner_id) THEN
+      RAISE EXCEPTION 'The prize voided from % has already been redrawn', v_replaced.name;
+    END IF;
+
+    v_remaining := 1;
+  ELSE
+    -- Slots of voided winners stay reserved for their redraw, so the replacement can be linked
+    v_remaining := v_category.winner_count - (
+      SELECT count(*) FROM public.winners w
+      WHERE w.contest_id = p_contest_id AND w.prize_category = p_category_id
+        AND (
+          w.voided_at IS NULL
+          OR NOT EXISTS (SELECT 1 FROM public.winners r WHERE r.replaces_winner_id = w.id)
+        )
+    );
+    IF v_remaining <= 0 THEN
+      RAISE EXCEPTION 'Prize category % already has all of its winners', v_category.name;
+    END IF;
+  END IF;
+
+  -- The seed must be the one committed to beforehand; a fresh seed chosen now is refused
+  SELECT * INTO v_commitment
+  FROM public.seed_commitments
+  WHERE contest_id = p_contest_id AND prize_category = p_category_id
+    AND draw_id IS NULL AND superseded_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No seed commitment is recorded for %; record it before drawing', v_category.name;
+  END IF;
+  IF v_commitment.commitment <> encode(sha256(convert_to(p_seed, 'UTF8')), 'hex') THEN
+    RAISE EXCEPTION 'The seed does not match the commitment recorded for %', v_category.name;
+  END IF;
+
+  -- The tickets come from the seed and the salt drawn when it was committed, which nobody saw
+  -- until now; offline replays and older commitments have no salt and use the seed alone
+  v_seed := CASE WHEN v_commitment.server_salt IS NULL THEN p_seed ELSE p_seed || ':' || v_commitment.server_salt END;
+
+  -- Pool: every guide of the contest that has not won yet and meets the category's eligibility
+  -- rules; hashed the same way as hashPool()
+  SELECT
+    array_agg(g.guide_id ORDER BY g.guide_id),
+    encode(sha256(convert_to(string_agg(
+      g.guide_id || ':' || coalesce(
+        (SELECT string_agg(t::text, ',' ORDER BY t) FROM unnest(a.ticket_numbers) AS t),
+        ''
+      ),
+      ';' ORDER BY g.guide_id
+    ), 'UTF8')), 'hex')
+  INTO v_pool_ids, v_pool_hash
+  FROM public.contest_guides g
+  LEFT JOIN public.ticket_assignments a
+    ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+  WHERE g.contest_id = p_contest_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.winners w
+      WHERE w.contest_id = p_contest_id AND w.guide_id = g.guide_id
+    )
+    AND public.guide_is_eligible(g, v_rules);
+
+  IF v_pool_ids IS NULL THEN
+    RAISE EXCEPTION 'No eligible guides are left to draw from for %', v_category.name;
+  END IF;
+
+  INSERT INTO public.draws (
+    contest_id, prize_category, seed, seed_commitment, committed_at, server_salt, algorithm_version,
+    pool_hash, pool_guide_ids, winner_count
+  ) VALUES (
+    p_contest_id, p_category_id, p_seed, v_commitment.commitment, v_commitment.committed_at, v_commitment.server_salt,
+    'sha256-ctr-v1', v_pool_hash, v_pool_ids, v_remaining
+  )
+  RETURNING id INTO v_draw_id;
+
+  UPDATE public.seed_commitments SET draw_id = v_draw_id WHERE id = v_commitment.id;
+
+  -- v_counter numbers every seed value used, v_pick only the winners; they drift apart
+  -- whenever a quota passes over a ticket
+  WHILE v_pick < v_remaining LOOP
+    SELECT count(*) INTO v_pool_size
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids))
+      AND NOT (a.guide_id = ANY (v_passed_over));
+
+    EXIT WHEN v_pool_size = 0;
+
+    -- (v * poolSize) >> 48 as in createTicketPicker(); the product stays numeric so it cannot
+    -- overflow, and div() truncates it exactly instead of rounding a fractional quotient
+    v_value := ('x' || substr(encode(sha256(convert_to(v_seed || ':' || v_counter, 'UTF8')), 'hex'), 1, 12))::bit(48)::bigint;
+    v_index := div(v_value * v_pool_size, 281474976710656)::bigint;
+
+    SELECT t, a.guide_id INTO v_ticket, v_guide_id
+    FROM public.ticket_assignments a, unnest(a.ticket_numbers) AS t
+    WHERE a.contest_id = p_contest_id
+      AND a.guide_id = ANY (v_pool_ids)
+      AND NOT (a.guide_id = ANY (v_winner_ids))
+      AND NOT (a.guide_id = ANY (v_passed_over))
+    ORDER BY t
+    OFFSET v_index
+    LIMIT 1;
+
+    SELECT * INTO v_guide
+    FROM public.contest_guides
+    WHERE contest_id = p_contest_id AND guide_id = v_guide_id;
+
+    -- A guide a quota stops is passed over for the rest of this draw
+    v_reason := public.quota_skip_reason(p_contest_id, p_category_id, v_guide, p_replaces_winner_id);
+    IF v_reason IS NOT NULL THEN
+      v_skipped := v_skipped || jsonb_build_object(
+        'pick', v_counter,
+        'ticket', v_ticket,
+        'guideId', v_guide_id,
+        'name', v_guide.name,
+        'reason', v_reason
+      );
+      v_passed_over := v_passed_over || v_guide_id;
+      v_counter := v_counter + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.winners (
+      contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+      prize_category, prize_name, drawn_ticket, draw_id, ticket_numbers, replaces_winner_id
+    )
+    SELECT
+      p_contest_id, g.guide_id, g.name, g.supervisor, g.department, g.nps, g.nrpc, g.refund_percent, g.total_tickets,
+      p_category_id, v_category.name, v_ticket, v_draw_id,
+      (SELECT array_to_json(array_agg(t ORDER BY t))::text FROM unnest(a.ticket_numbers) AS t),
+      p_replaces_winner_id
+    FROM public.contest_guides g
+    JOIN public.ticket_assignments a
+      ON a.contest_id = g.contest_id AND a.guide_id = g.guide_id
+    WHERE g.contest_id = p_contest_id AND g.guide_id = v_guide_id;
+
+    v_winner_ids := v_winner_ids || v_guide_id;
+    v_tickets := v_tickets || v_ticket;
+    v_pick := v_pick + 1;
+    v_counter := v_counter + 1;
+  END LOOP;
+
+  IF v_pick = 0 AND jsonb_array_length(v_skipped) > 0 THEN
+    RAISE EXCEPTION 'Every ticket left for % is held back by the quotas: %',
+      v_category.name, v_skipped->-1->>'reason';
+  END IF;
+
+  IF v_pick = 0 THEN
+    RAISE EXCEPTION 'No tickets are left to draw from';
+  END IF;
+
+  UPDATE public.draws SET skipped = v_skipped WHERE id = v_draw_id;
+
+  INSERT INTO public.audit_events (contest_id, event_type, payload)
+  VALUES (p_contest_id, 'winners_saved', jsonb_build_object(
+    'drawId', v_draw_id,
+    'prizeCategory', p_category_id,
+    'prizeName', v_category.name,
+    'guideIds', to_jsonb(v_winner_ids),
+    'drawnTickets', to_jsonb(v_tickets),
+    'poolHash', v_pool_hash,
+    'replacesWinnerId', p_replaces_winner_id,
+    'eligibility', v_rules,
+    'skipped', v_skipped
+  ));
+
+  RETURN QUERY
+  SELECT w.*
+  FROM public.winners w
+  JOIN unnest(v_tickets) WITH ORDINALITY AS drawn(ticket, position) ON drawn.ticket = w.drawn_ticket
+  WHERE w.draw_id = v_draw_id
+  ORDER BY drawn.position;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_prize(uuid, text, text, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.draw_prize(uuid, text, text, uuid) TO authenticated;
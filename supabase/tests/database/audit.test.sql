@@ -0,0 +1,111 @@
+-- Audit log: events are stamped with the caller, only admins can record them,
+-- archives record themselves, and nobody can rewrite the history.
+-- Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a5', 'audit-admin@example.com'),
+  ('00000000-0000-0000-0000-0000000000b5', 'audit-viewer@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a5', 'admin');
+
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c5', 'Audit test contest');
+
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets, prize_category, prize_name, drawn_ticket
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c5', 1, 'Fixture Winner', 'S', 'IM', 80, 10, 0, 10, 'bigDollar', 'Big Dollar', 7
+);
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.log_audit_event('00000000-0000-0000-0000-0000000000c5', 'draw_started', '{}') $$,
+  '42501', NULL, 'anon cannot record audit events'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b5", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.log_audit_event('00000000-0000-0000-0000-0000000000c5', 'draw_started', '{}') $$,
+  '42501', NULL, 'viewers cannot record audit events'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.audit_events (contest_id, event_type) VALUES ('00000000-0000-0000-0000-0000000000c5', 'draw_started') $$,
+  '42501', NULL, 'audit events cannot be inserted directly'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-0000000000a5", "role": "authenticated", "email": "audit-admin@example.com"}',
+  true
+);
+
+SELECT lives_ok(
+  $$ SELECT public.log_audit_event('00000000-0000-0000-0000-0000000000c5', 'draw_started', '{"prizeCategory": "bigDollar"}') $$,
+  'admins can record audit events'
+);
+SELECT results_eq(
+  $$ SELECT actor_id, actor_email FROM public.audit_events
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c5' AND event_type = 'draw_started' $$,
+  $$ VALUES ('00000000-0000-0000-0000-0000000000a5'::uuid, 'audit-admin@example.com'::text) $$,
+  'events are stamped with the caller from the JWT'
+);
+SELECT throws_like(
+  $$ SELECT public.log_audit_event('00000000-0000-0000-0000-0000000000c5', 'winners_saved', '{}') $$,
+  '%recorded by the database itself%',
+  'clients cannot forge winners_saved events'
+);
+SELECT throws_like(
+  $$ SELECT public.log_audit_event('00000000-0000-0000-0000-0000000000c5', 'seed_committed', '{}') $$,
+  '%recorded by the database itself%',
+  'clients cannot forge seed commitments'
+);
+SELECT throws_ok(
+  $$ SELECT public.log_audit_event('00000000-0000-0000-0000-0000000000c5', 'made_up', '{}') $$,
+  '23514', NULL, 'unknown event types are rejected'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.archive_winners('00000000-0000-0000-0000-0000000000c5', 'Before re-draw') $$,
+  'admin can archive the winners'
+);
+SELECT results_eq(
+  $$ SELECT (payload->>'winnerCount')::int, payload->>'snapshotName'
+     FROM public.audit_events
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c5' AND event_type = 'winners_archived' $$,
+  $$ VALUES (1, 'Before re-draw'::text) $$,
+  'the archive records the snapshot it created'
+);
+
+RESET ROLE;
+
+-- Even the table owner cannot rewrite the history
+SELECT throws_like(
+  $$ UPDATE public.audit_events SET event_type = 'draw_aborted' WHERE contest_id = '00000000-0000-0000-0000-0000000000c5' $$,
+  '%append-only%',
+  'audit events cannot be updated'
+);
+SELECT throws_like(
+  $$ DELETE FROM public.audit_events WHERE contest_id = '00000000-0000-0000-0000-0000000000c5' $$,
+  '%append-only%',
+  'audit events cannot be deleted'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
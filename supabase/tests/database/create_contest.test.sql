@@ -0,0 +1,105 @@
+-- create_contest: only admins can create contests, and a new contest gets its pool, prizes and
+-- rules in the same transaction, from the source contest or from the bundled defaults.
+-- Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000ac', 'create-admin@example.com'),
+  ('00000000-0000-0000-0000-0000000000bc', 'create-viewer@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000ac', 'admin');
+
+INSERT INTO public.contests (id, name, quota_rules) VALUES
+  ('00000000-0000-0000-0000-0000000000cc', 'Create test source', '{"departments": [], "tierCaps": []}');
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000cc', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 3),
+  ('00000000-0000-0000-0000-0000000000cc', 2, 'Guide Two', 'S', 'IM', 80, 10, 0, 2);
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order, retired_at
+) VALUES
+  ('00000000-0000-0000-0000-0000000000cc', 'retired', 'Retired', '', 1, '', '', '', 10, 0, now()),
+  ('00000000-0000-0000-0000-0000000000cc', 'active', 'Active', '', 2, '', '', '', 10, 1, NULL);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000cc', 1, '{1,3,5}'),
+  ('00000000-0000-0000-0000-0000000000cc', 2, '{2,4}');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000bc", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.create_contest('Viewer contest') $$,
+  '42501', NULL, 'viewer cannot create a contest'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000ac", "role": "authenticated"}', true);
+
+SELECT public.create_contest('Copied contest', '00000000-0000-0000-0000-0000000000cc');
+
+SELECT results_eq(
+  $$ SELECT quota_rules FROM public.contests WHERE name = 'Copied contest' $$,
+  $$ VALUES ('{"departments": [], "tierCaps": []}'::jsonb) $$,
+  'the rules are copied from the source contest'
+);
+
+SELECT results_eq(
+  $$ SELECT guide_id FROM public.contest_guides WHERE contest_id = (SELECT id FROM public.contests WHERE name = 'Copied contest') ORDER BY guide_id $$,
+  ARRAY[1, 2],
+  'the guide pool is copied'
+);
+
+SELECT results_eq(
+  $$ SELECT id, sort_order FROM public.prize_categories WHERE contest_id = (SELECT id FROM public.contests WHERE name = 'Copied contest') $$,
+  $$ VALUES ('active'::text, 0) $$,
+  'only the prizes that are not retired are copied, in order'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.ticket_assignments WHERE contest_id = (SELECT id FROM public.contests WHERE name = 'Copied contest') $$,
+  'the ticket assignment is not copied'
+);
+
+SELECT results_eq(
+  $$ SELECT payload->>'sourceContestId' FROM public.audit_events
+     WHERE contest_id = (SELECT id FROM public.contests WHERE name = 'Copied contest') AND event_type = 'contest_created' $$,
+  ARRAY['00000000-0000-0000-0000-0000000000cc'],
+  'the contest_created event is recorded with the contest'
+);
+
+SELECT results_eq(
+  $$ SELECT (SELECT count(*)::int FROM public.contest_guides g WHERE g.contest_id = c.id),
+            (SELECT count(*)::int FROM public.prize_categories p WHERE p.contest_id = c.id)
+     FROM public.create_contest(
+       'Default contest',
+       NULL,
+       '[{"id": 7, "name": "Guide Seven", "supervisor": "S", "department": "IM", "nps": -20, "nrpc": 10, "refundPercent": 0, "totalTickets": 4}]',
+       '[{"id": "bigDollar", "name": "Big Dollar", "description": "", "winnerCount": 1, "image": "", "gradient": "", "icon": "", "countdownSeconds": 10}]'
+     ) c $$,
+  $$ VALUES (1, 1) $$,
+  'without a source the contest starts from the given roster and prizes'
+);
+
+SELECT throws_like(
+  $$ SELECT public.create_contest('Broken contest', NULL, '[{"id": 8, "name": "No tickets"}]') $$,
+  '%violates not-null constraint%',
+  'a roster row that cannot be stored fails the whole call'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,70 @@
+-- The big screen display channel: anyone can receive its broadcasts, only admins can send on it.
+-- Realtime runs these policies when a client joins a private channel. Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000ab', 'display-admin@example.com'),
+  ('00000000-0000-0000-0000-0000000000bb', 'display-viewer@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000ab', 'admin');
+
+INSERT INTO realtime.messages (topic, extension, event, payload) VALUES
+  ('draw_display_00000000-0000-0000-0000-0000000000cb', 'broadcast', 'draw_state', '{"phase": "standings"}');
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+SELECT set_config('realtime.topic', 'draw_display_00000000-0000-0000-0000-0000000000cb', true);
+
+SELECT results_eq(
+  $$ SELECT count(*)::int FROM realtime.messages WHERE topic = 'draw_display_00000000-0000-0000-0000-0000000000cb' $$,
+  ARRAY[1],
+  'anon can receive display broadcasts'
+);
+SELECT throws_ok(
+  $$ INSERT INTO realtime.messages (topic, extension, event, payload)
+     VALUES ('draw_display_00000000-0000-0000-0000-0000000000cb', 'broadcast', 'draw_state', '{"phase": "ready"}') $$,
+  '42501', NULL, 'anon cannot send display broadcasts'
+);
+
+SELECT set_config('realtime.topic', 'other_channel', true);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM realtime.messages WHERE topic = 'draw_display_00000000-0000-0000-0000-0000000000cb' $$,
+  'the policies only open draw_display topics'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000bb", "role": "authenticated"}', true);
+SELECT set_config('realtime.topic', 'draw_display_00000000-0000-0000-0000-0000000000cb', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO realtime.messages (topic, extension, event, payload)
+     VALUES ('draw_display_00000000-0000-0000-0000-0000000000cb', 'broadcast', 'sync_request', '{}') $$,
+  '42501', NULL, 'viewers cannot send display broadcasts'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000ab", "role": "authenticated"}', true);
+SELECT set_config('realtime.topic', 'draw_display_00000000-0000-0000-0000-0000000000cb', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO realtime.messages (topic, extension, event, payload)
+     VALUES ('draw_display_00000000-0000-0000-0000-0000000000cb', 'broadcast', 'draw_state', '{"phase": "ready"}') $$,
+  'admins can send display broadcasts'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
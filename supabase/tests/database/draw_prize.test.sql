@@ -0,0 +1,162 @@
+-- draw_prize: only admins can draw, only with the seed committed to beforehand, and the database
+-- picks the same tickets as drawRandomTickets() in src/utils/ticketSystem.ts for the same pool and seed.
+-- Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a2', 'draw-admin@example.com'),
+  ('00000000-0000-0000-0000-0000000000b2', 'draw-viewer@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a2', 'admin');
+
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c2', 'Draw test contest');
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c2', 'bigDollar', 'Big Dollar', 'Test prize', 2, '', '', '', 10, 0),
+  ('00000000-0000-0000-0000-0000000000c2', 'smallDollar', 'Small Dollar', 'Test prize', 1, '', '', '', 10, 1);
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c2', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 3),
+  ('00000000-0000-0000-0000-0000000000c2', 2, 'Guide Two', 'S', 'IM', 80, 10, 0, 2),
+  ('00000000-0000-0000-0000-0000000000c2', 3, 'Guide Three', 'S', 'IM', 80, 10, 0, 4);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000c2', 1, '{7,1,4}'),
+  ('00000000-0000-0000-0000-0000000000c2', 2, '{2,5}'),
+  ('00000000-0000-0000-0000-0000000000c2', 3, '{9,3,6,8}');
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c2', 'bigDollar', 'replay-check') $$,
+  '42501', NULL, 'anon cannot draw'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b2", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c2', 'bigDollar', 'replay-check') $$,
+  '42501', NULL, 'viewer cannot draw'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c2', 'bigDollar', encode(sha256(convert_to('replay-check', 'UTF8')), 'hex')) $$,
+  '42501', NULL, 'viewer cannot commit a seed'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c2', 'bigDollar', 'replay-check') $$,
+  '%No seed commitment is recorded%',
+  'a draw without a commitment is refused'
+);
+
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c2', 'bigDollar', encode(sha256(convert_to('first-seed', 'UTF8')), 'hex'));
+
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c2', 'bigDollar', 'replay-check') $$,
+  '%does not match the commitment%',
+  'a seed other than the committed one is refused'
+);
+
+-- Committed as an offline replay would be, so no server salt is added and the tickets can be pinned
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c2', 'bigDollar', encode(sha256(convert_to('replay-check', 'UTF8')), 'hex'), true);
+
+-- Expected values come from drawRandomTickets(pool, 2, 'replay-check') in the browser engine
+SELECT results_eq(
+  $$ SELECT guide_id, drawn_ticket FROM public.draw_prize('00000000-0000-0000-0000-0000000000c2', 'bigDollar', 'replay-check') $$,
+  $$ VALUES (1, 4), (3, 9) $$,
+  'draw_prize picks the same tickets as the browser engine'
+);
+
+SELECT results_eq(
+  $$ SELECT ticket_numbers FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c2' AND guide_id = 1 $$,
+  ARRAY['[1,4,7]'],
+  'winner rows keep a snapshot of the sorted tickets'
+);
+
+SELECT results_eq(
+  $$ SELECT pool_hash, seed_commitment, pool_guide_ids, winner_count
+     FROM public.draws WHERE contest_id = '00000000-0000-0000-0000-0000000000c2' $$,
+  $$ VALUES (
+    '8ead121063da6a4b685fe1cbd331348ead4b75497ce94bcc3997d2886af0b377'::text,
+    '4c1c23b5fbe94358ac86f7e9eb315ff671914ded7bedb0a43d8b17795fc49a96'::text,
+    '{1,2,3}'::integer[],
+    2
+  ) $$,
+  'the draw record matches hashPool() and seedCommitment()'
+);
+
+SELECT results_eq(
+  $$ SELECT count(DISTINCT draw_id)::int FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c2' $$,
+  ARRAY[1],
+  'both winners are linked to the recorded draw'
+);
+
+SELECT results_eq(
+  $$ SELECT superseded_at IS NOT NULL, draw_id IS NOT NULL FROM public.seed_commitments
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c2' ORDER BY draw_id NULLS FIRST $$,
+  $$ VALUES (true, false), (false, true) $$,
+  'the replaced commitment stays on record and the used one is linked to the draw'
+);
+
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c2', 'bigDollar', 'another-seed') $$,
+  '%already has all of its winners%',
+  'a full category cannot be drawn again'
+);
+
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c2', 'missing', 'another-seed') $$,
+  '%does not exist in this contest%',
+  'unknown categories are rejected'
+);
+
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c2', 'smallDollar', encode(sha256(convert_to('salted-seed', 'UTF8')), 'hex'));
+
+SELECT throws_ok(
+  $$ SELECT server_salt FROM public.seed_commitments WHERE contest_id = '00000000-0000-0000-0000-0000000000c2' $$,
+  '42501', NULL, 'the server salt cannot be read before the draw'
+);
+
+SELECT lives_ok(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c2', 'smallDollar', 'salted-seed') $$,
+  'an online commitment can be drawn'
+);
+
+SELECT results_eq(
+  $$ SELECT prize_category, coalesce(server_salt ~ '^[0-9a-f]{32}$', false) FROM public.draws
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c2' ORDER BY prize_category $$,
+  $$ VALUES ('bigDollar'::text, false), ('smallDollar'::text, true) $$,
+  'the draw publishes the salt of an online commitment; an offline one has none'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM public.draws WHERE contest_id = '00000000-0000-0000-0000-0000000000c2' RETURNING id $$,
+  'recorded draws cannot be deleted'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,107 @@
+-- Eligibility rules: a prize category only draws from guides in its departments and
+-- supervisors, above its NPS floor, under its refund ceiling and, when asked, who did not
+-- win in an earlier contest. Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a9', 'eligibility-admin@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a9', 'admin');
+
+INSERT INTO public.contests (id, name, created_at) VALUES
+  ('00000000-0000-0000-0000-0000000000d9', 'Last quarter', now() - interval '90 days'),
+  ('00000000-0000-0000-0000-0000000000c9', 'This quarter', now());
+
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets, prize_category, prize_name
+) VALUES (
+  '00000000-0000-0000-0000-0000000000d9', 4, 'Guide Four', 'Ann', 'IM', 90, 10, 1, 1, NULL, 'Old prize'
+);
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order, eligibility
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c9', 'gold', 'Gold', 'Test prize', 2, '', '', '', 10, 0,
+  '{"departments": ["IM"], "supervisors": [], "minNps": 85, "maxRefundPercent": 5, "allowPastWinners": false}'
+);
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c9', 1, 'Guide One', 'Ann', 'IM', 90, 10, 1, 2),
+  ('00000000-0000-0000-0000-0000000000c9', 2, 'Guide Two', 'Ann', 'CS', 95, 10, 1, 2),
+  ('00000000-0000-0000-0000-0000000000c9', 3, 'Guide Three', 'Bob', 'IM', 70, 10, 1, 2),
+  ('00000000-0000-0000-0000-0000000000c9', 4, 'Guide Four', 'Ann', 'IM', 90, 10, 1, 2),
+  ('00000000-0000-0000-0000-0000000000c9', 5, 'Guide Five', 'Ann', 'IM', 90, 10, 9, 2);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000c9', 1, '{1,6}'),
+  ('00000000-0000-0000-0000-0000000000c9', 2, '{2,7}'),
+  ('00000000-0000-0000-0000-0000000000c9', 3, '{3,8}'),
+  ('00000000-0000-0000-0000-0000000000c9', 4, '{4,9}'),
+  ('00000000-0000-0000-0000-0000000000c9', 5, '{5,10}');
+
+SELECT results_eq(
+  $$ SELECT g.guide_id FROM public.contest_guides g
+     WHERE g.contest_id = '00000000-0000-0000-0000-0000000000c9' AND public.guide_is_eligible(g, '{}')
+     ORDER BY g.guide_id $$,
+  ARRAY[1, 2, 3, 4, 5],
+  'empty rules allow every guide'
+);
+SELECT results_eq(
+  $$ SELECT g.guide_id FROM public.contest_guides g
+     WHERE g.contest_id = '00000000-0000-0000-0000-0000000000c9' AND public.guide_is_eligible(g, '{"supervisors": ["Bob"]}')
+     ORDER BY g.guide_id $$,
+  ARRAY[3],
+  'supervisor rules keep other teams out'
+);
+SELECT results_eq(
+  $$ SELECT g.guide_id FROM public.contest_guides g
+     WHERE g.contest_id = '00000000-0000-0000-0000-0000000000c9'
+       AND public.guide_is_eligible(g, '{"departments": ["IM"], "minNps": 85, "maxRefundPercent": 5, "allowPastWinners": true}')
+     ORDER BY g.guide_id $$,
+  ARRAY[1, 4],
+  'department, NPS and refund rules are applied together'
+);
+SELECT results_eq(
+  $$ SELECT g.guide_id FROM public.contest_guides g
+     WHERE g.contest_id = '00000000-0000-0000-0000-0000000000c9'
+       AND public.guide_is_eligible(g, (SELECT eligibility FROM public.prize_categories WHERE id = 'gold'))
+     ORDER BY g.guide_id $$,
+  ARRAY[1],
+  'winners of earlier contests are left out when past winners are not allowed'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a9", "role": "authenticated"}', true);
+
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c9', 'gold', encode(sha256(convert_to('replay-check', 'UTF8')), 'hex'));
+SELECT results_eq(
+  $$ SELECT guide_id FROM public.draw_prize('00000000-0000-0000-0000-0000000000c9', 'gold', 'replay-check') $$,
+  ARRAY[1],
+  'the draw only picks eligible guides, even with slots left over'
+);
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c9', 'gold', encode(sha256(convert_to('another-seed', 'UTF8')), 'hex'));
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c9', 'gold', 'another-seed') $$,
+  '%No eligible guides%',
+  'a category with no eligible guides left cannot be drawn'
+);
+SELECT results_eq(
+  $$ SELECT (payload->'eligibility'->>'minNps')::int FROM public.audit_events
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c9' AND event_type = 'winners_saved' $$,
+  ARRAY[85],
+  'the applied rules are recorded with the saved winners'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
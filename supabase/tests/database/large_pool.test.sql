@@ -0,0 +1,53 @@
+-- draw_prize on a pool of 60,000 tickets: the ticket index is worked out with integer arithmetic,
+-- so the database still lands on the same tickets as drawRandomTickets() in src/utils/ticketSystem.ts.
+-- Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(1);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a9', 'large-pool-admin@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a9', 'admin');
+
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c9', 'Large pool contest');
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c9', 'bigDollar', 'Big Dollar', 'Test prize', 2, '', '', '', 10, 0
+);
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c9', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 30000),
+  ('00000000-0000-0000-0000-0000000000c9', 2, 'Guide Two', 'S', 'IM', 80, 10, 0, 30000);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000c9', 1, ARRAY(SELECT generate_series(1, 30000))),
+  ('00000000-0000-0000-0000-0000000000c9', 2, ARRAY(SELECT generate_series(30001, 60000)));
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a9", "role": "authenticated"}', true);
+
+-- Offline, so no server salt is mixed in and the seed alone picks the tickets
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c9', 'bigDollar', encode(sha256(convert_to('large-pool', 'UTF8')), 'hex'), true);
+
+-- Expected values come from drawRandomTickets(pool, 2, 'large-pool') in the browser engine
+SELECT results_eq(
+  $$ SELECT guide_id, drawn_ticket FROM public.draw_prize('00000000-0000-0000-0000-0000000000c9', 'bigDollar', 'large-pool') $$,
+  $$ VALUES (1, 21696), (2, 42201) $$,
+  'draw_prize picks the same tickets as the browser engine on a large pool'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
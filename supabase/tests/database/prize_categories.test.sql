@@ -0,0 +1,120 @@
+-- Prize category management: admins edit the categories of active contests, winner counts
+-- cannot drop below the winners already drawn, retired categories cannot be drawn, and
+-- only admins upload prize images. Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a8', 'prize-admin@example.com'),
+  ('00000000-0000-0000-0000-0000000000b8', 'prize-viewer@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a8', 'admin');
+
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c8', 'Prize test contest');
+
+INSERT INTO public.contests (id, name, status) VALUES
+  ('00000000-0000-0000-0000-0000000000d8', 'Completed prize contest', 'completed');
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c8', 'bigDollar', 'Big Dollar', 'Test prize', 3, '', '', '', 10, 0),
+  ('00000000-0000-0000-0000-0000000000c8', 'smallDollar', 'Small Dollar', 'Test prize', 1, '', '', '', 10, 1),
+  ('00000000-0000-0000-0000-0000000000d8', 'bigDollar', 'Big Dollar', 'Test prize', 1, '', '', '', 10, 0);
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c8', 3, 'Guide Three', 'S', 'IM', 80, 10, 0, 2);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000c8', 3, '{3,6}');
+
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+  prize_category, prize_name, drawn_ticket
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c8', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 1, 'bigDollar', 'Big Dollar', 1),
+  ('00000000-0000-0000-0000-0000000000c8', 2, 'Guide Two', 'S', 'IM', 80, 10, 0, 1, 'bigDollar', 'Big Dollar', 2);
+
+-- Viewers
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b8", "role": "authenticated"}', true);
+
+UPDATE public.prize_categories SET name = 'Renamed by viewer'
+WHERE contest_id = '00000000-0000-0000-0000-0000000000c8' AND id = 'bigDollar';
+
+SELECT results_eq(
+  $$ SELECT name FROM public.prize_categories WHERE contest_id = '00000000-0000-0000-0000-0000000000c8' AND id = 'bigDollar' $$,
+  ARRAY['Big Dollar'],
+  'viewers cannot edit prize categories'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('prize-images', 'viewer.jpg') $$,
+  '42501', NULL, 'viewers cannot upload prize images'
+);
+
+RESET ROLE;
+
+-- Admins
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a8", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.prize_categories SET name = 'Bigger Dollar', sort_order = 1
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c8' AND id = 'bigDollar' $$,
+  'admins can rename and reorder prize categories'
+);
+SELECT results_eq(
+  $$ SELECT name FROM public.prize_categories WHERE contest_id = '00000000-0000-0000-0000-0000000000c8' AND id = 'bigDollar' $$,
+  ARRAY['Bigger Dollar'],
+  'the edit is saved'
+);
+SELECT throws_like(
+  $$ UPDATE public.prize_categories SET winner_count = 1
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c8' AND id = 'bigDollar' $$,
+  '%cannot be lower%',
+  'the winner count cannot drop below the winners already drawn'
+);
+SELECT lives_ok(
+  $$ UPDATE public.prize_categories SET winner_count = 2
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c8' AND id = 'bigDollar' $$,
+  'the winner count can drop to the winners already drawn'
+);
+
+UPDATE public.prize_categories SET name = 'Renamed after completion'
+WHERE contest_id = '00000000-0000-0000-0000-0000000000d8' AND id = 'bigDollar';
+
+SELECT results_eq(
+  $$ SELECT name FROM public.prize_categories WHERE contest_id = '00000000-0000-0000-0000-0000000000d8' AND id = 'bigDollar' $$,
+  ARRAY['Big Dollar'],
+  'categories of completed contests are read-only'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.prize_categories SET retired_at = now()
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c8' AND id = 'smallDollar' $$,
+  'admins can retire a prize category'
+);
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c8', 'smallDollar', encode(sha256(convert_to('replay-check', 'UTF8')), 'hex'));
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c8', 'smallDollar', 'replay-check') $$,
+  '%has been retired%',
+  'retired categories cannot be drawn'
+);
+SELECT lives_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('prize-images', 'admin.jpg') $$,
+  'admins can upload prize images'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,93 @@
+-- The public Verify page: anonymous clients can read everything a draw is replayed from
+-- (contests, guides, ticket assignments, prize categories, draws with their seeds, winners),
+-- but not the audit log or archived snapshots. Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000cb', 'Verify test contest');
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order
+) VALUES (
+  '00000000-0000-0000-0000-0000000000cb', 'bigDollar', 'Big Dollar', 'Test prize', 1, '', '', '', 10, 0
+);
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000cb', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 2);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000cb', 1, '{1,2}');
+
+INSERT INTO public.draws (
+  id, contest_id, prize_category, seed, seed_commitment, algorithm_version, pool_hash, pool_guide_ids, winner_count
+) VALUES (
+  '00000000-0000-0000-0000-0000000000db', '00000000-0000-0000-0000-0000000000cb', 'bigDollar', 'published-seed',
+  encode(sha256(convert_to('published-seed', 'UTF8')), 'hex'), 'sha256-ctr-v1', 'hash', '{1}', 1
+);
+
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+  prize_category, prize_name, drawn_ticket, draw_id
+) VALUES (
+  '00000000-0000-0000-0000-0000000000cb', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 2,
+  'bigDollar', 'Big Dollar', 2, '00000000-0000-0000-0000-0000000000db'
+);
+
+INSERT INTO public.audit_events (contest_id, event_type, payload) VALUES
+  ('00000000-0000-0000-0000-0000000000cb', 'draw_started', '{}');
+
+-- Anonymous clients (anon key, no session)
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$ SELECT name FROM public.contests WHERE id = '00000000-0000-0000-0000-0000000000cb' $$,
+  ARRAY['Verify test contest'],
+  'anon can read contests'
+);
+SELECT results_eq(
+  $$ SELECT name FROM public.contest_guides WHERE contest_id = '00000000-0000-0000-0000-0000000000cb' $$,
+  ARRAY['Guide One'],
+  'anon can read the guide pool'
+);
+SELECT results_eq(
+  $$ SELECT ticket_numbers FROM public.ticket_assignments WHERE contest_id = '00000000-0000-0000-0000-0000000000cb' $$,
+  ARRAY['{1,2}'::integer[]],
+  'anon can read the stored ticket assignment'
+);
+SELECT results_eq(
+  $$ SELECT name FROM public.prize_categories WHERE contest_id = '00000000-0000-0000-0000-0000000000cb' $$,
+  ARRAY['Big Dollar'],
+  'anon can read prize categories'
+);
+SELECT results_eq(
+  $$ SELECT seed FROM public.draws WHERE contest_id = '00000000-0000-0000-0000-0000000000cb' $$,
+  ARRAY['published-seed'],
+  'anon can read draws with their seeds'
+);
+SELECT results_eq(
+  $$ SELECT drawn_ticket FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000cb' $$,
+  ARRAY[2],
+  'anon can read winners and their drawn tickets'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.audit_events $$,
+  '42501', NULL, 'anon cannot read the audit log'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.winner_snapshots $$,
+  '42501', NULL, 'anon cannot read archived snapshots'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
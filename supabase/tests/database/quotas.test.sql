@@ -0,0 +1,170 @@
+-- Contest quotas: department maximums, per-team caps on prize tiers and department minimums
+-- that reserve the last open slots. The draw passes over tickets a quota stops and records
+-- why. Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000aa', 'quota-admin@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000aa', 'admin');
+
+INSERT INTO public.contests (id, name, quota_rules) VALUES (
+  '00000000-0000-0000-0000-0000000000ca', 'Quota test contest',
+  '{
+    "departments": [
+      {"department": "IM", "min": null, "max": 1},
+      {"department": "CS", "min": 1, "max": null}
+    ],
+    "tierCaps": [
+      {"label": "Top", "categoryIds": ["top"], "groupBy": "supervisor", "max": 1}
+    ]
+  }'
+);
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order
+) VALUES
+  ('00000000-0000-0000-0000-0000000000ca', 'top', 'Top', 'Test prize', 3, '', '', '', 10, 0),
+  ('00000000-0000-0000-0000-0000000000ca', 'small', 'Small', 'Test prize', 1, '', '', '', 10, 1);
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000ca', 1, 'Guide One', 'Ann', 'IM', 90, 10, 1, 2),
+  ('00000000-0000-0000-0000-0000000000ca', 2, 'Guide Two', 'Ann', 'CS', 90, 10, 1, 2),
+  ('00000000-0000-0000-0000-0000000000ca', 3, 'Guide Three', 'Bob', 'IM', 90, 10, 1, 2),
+  ('00000000-0000-0000-0000-0000000000ca', 4, 'Guide Four', 'Bob', 'CS', 90, 10, 1, 2),
+  ('00000000-0000-0000-0000-0000000000ca', 6, 'Guide Six', 'Bob', 'Sales', 90, 10, 1, 2);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000ca', 1, '{1,6}'),
+  ('00000000-0000-0000-0000-0000000000ca', 2, '{2,7}'),
+  ('00000000-0000-0000-0000-0000000000ca', 3, '{3,8}'),
+  ('00000000-0000-0000-0000-0000000000ca', 4, '{4,9}'),
+  ('00000000-0000-0000-0000-0000000000ca', 6, '{5,10}');
+
+-- Ann's team already holds a Top prize, and IM its one allowed winner
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+  prize_category, prize_name, drawn_ticket
+) VALUES
+  ('00000000-0000-0000-0000-0000000000ca', 5, 'Guide Five', 'Ann', 'IM', 90, 10, 1, 1, 'top', 'Top', 11);
+
+SELECT like(
+  (SELECT public.quota_skip_reason(g.contest_id, 'small', g) FROM public.contest_guides g
+   WHERE g.contest_id = '00000000-0000-0000-0000-0000000000ca' AND g.guide_id = 1),
+  '%IM already has its maximum%',
+  'a department at its maximum is passed over'
+);
+SELECT like(
+  (SELECT public.quota_skip_reason(g.contest_id, 'top', g) FROM public.contest_guides g
+   WHERE g.contest_id = '00000000-0000-0000-0000-0000000000ca' AND g.guide_id = 2),
+  '%Team Ann already has 1 of the Top prizes%',
+  'a team at its tier cap is passed over for that tier'
+);
+SELECT is(
+  (SELECT public.quota_skip_reason(g.contest_id, 'small', g) FROM public.contest_guides g
+   WHERE g.contest_id = '00000000-0000-0000-0000-0000000000ca' AND g.guide_id = 2),
+  NULL,
+  'tier caps leave the other categories alone'
+);
+SELECT is(
+  (SELECT public.quota_skip_reason(g.contest_id, 'small', g) FROM public.contest_guides g
+   WHERE g.contest_id = '00000000-0000-0000-0000-0000000000ca' AND g.guide_id = 6),
+  NULL,
+  'minimums do not reserve anything while there are more open slots than they need'
+);
+
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+  prize_category, prize_name, drawn_ticket
+) VALUES
+  ('00000000-0000-0000-0000-0000000000ca', 7, 'Guide Seven', 'Cy', 'Sales', 90, 10, 1, 1, 'top', 'Top', 12),
+  ('00000000-0000-0000-0000-0000000000ca', 8, 'Guide Eight', 'Di', 'Sales', 90, 10, 1, 1, 'top', 'Top', 13);
+
+SELECT like(
+  (SELECT public.quota_skip_reason(g.contest_id, 'small', g) FROM public.contest_guides g
+   WHERE g.contest_id = '00000000-0000-0000-0000-0000000000ca' AND g.guide_id = 6),
+  '%reserved for CS%',
+  'the last open slots are reserved for departments below their minimum'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000aa", "role": "authenticated"}', true);
+
+-- No server salt on an offline commitment, so the draw lands on the tickets the quotas stop
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000ca', 'small', encode(sha256(convert_to('replay-check', 'UTF8')), 'hex'), true);
+SELECT results_eq(
+  $$ SELECT department FROM public.draw_prize('00000000-0000-0000-0000-0000000000ca', 'small', 'replay-check') $$,
+  ARRAY['CS'],
+  'the draw passes over tickets the quotas stop'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.draws d, jsonb_array_elements(d.skipped) AS s
+   WHERE d.contest_id = '00000000-0000-0000-0000-0000000000ca'
+     AND ((s->>'guideId')::int IN (2, 4) OR s->>'reason' IS NULL)),
+  0,
+  'only stopped guides are recorded as skipped, each with its reason'
+);
+
+RESET ROLE;
+
+UPDATE public.contests
+SET quota_rules = '{"departments": [{"department": "CS", "min": null, "max": 1}, {"department": "IM", "min": null, "max": 1}, {"department": "Sales", "min": null, "max": 2}]}'
+WHERE id = '00000000-0000-0000-0000-0000000000ca';
+
+UPDATE public.prize_categories SET winner_count = 4
+WHERE contest_id = '00000000-0000-0000-0000-0000000000ca' AND id = 'top';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000aa", "role": "authenticated"}', true);
+
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000ca', 'top', encode(sha256(convert_to('another-seed', 'UTF8')), 'hex'));
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000ca', 'top', 'another-seed') $$,
+  '%held back by the quotas%',
+  'a draw where every ticket left is stopped by a quota fails with the reason'
+);
+
+RESET ROLE;
+
+-- CS needs one more winner and one Top slot is open. Voiding Guide Seven holds their slot for
+-- the redraw, which may fill it with anyone
+UPDATE public.contests
+SET quota_rules = '{"departments": [{"department": "CS", "min": 2, "max": null}]}'
+WHERE id = '00000000-0000-0000-0000-0000000000ca';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000aa", "role": "authenticated"}', true);
+
+SELECT public.void_winner(
+  (SELECT id FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000ca' AND guide_id = 7),
+  'Left the company'
+);
+
+SELECT like(
+  (SELECT public.quota_skip_reason(g.contest_id, 'top', g) FROM public.contest_guides g
+   WHERE g.contest_id = '00000000-0000-0000-0000-0000000000ca' AND g.guide_id = 6),
+  '%reserved for CS%',
+  'a voided winner''s slot stays taken for a regular draw'
+);
+SELECT is(
+  (SELECT public.quota_skip_reason(g.contest_id, 'top', g, w.id)
+   FROM public.contest_guides g, public.winners w
+   WHERE g.contest_id = '00000000-0000-0000-0000-0000000000ca' AND g.guide_id = 6
+     AND w.contest_id = g.contest_id AND w.guide_id = 7),
+  NULL,
+  'the redraw counts the slot it is filling as open'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,139 @@
+-- Row level security for writes: anonymous clients and viewers cannot change
+-- winners or contest data, admins can. Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(22);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'rls-admin@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'rls-viewer@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'admin');
+
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', 'RLS test contest');
+
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets, prize_category, prize_name
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c1', 1, 'Fixture Winner', 'Supervisor', 'IM', 80, 10, 0, 10, 'bigDollar', 'Big Dollar'
+);
+
+-- Anonymous clients (anon key, no session)
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.winners (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', 2, 'Forged', 'S', 'IM', 90, 10, 0, 10) $$,
+  '42501', NULL, 'anon cannot insert winners'
+);
+SELECT throws_ok(
+  $$ UPDATE public.winners SET name = 'Renamed' WHERE contest_id = '00000000-0000-0000-0000-0000000000c1' $$,
+  '42501', NULL, 'anon cannot update winners'
+);
+SELECT throws_ok(
+  $$ DELETE FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c1' $$,
+  '42501', NULL, 'anon cannot delete winners'
+);
+SELECT throws_ok(
+  $$ SELECT public.archive_winners('00000000-0000-0000-0000-0000000000c1', 'Forged snapshot') $$,
+  '42501', NULL, 'anon cannot archive winners'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.draws (contest_id, prize_category, seed, seed_commitment, algorithm_version, pool_hash, pool_guide_ids, winner_count)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', 'bigDollar', 's', 'c', 'sha256-ctr-v1', 'h', '{1}', 1) $$,
+  '42501', NULL, 'anon cannot record draws'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.contests (name) VALUES ('Forged contest') $$,
+  '42501', NULL, 'anon cannot create contests'
+);
+SELECT throws_ok(
+  $$ UPDATE public.contests SET status = 'completed' WHERE id = '00000000-0000-0000-0000-0000000000c1' $$,
+  '42501', NULL, 'anon cannot complete contests'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.contest_guides (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', 99, 'Forged', 'S', 'IM', 90, 10, 0, 500) $$,
+  '42501', NULL, 'anon cannot add guides'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', 1, '{1,2,3}') $$,
+  '42501', NULL, 'anon cannot write ticket assignments'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.user_roles (user_id, role) VALUES ('00000000-0000-0000-0000-0000000000b1', 'admin') $$,
+  '42501', NULL, 'anon cannot grant roles'
+);
+SELECT throws_ok(
+  $$ SELECT public.replace_contest_roster('00000000-0000-0000-0000-0000000000c1', '[]'::jsonb) $$,
+  '42501', NULL, 'anon cannot replace a roster'
+);
+SELECT results_eq(
+  $$ SELECT count(*)::int FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c1' $$,
+  ARRAY[1],
+  'anon can still read winners'
+);
+
+RESET ROLE;
+
+-- Signed-in viewer (no user_roles row)
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.winners (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', 2, 'Forged', 'S', 'IM', 90, 10, 0, 10) $$,
+  '42501', NULL, 'viewer cannot insert winners'
+);
+SELECT is_empty(
+  $$ DELETE FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c1' RETURNING id $$,
+  'viewer deletes match no winners'
+);
+SELECT throws_ok(
+  $$ SELECT public.archive_winners('00000000-0000-0000-0000-0000000000c1', 'Forged snapshot') $$,
+  '42501', NULL, 'viewer cannot archive winners'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.user_roles (user_id, role) VALUES ('00000000-0000-0000-0000-0000000000b1', 'admin') $$,
+  '42501', NULL, 'viewer cannot promote themselves'
+);
+SELECT results_eq(
+  $$ SELECT count(*)::int FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c1' $$,
+  ARRAY[1],
+  'viewer writes left the winners untouched'
+);
+SELECT is(public.is_admin(), false, 'viewer is not an admin');
+
+RESET ROLE;
+
+-- Admin
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+SELECT is(public.is_admin(), true, 'admin is an admin');
+SELECT throws_ok(
+  $$ INSERT INTO public.winners (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', 2, 'Hand-picked', 'S', 'IM', 90, 10, 0, 10) $$,
+  '42501', NULL, 'admins cannot insert winners directly either; they come from draw_prize'
+);
+SELECT lives_ok(
+  $$ SELECT public.archive_winners('00000000-0000-0000-0000-0000000000c1', 'Before re-draw') $$,
+  'admin can archive the winners'
+);
+SELECT is_empty(
+  $$ SELECT id FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c1' $$,
+  'contest has no winners after the archive'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
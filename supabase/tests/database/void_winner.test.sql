@@ -0,0 +1,129 @@
+-- Voiding and redrawing: a voided winner keeps their row, their slot is held for
+-- a linked redraw, and only that redraw can fill it.
+-- Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a7', 'void-admin@example.com'),
+  ('00000000-0000-0000-0000-0000000000b7', 'void-viewer@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a7', 'admin');
+
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c7', 'Void test contest');
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c7', 'bigDollar', 'Big Dollar', 'Test prize', 1, '', '', '', 10, 0
+);
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c7', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 3),
+  ('00000000-0000-0000-0000-0000000000c7', 2, 'Guide Two', 'S', 'IM', 80, 10, 0, 2),
+  ('00000000-0000-0000-0000-0000000000c7', 3, 'Guide Three', 'S', 'IM', 80, 10, 0, 4);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000c7', 1, '{1,4,7}'),
+  ('00000000-0000-0000-0000-0000000000c7', 2, '{2,5}'),
+  ('00000000-0000-0000-0000-0000000000c7', 3, '{3,6,8,9}');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a7", "role": "authenticated"}', true);
+
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c7', 'bigDollar', encode(sha256(convert_to('replay-check', 'UTF8')), 'hex'), true);
+
+-- Committed offline, so no server salt: pick 0 of 'replay-check' lands on ticket 4 of the full pool
+SELECT results_eq(
+  $$ SELECT guide_id, drawn_ticket FROM public.draw_prize('00000000-0000-0000-0000-0000000000c7', 'bigDollar', 'replay-check') $$,
+  $$ VALUES (1, 4) $$,
+  'the first draw picks Guide One'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b7", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.void_winner((SELECT id FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c7'), 'Left the company') $$,
+  '42501', NULL, 'viewers cannot void winners'
+);
+
+RESET ROLE;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a7", "role": "authenticated"}', true);
+
+SELECT throws_like(
+  $$ SELECT public.void_winner((SELECT id FROM public.winners WHERE guide_id = 1 AND contest_id = '00000000-0000-0000-0000-0000000000c7'), ' ') $$,
+  '%reason is required%',
+  'voiding needs a reason'
+);
+SELECT lives_ok(
+  $$ SELECT public.void_winner((SELECT id FROM public.winners WHERE guide_id = 1 AND contest_id = '00000000-0000-0000-0000-0000000000c7'), 'Left the company') $$,
+  'admins can void a winner'
+);
+SELECT results_eq(
+  $$ SELECT void_reason, voided_by FROM public.winners WHERE guide_id = 1 AND contest_id = '00000000-0000-0000-0000-0000000000c7' $$,
+  $$ VALUES ('Left the company'::text, '00000000-0000-0000-0000-0000000000a7'::uuid) $$,
+  'the voided row is kept with its reason and who voided it'
+);
+SELECT throws_like(
+  $$ SELECT public.void_winner((SELECT id FROM public.winners WHERE guide_id = 1 AND contest_id = '00000000-0000-0000-0000-0000000000c7'), 'Again') $$,
+  '%already been voided%',
+  'a winner can only be voided once'
+);
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize('00000000-0000-0000-0000-0000000000c7', 'bigDollar', 'another-seed') $$,
+  '%already has all of its winners%',
+  'an unlinked draw cannot take the slot held for the redraw'
+);
+
+SELECT public.commit_draw_seed('00000000-0000-0000-0000-0000000000c7', 'bigDollar', encode(sha256(convert_to('replay-check', 'UTF8')), 'hex'), true);
+
+-- Without Guide One the sorted pool is 2,3,5,6,8,9 and pick 0 lands on ticket 5
+SELECT results_eq(
+  $$ SELECT guide_id, drawn_ticket, replaces_winner_id FROM public.draw_prize(
+       '00000000-0000-0000-0000-0000000000c7', 'bigDollar', 'replay-check',
+       (SELECT id FROM public.winners WHERE guide_id = 1 AND contest_id = '00000000-0000-0000-0000-0000000000c7')
+     ) $$,
+  $$ SELECT 2, 5, id FROM public.winners WHERE guide_id = 1 AND contest_id = '00000000-0000-0000-0000-0000000000c7' $$,
+  'the redraw picks from the remaining pool and is linked to the voided winner'
+);
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize(
+       '00000000-0000-0000-0000-0000000000c7', 'bigDollar', 'another-seed',
+       (SELECT id FROM public.winners WHERE guide_id = 1 AND contest_id = '00000000-0000-0000-0000-0000000000c7')
+     ) $$,
+  '%already been redrawn%',
+  'a voided winner is replaced only once'
+);
+SELECT throws_like(
+  $$ SELECT * FROM public.draw_prize(
+       '00000000-0000-0000-0000-0000000000c7', 'bigDollar', 'another-seed',
+       (SELECT id FROM public.winners WHERE guide_id = 2 AND contest_id = '00000000-0000-0000-0000-0000000000c7')
+     ) $$,
+  '%has not been voided%',
+  'only voided winners can be redrawn'
+);
+SELECT results_eq(
+  $$ SELECT payload->>'reason' FROM public.audit_events
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c7' AND event_type = 'winner_voided' $$,
+  ARRAY['Left the company'],
+  'voiding is recorded in the audit log'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,67 @@
+-- Winner integrity: a guide wins once per contest, a ticket is drawn once per
+-- contest, and a prize category never holds more than its winner_count.
+-- Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+-- Fixtures and inserts run as the migration owner, so these checks exercise the
+-- constraints themselves rather than row level security
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c3', 'Integrity test contest'),
+  ('00000000-0000-0000-0000-0000000000c4', 'Second integrity test contest');
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c3', 'bigDollar', 'Big Dollar', 'Test prize', 2, '', '', '', 10, 0
+);
+
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+  prize_category, prize_name, drawn_ticket
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c3', 1, 'First Winner', 'S', 'IM', 80, 10, 0, 3, 'bigDollar', 'Big Dollar', 11
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.winners (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets, prize_category, prize_name, drawn_ticket)
+     VALUES ('00000000-0000-0000-0000-0000000000c3', 1, 'First Winner', 'S', 'IM', 80, 10, 0, 3, 'bigDollar', 'Big Dollar', 12) $$,
+  '23505', NULL, 'a guide cannot win twice in the same contest'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.winners (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets, prize_category, prize_name, drawn_ticket)
+     VALUES ('00000000-0000-0000-0000-0000000000c3', 2, 'Second Winner', 'S', 'IM', 80, 10, 0, 3, 'bigDollar', 'Big Dollar', 11) $$,
+  '23505', NULL, 'a ticket cannot be drawn twice in the same contest'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.winners (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets, prize_category, prize_name, drawn_ticket)
+     VALUES ('00000000-0000-0000-0000-0000000000c3', 2, 'Second Winner', 'S', 'IM', 80, 10, 0, 3, 'bigDollar', 'Big Dollar', 12) $$,
+  'the category accepts winners up to its winner_count'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.winners (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets, prize_category, prize_name, drawn_ticket)
+     VALUES ('00000000-0000-0000-0000-0000000000c3', 3, 'Third Winner', 'S', 'IM', 80, 10, 0, 3, 'bigDollar', 'Big Dollar', 13) $$,
+  '23514', NULL, 'a full category rejects another winner'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.winners SET prize_category = 'bigDollar'
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c3' AND guide_id = 1 $$,
+  'a winner already in a full category does not count against itself'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.winners (contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets, prize_category, prize_name, drawn_ticket)
+     VALUES ('00000000-0000-0000-0000-0000000000c4', 1, 'First Winner', 'S', 'IM', 80, 10, 0, 3, 'bigDollar', 'Big Dollar', 11) $$,
+  'the same guide and ticket can win in another contest'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
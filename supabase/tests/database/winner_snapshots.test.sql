@@ -0,0 +1,140 @@
+-- Winner snapshots: archiving moves winners into a snapshot instead of deleting
+-- them, and a restore either puts all of them back or none.
+-- Run against the local stack with:
+--   supabase start && supabase test db
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+-- Fixtures are created as the migration owner, which bypasses RLS
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a6', 'snapshot-admin@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a6', 'admin');
+
+INSERT INTO public.contests (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000c6', 'Snapshot test contest');
+
+INSERT INTO public.prize_categories (
+  contest_id, id, name, description, winner_count, image, gradient, icon, countdown_seconds, sort_order
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c6', 'bigDollar', 'Big Dollar', 'Test prize', 1, '', '', '', 10, 0
+);
+
+INSERT INTO public.contest_guides (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets
+) VALUES
+  ('00000000-0000-0000-0000-0000000000c6', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 2),
+  ('00000000-0000-0000-0000-0000000000c6', 2, 'Guide Two', 'S', 'IM', 80, 10, 0, 2);
+
+INSERT INTO public.ticket_assignments (contest_id, guide_id, ticket_numbers) VALUES
+  ('00000000-0000-0000-0000-0000000000c6', 1, '{1,4}'),
+  ('00000000-0000-0000-0000-0000000000c6', 2, '{2,5}');
+
+INSERT INTO public.winners (
+  id, contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+  prize_category, prize_name, drawn_ticket
+) VALUES (
+  '00000000-0000-0000-0000-0000000000d6', '00000000-0000-0000-0000-0000000000c6', 1, 'Guide One', 'S', 'IM', 80, 10, 0, 2,
+  'bigDollar', 'Big Dollar', 4
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a6", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ DELETE FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c6' RETURNING id $$,
+  'admins cannot delete winners directly'
+);
+SELECT throws_like(
+  $$ SELECT public.archive_winners('00000000-0000-0000-0000-0000000000c6', '  ') $$,
+  '%name is required%',
+  'a snapshot needs a name'
+);
+SELECT lives_ok(
+  $$ SELECT public.archive_winners('00000000-0000-0000-0000-0000000000c6', 'First run') $$,
+  'admin can archive the winners'
+);
+SELECT is_empty(
+  $$ SELECT id FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c6' $$,
+  'archived winners leave the contest'
+);
+SELECT results_eq(
+  $$ SELECT name, winner_count, winners->0->>'name' FROM public.winner_snapshots
+     WHERE contest_id = '00000000-0000-0000-0000-0000000000c6' $$,
+  $$ VALUES ('First run'::text, 1, 'Guide One'::text) $$,
+  'the snapshot keeps the archived winners'
+);
+SELECT throws_like(
+  $$ SELECT public.archive_winners('00000000-0000-0000-0000-0000000000c6', 'Empty run') $$,
+  '%no winners to archive%',
+  'an empty contest cannot be archived'
+);
+
+SELECT is(
+  public.restore_winner_snapshot((SELECT id FROM public.winner_snapshots WHERE name = 'First run')),
+  1,
+  'admin can restore the snapshot'
+);
+SELECT results_eq(
+  $$ SELECT id, guide_id, drawn_ticket FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c6' $$,
+  $$ VALUES ('00000000-0000-0000-0000-0000000000d6'::uuid, 1, 4) $$,
+  'restored winners come back unchanged'
+);
+SELECT throws_like(
+  $$ SELECT public.restore_winner_snapshot((SELECT id FROM public.winner_snapshots WHERE name = 'First run')) $$,
+  '%already been restored%',
+  'a snapshot can only be restored once'
+);
+
+-- Archive again and fill the only Big Dollar slot with someone else
+SELECT lives_ok(
+  $$ SELECT public.archive_winners('00000000-0000-0000-0000-0000000000c6', 'Second run') $$,
+  'admin can archive the restored winners again'
+);
+
+RESET ROLE;
+
+INSERT INTO public.winners (
+  contest_id, guide_id, name, supervisor, department, nps, nrpc, refund_percent, total_tickets,
+  prize_category, prize_name, drawn_ticket
+) VALUES (
+  '00000000-0000-0000-0000-0000000000c6', 2, 'Guide Two', 'S', 'IM', 80, 10, 0, 2, 'bigDollar', 'Big Dollar', 5
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a6", "role": "authenticated"}', true);
+
+SELECT throws_like(
+  $$ SELECT public.restore_winner_snapshot((SELECT id FROM public.winner_snapshots WHERE name = 'Second run')) $$,
+  '%would have too many winners%',
+  'a restore cannot overfill a prize category'
+);
+SELECT results_eq(
+  $$ SELECT guide_id FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c6' $$,
+  ARRAY[2],
+  'a failed restore changes nothing'
+);
+
+RESET ROLE;
+
+-- Guide One leaves the roster
+DELETE FROM public.winners WHERE contest_id = '00000000-0000-0000-0000-0000000000c6';
+DELETE FROM public.contest_guides WHERE contest_id = '00000000-0000-0000-0000-0000000000c6' AND guide_id = 1;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a6", "role": "authenticated"}', true);
+
+SELECT throws_like(
+  $$ SELECT public.restore_winner_snapshot((SELECT id FROM public.winner_snapshots WHERE name = 'Second run')) $$,
+  '%no longer in the roster: Guide One%',
+  'a restore fails when a guide has left the roster'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;